@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "LeaveLedgerEntryType" AS ENUM ('ACCRUAL', 'CONSUMPTION', 'ADJUSTMENT', 'EXPIRY');
+
+-- CreateTable
+CREATE TABLE "LeaveBalanceEntry" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "leaveType" "LeaveType" NOT NULL,
+    "entryType" "LeaveLedgerEntryType" NOT NULL,
+    "days" DECIMAL(6,2) NOT NULL,
+    "leaveId" TEXT,
+    "reason" TEXT,
+    "createdBy" TEXT,
+    "effectiveDate" DATE NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LeaveBalanceEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LeaveBalanceEntry_employeeId_leaveType_idx" ON "LeaveBalanceEntry"("employeeId", "leaveType");
+
+-- CreateIndex
+CREATE INDEX "LeaveBalanceEntry_leaveId_idx" ON "LeaveBalanceEntry"("leaveId");
+
+-- AddForeignKey
+ALTER TABLE "LeaveBalanceEntry" ADD CONSTRAINT "LeaveBalanceEntry_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeaveBalanceEntry" ADD CONSTRAINT "LeaveBalanceEntry_leaveId_fkey" FOREIGN KEY ("leaveId") REFERENCES "Leave"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "AccrualFrequency" AS ENUM ('MONTHLY', 'YEARLY');
+
+-- CreateTable
+CREATE TABLE "LeavePolicy" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "leaveType" "LeaveType" NOT NULL,
+    "department" TEXT,
+    "accrualFrequency" "AccrualFrequency" NOT NULL DEFAULT 'MONTHLY',
+    "accrualDays" DECIMAL(6,2) NOT NULL DEFAULT 0,
+    "maxBalance" DECIMAL(6,2),
+    "carryForwardLimit" DECIMAL(6,2),
+    "minNoticeDays" INTEGER NOT NULL DEFAULT 0,
+    "maxConsecutiveDays" INTEGER,
+    "probationDays" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LeavePolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LeavePolicy_department_idx" ON "LeavePolicy"("department");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LeavePolicy_leaveType_department_key" ON "LeavePolicy"("leaveType", "department");
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "LeaveDuration" AS ENUM ('FULL_DAY', 'FIRST_HALF', 'SECOND_HALF', 'HOURS');
+
+-- AlterTable
+ALTER TABLE "Leave" ADD COLUMN     "duration" "LeaveDuration" NOT NULL DEFAULT 'FULL_DAY',
+ADD COLUMN     "hours" DECIMAL(4,2);
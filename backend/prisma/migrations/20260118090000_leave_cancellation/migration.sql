@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "LeaveStatus" ADD VALUE 'CANCELLED';
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'CANCEL';
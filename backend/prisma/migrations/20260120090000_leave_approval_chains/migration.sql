@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "ApprovalMode" AS ENUM ('SEQUENTIAL', 'ANY_OF');
+
+-- CreateEnum
+CREATE TYPE "ApproverType" AS ENUM ('EMPLOYEE', 'ROLE');
+
+-- AlterTable
+ALTER TABLE "Leave" ADD COLUMN     "approvalChainId" TEXT,
+ADD COLUMN     "currentStep" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "LeaveApproval" ADD COLUMN     "stepOrder" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ApprovalChain" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "department" TEXT,
+    "mode" "ApprovalMode" NOT NULL DEFAULT 'SEQUENTIAL',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApprovalChain_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApprovalChainStep" (
+    "id" TEXT NOT NULL,
+    "chainId" TEXT NOT NULL,
+    "stepOrder" INTEGER NOT NULL,
+    "approverType" "ApproverType" NOT NULL,
+    "approverRole" "Role",
+    "approverEmployeeId" TEXT,
+
+    CONSTRAINT "ApprovalChainStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ApprovalChain_department_idx" ON "ApprovalChain"("department");
+
+-- CreateIndex
+CREATE INDEX "ApprovalChainStep_approverEmployeeId_idx" ON "ApprovalChainStep"("approverEmployeeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApprovalChainStep_chainId_stepOrder_key" ON "ApprovalChainStep"("chainId", "stepOrder");
+
+-- AddForeignKey
+ALTER TABLE "Leave" ADD CONSTRAINT "Leave_approvalChainId_fkey" FOREIGN KEY ("approvalChainId") REFERENCES "ApprovalChain"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalChainStep" ADD CONSTRAINT "ApprovalChainStep_chainId_fkey" FOREIGN KEY ("chainId") REFERENCES "ApprovalChain"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalChainStep" ADD CONSTRAINT "ApprovalChainStep_approverEmployeeId_fkey" FOREIGN KEY ("approverEmployeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "ApproverType" ADD VALUE 'REPORTING_MANAGER';
+
+-- AlterTable
+ALTER TABLE "Employee" ADD COLUMN     "managerId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Employee_managerId_idx" ON "Employee"("managerId");
+
+-- AddForeignKey
+ALTER TABLE "Employee" ADD CONSTRAINT "Employee_managerId_fkey" FOREIGN KEY ("managerId") REFERENCES "Employee"("id") ON DELETE SET NULL ON UPDATE CASCADE;
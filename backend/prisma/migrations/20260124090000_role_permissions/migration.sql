@@ -0,0 +1,41 @@
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'HR';
+ALTER TYPE "Role" ADD VALUE 'PAYROLL_ADMIN';
+ALTER TYPE "Role" ADD VALUE 'MANAGER';
+ALTER TYPE "Role" ADD VALUE 'AUDITOR';
+
+-- CreateTable
+CREATE TABLE "UserRole" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "Role" NOT NULL,
+    "assignedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserRole_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RolePermission" (
+    "id" TEXT NOT NULL,
+    "role" "Role" NOT NULL,
+    "permission" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RolePermission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UserRole_userId_idx" ON "UserRole"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserRole_userId_role_key" ON "UserRole"("userId", "role");
+
+-- CreateIndex
+CREATE INDEX "RolePermission_role_idx" ON "RolePermission"("role");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RolePermission_role_permission_key" ON "RolePermission"("role", "permission");
+
+-- AddForeignKey
+ALTER TABLE "UserRole" ADD CONSTRAINT "UserRole_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "PayrollRunStatus" AS ENUM ('DRAFT', 'REVIEWED', 'FINALIZED', 'PAID');
+
+-- AlterTable
+ALTER TABLE "Payroll" ADD COLUMN     "runId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PayrollRun" (
+    "id" TEXT NOT NULL,
+    "month" DATE NOT NULL,
+    "status" "PayrollRunStatus" NOT NULL DEFAULT 'DRAFT',
+    "employeeCount" INTEGER NOT NULL DEFAULT 0,
+    "totalBaseSalary" DECIMAL(14,2) NOT NULL DEFAULT 0,
+    "totalAllowances" DECIMAL(14,2) NOT NULL DEFAULT 0,
+    "totalDeductions" DECIMAL(14,2) NOT NULL DEFAULT 0,
+    "totalNetSalary" DECIMAL(14,2) NOT NULL DEFAULT 0,
+    "createdBy" TEXT NOT NULL,
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "finalizedBy" TEXT,
+    "finalizedAt" TIMESTAMP(3),
+    "paidBy" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "reopenedBy" TEXT,
+    "reopenedAt" TIMESTAMP(3),
+    "reopenReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayrollRun_month_key" ON "PayrollRun"("month");
+
+-- CreateIndex
+CREATE INDEX "PayrollRun_status_idx" ON "PayrollRun"("status");
+
+-- CreateIndex
+CREATE INDEX "Payroll_runId_idx" ON "Payroll"("runId");
+
+-- AddForeignKey
+ALTER TABLE "Payroll" ADD CONSTRAINT "Payroll_runId_fkey" FOREIGN KEY ("runId") REFERENCES "PayrollRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Payroll" ADD COLUMN     "lossOfPayAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "lossOfPayBreakdown" JSONB,
+ADD COLUMN     "lossOfPayDays" DECIMAL(5,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "payableDays" DECIMAL(5,2);
+
+-- AlterTable
+ALTER TABLE "PayrollRun" ADD COLUMN     "totalLossOfPay" DECIMAL(14,2) NOT NULL DEFAULT 0;
@@ -0,0 +1,95 @@
+-- CreateEnum
+CREATE TYPE "SalaryComponentType" AS ENUM ('EARNING', 'DEDUCTION');
+
+-- CreateEnum
+CREATE TYPE "SalaryCalculationType" AS ENUM ('FIXED', 'PERCENTAGE', 'FORMULA');
+
+-- CreateTable
+CREATE TABLE "PayrollLineItem" (
+    "id" TEXT NOT NULL,
+    "payrollId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "SalaryComponentType" NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "PayrollLineItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SalaryStructure" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SalaryStructure_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SalaryComponent" (
+    "id" TEXT NOT NULL,
+    "structureId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "SalaryComponentType" NOT NULL,
+    "calculationType" "SalaryCalculationType" NOT NULL,
+    "amount" DECIMAL(12,2),
+    "percentage" DECIMAL(5,2),
+    "baseCode" TEXT,
+    "formula" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "SalaryComponent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SalaryStructureAssignment" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "structureId" TEXT NOT NULL,
+    "monthlyGross" DECIMAL(12,2) NOT NULL,
+    "effectiveFrom" DATE NOT NULL,
+    "effectiveTo" DATE,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SalaryStructureAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PayrollLineItem_payrollId_idx" ON "PayrollLineItem"("payrollId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SalaryStructure_name_key" ON "SalaryStructure"("name");
+
+-- CreateIndex
+CREATE INDEX "SalaryComponent_structureId_idx" ON "SalaryComponent"("structureId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SalaryComponent_structureId_code_key" ON "SalaryComponent"("structureId", "code");
+
+-- CreateIndex
+CREATE INDEX "SalaryStructureAssignment_employeeId_idx" ON "SalaryStructureAssignment"("employeeId");
+
+-- CreateIndex
+CREATE INDEX "SalaryStructureAssignment_structureId_idx" ON "SalaryStructureAssignment"("structureId");
+
+-- CreateIndex
+CREATE INDEX "SalaryStructureAssignment_effectiveFrom_idx" ON "SalaryStructureAssignment"("effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "PayrollLineItem" ADD CONSTRAINT "PayrollLineItem_payrollId_fkey" FOREIGN KEY ("payrollId") REFERENCES "Payroll"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalaryComponent" ADD CONSTRAINT "SalaryComponent_structureId_fkey" FOREIGN KEY ("structureId") REFERENCES "SalaryStructure"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalaryStructureAssignment" ADD CONSTRAINT "SalaryStructureAssignment_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalaryStructureAssignment" ADD CONSTRAINT "SalaryStructureAssignment_structureId_fkey" FOREIGN KEY ("structureId") REFERENCES "SalaryStructure"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
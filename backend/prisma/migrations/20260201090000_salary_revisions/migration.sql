@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "Payroll" ADD COLUMN     "arrears" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "arrearsBreakdown" JSONB;
+
+-- CreateTable
+CREATE TABLE "SalaryRevision" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "assignmentId" TEXT NOT NULL,
+    "effectiveDate" DATE NOT NULL,
+    "previousMonthlyGross" DECIMAL(12,2),
+    "newMonthlyGross" DECIMAL(12,2) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "arrearsPayrollId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SalaryRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SalaryRevision_assignmentId_key" ON "SalaryRevision"("assignmentId");
+
+-- CreateIndex
+CREATE INDEX "SalaryRevision_employeeId_idx" ON "SalaryRevision"("employeeId");
+
+-- CreateIndex
+CREATE INDEX "SalaryRevision_effectiveDate_idx" ON "SalaryRevision"("effectiveDate");
+
+-- AddForeignKey
+ALTER TABLE "SalaryRevision" ADD CONSTRAINT "SalaryRevision_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalaryRevision" ADD CONSTRAINT "SalaryRevision_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "SalaryStructureAssignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalaryRevision" ADD CONSTRAINT "SalaryRevision_arrearsPayrollId_fkey" FOREIGN KEY ("arrearsPayrollId") REFERENCES "Payroll"("id") ON DELETE SET NULL ON UPDATE CASCADE;
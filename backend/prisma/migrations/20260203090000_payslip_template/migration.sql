@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "PayslipTemplate" (
+    "id" TEXT NOT NULL,
+    "companyName" TEXT NOT NULL,
+    "companyAddress" TEXT,
+    "title" TEXT NOT NULL DEFAULT 'Payslip',
+    "footerNote" TEXT,
+    "accentColor" TEXT NOT NULL DEFAULT '#1f2937',
+    "showYtd" BOOLEAN NOT NULL DEFAULT true,
+    "showAmountInWords" BOOLEAN NOT NULL DEFAULT true,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayslipTemplate_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "TaxRegime" AS ENUM ('OLD', 'NEW');
+
+-- AlterTable
+ALTER TABLE "Payroll" ADD COLUMN     "employerContributions" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "statutoryBreakdown" JSONB,
+ADD COLUMN     "statutoryDeductions" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "PayrollRun" ADD COLUMN     "totalEmployerContributions" DECIMAL(14,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "totalStatutoryDeductions" DECIMAL(14,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "StatutoryRateSet" (
+    "id" TEXT NOT NULL,
+    "financialYear" TEXT NOT NULL,
+    "incomeTax" JSONB NOT NULL,
+    "providentFund" JSONB NOT NULL,
+    "employeeStateInsurance" JSONB NOT NULL,
+    "professionalTax" JSONB NOT NULL,
+    "updatedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StatutoryRateSet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StatutoryProfile" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "taxRegime" "TaxRegime" NOT NULL DEFAULT 'NEW',
+    "declaredDeductions" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "professionalTaxState" TEXT,
+    "providentFundEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StatutoryProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StatutoryRateSet_financialYear_key" ON "StatutoryRateSet"("financialYear");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StatutoryProfile_employeeId_key" ON "StatutoryProfile"("employeeId");
+
+-- AddForeignKey
+ALTER TABLE "StatutoryProfile" ADD CONSTRAINT "StatutoryProfile_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Payroll" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'INR';
@@ -0,0 +1,24 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'EXPORT';
+
+-- CreateTable
+CREATE TABLE "BankAccount" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "accountHolderName" TEXT NOT NULL,
+    "accountNumber" TEXT NOT NULL,
+    "accountLast4" TEXT NOT NULL,
+    "ifscCode" TEXT NOT NULL,
+    "bankName" TEXT,
+    "updatedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BankAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BankAccount_employeeId_key" ON "BankAccount"("employeeId");
+
+-- AddForeignKey
+ALTER TABLE "BankAccount" ADD CONSTRAINT "BankAccount_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
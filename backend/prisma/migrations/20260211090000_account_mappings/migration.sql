@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "AccountMapping" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "accountCode" TEXT NOT NULL,
+    "accountName" TEXT NOT NULL,
+    "updatedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AccountMapping_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccountMapping_key_key" ON "AccountMapping"("key");
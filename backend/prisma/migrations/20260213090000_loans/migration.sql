@@ -0,0 +1,99 @@
+-- CreateEnum
+CREATE TYPE "LoanType" AS ENUM ('LOAN', 'ADVANCE');
+
+-- CreateEnum
+CREATE TYPE "LoanStatus" AS ENUM ('PENDING', 'ACTIVE', 'CLOSED', 'REJECTED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "LoanInstallmentStatus" AS ENUM ('SCHEDULED', 'DEDUCTED', 'SKIPPED');
+
+-- AlterTable
+ALTER TABLE "Payroll" ADD COLUMN "loanDeductions" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "PayrollRun" ADD COLUMN "totalLoanDeductions" DECIMAL(14,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "Loan" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "type" "LoanType" NOT NULL DEFAULT 'LOAN',
+    "principal" DECIMAL(12,2) NOT NULL,
+    "annualInterestRate" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "tenureMonths" INTEGER NOT NULL,
+    "startMonth" DATE,
+    "emiAmount" DECIMAL(12,2),
+    "outstandingPrincipal" DECIMAL(12,2) NOT NULL,
+    "status" "LoanStatus" NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT,
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewComment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Loan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LoanInstallment" (
+    "id" TEXT NOT NULL,
+    "loanId" TEXT NOT NULL,
+    "month" DATE NOT NULL,
+    "openingBalance" DECIMAL(12,2) NOT NULL,
+    "principal" DECIMAL(12,2) NOT NULL,
+    "interest" DECIMAL(12,2) NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "closingBalance" DECIMAL(12,2) NOT NULL,
+    "status" "LoanInstallmentStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "payrollId" TEXT,
+    "skipReason" TEXT,
+    "skipApprovedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LoanInstallment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LoanPrepayment" (
+    "id" TEXT NOT NULL,
+    "loanId" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "paidOn" DATE NOT NULL,
+    "note" TEXT,
+    "recordedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LoanPrepayment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Loan_employeeId_idx" ON "Loan"("employeeId");
+
+-- CreateIndex
+CREATE INDEX "Loan_status_idx" ON "Loan"("status");
+
+-- CreateIndex
+CREATE INDEX "LoanInstallment_month_idx" ON "LoanInstallment"("month");
+
+-- CreateIndex
+CREATE INDEX "LoanInstallment_payrollId_idx" ON "LoanInstallment"("payrollId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LoanInstallment_loanId_month_key" ON "LoanInstallment"("loanId", "month");
+
+-- CreateIndex
+CREATE INDEX "LoanPrepayment_loanId_idx" ON "LoanPrepayment"("loanId");
+
+-- AddForeignKey
+ALTER TABLE "Loan" ADD CONSTRAINT "Loan_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoanInstallment" ADD CONSTRAINT "LoanInstallment_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "Loan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoanInstallment" ADD CONSTRAINT "LoanInstallment_payrollId_fkey" FOREIGN KEY ("payrollId") REFERENCES "Payroll"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoanPrepayment" ADD CONSTRAINT "LoanPrepayment_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "Loan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
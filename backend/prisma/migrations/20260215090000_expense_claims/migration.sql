@@ -0,0 +1,125 @@
+-- CreateEnum
+CREATE TYPE "ExpenseClaimStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "Payroll" ADD COLUMN "reimbursements" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "PayrollRun" ADD COLUMN "totalReimbursements" DECIMAL(14,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ExpenseCategory" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "monthlyLimit" DECIMAL(12,2),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "updatedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExpenseCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExpenseClaim" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'INR',
+    "expenseDate" DATE NOT NULL,
+    "description" TEXT,
+    "approvalChainId" TEXT,
+    "currentStep" INTEGER NOT NULL DEFAULT 1,
+    "status" "ExpenseClaimStatus" NOT NULL DEFAULT 'PENDING',
+    "rejectionReason" TEXT,
+    "payrollId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExpenseClaim_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExpenseClaimApproval" (
+    "id" TEXT NOT NULL,
+    "claimId" TEXT NOT NULL,
+    "approvedBy" TEXT NOT NULL,
+    "approvalDate" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "stepOrder" INTEGER,
+    "comments" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExpenseClaimApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExpenseReceipt" (
+    "id" TEXT NOT NULL,
+    "claimId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "storedName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExpenseReceipt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExpenseCategory_code_key" ON "ExpenseCategory"("code");
+
+-- CreateIndex
+CREATE INDEX "ExpenseClaim_employeeId_idx" ON "ExpenseClaim"("employeeId");
+
+-- CreateIndex
+CREATE INDEX "ExpenseClaim_status_idx" ON "ExpenseClaim"("status");
+
+-- CreateIndex
+CREATE INDEX "ExpenseClaim_payrollId_idx" ON "ExpenseClaim"("payrollId");
+
+-- CreateIndex
+CREATE INDEX "ExpenseClaimApproval_claimId_idx" ON "ExpenseClaimApproval"("claimId");
+
+-- CreateIndex
+CREATE INDEX "ExpenseClaimApproval_approvedBy_idx" ON "ExpenseClaimApproval"("approvedBy");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExpenseClaimApproval_claimId_approvedBy_key" ON "ExpenseClaimApproval"("claimId", "approvedBy");
+
+-- CreateIndex
+CREATE INDEX "ExpenseReceipt_claimId_idx" ON "ExpenseReceipt"("claimId");
+
+-- AddForeignKey
+ALTER TABLE "ExpenseClaim" ADD CONSTRAINT "ExpenseClaim_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseClaim" ADD CONSTRAINT "ExpenseClaim_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "ExpenseCategory"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseClaim" ADD CONSTRAINT "ExpenseClaim_approvalChainId_fkey" FOREIGN KEY ("approvalChainId") REFERENCES "ApprovalChain"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseClaim" ADD CONSTRAINT "ExpenseClaim_payrollId_fkey" FOREIGN KEY ("payrollId") REFERENCES "Payroll"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseClaimApproval" ADD CONSTRAINT "ExpenseClaimApproval_claimId_fkey" FOREIGN KEY ("claimId") REFERENCES "ExpenseClaim"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseClaimApproval" ADD CONSTRAINT "ExpenseClaimApproval_approvedBy_fkey" FOREIGN KEY ("approvedBy") REFERENCES "Employee"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseReceipt" ADD CONSTRAINT "ExpenseReceipt_claimId_fkey" FOREIGN KEY ("claimId") REFERENCES "ExpenseClaim"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Grant the new permissions on installations whose role permissions were
+-- already set up; fresh installations get them from the defaults
+INSERT INTO "RolePermission" ("id", "role", "permission")
+SELECT gen_random_uuid()::text, "role", 'expense:self'
+FROM (SELECT DISTINCT "role" FROM "RolePermission") AS roles
+ON CONFLICT ("role", "permission") DO NOTHING;
+
+INSERT INTO "RolePermission" ("id", "role", "permission")
+SELECT gen_random_uuid()::text, "role", 'expense:approve'
+FROM (SELECT DISTINCT "role" FROM "RolePermission" WHERE "role" IN ('HR', 'PAYROLL_ADMIN')) AS roles
+ON CONFLICT ("role", "permission") DO NOTHING;
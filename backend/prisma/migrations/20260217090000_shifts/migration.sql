@@ -0,0 +1,92 @@
+-- AlterTable
+ALTER TABLE "Attendance" ADD COLUMN "shiftId" TEXT,
+ADD COLUMN "workedMinutes" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Shift" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "lateGraceMinutes" INTEGER NOT NULL DEFAULT 0,
+    "earlyLeaveGraceMinutes" INTEGER NOT NULL DEFAULT 0,
+    "fullDayMinutes" INTEGER NOT NULL,
+    "halfDayMinutes" INTEGER NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Shift_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShiftRotation" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShiftRotation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShiftRotationSlot" (
+    "id" TEXT NOT NULL,
+    "rotationId" TEXT NOT NULL,
+    "slotOrder" INTEGER NOT NULL,
+    "shiftId" TEXT NOT NULL,
+    "days" INTEGER NOT NULL,
+
+    CONSTRAINT "ShiftRotationSlot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShiftAssignment" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT,
+    "department" TEXT,
+    "shiftId" TEXT,
+    "rotationId" TEXT,
+    "effectiveFrom" DATE NOT NULL,
+    "effectiveTo" DATE,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShiftAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShiftRotationSlot_rotationId_slotOrder_key" ON "ShiftRotationSlot"("rotationId", "slotOrder");
+
+-- CreateIndex
+CREATE INDEX "ShiftAssignment_employeeId_idx" ON "ShiftAssignment"("employeeId");
+
+-- CreateIndex
+CREATE INDEX "ShiftAssignment_department_idx" ON "ShiftAssignment"("department");
+
+-- AddForeignKey
+ALTER TABLE "Attendance" ADD CONSTRAINT "Attendance_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "Shift"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftRotationSlot" ADD CONSTRAINT "ShiftRotationSlot_rotationId_fkey" FOREIGN KEY ("rotationId") REFERENCES "ShiftRotation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftRotationSlot" ADD CONSTRAINT "ShiftRotationSlot_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "Shift"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftAssignment" ADD CONSTRAINT "ShiftAssignment_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftAssignment" ADD CONSTRAINT "ShiftAssignment_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "Shift"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftAssignment" ADD CONSTRAINT "ShiftAssignment_rotationId_fkey" FOREIGN KEY ("rotationId") REFERENCES "ShiftRotation"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Grant the new permission on installations whose role permissions were
+-- already set up; fresh installations get it from the defaults
+INSERT INTO "RolePermission" ("id", "role", "permission")
+SELECT gen_random_uuid()::text, "role", 'attendance:manage'
+FROM (SELECT DISTINCT "role" FROM "RolePermission" WHERE "role" = 'HR') AS roles
+ON CONFLICT ("role", "permission") DO NOTHING;
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "OvertimeStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "Attendance" ADD COLUMN "lateMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "earlyLeaveMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "overtimeMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "overtimeStatus" "OvertimeStatus",
+ADD COLUMN "approvedOvertimeMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "overtimeReviewedBy" TEXT,
+ADD COLUMN "overtimeReviewedAt" TIMESTAMP(3),
+ADD COLUMN "overtimeRejectionReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "Payroll" ADD COLUMN "overtimeMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "overtimePay" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "PayrollRun" ADD COLUMN "totalOvertimePay" DECIMAL(14,2) NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Attendance_overtimeStatus_idx" ON "Attendance"("overtimeStatus");
+
+-- Grant the new permission on installations whose role permissions were
+-- already set up; fresh installations get it from the defaults
+INSERT INTO "RolePermission" ("id", "role", "permission")
+SELECT gen_random_uuid()::text, "role", 'attendance:approve'
+FROM (SELECT DISTINCT "role" FROM "RolePermission" WHERE "role" = 'HR') AS roles
+ON CONFLICT ("role", "permission") DO NOTHING;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "PunchType" AS ENUM ('IN', 'OUT', 'BREAK_START', 'BREAK_END');
+
+-- CreateTable
+CREATE TABLE "AttendancePunch" (
+    "id" TEXT NOT NULL,
+    "attendanceId" TEXT NOT NULL,
+    "type" "PunchType" NOT NULL,
+    "punchedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AttendancePunch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AttendancePunch_attendanceId_punchedAt_idx" ON "AttendancePunch"("attendanceId", "punchedAt");
+
+-- AddForeignKey
+ALTER TABLE "AttendancePunch" ADD CONSTRAINT "AttendancePunch_attendanceId_fkey" FOREIGN KEY ("attendanceId") REFERENCES "Attendance"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing check-ins and check-outs become the day's first IN and last OUT
+INSERT INTO "AttendancePunch" ("id", "attendanceId", "type", "punchedAt")
+SELECT gen_random_uuid()::text, "id", 'IN', "checkInTime"
+FROM "Attendance" WHERE "checkInTime" IS NOT NULL;
+
+INSERT INTO "AttendancePunch" ("id", "attendanceId", "type", "punchedAt")
+SELECT gen_random_uuid()::text, "id", 'OUT', "checkOutTime"
+FROM "Attendance" WHERE "checkInTime" IS NOT NULL AND "checkOutTime" IS NOT NULL;
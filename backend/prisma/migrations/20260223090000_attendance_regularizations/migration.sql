@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "RegularizationStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "AttendanceRegularization" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "checkInTime" TIMESTAMP(3) NOT NULL,
+    "checkOutTime" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "approvalChainId" TEXT,
+    "currentStep" INTEGER NOT NULL DEFAULT 1,
+    "status" "RegularizationStatus" NOT NULL DEFAULT 'PENDING',
+    "rejectionReason" TEXT,
+    "attendanceId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AttendanceRegularization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AttendanceRegularizationApproval" (
+    "id" TEXT NOT NULL,
+    "regularizationId" TEXT NOT NULL,
+    "approvedBy" TEXT NOT NULL,
+    "approvalDate" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "stepOrder" INTEGER,
+    "comments" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AttendanceRegularizationApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AttendanceRegularization_employeeId_date_idx" ON "AttendanceRegularization"("employeeId", "date");
+
+-- CreateIndex
+CREATE INDEX "AttendanceRegularization_status_idx" ON "AttendanceRegularization"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AttendanceRegularizationApproval_regularizationId_approvedBy_key" ON "AttendanceRegularizationApproval"("regularizationId", "approvedBy");
+
+-- CreateIndex
+CREATE INDEX "AttendanceRegularizationApproval_regularizationId_idx" ON "AttendanceRegularizationApproval"("regularizationId");
+
+-- CreateIndex
+CREATE INDEX "AttendanceRegularizationApproval_approvedBy_idx" ON "AttendanceRegularizationApproval"("approvedBy");
+
+-- AddForeignKey
+ALTER TABLE "AttendanceRegularization" ADD CONSTRAINT "AttendanceRegularization_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AttendanceRegularization" ADD CONSTRAINT "AttendanceRegularization_approvalChainId_fkey" FOREIGN KEY ("approvalChainId") REFERENCES "ApprovalChain"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AttendanceRegularization" ADD CONSTRAINT "AttendanceRegularization_attendanceId_fkey" FOREIGN KEY ("attendanceId") REFERENCES "Attendance"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AttendanceRegularizationApproval" ADD CONSTRAINT "AttendanceRegularizationApproval_regularizationId_fkey" FOREIGN KEY ("regularizationId") REFERENCES "AttendanceRegularization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AttendanceRegularizationApproval" ADD CONSTRAINT "AttendanceRegularizationApproval_approvedBy_fkey" FOREIGN KEY ("approvedBy") REFERENCES "Employee"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
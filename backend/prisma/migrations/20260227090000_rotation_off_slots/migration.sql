@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ShiftRotationSlot" ALTER COLUMN "shiftId" DROP NOT NULL;
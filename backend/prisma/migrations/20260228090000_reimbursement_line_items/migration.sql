@@ -0,0 +1,18 @@
+-- Reimbursements already paid become line items, one per category
+INSERT INTO "PayrollLineItem" ("id", "payrollId", "code", "name", "type", "amount", "sortOrder")
+SELECT
+    gen_random_uuid()::text,
+    claims."payrollId",
+    'REIMBURSEMENT',
+    claims."categoryName" || ' Reimbursement',
+    'EARNING',
+    claims."amount",
+    (SELECT COUNT(*) FROM "PayrollLineItem" item WHERE item."payrollId" = claims."payrollId")
+        + ROW_NUMBER() OVER (PARTITION BY claims."payrollId" ORDER BY claims."categoryName") - 1
+FROM (
+    SELECT claim."payrollId", category."name" AS "categoryName", SUM(claim."amount") AS "amount"
+    FROM "ExpenseClaim" claim
+    JOIN "ExpenseCategory" category ON category."id" = claim."categoryId"
+    WHERE claim."payrollId" IS NOT NULL
+    GROUP BY claim."payrollId", category."name"
+) AS claims;
@@ -0,0 +1,18 @@
+-- Installments already deducted become line items, one per loan
+INSERT INTO "PayrollLineItem" ("id", "payrollId", "code", "name", "type", "amount", "sortOrder")
+SELECT
+    gen_random_uuid()::text,
+    installments."payrollId",
+    CASE WHEN installments."loanType" = 'ADVANCE' THEN 'ADVANCE_RECOVERY' ELSE 'LOAN_EMI' END,
+    CASE WHEN installments."loanType" = 'ADVANCE' THEN 'Salary Advance Recovery' ELSE 'Loan EMI' END,
+    'DEDUCTION',
+    installments."amount",
+    (SELECT COUNT(*) FROM "PayrollLineItem" item WHERE item."payrollId" = installments."payrollId")
+        + ROW_NUMBER() OVER (PARTITION BY installments."payrollId" ORDER BY installments."loanId") - 1
+FROM (
+    SELECT installment."payrollId", installment."loanId", loan."type"::text AS "loanType", SUM(installment."amount") AS "amount"
+    FROM "LoanInstallment" installment
+    JOIN "Loan" loan ON loan."id" = installment."loanId"
+    WHERE installment."payrollId" IS NOT NULL
+    GROUP BY installment."payrollId", installment."loanId", loan."type"
+) AS installments;
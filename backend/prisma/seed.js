@@ -9,13 +9,26 @@ async function main() {
 
   // Clean existing data
   await prisma.auditLog.deleteMany();
+  await prisma.jobRun.deleteMany();
+  await prisma.jobLock.deleteMany();
+  await prisma.leaveBalanceEntry.deleteMany();
   await prisma.leaveApproval.deleteMany();
   await prisma.leave.deleteMany();
+  await prisma.expenseClaim.deleteMany();
+  await prisma.expenseCategory.deleteMany();
   await prisma.payroll.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.attendanceRegularization.deleteMany();
   await prisma.attendance.deleteMany();
+  await prisma.shiftAssignment.deleteMany();
+  await prisma.shiftRotationSlot.deleteMany();
+  await prisma.shiftRotation.deleteMany();
+  await prisma.shift.deleteMany();
   await prisma.refreshToken.deleteMany();
   await prisma.employee.deleteMany();
   await prisma.user.deleteMany();
+  await prisma.salaryStructure.deleteMany();
+  await prisma.statutoryRateSet.deleteMany();
 
   console.log("✅ Cleaned existing data");
 
@@ -120,6 +133,47 @@ async function main() {
 
   console.log("✅ Created Employee 3:", employee3.email);
 
+  // Reporting lines: Admin manages John and Jane, Jane manages Mike
+  await prisma.employee.updateMany({
+    where: { id: { in: [employee1.employee.id, employee2.employee.id] } },
+    data: { managerId: adminUser.employee.id },
+  });
+  await prisma.employee.update({
+    where: { id: employee3.employee.id },
+    data: { managerId: employee2.employee.id },
+  });
+
+  console.log("✅ Assigned reporting managers");
+
+  // Jane leads a team, so she also holds the MANAGER role
+  await prisma.userRole.create({
+    data: {
+      userId: employee2.id,
+      role: "MANAGER",
+      assignedBy: adminUser.id,
+    },
+  });
+
+  console.log("✅ Assigned extra roles");
+
+  // Opening leave balances for every employee
+  for (const { employee } of [adminUser, employee1, employee2, employee3]) {
+    await prisma.leaveBalanceEntry.createMany({
+      data: [
+        { leaveType: "PAID", days: 18 },
+        { leaveType: "SICK", days: 12 },
+      ].map((opening) => ({
+        ...opening,
+        employeeId: employee.id,
+        entryType: "ACCRUAL",
+        reason: "Opening balance",
+        effectiveDate: new Date(new Date().getFullYear(), 0, 1),
+      })),
+    });
+  }
+
+  console.log("✅ Created opening leave balances");
+
   // Create sample attendance records (last 7 days for John Doe)
   const today = new Date();
   for (let i = 0; i < 7; i++) {
@@ -139,6 +193,12 @@ async function main() {
         date,
         checkInTime,
         checkOutTime: i === 0 ? null : checkOutTime,
+        punches: {
+          create: [
+            { type: "IN", punchedAt: checkInTime },
+            ...(i === 0 ? [] : [{ type: "OUT", punchedAt: checkOutTime }]),
+          ],
+        },
         status: "PRESENT",
       },
     });
@@ -164,6 +224,12 @@ async function main() {
         date,
         checkInTime,
         checkOutTime: i === 0 ? null : checkOutTime,
+        punches: {
+          create: [
+            { type: "IN", punchedAt: checkInTime },
+            ...(i === 0 ? [] : [{ type: "OUT", punchedAt: checkOutTime }]),
+          ],
+        },
         status: i === 2 ? "HALF_DAY" : "PRESENT",
       },
     });
@@ -215,6 +281,18 @@ async function main() {
     },
   });
 
+  await prisma.leaveBalanceEntry.create({
+    data: {
+      employeeId: employee2.employee.id,
+      leaveType: "PAID",
+      entryType: "CONSUMPTION",
+      days: -4,
+      leaveId: approvedLeave.id,
+      reason: "Leave approved",
+      effectiveDate: futureDate2,
+    },
+  });
+
   console.log("✅ Created approved leave request for Jane Smith");
 
   // Create sample payroll records
@@ -256,6 +334,185 @@ async function main() {
 
   console.log("✅ Created payroll records for December 2025");
 
+  // Create a standard salary structure, used by payroll runs from January
+  const standardStructure = await prisma.salaryStructure.create({
+    data: {
+      name: "Standard",
+      description: "Basic, HRA and special allowance",
+      components: {
+        create: [
+          {
+            code: "BASIC",
+            name: "Basic",
+            type: "EARNING",
+            calculationType: "PERCENTAGE",
+            percentage: 50,
+            baseCode: "GROSS",
+            sortOrder: 0,
+          },
+          {
+            code: "HRA",
+            name: "House Rent Allowance",
+            type: "EARNING",
+            calculationType: "PERCENTAGE",
+            percentage: 40,
+            baseCode: "BASIC",
+            sortOrder: 1,
+          },
+          {
+            code: "SPECIAL",
+            name: "Special Allowance",
+            type: "EARNING",
+            calculationType: "FORMULA",
+            formula: "GROSS - BASIC - HRA",
+            sortOrder: 2,
+          },
+        ],
+      },
+    },
+  });
+
+  for (const [employee, monthlyGross] of [
+    [employee1, 80000],
+    [employee2, 69000],
+    [employee3, 53000],
+  ]) {
+    await prisma.salaryStructureAssignment.create({
+      data: {
+        employeeId: employee.employee.id,
+        structureId: standardStructure.id,
+        monthlyGross,
+        effectiveFrom: new Date("2026-01-01"),
+        createdBy: adminUser.id,
+      },
+    });
+  }
+
+  console.log("✅ Created Standard salary structure");
+
+  // Statutory rates; PF, ESI, professional tax and TDS are deducted from these
+  const statutoryRates = {
+    incomeTax: {
+      oldRegime: {
+        standardDeduction: 50000,
+        slabs: [
+          { upTo: 250000, rate: 0 },
+          { upTo: 500000, rate: 5 },
+          { upTo: 1000000, rate: 20 },
+          { upTo: null, rate: 30 },
+        ],
+        rebateLimit: 500000,
+        rebateMax: 12500,
+        cessPercentage: 4,
+      },
+      newRegime: {
+        standardDeduction: 75000,
+        slabs: [
+          { upTo: 400000, rate: 0 },
+          { upTo: 800000, rate: 5 },
+          { upTo: 1200000, rate: 10 },
+          { upTo: 1600000, rate: 15 },
+          { upTo: 2000000, rate: 20 },
+          { upTo: 2400000, rate: 25 },
+          { upTo: null, rate: 30 },
+        ],
+        rebateLimit: 1200000,
+        rebateMax: 60000,
+        cessPercentage: 4,
+      },
+    },
+    providentFund: {
+      employeePercentage: 12,
+      employerPercentage: 12,
+      wageCeiling: 15000,
+      restrictToCeiling: true,
+      wageCodes: ["BASIC"],
+    },
+    employeeStateInsurance: {
+      employeePercentage: 0.75,
+      employerPercentage: 3.25,
+      wageThreshold: 21000,
+    },
+    professionalTax: [
+      {
+        state: "KA",
+        slabs: [
+          { upTo: 24999, amount: 0 },
+          { upTo: null, amount: 200 },
+        ],
+      },
+      {
+        state: "MH",
+        slabs: [
+          { upTo: 7500, amount: 0 },
+          { upTo: 10000, amount: 175 },
+          { upTo: null, amount: 200, februaryAmount: 300 },
+        ],
+      },
+    ],
+  };
+
+  for (const financialYear of ["2025-26", "2026-27"]) {
+    await prisma.statutoryRateSet.create({
+      data: { financialYear, ...statutoryRates, updatedBy: adminUser.id },
+    });
+  }
+
+  for (const [employee, profile] of [
+    [employee1, { professionalTaxState: "KA" }],
+    [
+      employee2,
+      {
+        professionalTaxState: "MH",
+        taxRegime: "OLD",
+        declaredDeductions: 150000,
+      },
+    ],
+    [employee3, { professionalTaxState: "KA" }],
+  ]) {
+    await prisma.statutoryProfile.create({
+      data: { employeeId: employee.employee.id, ...profile },
+    });
+  }
+
+  console.log("✅ Created statutory rates for 2025-26 and 2026-27");
+
+  // Create expense categories; internet has no monthly limit
+  for (const category of [
+    { code: "TRAVEL", name: "Travel", monthlyLimit: 10000 },
+    { code: "MEALS", name: "Meals", monthlyLimit: 3000 },
+    { code: "INTERNET", name: "Internet", monthlyLimit: null },
+  ]) {
+    await prisma.expenseCategory.create({
+      data: { ...category, updatedBy: adminUser.id },
+    });
+  }
+
+  console.log("✅ Created expense categories");
+
+  // Create the company default shift
+  const generalShift = await prisma.shift.create({
+    data: {
+      name: "General",
+      startTime: "09:00",
+      endTime: "18:00",
+      lateGraceMinutes: 15,
+      earlyLeaveGraceMinutes: 15,
+      fullDayMinutes: 480,
+      halfDayMinutes: 240,
+    },
+  });
+
+  await prisma.shiftAssignment.create({
+    data: {
+      shiftId: generalShift.id,
+      effectiveFrom: new Date("2025-01-01"),
+      createdBy: adminUser.id,
+    },
+  });
+
+  console.log("✅ Created General shift as the company default");
+
   // Create sample audit log
   await prisma.auditLog.create({
     data: {
@@ -8,6 +8,13 @@ import { LeaveModule } from "@modules/leave/leave.module";
 import { PayrollModule } from "@modules/payroll/payroll.module";
 import { DashboardModule } from "@modules/dashboard/dashboard.module";
 import { NotificationsModule } from "@modules/notifications/notifications.module";
+import { CalendarModule } from "@modules/calendar/calendar.module";
+import { RolesModule } from "@modules/roles/roles.module";
+import { StatutoryModule } from "@modules/statutory/statutory.module";
+import { AccountingModule } from "@modules/accounting/accounting.module";
+import { LoansModule } from "@modules/loans/loans.module";
+import { ExpensesModule } from "@modules/expenses/expenses.module";
+import { SchedulerModule } from "@modules/scheduler/scheduler.module";
 
 @Module({
   imports: [
@@ -23,6 +30,13 @@ import { NotificationsModule } from "@modules/notifications/notifications.module
     PayrollModule,
     DashboardModule,
     NotificationsModule,
+    CalendarModule,
+    RolesModule,
+    StatutoryModule,
+    AccountingModule,
+    LoansModule,
+    ExpensesModule,
+    SchedulerModule,
   ],
   controllers: [],
   providers: [],
@@ -0,0 +1,6 @@
+import { SetMetadata } from "@nestjs/common";
+import { Permission } from "../enums/permission.enum";
+
+// With no permissions listed, any authenticated user may call the route
+export const RequirePermissions = (...permissions: Permission[]) =>
+  SetMetadata("permissions", permissions);
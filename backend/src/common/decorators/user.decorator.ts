@@ -3,6 +3,8 @@ import { createParamDecorator, ExecutionContext } from "@nestjs/common";
 export interface RequestUser {
   userId: string;
   role: string;
+  roles: string[]; // role plus any extra roles assigned to the user
+  permissions: string[];
 }
 
 export const User = createParamDecorator(
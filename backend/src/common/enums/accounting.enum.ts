@@ -0,0 +1,16 @@
+// Journal postings that are not a salary component or statutory code
+export enum JournalAccountKey {
+  SALARY_EXPENSE = "SALARY_EXPENSE", // Earnings without their own mapping
+  LOSS_OF_PAY = "LOSS_OF_PAY",
+  EMPLOYER_CONTRIBUTIONS = "EMPLOYER_CONTRIBUTIONS", // Employer PF and ESI expense
+  DEDUCTIONS = "DEDUCTIONS", // Deductions without their own mapping
+  OVERTIME = "OVERTIME", // Approved overtime pay
+  REIMBURSEMENTS = "REIMBURSEMENTS", // Approved expense claims paid with salary
+  LOANS_AND_ADVANCES = "LOANS_AND_ADVANCES", // EMIs recovered from employees
+  NET_PAY = "NET_PAY",
+}
+
+export enum JournalExportFormat {
+  CSV = "csv",
+  TALLY = "tally", // Tally XML voucher import
+}
@@ -0,0 +1,10 @@
+export enum ApprovalMode {
+  SEQUENTIAL = "SEQUENTIAL",
+  ANY_OF = "ANY_OF",
+}
+
+export enum ApproverType {
+  EMPLOYEE = "EMPLOYEE",
+  ROLE = "ROLE",
+  REPORTING_MANAGER = "REPORTING_MANAGER", // The applicant's own manager
+}
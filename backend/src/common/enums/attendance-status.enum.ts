@@ -4,3 +4,23 @@ export enum AttendanceStatus {
   HALF_DAY = "HALF_DAY",
   LEAVE = "LEAVE",
 }
+
+export enum OvertimeStatus {
+  PENDING = "PENDING",
+  APPROVED = "APPROVED",
+  REJECTED = "REJECTED",
+}
+
+export enum PunchType {
+  IN = "IN",
+  OUT = "OUT",
+  BREAK_START = "BREAK_START",
+  BREAK_END = "BREAK_END",
+}
+
+export enum RegularizationStatus {
+  PENDING = "PENDING",
+  APPROVED = "APPROVED",
+  REJECTED = "REJECTED",
+  CANCELLED = "CANCELLED",
+}
@@ -0,0 +1,9 @@
+export enum ExpenseClaimStatus {
+  PENDING = "PENDING",
+  APPROVED = "APPROVED",
+  REJECTED = "REJECTED",
+  CANCELLED = "CANCELLED",
+}
+
+// Payroll line items approved claims are paid through; never taxed
+export const REIMBURSEMENT_CODE = "REIMBURSEMENT";
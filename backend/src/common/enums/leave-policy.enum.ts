@@ -0,0 +1,11 @@
+export enum AccrualFrequency {
+  MONTHLY = "MONTHLY",
+  YEARLY = "YEARLY",
+}
+
+export enum LeavePolicyRule {
+  PROBATION = "PROBATION",
+  MIN_NOTICE = "MIN_NOTICE",
+  MAX_CONSECUTIVE_DAYS = "MAX_CONSECUTIVE_DAYS",
+  INSUFFICIENT_BALANCE = "INSUFFICIENT_BALANCE",
+}
@@ -2,6 +2,7 @@ export enum LeaveStatus {
   PENDING = "PENDING",
   APPROVED = "APPROVED",
   REJECTED = "REJECTED",
+  CANCELLED = "CANCELLED",
 }
 
 export enum LeaveType {
@@ -9,3 +10,17 @@ export enum LeaveType {
   SICK = "SICK",
   UNPAID = "UNPAID",
 }
+
+export enum LeaveLedgerEntryType {
+  ACCRUAL = "ACCRUAL",
+  CONSUMPTION = "CONSUMPTION",
+  ADJUSTMENT = "ADJUSTMENT",
+  EXPIRY = "EXPIRY",
+}
+
+export enum LeaveDuration {
+  FULL_DAY = "FULL_DAY",
+  FIRST_HALF = "FIRST_HALF",
+  SECOND_HALF = "SECOND_HALF",
+  HOURS = "HOURS",
+}
@@ -0,0 +1,25 @@
+export enum LoanType {
+  LOAN = "LOAN",
+  ADVANCE = "ADVANCE", // Interest free, recovered from upcoming salaries
+}
+
+export enum LoanStatus {
+  PENDING = "PENDING",
+  ACTIVE = "ACTIVE",
+  CLOSED = "CLOSED",
+  REJECTED = "REJECTED",
+  CANCELLED = "CANCELLED",
+}
+
+export enum LoanInstallmentStatus {
+  SCHEDULED = "SCHEDULED",
+  DEDUCTED = "DEDUCTED",
+  SKIPPED = "SKIPPED",
+}
+
+// Codes of the payroll line items installments are deducted through, one
+// line per loan
+export const LOAN_DEDUCTION_CODES: Record<LoanType, string> = {
+  [LoanType.LOAN]: "LOAN_EMI",
+  [LoanType.ADVANCE]: "ADVANCE_RECOVERY",
+};
@@ -0,0 +1,41 @@
+import { REIMBURSEMENT_CODE } from "./expense.enum";
+import { LOAN_DEDUCTION_CODES } from "./loan.enum";
+
+export enum PayrollRunStatus {
+  DRAFT = "DRAFT",
+  REVIEWED = "REVIEWED",
+  FINALIZED = "FINALIZED",
+  PAID = "PAID",
+}
+
+export enum PayrollRunWarningCode {
+  MISSING_SALARY = "MISSING_SALARY", // Active employee without a payroll record
+  NON_POSITIVE_NET = "NON_POSITIVE_NET",
+  INACTIVE_EMPLOYEE = "INACTIVE_EMPLOYEE",
+  SALARY_CHANGED = "SALARY_CHANGED", // Base salary differs from last month
+  MISSING_BANK_ACCOUNT = "MISSING_BANK_ACCOUNT", // Net pay has nowhere to go
+}
+
+export enum BankExportFormat {
+  CSV = "csv",
+  NEFT = "neft", // NEFT/RTGS bulk upload
+  PAIN_001 = "pain.001", // ISO 20022 customer credit transfer
+}
+
+export enum SalaryComponentType {
+  EARNING = "EARNING",
+  DEDUCTION = "DEDUCTION",
+}
+
+export enum SalaryCalculationType {
+  FIXED = "FIXED",
+  PERCENTAGE = "PERCENTAGE", // Percentage of another component or GROSS
+  FORMULA = "FORMULA",
+}
+
+// Line items payroll adds for reimbursements and loans rather than the
+// salary itself
+export const NON_SALARY_CODES: string[] = [
+  REIMBURSEMENT_CODE,
+  ...Object.values(LOAN_DEDUCTION_CODES),
+];
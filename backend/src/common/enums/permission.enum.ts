@@ -0,0 +1,79 @@
+import { Role } from "./role.enum";
+
+export enum Permission {
+  PROFILE_SELF = "profile:self",
+  EMPLOYEES_READ = "employees:read",
+  EMPLOYEES_WRITE = "employees:write",
+  USERS_MANAGE = "users:manage",
+  ROLES_MANAGE = "roles:manage",
+  ATTENDANCE_SELF = "attendance:self",
+  ATTENDANCE_TEAM = "attendance:team",
+  ATTENDANCE_READ = "attendance:read",
+  ATTENDANCE_OVERRIDE = "attendance:override",
+  ATTENDANCE_MANAGE = "attendance:manage",
+  ATTENDANCE_APPROVE = "attendance:approve",
+  LEAVE_SELF = "leave:self",
+  LEAVE_TEAM = "leave:team",
+  LEAVE_READ = "leave:read",
+  LEAVE_APPROVE = "leave:approve",
+  LEAVE_MANAGE = "leave:manage",
+  CALENDAR_WRITE = "calendar:write",
+  PAYROLL_SELF = "payroll:self",
+  PAYROLL_READ = "payroll:read",
+  PAYROLL_WRITE = "payroll:write",
+  EXPENSE_SELF = "expense:self",
+  EXPENSE_APPROVE = "expense:approve",
+  SCHEDULER_MANAGE = "scheduler:manage",
+}
+
+// Every role can use the self-service parts of the app
+const SELF_SERVICE_PERMISSIONS = [
+  Permission.PROFILE_SELF,
+  Permission.ATTENDANCE_SELF,
+  Permission.LEAVE_SELF,
+  Permission.PAYROLL_SELF,
+  Permission.EXPENSE_SELF,
+];
+
+// Installed when no role permissions exist yet; ADMIN is never stored
+export const DEFAULT_ROLE_PERMISSIONS: Record<
+  Exclude<Role, Role.ADMIN>,
+  Permission[]
+> = {
+  [Role.EMPLOYEE]: SELF_SERVICE_PERMISSIONS,
+  [Role.MANAGER]: [
+    ...SELF_SERVICE_PERMISSIONS,
+    Permission.ATTENDANCE_TEAM,
+    Permission.LEAVE_TEAM,
+  ],
+  [Role.HR]: [
+    ...SELF_SERVICE_PERMISSIONS,
+    Permission.EMPLOYEES_READ,
+    Permission.EMPLOYEES_WRITE,
+    Permission.USERS_MANAGE,
+    Permission.ATTENDANCE_READ,
+    Permission.ATTENDANCE_OVERRIDE,
+    Permission.ATTENDANCE_MANAGE,
+    Permission.ATTENDANCE_APPROVE,
+    Permission.LEAVE_READ,
+    Permission.LEAVE_APPROVE,
+    Permission.LEAVE_MANAGE,
+    Permission.CALENDAR_WRITE,
+    Permission.EXPENSE_APPROVE,
+  ],
+  [Role.PAYROLL_ADMIN]: [
+    ...SELF_SERVICE_PERMISSIONS,
+    Permission.EMPLOYEES_READ,
+    Permission.ATTENDANCE_READ,
+    Permission.PAYROLL_READ,
+    Permission.PAYROLL_WRITE,
+    Permission.EXPENSE_APPROVE,
+  ],
+  [Role.AUDITOR]: [
+    ...SELF_SERVICE_PERMISSIONS,
+    Permission.EMPLOYEES_READ,
+    Permission.ATTENDANCE_READ,
+    Permission.LEAVE_READ,
+    Permission.PAYROLL_READ,
+  ],
+};
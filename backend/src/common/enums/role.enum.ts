@@ -1,4 +1,8 @@
 export enum Role {
   ADMIN = "ADMIN",
   EMPLOYEE = "EMPLOYEE",
+  HR = "HR",
+  PAYROLL_ADMIN = "PAYROLL_ADMIN",
+  MANAGER = "MANAGER",
+  AUDITOR = "AUDITOR",
 }
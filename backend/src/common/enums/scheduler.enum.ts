@@ -0,0 +1,11 @@
+export enum ScheduledJobName {
+  MARK_ABSENTEES = "mark-absentees",
+  AUTO_CHECK_OUT = "auto-check-out",
+  PURGE_REFRESH_TOKENS = "purge-refresh-tokens",
+}
+
+export enum JobRunStatus {
+  RUNNING = "RUNNING",
+  SUCCEEDED = "SUCCEEDED",
+  FAILED = "FAILED",
+}
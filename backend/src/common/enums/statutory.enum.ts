@@ -0,0 +1,13 @@
+export enum TaxRegime {
+  OLD = "OLD",
+  NEW = "NEW",
+}
+
+// Codes of the statutory calculators. A salary structure component with the
+// same code takes precedence over the calculator
+export enum StatutoryCode {
+  PROVIDENT_FUND = "PF",
+  EMPLOYEE_STATE_INSURANCE = "ESI",
+  PROFESSIONAL_TAX = "PT",
+  INCOME_TAX = "TDS",
+}
@@ -0,0 +1,15 @@
+import { BadRequestException } from "@nestjs/common";
+
+export interface PolicyViolation {
+  rule: string;
+  message: string;
+}
+
+export class PolicyViolationException extends BadRequestException {
+  constructor(public readonly violations: PolicyViolation[]) {
+    super({
+      message: violations.map((violation) => violation.message),
+      error: "Policy Violation",
+    });
+  }
+}
@@ -7,6 +7,10 @@ import {
   Logger,
 } from "@nestjs/common";
 import { Response } from "express";
+import {
+  PolicyViolation,
+  PolicyViolationException,
+} from "../exceptions/policy-violation.exception";
 
 interface ErrorResponse {
   statusCode: number;
@@ -14,6 +18,7 @@ interface ErrorResponse {
   error: string;
   timestamp: string;
   path: string;
+  violations?: PolicyViolation[];
 }
 
 @Catch()
@@ -55,6 +60,10 @@ export class AllExceptionsFilter implements ExceptionFilter {
       path: request.url,
     };
 
+    if (exception instanceof PolicyViolationException) {
+      errorResponse.violations = exception.violations;
+    }
+
     response.status(status).json(errorResponse);
   }
 }
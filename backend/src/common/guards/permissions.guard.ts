@@ -5,25 +5,28 @@ import {
   ForbiddenException,
 } from "@nestjs/common";
 import { Reflector } from "@nestjs/core";
-import { Role } from "../enums/role.enum";
+import { Permission } from "../enums/permission.enum";
 
 @Injectable()
-export class RolesGuard implements CanActivate {
+export class PermissionsGuard implements CanActivate {
   constructor(private reflector: Reflector) {}
 
   canActivate(context: ExecutionContext): boolean {
-    const requiredRoles = this.reflector.get<Role[]>(
-      "roles",
-      context.getHandler()
+    const requiredPermissions = this.reflector.getAllAndOverride<Permission[]>(
+      "permissions",
+      [context.getHandler(), context.getClass()]
     );
 
-    if (!requiredRoles) {
+    if (!requiredPermissions || requiredPermissions.length === 0) {
       return true;
     }
 
     const { user } = context.switchToHttp().getRequest();
+    const granted: string[] = user?.permissions ?? [];
 
-    if (!user || !requiredRoles.includes(user.role)) {
+    if (
+      !requiredPermissions.every((permission) => granted.includes(permission))
+    ) {
       throw new ForbiddenException(
         "You do not have permission to access this resource"
       );
@@ -0,0 +1,44 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from "@nestjs/common";
+import { Prisma } from "@prisma/client";
+import { Observable } from "rxjs";
+import { map } from "rxjs/operators";
+
+// Decimal columns serialize as strings with exactly 2 decimal places, so
+// clients never parse amounts into floating point just to display them
+function serializeDecimals(value: unknown): unknown {
+  if (Prisma.Decimal.isDecimal(value)) {
+    return value.toFixed(2);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(serializeDecimals);
+  }
+
+  // Dates, buffers and streamed files pass through untouched
+  if (
+    value !== null &&
+    typeof value === "object" &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        serializeDecimals(entry),
+      ])
+    );
+  }
+
+  return value;
+}
+
+@Injectable()
+export class MoneyInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    return next.handle().pipe(map(serializeDecimals));
+  }
+}
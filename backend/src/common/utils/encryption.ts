@@ -0,0 +1,39 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+
+// AES-256-GCM with a key derived from a configured secret. Ciphertexts are
+// stored as "iv:authTag:data" in base64 so the IV travels with the value
+const ALGORITHM = "aes-256-gcm";
+
+function deriveKey(secret: string): Buffer {
+  return createHash("sha256").update(secret).digest();
+}
+
+export function encrypt(plainText: string, secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, deriveKey(secret), iv);
+  const data = Buffer.concat([
+    cipher.update(plainText, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [iv, cipher.getAuthTag(), data]
+    .map((part) => part.toString("base64"))
+    .join(":");
+}
+
+export function decrypt(cipherText: string, secret: string): string {
+  const [iv, authTag, data] = cipherText
+    .split(":")
+    .map((part) => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv(ALGORITHM, deriveKey(secret), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString(
+    "utf8"
+  );
+}
@@ -0,0 +1,75 @@
+import { InternalServerErrorException } from "@nestjs/common";
+import { Prisma } from "@prisma/client";
+
+// Readers for JSON columns, which Prisma only types as JsonValue. A value of
+// the wrong shape means the stored data is corrupt, so they fail rather than
+// let a calculation run on it
+type JsonInput = Prisma.JsonValue | undefined;
+
+function invalid(label: string, expected: string) {
+  return new InternalServerErrorException(`Stored ${label} is not ${expected}`);
+}
+
+export function readObject(value: JsonInput, label: string): Prisma.JsonObject {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw invalid(label, "an object");
+  }
+
+  return value;
+}
+
+export function readArray(value: JsonInput, label: string): Prisma.JsonArray {
+  if (!Array.isArray(value)) {
+    throw invalid(label, "a list");
+  }
+
+  return value;
+}
+
+export function readNumber(value: JsonInput, label: string): number {
+  if (typeof value !== "number") {
+    throw invalid(label, "a number");
+  }
+
+  return value;
+}
+
+export function readNullableNumber(
+  value: JsonInput,
+  label: string
+): number | null {
+  return value === null ? null : readNumber(value, label);
+}
+
+export function readOptionalNumber(
+  value: JsonInput,
+  label: string
+): number | undefined {
+  return value === undefined ? undefined : readNumber(value, label);
+}
+
+export function readString(value: JsonInput, label: string): string {
+  if (typeof value !== "string") {
+    throw invalid(label, "text");
+  }
+
+  return value;
+}
+
+export function readBoolean(value: JsonInput, label: string): boolean {
+  if (typeof value !== "boolean") {
+    throw invalid(label, "true or false");
+  }
+
+  return value;
+}
+
+// Amounts are stored as the strings Decimals serialize to, or as numbers on
+// records saved before amounts were kept as decimals
+export function readAmount(value: JsonInput, label: string): string | number {
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw invalid(label, "an amount");
+  }
+
+  return value;
+}
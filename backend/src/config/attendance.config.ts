@@ -0,0 +1,11 @@
+export const attendanceConfig = {
+  // Late arrivals in a month that count as one half-day of loss of pay;
+  // 0 turns the rule off
+  lateMarksPerHalfDay: Number(
+    process.env.ATTENDANCE_LATE_MARKS_PER_HALF_DAY || "3"
+  ),
+  // Overtime shorter than this is not recorded
+  overtimeMinimumMinutes: Number(process.env.OVERTIME_MINIMUM_MINUTES || "30"),
+  // Approved overtime is paid at the hourly rate times this
+  overtimeRateMultiplier: process.env.OVERTIME_RATE_MULTIPLIER || "1.5",
+};
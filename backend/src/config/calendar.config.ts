@@ -0,0 +1,9 @@
+export const calendarConfig = {
+  // Days of the week that are not worked (0 = Sunday ... 6 = Saturday)
+  weeklyOffDays: (process.env.WEEKLY_OFF_DAYS || "0,6")
+    .split(",")
+    .filter((day) => day.trim() !== "")
+    .map(Number),
+  // Length of a full working day, used to convert hourly leave into days
+  workingHoursPerDay: Number(process.env.WORKING_HOURS_PER_DAY || "8"),
+};
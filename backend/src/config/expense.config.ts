@@ -0,0 +1,6 @@
+export const expenseConfig = {
+  // Receipts are stored on local disk under this directory
+  receiptsDir: process.env.EXPENSE_RECEIPTS_DIR || "uploads/receipts",
+  receiptMaxBytes: Number(process.env.EXPENSE_RECEIPT_MAX_BYTES || "5242880"),
+  maxReceiptsPerClaim: Number(process.env.EXPENSE_MAX_RECEIPTS || "5"),
+};
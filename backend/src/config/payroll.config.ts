@@ -0,0 +1,28 @@
+export const payrollConfig = {
+  // Month the financial year starts in (1 = January ... 12 = December)
+  financialYearStartMonth: Number(
+    process.env.FINANCIAL_YEAR_START_MONTH || "4"
+  ),
+  currency: process.env.PAYROLL_CURRENCY || "INR",
+  // Defaults for the payslip template until an admin saves one
+  companyName: process.env.COMPANY_NAME || "Dayflow",
+  companyAddress: process.env.COMPANY_ADDRESS || "",
+  // Secret employee bank account numbers are encrypted with. There is no
+  // default: the API refuses to start without it
+  bankDetailsKey: process.env.BANK_DETAILS_ENCRYPTION_KEY || "",
+  // Company account salaries are paid from, for bank transfer files
+  debitAccountNumber: process.env.COMPANY_BANK_ACCOUNT || "",
+  debitIfscCode: process.env.COMPANY_BANK_IFSC || "",
+  // Transfers of at least this amount go by RTGS instead of NEFT
+  rtgsMinimumAmount: process.env.RTGS_MINIMUM_AMOUNT || "200000",
+  // Limits for the transaction that generates a payroll run's drafts
+  runGenerationTimeoutMs: Number(
+    process.env.PAYROLL_RUN_TIMEOUT_MS || "300000"
+  ),
+  runGenerationMaxWaitMs: Number(
+    process.env.PAYROLL_RUN_MAX_WAIT_MS || "10000"
+  ),
+  // Longest repayment an employee can request, in months
+  loanMaxTenureMonths: Number(process.env.LOAN_MAX_TENURE_MONTHS || "60"),
+  advanceMaxTenureMonths: Number(process.env.ADVANCE_MAX_TENURE_MONTHS || "12"),
+};
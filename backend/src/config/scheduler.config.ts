@@ -0,0 +1,17 @@
+import { hostname } from "os";
+
+export const schedulerConfig = {
+  // Set to "false" on instances that should serve requests only
+  enabled: process.env.SCHEDULER_ENABLED !== "false",
+  // Identifies this instance in job locks and run history
+  instanceId:
+    process.env.SCHEDULER_INSTANCE_ID || `${hostname()}:${process.pid}`,
+  // A lock older than this is taken to belong to a crashed instance
+  lockTtlMinutes: Number(process.env.SCHEDULER_LOCK_TTL_MINUTES || "30"),
+  // Local times (HH:mm) of the nightly jobs
+  absentMarkingTime: process.env.SCHEDULER_ABSENT_MARKING_TIME || "01:00",
+  tokenPurgeTime: process.env.SCHEDULER_TOKEN_PURGE_TIME || "03:00",
+  autoCheckOutIntervalMinutes: Number(
+    process.env.SCHEDULER_AUTO_CHECKOUT_INTERVAL_MINUTES || "15"
+  ),
+};
@@ -0,0 +1,187 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Inject,
+} from "@nestjs/common";
+import { PrismaClient } from "@prisma/client";
+import { UpsertAccountMappingDto } from "./dto/accounting.dto";
+import { JournalAccountKey } from "@common/enums/accounting.enum";
+import { StatutoryCode } from "@common/enums/statutory.enum";
+
+export interface LedgerAccount {
+  accountCode: string;
+  accountName: string;
+}
+
+export type AccountResolver = (key: string, fallback?: string) => LedgerAccount;
+
+// Used until an admin maps the key to another account
+const DEFAULT_ACCOUNTS: Record<string, LedgerAccount> = {
+  [JournalAccountKey.SALARY_EXPENSE]: {
+    accountCode: "5000",
+    accountName: "Salaries and Wages",
+  },
+  [JournalAccountKey.EMPLOYER_CONTRIBUTIONS]: {
+    accountCode: "5100",
+    accountName: "Employer Statutory Contributions",
+  },
+  [JournalAccountKey.REIMBURSEMENTS]: {
+    accountCode: "5200",
+    accountName: "Employee Reimbursements",
+  },
+  [StatutoryCode.PROVIDENT_FUND]: {
+    accountCode: "2110",
+    accountName: "Provident Fund Payable",
+  },
+  [StatutoryCode.EMPLOYEE_STATE_INSURANCE]: {
+    accountCode: "2120",
+    accountName: "ESI Payable",
+  },
+  [StatutoryCode.PROFESSIONAL_TAX]: {
+    accountCode: "2130",
+    accountName: "Professional Tax Payable",
+  },
+  [StatutoryCode.INCOME_TAX]: {
+    accountCode: "2140",
+    accountName: "TDS on Salary Payable",
+  },
+  [JournalAccountKey.DEDUCTIONS]: {
+    accountCode: "2190",
+    accountName: "Other Payroll Deductions Payable",
+  },
+  [JournalAccountKey.LOANS_AND_ADVANCES]: {
+    accountCode: "1300",
+    accountName: "Employee Loans and Advances",
+  },
+  [JournalAccountKey.NET_PAY]: {
+    accountCode: "2200",
+    accountName: "Salaries Payable",
+  },
+};
+
+const KEY_PATTERN = /^[A-Z0-9_]+$/;
+
+@Injectable()
+export class AccountMappingService {
+  constructor(@Inject("PrismaClient") private prisma: PrismaClient) {}
+
+  private assertValidKey(key: string) {
+    if (!KEY_PATTERN.test(key)) {
+      throw new BadRequestException(
+        "Mapping keys are upper-case codes such as BASIC or NET_PAY"
+      );
+    }
+  }
+
+  // Defaults merged with saved mappings; isDefault marks keys never saved
+  async getMappings() {
+    const saved = await this.prisma.accountMapping.findMany({
+      orderBy: { key: "asc" },
+    });
+    const savedKeys = new Set(saved.map((mapping) => mapping.key));
+
+    return [
+      ...Object.entries(DEFAULT_ACCOUNTS)
+        .filter(([key]) => !savedKeys.has(key))
+        .map(([key, account]) => ({ key, ...account, isDefault: true })),
+      ...saved.map((mapping) => ({ ...mapping, isDefault: false })),
+    ].sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  async upsertMapping(
+    key: string,
+    upsertDto: UpsertAccountMappingDto,
+    adminId: string
+  ) {
+    this.assertValidKey(key);
+
+    const existing = await this.prisma.accountMapping.findUnique({
+      where: { key },
+    });
+
+    return this.prisma.$transaction(async (tx) => {
+      const mapping = await tx.accountMapping.upsert({
+        where: { key },
+        create: { ...upsertDto, key, updatedBy: adminId },
+        update: { ...upsertDto, updatedBy: adminId },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: existing ? "UPDATE" : "CREATE",
+          userId: adminId,
+          entityType: "AccountMapping",
+          entityId: mapping.id,
+          reason: `${key} mapped to account ${upsertDto.accountCode}`,
+          changes: JSON.stringify({
+            key,
+            previous: existing
+              ? {
+                  accountCode: existing.accountCode,
+                  accountName: existing.accountName,
+                }
+              : DEFAULT_ACCOUNTS[key] ?? null,
+            updated: upsertDto,
+          }),
+        },
+      });
+
+      return mapping;
+    });
+  }
+
+  // Removing a mapping returns the key to its default or fallback account
+  async deleteMapping(key: string, adminId: string) {
+    const mapping = await this.prisma.accountMapping.findUnique({
+      where: { key },
+    });
+
+    if (!mapping) {
+      throw new NotFoundException(`No account mapping saved for ${key}`);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.accountMapping.delete({ where: { id: mapping.id } });
+
+      await tx.auditLog.create({
+        data: {
+          action: "DELETE",
+          userId: adminId,
+          entityType: "AccountMapping",
+          entityId: mapping.id,
+          reason: `Account mapping for ${key} removed`,
+          changes: JSON.stringify({
+            key,
+            previous: {
+              accountCode: mapping.accountCode,
+              accountName: mapping.accountName,
+            },
+          }),
+        },
+      });
+    });
+
+    return { message: "Account mapping removed" };
+  }
+
+  // Looks a key up in saved mappings, then defaults, then does the same for
+  // the fallback key
+  async getResolver(): Promise<AccountResolver> {
+    const saved = await this.prisma.accountMapping.findMany();
+    const accounts = new Map<string, LedgerAccount>(
+      Object.entries(DEFAULT_ACCOUNTS)
+    );
+    for (const mapping of saved) {
+      accounts.set(mapping.key, {
+        accountCode: mapping.accountCode,
+        accountName: mapping.accountName,
+      });
+    }
+
+    return (key, fallback = JournalAccountKey.SALARY_EXPENSE) =>
+      accounts.get(key) ??
+      accounts.get(fallback) ??
+      DEFAULT_ACCOUNTS[JournalAccountKey.SALARY_EXPENSE];
+  }
+}
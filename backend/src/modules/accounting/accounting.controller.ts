@@ -0,0 +1,92 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  UseFilters,
+  UseInterceptors,
+  StreamableFile,
+} from "@nestjs/common";
+import { AccountMappingService } from "./account-mapping.service";
+import { JournalService } from "./journal.service";
+import {
+  JournalExportQueryDto,
+  UpsertAccountMappingDto,
+} from "./dto/accounting.dto";
+import { JwtGuard } from "@common/guards/jwt.guard";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
+import { User, RequestUser } from "@common/decorators/user.decorator";
+import { Permission } from "@common/enums/permission.enum";
+import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
+import { MoneyInterceptor } from "@common/interceptors/money.interceptor";
+
+@Controller("accounting")
+@UseFilters(AllExceptionsFilter)
+@UseInterceptors(MoneyInterceptor)
+export class AccountingController {
+  constructor(
+    private accountMappingService: AccountMappingService,
+    private journalService: JournalService
+  ) {}
+
+  @Get("account-mappings")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getMappings() {
+    return this.accountMappingService.getMappings();
+  }
+
+  @Put("account-mappings/:key")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async upsertMapping(
+    @Param("key") key: string,
+    @User() user: RequestUser,
+    @Body() upsertDto: UpsertAccountMappingDto
+  ) {
+    return this.accountMappingService.upsertMapping(
+      key,
+      upsertDto,
+      user.userId
+    );
+  }
+
+  @Delete("account-mappings/:key")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async deleteMapping(@Param("key") key: string, @User() user: RequestUser) {
+    return this.accountMappingService.deleteMapping(key, user.userId);
+  }
+
+  @Get("journals/:month")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getJournal(@Param("month") month: string) {
+    return this.journalService.getJournal(month);
+  }
+
+  @Get("journals/:month/export")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async exportJournal(
+    @Param("month") month: string,
+    @Query() query: JournalExportQueryDto,
+    @User() user: RequestUser
+  ) {
+    const file = await this.journalService.exportJournal(
+      month,
+      query.format,
+      user.userId
+    );
+
+    return new StreamableFile(file.content, {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.fileName}"`,
+    });
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from "@nestjs/common";
+import { AccountMappingService } from "./account-mapping.service";
+import { JournalService } from "./journal.service";
+import { AccountingController } from "./accounting.controller";
+import { getPrismaClient } from "@config/database.config";
+
+@Module({
+  providers: [
+    AccountMappingService,
+    JournalService,
+    {
+      provide: "PrismaClient",
+      useValue: getPrismaClient(),
+    },
+  ],
+  controllers: [AccountingController],
+})
+export class AccountingModule {}
@@ -0,0 +1,17 @@
+import { IsString, IsEnum, IsNotEmpty } from "class-validator";
+import { JournalExportFormat } from "@common/enums/accounting.enum";
+
+export class UpsertAccountMappingDto {
+  @IsString()
+  @IsNotEmpty()
+  accountCode!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  accountName!: string;
+}
+
+export class JournalExportQueryDto {
+  @IsEnum(JournalExportFormat)
+  format!: JournalExportFormat;
+}
@@ -0,0 +1,480 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Inject,
+} from "@nestjs/common";
+import { PrismaClient, Payroll, PayrollLineItem } from "@prisma/client";
+import {
+  JournalAccountKey,
+  JournalExportFormat,
+} from "@common/enums/accounting.enum";
+import {
+  PayrollRunStatus,
+  NON_SALARY_CODES,
+  SalaryComponentType,
+} from "@common/enums/payroll.enum";
+import { payrollConfig } from "@config/payroll.config";
+import { Money, ZERO, formatMoney, sumMoney } from "@modules/payroll/money";
+import { parseStatutoryBreakdown } from "@modules/statutory/statutory.service";
+import {
+  AccountMappingService,
+  AccountResolver,
+  LedgerAccount,
+} from "./account-mapping.service";
+
+type JournalPayroll = Payroll & {
+  employee: { department: string | null };
+  lineItems: PayrollLineItem[];
+};
+
+export interface JournalLine {
+  accountCode: string;
+  accountName: string;
+  department: string | null; // Expense lines only; liabilities are company-wide
+  debit: Money;
+  credit: Money;
+}
+
+export interface Journal {
+  month: string;
+  date: Date; // Last day of the month
+  currency: string;
+  narration: string;
+  lines: JournalLine[];
+  totalDebit: Money;
+  totalCredit: Money;
+}
+
+export interface JournalFile {
+  fileName: string;
+  content: Buffer;
+  contentType: string;
+}
+
+// Ledgers only take final figures
+const POSTABLE_STATUSES: string[] = [
+  PayrollRunStatus.FINALIZED,
+  PayrollRunStatus.PAID,
+];
+
+const UNASSIGNED_DEPARTMENT = "Unassigned";
+
+// Recovering an overpayment reduces salary expense rather than creating a
+// liability
+const EXPENSE_DEDUCTION_CODES = ["ARREARS_RECOVERY"];
+
+@Injectable()
+export class JournalService {
+  constructor(
+    @Inject("PrismaClient") private prisma: PrismaClient,
+    private accountMappingService: AccountMappingService
+  ) {}
+
+  private parseMonth(month: string): Date {
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+      throw new BadRequestException("Month must be in YYYY-MM format");
+    }
+
+    const [year, monthNum] = month.split("-").map(Number);
+    return new Date(year, monthNum - 1, 1);
+  }
+
+  private formatDate(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
+      2,
+      "0"
+    )}-${String(date.getDate()).padStart(2, "0")}`;
+  }
+
+  private csvField(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;");
+  }
+
+  // Earnings and deductions of a record as signed amounts by component code.
+  // Records without line items post base salary as BASIC and the rest as
+  // ALLOWANCES, DEDUCTIONS and ARREARS. Reimbursement and loan items are left
+  // to the REIMBURSEMENTS and LOANS_AND_ADVANCES accounts
+  private getComponents(payroll: JournalPayroll) {
+    const lineItems = payroll.lineItems.filter(
+      (item) => !NON_SALARY_CODES.includes(item.code)
+    );
+
+    if (lineItems.length > 0) {
+      return lineItems.map((item) => ({
+        code: item.code,
+        type: item.type as SalaryComponentType,
+        amount: item.amount,
+      }));
+    }
+
+    return [
+      {
+        code: "BASIC",
+        type: SalaryComponentType.EARNING,
+        amount: payroll.baseSalary,
+      },
+      {
+        code: "ALLOWANCES",
+        type: SalaryComponentType.EARNING,
+        amount: payroll.allowances,
+      },
+      {
+        code: "ARREARS",
+        type: SalaryComponentType.EARNING,
+        amount: payroll.arrears,
+      },
+      {
+        code: "DEDUCTIONS",
+        type: SalaryComponentType.DEDUCTION,
+        amount: payroll.deductions,
+      },
+    ];
+  }
+
+  private getStatutoryComponents(payroll: Payroll) {
+    return (
+      parseStatutoryBreakdown(payroll.statutoryBreakdown)?.components ?? []
+    );
+  }
+
+  // Debits: earnings and employer contributions as expense per department.
+  // Credits: loss of pay against expense, then deductions, statutory
+  // liabilities, loan recoveries against the loans receivable and net pay
+  // payable. These balance whenever net salary is gross plus arrears and
+  // overtime less every deduction
+  private buildLines(
+    payrolls: JournalPayroll[],
+    resolve: AccountResolver
+  ): JournalLine[] {
+    // Signed totals, debit positive, by account and department
+    const totals = new Map<
+      string,
+      { account: LedgerAccount; department: string | null; amount: Money }
+    >();
+
+    const post = (
+      key: string,
+      fallback: string,
+      department: string | null,
+      amount: Money
+    ) => {
+      if (amount.isZero()) {
+        return;
+      }
+
+      const account = resolve(key, fallback);
+      const totalKey = `${account.accountCode}|${department ?? ""}`;
+      const total = totals.get(totalKey);
+
+      if (total) {
+        total.amount = total.amount.plus(amount);
+      } else {
+        totals.set(totalKey, { account, department, amount });
+      }
+    };
+
+    for (const payroll of payrolls) {
+      const department = payroll.employee.department ?? UNASSIGNED_DEPARTMENT;
+
+      for (const component of this.getComponents(payroll)) {
+        if (component.type === SalaryComponentType.EARNING) {
+          post(
+            component.code,
+            JournalAccountKey.SALARY_EXPENSE,
+            department,
+            component.amount
+          );
+        } else if (EXPENSE_DEDUCTION_CODES.includes(component.code)) {
+          post(
+            component.code,
+            JournalAccountKey.SALARY_EXPENSE,
+            department,
+            component.amount.negated()
+          );
+        } else {
+          post(
+            component.code,
+            JournalAccountKey.DEDUCTIONS,
+            null,
+            component.amount.negated()
+          );
+        }
+      }
+
+      post(
+        JournalAccountKey.LOSS_OF_PAY,
+        JournalAccountKey.SALARY_EXPENSE,
+        department,
+        payroll.lossOfPayAmount.negated()
+      );
+
+      for (const component of this.getStatutoryComponents(payroll)) {
+        post(
+          component.code,
+          JournalAccountKey.DEDUCTIONS,
+          null,
+          component.employeeAmount.plus(component.employerAmount).negated()
+        );
+        post(
+          `EMPLOYER_${component.code}`,
+          JournalAccountKey.EMPLOYER_CONTRIBUTIONS,
+          department,
+          component.employerAmount
+        );
+      }
+
+      post(
+        JournalAccountKey.OVERTIME,
+        JournalAccountKey.SALARY_EXPENSE,
+        department,
+        payroll.overtimePay
+      );
+
+      post(
+        JournalAccountKey.REIMBURSEMENTS,
+        JournalAccountKey.REIMBURSEMENTS,
+        department,
+        payroll.reimbursements
+      );
+
+      post(
+        JournalAccountKey.LOANS_AND_ADVANCES,
+        JournalAccountKey.LOANS_AND_ADVANCES,
+        null,
+        payroll.loanDeductions.negated()
+      );
+
+      post(
+        JournalAccountKey.NET_PAY,
+        JournalAccountKey.NET_PAY,
+        null,
+        payroll.netSalary.negated()
+      );
+    }
+
+    return [...totals.values()]
+      .filter((total) => !total.amount.isZero())
+      .map((total) => ({
+        ...total.account,
+        department: total.department,
+        debit: total.amount.gt(0) ? total.amount : ZERO,
+        credit: total.amount.isNegative() ? total.amount.negated() : ZERO,
+      }))
+      .sort(
+        (a, b) =>
+          Number(b.debit.gt(0)) - Number(a.debit.gt(0)) ||
+          a.accountCode.localeCompare(b.accountCode) ||
+          (a.department ?? "").localeCompare(b.department ?? "")
+      );
+  }
+
+  async getJournal(month: string): Promise<Journal> {
+    const monthStart = this.parseMonth(month);
+    const run = await this.prisma.payrollRun.findUnique({
+      where: { month: monthStart },
+    });
+
+    if (!run) {
+      throw new NotFoundException(`No payroll run for ${month}`);
+    }
+
+    if (!POSTABLE_STATUSES.includes(run.status)) {
+      throw new BadRequestException(
+        "Only finalized or paid payroll runs can be posted to the ledger"
+      );
+    }
+
+    const payrolls = await this.prisma.payroll.findMany({
+      where: { runId: run.id },
+      include: {
+        employee: { select: { department: true } },
+        lineItems: true,
+      },
+    });
+
+    const currencies = new Set(payrolls.map((payroll) => payroll.currency));
+    if (currencies.size > 1) {
+      throw new BadRequestException(
+        `The run mixes currencies (${[...currencies].join(", ")})`
+      );
+    }
+
+    const resolve = await this.accountMappingService.getResolver();
+    const lines = this.buildLines(payrolls, resolve);
+    const totalDebit = sumMoney(lines.map((line) => line.debit));
+    const totalCredit = sumMoney(lines.map((line) => line.credit));
+
+    if (!totalDebit.equals(totalCredit)) {
+      throw new BadRequestException(
+        `The journal does not balance (debits ${formatMoney(
+          totalDebit
+        )}, credits ${formatMoney(
+          totalCredit
+        )}); check that every net salary matches its components`
+      );
+    }
+
+    return {
+      month,
+      date: new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0),
+      currency: [...currencies][0] ?? payrollConfig.currency,
+      narration: `Payroll for ${month}`,
+      lines,
+      totalDebit,
+      totalCredit,
+    };
+  }
+
+  private toCsv(journal: Journal): string {
+    const rows = [
+      [
+        "Date",
+        "Voucher",
+        "Account Code",
+        "Account Name",
+        "Department",
+        "Debit",
+        "Credit",
+        "Currency",
+        "Narration",
+      ],
+      ...journal.lines.map((line) => [
+        this.formatDate(journal.date),
+        `PAY-${journal.month}`,
+        line.accountCode,
+        line.accountName,
+        line.department ?? "",
+        line.debit.isZero() ? "" : formatMoney(line.debit),
+        line.credit.isZero() ? "" : formatMoney(line.credit),
+        journal.currency,
+        journal.narration,
+      ]),
+    ];
+
+    return rows
+      .map((row) => row.map((field) => this.csvField(field)).join(","))
+      .join("\n")
+      .concat("\n");
+  }
+
+  // One journal voucher; each ledger is a single entry with a cost centre
+  // allocation per department. Tally takes debits as negative amounts
+  private toTallyXml(journal: Journal): string {
+    const text = (value: string) => this.escapeXml(value);
+    const ledgers = new Map<string, JournalLine[]>();
+    for (const line of journal.lines) {
+      ledgers.set(line.accountName, [
+        ...(ledgers.get(line.accountName) ?? []),
+        line,
+      ]);
+    }
+
+    const tallyAmount = (lines: JournalLine[]) =>
+      sumMoney(lines.map((line) => line.credit.minus(line.debit)));
+
+    const entries = [...ledgers.entries()].map(([ledgerName, lines]) => {
+      const amount = tallyAmount(lines);
+      const costCentres = lines
+        .filter((line) => line.department !== null)
+        .map(
+          (line) => `                <COSTCENTREALLOCATIONS.LIST>
+                  <NAME>${text(line.department!)}</NAME>
+                  <AMOUNT>${formatMoney(tallyAmount([line]))}</AMOUNT>
+                </COSTCENTREALLOCATIONS.LIST>`
+        );
+
+      const allocations = costCentres.length
+        ? `
+              <CATEGORYALLOCATIONS.LIST>
+                <CATEGORY>Primary Cost Category</CATEGORY>
+${costCentres.join("\n")}
+              </CATEGORYALLOCATIONS.LIST>`
+        : "";
+
+      return `            <ALLLEDGERENTRIES.LIST>
+              <LEDGERNAME>${text(ledgerName)}</LEDGERNAME>
+              <ISDEEMEDPOSITIVE>${
+                amount.isNegative() ? "Yes" : "No"
+              }</ISDEEMEDPOSITIVE>
+              <AMOUNT>${formatMoney(amount)}</AMOUNT>${allocations}
+            </ALLLEDGERENTRIES.LIST>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<ENVELOPE>
+  <HEADER>
+    <TALLYREQUEST>Import Data</TALLYREQUEST>
+  </HEADER>
+  <BODY>
+    <IMPORTDATA>
+      <REQUESTDESC>
+        <REPORTNAME>Vouchers</REPORTNAME>
+        <STATICVARIABLES>
+          <SVCURRENTCOMPANY>${text(
+            payrollConfig.companyName
+          )}</SVCURRENTCOMPANY>
+        </STATICVARIABLES>
+      </REQUESTDESC>
+      <REQUESTDATA>
+        <TALLYMESSAGE xmlns:UDF="TallyUDF">
+          <VOUCHER VCHTYPE="Journal" ACTION="Create">
+            <DATE>${this.formatDate(journal.date).replace(/-/g, "")}</DATE>
+            <VOUCHERTYPENAME>Journal</VOUCHERTYPENAME>
+            <VOUCHERNUMBER>PAY-${journal.month}</VOUCHERNUMBER>
+            <NARRATION>${text(journal.narration)}</NARRATION>
+${entries.join("\n")}
+          </VOUCHER>
+        </TALLYMESSAGE>
+      </REQUESTDATA>
+    </IMPORTDATA>
+  </BODY>
+</ENVELOPE>
+`;
+  }
+
+  async exportJournal(
+    month: string,
+    format: JournalExportFormat,
+    adminId: string
+  ): Promise<JournalFile> {
+    const journal = await this.getJournal(month);
+    const isTally = format === JournalExportFormat.TALLY;
+    const fileName = `payroll-journal-${month}.${isTally ? "xml" : "csv"}`;
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: "EXPORT",
+        userId: adminId,
+        entityType: "PayrollJournal",
+        entityId: month,
+        reason: `Payroll journal exported for ${month}`,
+        changes: JSON.stringify({
+          format,
+          fileName,
+          lineCount: journal.lines.length,
+          totalDebit: formatMoney(journal.totalDebit),
+          totalCredit: formatMoney(journal.totalCredit),
+        }),
+      },
+    });
+
+    return {
+      fileName,
+      content: Buffer.from(
+        isTally ? this.toTallyXml(journal) : this.toCsv(journal),
+        "utf8"
+      ),
+      contentType: isTally ? "application/xml" : "text/csv",
+    };
+  }
+}
@@ -2,6 +2,7 @@ import {
   Controller,
   Post,
   Get,
+  Put,
   Body,
   Param,
   Query,
@@ -9,12 +10,16 @@ import {
   UseFilters,
 } from "@nestjs/common";
 import { AttendanceService } from "./attendance.service";
-import { OverrideAttendanceDto } from "./dto/attendance.dto";
+import {
+  ApproveOvertimeDto,
+  OverrideAttendanceDto,
+  RejectOvertimeDto,
+} from "./dto/attendance.dto";
 import { JwtGuard } from "@common/guards/jwt.guard";
-import { RolesGuard } from "@common/guards/roles.guard";
-import { Roles } from "@common/decorators/roles.decorator";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
 import { User, RequestUser } from "@common/decorators/user.decorator";
-import { Role } from "@common/enums/role.enum";
+import { Permission } from "@common/enums/permission.enum";
 import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
 
 @Controller("attendance")
@@ -23,7 +28,8 @@ export class AttendanceController {
   constructor(private attendanceService: AttendanceService) {}
 
   @Post("check-in")
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_SELF)
   async checkIn(@User() user: RequestUser) {
     // Get employee ID from user
     // This assumes the user has an employeeId or we need to fetch it
@@ -32,19 +38,36 @@ export class AttendanceController {
   }
 
   @Post("check-out")
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_SELF)
   async checkOut(@User() user: RequestUser) {
     return this.attendanceService.checkOut(user.userId);
   }
 
+  @Post("break/start")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_SELF)
+  async startBreak(@User() user: RequestUser) {
+    return this.attendanceService.startBreak(user.userId);
+  }
+
+  @Post("break/end")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_SELF)
+  async endBreak(@User() user: RequestUser) {
+    return this.attendanceService.endBreak(user.userId);
+  }
+
   @Get("today")
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_SELF)
   async getTodayAttendance(@User() user: RequestUser) {
     return this.attendanceService.getTodayAttendance(user.userId);
   }
 
   @Get("history")
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_SELF)
   async getAttendanceHistory(
     @User() user: RequestUser,
     @Query("startDate") startDate?: string,
@@ -58,7 +81,8 @@ export class AttendanceController {
   }
 
   @Get("stats/:month")
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_SELF)
   async getAttendanceStats(
     @User() user: RequestUser,
     @Param("month") month: string
@@ -66,8 +90,55 @@ export class AttendanceController {
     return this.attendanceService.getAttendanceStats(user.userId, month);
   }
 
+  @Get("team")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_TEAM)
+  async getTeamAttendance(
+    @User() user: RequestUser,
+    @Query("startDate") startDate?: string,
+    @Query("endDate") endDate?: string,
+    @Query("employeeId") employeeId?: string
+  ) {
+    return this.attendanceService.getTeamAttendance(
+      user.userId,
+      startDate,
+      endDate,
+      employeeId
+    );
+  }
+
+  @Get("overtime/pending")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions()
+  async getPendingOvertime(@User() user: RequestUser) {
+    return this.attendanceService.getPendingOvertime(user);
+  }
+
+  @Put(":id/overtime/approve")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions()
+  async approveOvertime(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() approveDto: ApproveOvertimeDto
+  ) {
+    return this.attendanceService.approveOvertime(id, user, approveDto);
+  }
+
+  @Put(":id/overtime/reject")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions()
+  async rejectOvertime(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() rejectDto: RejectOvertimeDto
+  ) {
+    return this.attendanceService.rejectOvertime(id, user, rejectDto);
+  }
+
   @Get(":date")
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_SELF)
   async getAttendanceByDate(
     @User() user: RequestUser,
     @Param("date") date: string
@@ -76,8 +147,8 @@ export class AttendanceController {
   }
 
   @Post("override")
-  @UseGuards(JwtGuard, RolesGuard)
-  @Roles(Role.ADMIN)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_OVERRIDE)
   async overrideAttendance(
     @User() user: RequestUser,
     @Body() overrideDto: OverrideAttendanceDto
@@ -1,17 +1,32 @@
 import { Module } from "@nestjs/common";
 import { AttendanceService } from "./attendance.service";
 import { AttendanceController } from "./attendance.controller";
+import { ShiftService } from "./shift.service";
+import { ShiftController } from "./shift.controller";
+import { RegularizationService } from "./regularization.service";
+import { RegularizationController } from "./regularization.controller";
+import { EmployeesModule } from "@modules/employees/employees.module";
+import { PayrollModule } from "@modules/payroll/payroll.module";
+import { LeaveModule } from "@modules/leave/leave.module";
+import { CalendarModule } from "@modules/calendar/calendar.module";
 import { getPrismaClient } from "@config/database.config";
 
 @Module({
+  imports: [EmployeesModule, PayrollModule, LeaveModule, CalendarModule],
   providers: [
     AttendanceService,
+    ShiftService,
+    RegularizationService,
     {
       provide: "PrismaClient",
       useValue: getPrismaClient(),
     },
   ],
-  controllers: [AttendanceController],
-  exports: [AttendanceService],
+  controllers: [
+    AttendanceController,
+    ShiftController,
+    RegularizationController,
+  ],
+  exports: [AttendanceService, ShiftService],
 })
 export class AttendanceModule {}
@@ -4,14 +4,55 @@ import {
   NotFoundException,
   Inject,
   ConflictException,
+  ForbiddenException,
 } from "@nestjs/common";
-import { PrismaClient, Employee } from "@prisma/client";
-import { AttendanceStatus } from "@common/enums/attendance-status.enum";
-import { OverrideAttendanceDto } from "./dto/attendance.dto";
+import { PrismaClient, Prisma, Employee, Shift } from "@prisma/client";
+import {
+  AttendanceStatus,
+  OvertimeStatus,
+  PunchType,
+} from "@common/enums/attendance-status.enum";
+import { Permission } from "@common/enums/permission.enum";
+import { RequestUser } from "@common/decorators/user.decorator";
+import {
+  ApproveOvertimeDto,
+  OverrideAttendanceDto,
+  RejectOvertimeDto,
+} from "./dto/attendance.dto";
+import { EmployeesService } from "@modules/employees/employees.service";
+import { PayrollRunService } from "@modules/payroll/payroll-run.service";
+import { CalendarService } from "@modules/calendar/calendar.service";
+import { ShiftService } from "./shift.service";
+import {
+  getLateMinutes,
+  getShiftWindow,
+  getLateMarkHalfDays,
+  isNightShift,
+} from "./shift-schedule";
+import { getLastPunchType, isDayOpen, summarizeDay } from "./punch-sessions";
+
+const PUNCH_INCLUDE = {
+  shift: true,
+  punches: { orderBy: { punchedAt: "asc" } },
+} satisfies Prisma.AttendanceInclude;
+
+type AttendanceWithPunches = Prisma.AttendanceGetPayload<{
+  include: typeof PUNCH_INCLUDE;
+}>;
+
+// How far back open check-ins are closed automatically; older ones are left
+// for regularization
+const AUTO_CHECK_OUT_LOOKBACK_DAYS = 2;
 
 @Injectable()
 export class AttendanceService {
-  constructor(@Inject("PrismaClient") private prisma: PrismaClient) {}
+  constructor(
+    @Inject("PrismaClient") private prisma: PrismaClient,
+    private employeesService: EmployeesService,
+    private payrollRunService: PayrollRunService,
+    private shiftService: ShiftService,
+    private calendarService: CalendarService
+  ) {}
 
   private async findEmployeeOrThrow(userId: string): Promise<Employee> {
     const employee = await this.prisma.employee.findUnique({
@@ -31,58 +72,151 @@ export class AttendanceService {
     return today;
   }
 
+  private getYesterdayDate(): Date {
+    const today = this.getTodayDate();
+    return new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+  }
+
+  // A night shift that started yesterday owns punches until it ends
+  private async getShiftDay(
+    employee: Employee,
+    now: Date
+  ): Promise<{ date: Date; shift: Shift | null }> {
+    const yesterday = this.getYesterdayDate();
+    const yesterdayShift = await this.shiftService.resolveShift(
+      employee,
+      yesterday
+    );
+
+    if (
+      yesterdayShift &&
+      isNightShift(yesterdayShift) &&
+      now < getShiftWindow(yesterdayShift, yesterday).end
+    ) {
+      return { date: yesterday, shift: yesterdayShift };
+    }
+
+    const today = this.getTodayDate();
+    return {
+      date: today,
+      shift: await this.shiftService.resolveShift(employee, today),
+    };
+  }
+
+  // The record punches go to: yesterday's while a night shift that started
+  // then is still open, otherwise today's
+  private async findCurrentAttendance(employeeId: string) {
+    const find = (date: Date) =>
+      this.prisma.attendance.findUnique({
+        where: { employeeId_date: { employeeId, date } },
+        include: PUNCH_INCLUDE,
+      });
+
+    const today = this.getTodayDate();
+    const attendance = await find(today);
+
+    if (!attendance || !isDayOpen(attendance.punches)) {
+      const yesterday = this.getYesterdayDate();
+      const previous = await find(yesterday);
+
+      if (
+        previous &&
+        isDayOpen(previous.punches) &&
+        previous.shift &&
+        isNightShift(previous.shift)
+      ) {
+        return { attendance: previous, date: yesterday };
+      }
+    }
+
+    return { attendance, date: today };
+  }
+
+  private async addPunch(
+    attendanceId: string,
+    type: PunchType,
+    punchedAt: Date,
+    data: Prisma.AttendanceUpdateInput = {}
+  ) {
+    return this.prisma.attendance.update({
+      where: { id: attendanceId },
+      data: { ...data, punches: { create: { type, punchedAt } } },
+      include: PUNCH_INCLUDE,
+    });
+  }
+
+  // The first check-in of the day starts the record; later ones start a new
+  // session after a check-out
   async checkIn(userId: string) {
     const employee = await this.findEmployeeOrThrow(userId);
     const employeeId = employee.id;
-    const today = this.getTodayDate();
+    const now = new Date();
+    const { date, shift } = await this.getShiftDay(employee, now);
 
-    // Check if already checked in today
     const existingRecord = await this.prisma.attendance.findUnique({
       where: {
         employeeId_date: {
           employeeId,
-          date: today,
+          date,
         },
       },
+      include: PUNCH_INCLUDE,
     });
 
-    if (existingRecord && existingRecord.checkInTime) {
-      throw new ConflictException("Already checked in today");
+    if (existingRecord && existingRecord.punches.length > 0) {
+      const lastType = getLastPunchType(existingRecord.punches);
+
+      if (lastType === PunchType.BREAK_START) {
+        throw new BadRequestException(
+          "You are on a break. End the break instead"
+        );
+      }
+
+      if (lastType !== PunchType.OUT) {
+        throw new ConflictException("Already checked in");
+      }
+
+      return this.addPunch(existingRecord.id, PunchType.IN, now, {
+        checkOutTime: null,
+      });
     }
 
+    const lateMinutes = shift
+      ? getLateMinutes(shift, getShiftWindow(shift, date), now)
+      : 0;
+
     // Create or update attendance record
     return this.prisma.attendance.upsert({
       where: {
         employeeId_date: {
           employeeId,
-          date: today,
+          date,
         },
       },
       create: {
         employeeId,
-        date: today,
-        checkInTime: new Date(),
+        date,
+        checkInTime: now,
         status: AttendanceStatus.PRESENT,
+        shiftId: shift?.id,
+        lateMinutes,
+        punches: { create: { type: PunchType.IN, punchedAt: now } },
       },
       update: {
-        checkInTime: new Date(),
+        checkInTime: now,
         status: AttendanceStatus.PRESENT,
+        shiftId: shift?.id ?? null,
+        lateMinutes,
+        punches: { create: { type: PunchType.IN, punchedAt: now } },
       },
+      include: PUNCH_INCLUDE,
     });
   }
 
+  // Every check-out recalculates the day from all of its sessions
   async checkOut(userId: string) {
     const { id: employeeId } = await this.findEmployeeOrThrow(userId);
-    const today = this.getTodayDate();
-
-    const attendance = await this.prisma.attendance.findUnique({
-      where: {
-        employeeId_date: {
-          employeeId,
-          date: today,
-        },
-      },
-    });
+    const { attendance, date } = await this.findCurrentAttendance(employeeId);
 
     if (!attendance) {
       throw new BadRequestException(
@@ -90,36 +224,87 @@ export class AttendanceService {
       );
     }
 
-    if (!attendance.checkInTime) {
+    if (attendance.punches.length === 0) {
       throw new BadRequestException("Must check in before checking out");
     }
 
-    if (attendance.checkOutTime) {
-      throw new ConflictException("Already checked out today");
+    if (!isDayOpen(attendance.punches)) {
+      throw new ConflictException("Already checked out");
     }
 
-    return this.prisma.attendance.update({
-      where: {
-        id: attendance.id,
-      },
-      data: {
-        checkOutTime: new Date(),
-      },
+    return this.closeDay(attendance, date, new Date());
+  }
+
+  // Adds the OUT punch and recalculates the day from all of its sessions
+  private async closeDay(
+    attendance: AttendanceWithPunches,
+    date: Date,
+    checkOutTime: Date
+  ) {
+    const { workedMinutes, earlyLeaveMinutes, overtimeMinutes, ...summary } =
+      summarizeDay(
+        [
+          ...attendance.punches,
+          { type: PunchType.OUT, punchedAt: checkOutTime },
+        ],
+        attendance.shift,
+        date
+      );
+
+    // Hours against the scheduled shift decide the day, unless HR has
+    // already overridden it
+    const status =
+      (!attendance.overriddenBy && summary.status) || attendance.status;
+
+    // Overtime already decided stays decided
+    const overtimeStatus =
+      overtimeMinutes > 0
+        ? attendance.overtimeStatus ?? OvertimeStatus.PENDING
+        : null;
+
+    return this.addPunch(attendance.id, PunchType.OUT, checkOutTime, {
+      checkOutTime,
+      workedMinutes,
+      status,
+      earlyLeaveMinutes,
+      overtimeMinutes,
+      overtimeStatus,
     });
   }
 
-  async getTodayAttendance(userId: string) {
+  async startBreak(userId: string) {
     const { id: employeeId } = await this.findEmployeeOrThrow(userId);
-    const today = this.getTodayDate();
+    const { attendance } = await this.findCurrentAttendance(employeeId);
+    const lastType = attendance && getLastPunchType(attendance.punches);
 
-    const attendance = await this.prisma.attendance.findUnique({
-      where: {
-        employeeId_date: {
-          employeeId,
-          date: today,
-        },
-      },
-    });
+    if (lastType === PunchType.BREAK_START) {
+      throw new ConflictException("Already on a break");
+    }
+
+    if (!attendance || !isDayOpen(attendance.punches)) {
+      throw new BadRequestException("Must check in before starting a break");
+    }
+
+    return this.addPunch(attendance.id, PunchType.BREAK_START, new Date());
+  }
+
+  async endBreak(userId: string) {
+    const { id: employeeId } = await this.findEmployeeOrThrow(userId);
+    const { attendance } = await this.findCurrentAttendance(employeeId);
+
+    if (
+      !attendance ||
+      getLastPunchType(attendance.punches) !== PunchType.BREAK_START
+    ) {
+      throw new BadRequestException("No break in progress");
+    }
+
+    return this.addPunch(attendance.id, PunchType.BREAK_END, new Date());
+  }
+
+  async getTodayAttendance(userId: string) {
+    const { id: employeeId } = await this.findEmployeeOrThrow(userId);
+    const { attendance } = await this.findCurrentAttendance(employeeId);
 
     return attendance || { message: "No attendance record for today" };
   }
@@ -136,6 +321,7 @@ export class AttendanceService {
           date: parsedDate,
         },
       },
+      include: PUNCH_INCLUDE,
     });
 
     if (!attendance) {
@@ -173,6 +359,46 @@ export class AttendanceService {
     });
   }
 
+  // Attendance of the requesting manager's team; defaults to today
+  async getTeamAttendance(
+    userId: string,
+    startDate?: string,
+    endDate?: string,
+    employeeId?: string
+  ) {
+    const teamMemberIds = await this.employeesService.getTeamMemberIds(userId);
+
+    if (employeeId && !teamMemberIds.includes(employeeId)) {
+      throw new ForbiddenException("This employee is not in your team");
+    }
+
+    const start = startDate ? new Date(startDate) : this.getTodayDate();
+    start.setHours(0, 0, 0, 0);
+    const end = endDate ? new Date(endDate) : new Date(start);
+    end.setHours(23, 59, 59, 999);
+
+    if (end < start) {
+      throw new BadRequestException("End date must be after start date");
+    }
+
+    return this.prisma.attendance.findMany({
+      where: {
+        employeeId: employeeId ?? { in: teamMemberIds },
+        date: { gte: start, lte: end },
+      },
+      include: {
+        employee: {
+          select: {
+            firstName: true,
+            lastName: true,
+            department: true,
+          },
+        },
+      },
+      orderBy: [{ date: "desc" }, { employeeId: "asc" }],
+    });
+  }
+
   async overrideAttendance(
     overrideDto: OverrideAttendanceDto,
     adminId: string
@@ -191,43 +417,56 @@ export class AttendanceService {
     const parsedDate = new Date(date);
     parsedDate.setHours(0, 0, 0, 0);
 
-    const attendance = await this.prisma.attendance.upsert({
+    await this.payrollRunService.assertMonthEditable(parsedDate);
+
+    const existing = await this.prisma.attendance.findUnique({
       where: {
         employeeId_date: {
           employeeId,
           date: parsedDate,
         },
       },
-      create: {
-        employeeId,
-        date: parsedDate,
-        status,
-        overriddenBy: adminId,
-        overrideReason: reason,
-      },
-      update: {
-        status,
-        overriddenBy: adminId,
-        overrideReason: reason,
-      },
     });
 
-    // Log the override action
-    await this.prisma.auditLog.create({
-      data: {
-        action: "OVERRIDE",
-        userId: adminId,
-        entityType: "Attendance",
-        entityId: attendance.id,
-        reason: reason || "Attendance override",
-        changes: JSON.stringify({
-          previousStatus: "N/A",
-          newStatus: status,
-        }),
-      },
-    });
+    return this.prisma.$transaction(async (tx) => {
+      const attendance = await tx.attendance.upsert({
+        where: {
+          employeeId_date: {
+            employeeId,
+            date: parsedDate,
+          },
+        },
+        create: {
+          employeeId,
+          date: parsedDate,
+          status,
+          overriddenBy: adminId,
+          overrideReason: reason,
+        },
+        update: {
+          status,
+          overriddenBy: adminId,
+          overrideReason: reason,
+        },
+      });
+
+      // Log the override action; a day without a record had no status
+      await tx.auditLog.create({
+        data: {
+          action: "OVERRIDE",
+          userId: adminId,
+          entityType: "Attendance",
+          entityId: attendance.id,
+          reason: reason || "Attendance override",
+          changes: JSON.stringify({
+            previousStatus: existing?.status ?? null,
+            newStatus: status,
+          }),
+        },
+      });
 
-    return attendance;
+      return attendance;
+    });
   }
 
   async getAttendanceStats(userId: string, month: string) {
@@ -256,6 +495,14 @@ export class AttendanceService {
       halfDay: 0,
       leave: 0,
       total: records.length,
+      lateMarks: 0,
+      lateMinutes: 0,
+      lateMarkHalfDays: 0,
+      earlyLeaves: 0,
+      earlyLeaveMinutes: 0,
+      overtimeMinutes: 0,
+      pendingOvertimeMinutes: 0,
+      approvedOvertimeMinutes: 0,
     };
 
     records.forEach((record) => {
@@ -273,8 +520,315 @@ export class AttendanceService {
           stats.leave++;
           break;
       }
+
+      if (record.lateMinutes > 0) {
+        stats.lateMarks++;
+        stats.lateMinutes += record.lateMinutes;
+      }
+      if (record.earlyLeaveMinutes > 0) {
+        stats.earlyLeaves++;
+        stats.earlyLeaveMinutes += record.earlyLeaveMinutes;
+      }
+      stats.overtimeMinutes += record.overtimeMinutes;
+      stats.approvedOvertimeMinutes += record.approvedOvertimeMinutes;
+      if (record.overtimeStatus === OvertimeStatus.PENDING) {
+        stats.pendingOvertimeMinutes += record.overtimeMinutes;
+      }
     });
 
+    stats.lateMarkHalfDays = getLateMarkHalfDays(stats.lateMarks);
+
     return stats;
   }
+
+  private async findApproverOrThrow(user: RequestUser): Promise<Employee> {
+    const employee = await this.prisma.employee.findUnique({
+      where: { userId: user.userId },
+    });
+
+    if (!employee) {
+      throw new BadRequestException("Approver is not an employee");
+    }
+
+    return employee;
+  }
+
+  // Overtime is decided by a holder of attendance:approve or the employee's
+  // own manager, never by the employee
+  private canApproveOvertime(
+    user: RequestUser,
+    approver: Employee,
+    employee: Pick<Employee, "id" | "managerId">
+  ): boolean {
+    return (
+      approver.id !== employee.id &&
+      (user.permissions.includes(Permission.ATTENDANCE_APPROVE) ||
+        employee.managerId === approver.id)
+    );
+  }
+
+  private async findPendingOvertimeOrThrow(
+    attendanceId: string,
+    user: RequestUser
+  ) {
+    const attendance = await this.prisma.attendance.findUnique({
+      where: { id: attendanceId },
+      include: { employee: true },
+    });
+
+    if (!attendance) {
+      throw new NotFoundException("Attendance record not found");
+    }
+
+    if (attendance.overtimeStatus !== OvertimeStatus.PENDING) {
+      throw new BadRequestException("No overtime is awaiting approval");
+    }
+
+    const approver = await this.findApproverOrThrow(user);
+    if (!this.canApproveOvertime(user, approver, attendance.employee)) {
+      throw new ForbiddenException(
+        "This overtime is not awaiting your approval"
+      );
+    }
+
+    await this.payrollRunService.assertMonthEditable(attendance.date);
+
+    return attendance;
+  }
+
+  // Only the overtime the user can decide on
+  async getPendingOvertime(user: RequestUser) {
+    const approver = await this.findApproverOrThrow(user);
+    const canApproveAll = user.permissions.includes(
+      Permission.ATTENDANCE_APPROVE
+    );
+
+    return this.prisma.attendance.findMany({
+      where: {
+        overtimeStatus: OvertimeStatus.PENDING,
+        employeeId: { not: approver.id },
+        ...(!canApproveAll && { employee: { managerId: approver.id } }),
+      },
+      include: {
+        employee: {
+          select: {
+            firstName: true,
+            lastName: true,
+            department: true,
+          },
+        },
+      },
+      orderBy: [{ date: "asc" }, { employeeId: "asc" }],
+    });
+  }
+
+  async approveOvertime(
+    attendanceId: string,
+    user: RequestUser,
+    approveDto: ApproveOvertimeDto
+  ) {
+    const attendance = await this.findPendingOvertimeOrThrow(
+      attendanceId,
+      user
+    );
+    const approvedMinutes =
+      approveDto.approvedMinutes ?? attendance.overtimeMinutes;
+
+    if (approvedMinutes > attendance.overtimeMinutes) {
+      throw new BadRequestException(
+        `Cannot approve more than the ${attendance.overtimeMinutes} overtime minutes recorded`
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updatedAttendance = await tx.attendance.update({
+        where: { id: attendanceId },
+        data: {
+          overtimeStatus: OvertimeStatus.APPROVED,
+          approvedOvertimeMinutes: approvedMinutes,
+          overtimeReviewedBy: user.userId,
+          overtimeReviewedAt: new Date(),
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "APPROVE",
+          userId: user.userId,
+          entityType: "Attendance",
+          entityId: attendanceId,
+          reason: "Overtime approved",
+          changes: JSON.stringify({
+            overtimeMinutes: attendance.overtimeMinutes,
+            approvedOvertimeMinutes: approvedMinutes,
+          }),
+        },
+      });
+
+      return updatedAttendance;
+    });
+  }
+
+  async rejectOvertime(
+    attendanceId: string,
+    user: RequestUser,
+    rejectDto: RejectOvertimeDto
+  ) {
+    await this.findPendingOvertimeOrThrow(attendanceId, user);
+
+    return this.prisma.$transaction(async (tx) => {
+      const updatedAttendance = await tx.attendance.update({
+        where: { id: attendanceId },
+        data: {
+          overtimeStatus: OvertimeStatus.REJECTED,
+          approvedOvertimeMinutes: 0,
+          overtimeReviewedBy: user.userId,
+          overtimeReviewedAt: new Date(),
+          overtimeRejectionReason: rejectDto.reason,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "REJECT",
+          userId: user.userId,
+          entityType: "Attendance",
+          entityId: attendanceId,
+          reason: rejectDto.reason,
+          changes: JSON.stringify({ overtimeStatus: OvertimeStatus.REJECTED }),
+        },
+      });
+
+      return updatedAttendance;
+    });
+  }
+
+  // Marks active employees with no record on a working day absent, except
+  // those their rotation has off. Approved leave already has its record, and
+  // checking in later takes the absent record over since it has no punches
+  async markAbsentees(date: Date) {
+    if (!(await this.calendarService.isWorkingDay(date))) {
+      return { date, workingDay: false, marked: 0 };
+    }
+
+    await this.payrollRunService.assertMonthEditable(date);
+
+    const nextDay = new Date(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate() + 1
+    );
+    const employees = await this.prisma.employee.findMany({
+      where: {
+        joiningDate: { lt: nextDay },
+        user: { isActive: true },
+        attendanceRecords: { none: { date } },
+      },
+    });
+
+    const records: Prisma.AttendanceCreateManyInput[] = [];
+    for (const employee of employees) {
+      const { shift, isOffDay } = await this.shiftService.resolveScheduledDay(
+        employee,
+        date
+      );
+
+      if (isOffDay) {
+        continue;
+      }
+
+      records.push({
+        employeeId: employee.id,
+        date,
+        status: AttendanceStatus.ABSENT,
+        shiftId: shift?.id,
+      });
+    }
+
+    // Anyone who checked in since the lookup keeps their record
+    const { count } = await this.prisma.attendance.createMany({
+      data: records,
+      skipDuplicates: true,
+    });
+
+    return { date, workingDay: true, marked: count };
+  }
+
+  // Marks absentees for each day of an inclusive range. Days in a reviewed,
+  // finalized or paid month are skipped
+  async markAbsenteesBetween(from: Date, to: Date) {
+    let marked = 0;
+    let skipped = 0;
+
+    for (
+      let date = new Date(from);
+      date <= to;
+      date = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1)
+    ) {
+      try {
+        marked += (await this.markAbsentees(date)).marked;
+      } catch (error) {
+        if (error instanceof ConflictException) {
+          skipped++;
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    return { from, to, marked, skipped };
+  }
+
+  // Checks out sessions still open after their shift ended, at the shift end
+  // or at the last punch when that came later. Days without a shift stay
+  // open, as do days in a locked payroll month
+  async closeOpenCheckIns(now: Date) {
+    const since = this.getTodayDate();
+    since.setDate(since.getDate() - AUTO_CHECK_OUT_LOOKBACK_DAYS);
+
+    const openRecords = await this.prisma.attendance.findMany({
+      where: {
+        date: { gte: since },
+        checkInTime: { not: null },
+        checkOutTime: null,
+        shiftId: { not: null },
+      },
+      include: PUNCH_INCLUDE,
+    });
+
+    let closed = 0;
+    let skipped = 0;
+
+    for (const attendance of openRecords) {
+      const { shift, punches } = attendance;
+      if (!shift || !isDayOpen(punches)) {
+        continue;
+      }
+
+      const shiftEnd = getShiftWindow(shift, attendance.date).end;
+      if (now < shiftEnd) {
+        continue;
+      }
+
+      try {
+        await this.payrollRunService.assertMonthEditable(attendance.date);
+      } catch (error) {
+        if (error instanceof ConflictException) {
+          skipped++;
+          continue;
+        }
+        throw error;
+      }
+
+      const lastPunchAt = punches[punches.length - 1].punchedAt;
+      await this.closeDay(
+        attendance,
+        attendance.date,
+        lastPunchAt > shiftEnd ? lastPunchAt : shiftEnd
+      );
+      closed++;
+    }
+
+    return { closed, skipped };
+  }
 }
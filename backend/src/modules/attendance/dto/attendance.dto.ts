@@ -1,4 +1,11 @@
-import { IsOptional, IsString, IsEnum, IsDateString } from "class-validator";
+import {
+  IsOptional,
+  IsString,
+  IsEnum,
+  IsDateString,
+  IsInt,
+  Min,
+} from "class-validator";
 import { AttendanceStatus } from "@common/enums/attendance-status.enum";
 
 export class CheckInDto {
@@ -24,3 +31,16 @@ export class OverrideAttendanceDto {
   @IsString()
   reason?: string;
 }
+
+export class ApproveOvertimeDto {
+  // Defaults to all the overtime recorded for the day
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  approvedMinutes?: number;
+}
+
+export class RejectOvertimeDto {
+  @IsString()
+  reason!: string;
+}
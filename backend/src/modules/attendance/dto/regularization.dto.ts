@@ -0,0 +1,38 @@
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from "class-validator";
+
+export class SubmitRegularizationDto {
+  @IsDateString()
+  date!: string; // ISO date format YYYY-MM-DD
+
+  @IsDateString()
+  checkInTime!: string; // ISO date-time
+
+  @IsDateString()
+  checkOutTime!: string; // ISO date-time; past midnight for a night shift
+
+  @IsString()
+  @IsNotEmpty()
+  reason!: string;
+}
+
+export class ApproveRegularizationDto {
+  @IsOptional()
+  @IsString()
+  comments?: string;
+}
+
+export class RejectRegularizationDto {
+  @IsString()
+  reason!: string;
+}
+
+export class CancelRegularizationDto {
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
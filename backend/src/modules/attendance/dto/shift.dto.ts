@@ -0,0 +1,156 @@
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  IsBoolean,
+  IsArray,
+  IsDateString,
+  ArrayMinSize,
+  Matches,
+  Max,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { TIME_PATTERN } from "../shift-schedule";
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export class CreateShiftDto {
+  @IsString()
+  name!: string;
+
+  @Matches(TIME_PATTERN, { message: "startTime must be HH:mm" })
+  startTime!: string;
+
+  // At or before startTime for a night shift ending the next day
+  @Matches(TIME_PATTERN, { message: "endTime must be HH:mm" })
+  endTime!: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  lateGraceMinutes?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  earlyLeaveGraceMinutes?: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(MINUTES_PER_DAY)
+  fullDayMinutes!: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(MINUTES_PER_DAY)
+  halfDayMinutes!: number;
+}
+
+export class UpdateShiftDto {
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @IsOptional()
+  @Matches(TIME_PATTERN, { message: "startTime must be HH:mm" })
+  startTime?: string;
+
+  @IsOptional()
+  @Matches(TIME_PATTERN, { message: "endTime must be HH:mm" })
+  endTime?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  lateGraceMinutes?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  earlyLeaveGraceMinutes?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MINUTES_PER_DAY)
+  fullDayMinutes?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MINUTES_PER_DAY)
+  halfDayMinutes?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class ShiftRotationSlotDto {
+  // Left out or null for days off
+  @IsOptional()
+  @IsString()
+  shiftId?: string | null;
+
+  @IsInt()
+  @Min(1)
+  days!: number;
+}
+
+export class CreateShiftRotationDto {
+  @IsString()
+  name!: string;
+
+  // Slots are worked in array order, then the rotation starts over
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ShiftRotationSlotDto)
+  slots!: ShiftRotationSlotDto[];
+}
+
+export class UpdateShiftRotationDto {
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ShiftRotationSlotDto)
+  slots?: ShiftRotationSlotDto[];
+}
+
+// Give either employeeId or department, or neither for the company default,
+// and either shiftId or rotationId
+export class CreateShiftAssignmentDto {
+  @IsOptional()
+  @IsString()
+  employeeId?: string;
+
+  @IsOptional()
+  @IsString()
+  department?: string;
+
+  @IsOptional()
+  @IsString()
+  shiftId?: string;
+
+  @IsOptional()
+  @IsString()
+  rotationId?: string;
+
+  @IsDateString()
+  effectiveFrom!: string;
+
+  @IsOptional()
+  @IsDateString()
+  effectiveTo?: string;
+}
@@ -0,0 +1,245 @@
+import { Shift } from "@prisma/client";
+import {
+  AttendanceStatus,
+  PunchType,
+} from "@common/enums/attendance-status.enum";
+import {
+  getLastPunchType,
+  getWorkSessions,
+  isDayOpen,
+  summarizeDay,
+} from "./punch-sessions";
+
+const DAY = new Date(2026, 0, 5);
+
+function buildShift(overrides: Partial<Shift>): Shift {
+  return {
+    id: "shift",
+    name: "General",
+    startTime: "09:00",
+    endTime: "18:00",
+    lateGraceMinutes: 10,
+    earlyLeaveGraceMinutes: 10,
+    fullDayMinutes: 480,
+    halfDayMinutes: 240,
+    isActive: true,
+    createdAt: DAY,
+    updatedAt: DAY,
+    ...overrides,
+  };
+}
+
+const DAY_SHIFT = buildShift({});
+const NIGHT_SHIFT = buildShift({
+  name: "Night",
+  startTime: "22:00",
+  endTime: "06:00",
+  fullDayMinutes: 420,
+});
+
+// Punches as [type, "HH:mm"], a day later once the times wrap past midnight
+function punches(...entries: [PunchType, string][]) {
+  let dayOffset = 0;
+  let previous = -1;
+
+  return entries.map(([type, time]) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    if (hours * 60 + minutes < previous) {
+      dayOffset++;
+    }
+    previous = hours * 60 + minutes;
+
+    return {
+      type,
+      punchedAt: new Date(
+        DAY.getFullYear(),
+        DAY.getMonth(),
+        DAY.getDate() + dayOffset,
+        hours,
+        minutes
+      ),
+    };
+  });
+}
+
+describe("getWorkSessions", () => {
+  it("splits the day at breaks", () => {
+    const sessions = getWorkSessions(
+      punches(
+        [PunchType.IN, "09:00"],
+        [PunchType.BREAK_START, "13:00"],
+        [PunchType.BREAK_END, "13:45"],
+        [PunchType.OUT, "18:00"]
+      )
+    );
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions[1].start.getHours()).toBe(13);
+    expect(sessions[1].start.getMinutes()).toBe(45);
+  });
+
+  it("leaves out a session still running", () => {
+    const sessions = getWorkSessions(
+      punches(
+        [PunchType.IN, "09:00"],
+        [PunchType.OUT, "12:00"],
+        [PunchType.IN, "14:00"]
+      )
+    );
+
+    expect(sessions).toHaveLength(1);
+  });
+});
+
+describe("isDayOpen", () => {
+  it("is open from check-in, through breaks, until check-out", () => {
+    const day = punches(
+      [PunchType.IN, "09:00"],
+      [PunchType.BREAK_START, "13:00"],
+      [PunchType.BREAK_END, "13:30"],
+      [PunchType.OUT, "18:00"]
+    );
+
+    expect(isDayOpen([])).toBe(false);
+    expect(isDayOpen(day.slice(0, 1))).toBe(true);
+    expect(isDayOpen(day.slice(0, 2))).toBe(true);
+    expect(isDayOpen(day.slice(0, 3))).toBe(true);
+    expect(isDayOpen(day)).toBe(false);
+    expect(getLastPunchType(day)).toBe(PunchType.OUT);
+  });
+});
+
+describe("summarizeDay", () => {
+  it("adds up the minutes of every session", () => {
+    const summary = summarizeDay(
+      punches(
+        [PunchType.IN, "09:00"],
+        [PunchType.BREAK_START, "13:00"],
+        [PunchType.BREAK_END, "14:00"],
+        [PunchType.OUT, "16:00"],
+        [PunchType.IN, "16:30"],
+        [PunchType.OUT, "18:00"]
+      ),
+      DAY_SHIFT,
+      DAY
+    );
+
+    expect(summary).toEqual({
+      workedMinutes: 450,
+      lateMinutes: 0,
+      earlyLeaveMinutes: 0,
+      overtimeMinutes: 0,
+      status: AttendanceStatus.HALF_DAY,
+    });
+  });
+
+  it("counts a late arrival within the grace from the shift start", () => {
+    const summary = summarizeDay(
+      punches(
+        [PunchType.IN, "09:05"],
+        [PunchType.BREAK_START, "13:00"],
+        [PunchType.BREAK_END, "14:00"],
+        [PunchType.OUT, "18:00"]
+      ),
+      DAY_SHIFT,
+      DAY
+    );
+
+    expect(summary.workedMinutes).toBe(480);
+    expect(summary.lateMinutes).toBe(0);
+    expect(summary.status).toBe(AttendanceStatus.PRESENT);
+  });
+
+  it("records late arrivals and early departures past the grace", () => {
+    const summary = summarizeDay(
+      punches([PunchType.IN, "09:30"], [PunchType.OUT, "17:00"]),
+      DAY_SHIFT,
+      DAY
+    );
+
+    expect(summary.workedMinutes).toBe(450);
+    expect(summary.lateMinutes).toBe(30);
+    expect(summary.earlyLeaveMinutes).toBe(60);
+  });
+
+  it("records overtime beyond the shift length from the minimum up", () => {
+    const long = summarizeDay(
+      punches([PunchType.IN, "09:00"], [PunchType.OUT, "19:00"]),
+      DAY_SHIFT,
+      DAY
+    );
+    const short = summarizeDay(
+      punches([PunchType.IN, "09:00"], [PunchType.OUT, "18:20"]),
+      DAY_SHIFT,
+      DAY
+    );
+
+    expect(long.overtimeMinutes).toBe(60);
+    expect(short.overtimeMinutes).toBe(0);
+  });
+
+  it("marks too short a day absent", () => {
+    const summary = summarizeDay(
+      punches([PunchType.IN, "09:00"], [PunchType.OUT, "12:00"]),
+      DAY_SHIFT,
+      DAY
+    );
+
+    expect(summary.status).toBe(AttendanceStatus.ABSENT);
+  });
+
+  it("follows a night shift past midnight", () => {
+    const summary = summarizeDay(
+      punches(
+        [PunchType.IN, "22:00"],
+        [PunchType.BREAK_START, "02:00"],
+        [PunchType.BREAK_END, "02:30"],
+        [PunchType.OUT, "06:00"]
+      ),
+      NIGHT_SHIFT,
+      DAY
+    );
+
+    expect(summary).toEqual({
+      workedMinutes: 450,
+      lateMinutes: 0,
+      earlyLeaveMinutes: 0,
+      overtimeMinutes: 0,
+      status: AttendanceStatus.PRESENT,
+    });
+  });
+
+  it("measures a night shift's early departure against its end", () => {
+    const summary = summarizeDay(
+      punches(
+        [PunchType.IN, "22:20"],
+        [PunchType.BREAK_START, "23:50"],
+        [PunchType.BREAK_END, "00:10"],
+        [PunchType.OUT, "04:00"]
+      ),
+      NIGHT_SHIFT,
+      DAY
+    );
+
+    expect(summary.workedMinutes).toBe(320);
+    expect(summary.lateMinutes).toBe(20);
+    expect(summary.earlyLeaveMinutes).toBe(120);
+    expect(summary.status).toBe(AttendanceStatus.HALF_DAY);
+  });
+
+  it("only adds up worked minutes without a shift", () => {
+    const summary = summarizeDay(
+      punches([PunchType.IN, "10:00"], [PunchType.OUT, "15:30"]),
+      null,
+      DAY
+    );
+
+    expect(summary).toEqual({
+      workedMinutes: 330,
+      lateMinutes: 0,
+      earlyLeaveMinutes: 0,
+      overtimeMinutes: 0,
+      status: null,
+    });
+  });
+});
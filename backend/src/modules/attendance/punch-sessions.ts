@@ -0,0 +1,99 @@
+import { AttendancePunch, Shift } from "@prisma/client";
+import {
+  AttendanceStatus,
+  PunchType,
+} from "@common/enums/attendance-status.enum";
+import { attendanceConfig } from "@config/attendance.config";
+import {
+  WorkSession,
+  getEarlyLeaveMinutes,
+  getLateMinutes,
+  getOvertimeMinutes,
+  getSessionMinutes,
+  getShiftWindow,
+  getStatusForMinutes,
+  getWorkedMinutes,
+} from "./shift-schedule";
+
+type Punch = Pick<AttendancePunch, "type" | "punchedAt">;
+
+const SESSION_STARTS: string[] = [PunchType.IN, PunchType.BREAK_END];
+
+// Type of the day's latest punch, or null before the first one
+export function getLastPunchType(punches: Punch[]): PunchType | null {
+  return punches.length > 0
+    ? (punches[punches.length - 1].type as PunchType)
+    : null;
+}
+
+// Checked in, on a break included, and not yet checked out
+export function isDayOpen(punches: Punch[]): boolean {
+  const lastType = getLastPunchType(punches);
+  return lastType !== null && lastType !== PunchType.OUT;
+}
+
+// Completed sessions in punch order; a session still running is left out
+export function getWorkSessions(punches: Punch[]): WorkSession[] {
+  const sessions: WorkSession[] = [];
+  let start: Date | null = null;
+
+  for (const punch of punches) {
+    if (SESSION_STARTS.includes(punch.type)) {
+      start = start ?? punch.punchedAt;
+    } else if (start) {
+      sessions.push({ start, end: punch.punchedAt });
+      start = null;
+    }
+  }
+
+  return sessions;
+}
+
+export interface DaySummary {
+  workedMinutes: number;
+  lateMinutes: number;
+  earlyLeaveMinutes: number;
+  overtimeMinutes: number;
+  // Decided by the shift; null when the day had none
+  status: AttendanceStatus | null;
+}
+
+// Worked time of a closed day and how it compares with the shift it was
+// scheduled for
+export function summarizeDay(
+  punches: Punch[],
+  shift: Shift | null,
+  date: Date
+): DaySummary {
+  const sessions = getWorkSessions(punches);
+  const summary: DaySummary = {
+    workedMinutes: getSessionMinutes(sessions),
+    lateMinutes: 0,
+    earlyLeaveMinutes: 0,
+    overtimeMinutes: 0,
+    status: null,
+  };
+
+  if (!shift || sessions.length === 0) {
+    return summary;
+  }
+
+  const window = getShiftWindow(shift, date);
+  const workedMinutes = getWorkedMinutes(shift, window, sessions);
+  const overtimeMinutes = getOvertimeMinutes(shift, workedMinutes);
+
+  return {
+    workedMinutes,
+    lateMinutes: getLateMinutes(shift, window, sessions[0].start),
+    earlyLeaveMinutes: getEarlyLeaveMinutes(
+      shift,
+      window,
+      sessions[sessions.length - 1].end
+    ),
+    overtimeMinutes:
+      overtimeMinutes < attendanceConfig.overtimeMinimumMinutes
+        ? 0
+        : overtimeMinutes,
+    status: getStatusForMinutes(shift, workedMinutes),
+  };
+}
@@ -0,0 +1,107 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseFilters,
+} from "@nestjs/common";
+import { RegularizationService } from "./regularization.service";
+import {
+  ApproveRegularizationDto,
+  CancelRegularizationDto,
+  RejectRegularizationDto,
+  SubmitRegularizationDto,
+} from "./dto/regularization.dto";
+import { JwtGuard } from "@common/guards/jwt.guard";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
+import { User, RequestUser } from "@common/decorators/user.decorator";
+import { Permission } from "@common/enums/permission.enum";
+import { RegularizationStatus } from "@common/enums/attendance-status.enum";
+import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
+
+@Controller("regularizations")
+@UseFilters(AllExceptionsFilter)
+export class RegularizationController {
+  constructor(private regularizationService: RegularizationService) {}
+
+  @Post("me")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_SELF)
+  async submitRegularization(
+    @User() user: RequestUser,
+    @Body() submitDto: SubmitRegularizationDto
+  ) {
+    return this.regularizationService.submitRegularization(
+      user.userId,
+      submitDto
+    );
+  }
+
+  @Get("me")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_SELF)
+  async getMyRegularizations(@User() user: RequestUser) {
+    return this.regularizationService.getMyRegularizations(user.userId);
+  }
+
+  @Put("me/:id/cancel")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_SELF)
+  async cancelRegularization(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() cancelDto: CancelRegularizationDto
+  ) {
+    return this.regularizationService.cancelRegularization(
+      id,
+      user.userId,
+      cancelDto
+    );
+  }
+
+  @Get("pending")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions()
+  async getPendingRegularizations(@User() user: RequestUser) {
+    return this.regularizationService.getPendingRegularizations(user);
+  }
+
+  @Get()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_READ)
+  async getRegularizations(@Query("status") status?: RegularizationStatus) {
+    return this.regularizationService.getRegularizations(status);
+  }
+
+  // Approver eligibility is checked against the request's approval chain
+  @Put(":id/approve")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions()
+  async approveRegularization(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() approveDto: ApproveRegularizationDto
+  ) {
+    return this.regularizationService.approveRegularization(
+      id,
+      user,
+      approveDto
+    );
+  }
+
+  @Put(":id/reject")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions()
+  async rejectRegularization(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() rejectDto: RejectRegularizationDto
+  ) {
+    return this.regularizationService.rejectRegularization(id, user, rejectDto);
+  }
+}
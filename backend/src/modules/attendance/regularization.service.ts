@@ -0,0 +1,541 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  ForbiddenException,
+  Inject,
+} from "@nestjs/common";
+import { PrismaClient, Prisma, Employee } from "@prisma/client";
+import {
+  ApproveRegularizationDto,
+  CancelRegularizationDto,
+  RejectRegularizationDto,
+  SubmitRegularizationDto,
+} from "./dto/regularization.dto";
+import {
+  ApprovalChainService,
+  ApprovableRequest,
+  Approver,
+} from "@modules/leave/approval-chain.service";
+import { PayrollRunService } from "@modules/payroll/payroll-run.service";
+import { ShiftService } from "./shift.service";
+import { summarizeDay } from "./punch-sessions";
+import { RequestUser } from "@common/decorators/user.decorator";
+import {
+  AttendanceStatus,
+  OvertimeStatus,
+  PunchType,
+  RegularizationStatus,
+} from "@common/enums/attendance-status.enum";
+import { Permission } from "@common/enums/permission.enum";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type RegularizationWithApprovalChain =
+  Prisma.AttendanceRegularizationGetPayload<{
+    include: {
+      employee: true;
+      approvalChain: { include: { steps: true } };
+      approvals: true;
+    };
+  }> &
+    ApprovableRequest;
+
+@Injectable()
+export class RegularizationService {
+  constructor(
+    @Inject("PrismaClient") private prisma: PrismaClient,
+    private approvalChainService: ApprovalChainService,
+    private payrollRunService: PayrollRunService,
+    private shiftService: ShiftService
+  ) {}
+
+  private async findEmployeeOrThrow(userId: string): Promise<Employee> {
+    const employee = await this.prisma.employee.findUnique({
+      where: { userId },
+    });
+
+    if (!employee) {
+      throw new NotFoundException("Employee not found");
+    }
+
+    return employee;
+  }
+
+  private async findApproverOrThrow(user: RequestUser): Promise<Approver> {
+    const employee = await this.prisma.employee.findUnique({
+      where: { userId: user.userId },
+    });
+
+    if (!employee) {
+      throw new BadRequestException("Approver is not an employee");
+    }
+
+    return { ...employee, roles: user.roles, permissions: user.permissions };
+  }
+
+  private async findRegularizationWithChainOrThrow(
+    regularizationId: string
+  ): Promise<RegularizationWithApprovalChain> {
+    const regularization =
+      await this.prisma.attendanceRegularization.findUnique({
+        where: { id: regularizationId },
+        include: {
+          employee: true,
+          approvalChain: { include: { steps: true } },
+          approvals: true,
+        },
+      });
+
+    if (!regularization) {
+      throw new NotFoundException("Regularization request not found");
+    }
+
+    return regularization;
+  }
+
+  // The proposed times must make a single session that starts on the day
+  // and has already ended
+  private validateTimes(date: Date, checkInTime: Date, checkOutTime: Date) {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    if (date >= today) {
+      throw new BadRequestException("Only past days can be regularized");
+    }
+
+    if (checkOutTime <= checkInTime) {
+      throw new BadRequestException("Check-out must be after check-in");
+    }
+
+    if (
+      checkInTime < date ||
+      checkInTime.getTime() >= date.getTime() + DAY_MS
+    ) {
+      throw new BadRequestException("Check-in must be on the day regularized");
+    }
+
+    if (checkOutTime.getTime() - checkInTime.getTime() > DAY_MS) {
+      throw new BadRequestException(
+        "Check-out must be within 24 hours of check-in"
+      );
+    }
+
+    if (checkOutTime > new Date()) {
+      throw new BadRequestException("Check-out cannot be in the future");
+    }
+  }
+
+  async submitRegularization(
+    userId: string,
+    submitDto: SubmitRegularizationDto
+  ) {
+    const employee = await this.findEmployeeOrThrow(userId);
+    const date = new Date(submitDto.date);
+    date.setHours(0, 0, 0, 0);
+    const checkInTime = new Date(submitDto.checkInTime);
+    const checkOutTime = new Date(submitDto.checkOutTime);
+
+    this.validateTimes(date, checkInTime, checkOutTime);
+    await this.payrollRunService.assertMonthEditable(date);
+
+    const pending = await this.prisma.attendanceRegularization.findFirst({
+      where: {
+        employeeId: employee.id,
+        date,
+        status: RegularizationStatus.PENDING,
+      },
+    });
+
+    if (pending) {
+      throw new ConflictException(
+        "A regularization request for this day is already pending"
+      );
+    }
+
+    const approvalChain = await this.approvalChainService.resolveChain(
+      employee
+    );
+
+    return this.prisma.attendanceRegularization.create({
+      data: {
+        employeeId: employee.id,
+        date,
+        checkInTime,
+        checkOutTime,
+        reason: submitDto.reason,
+        approvalChainId: approvalChain?.id,
+        status: RegularizationStatus.PENDING,
+      },
+      include: { approvals: true },
+    });
+  }
+
+  async getMyRegularizations(userId: string) {
+    const { id: employeeId } = await this.findEmployeeOrThrow(userId);
+
+    return this.prisma.attendanceRegularization.findMany({
+      where: { employeeId },
+      include: { approvals: true },
+      orderBy: { date: "desc" },
+    });
+  }
+
+  async getRegularizations(status?: RegularizationStatus) {
+    if (status && !Object.values(RegularizationStatus).includes(status)) {
+      throw new BadRequestException(`Unknown regularization status: ${status}`);
+    }
+
+    return this.prisma.attendanceRegularization.findMany({
+      where: status ? { status } : {},
+      include: {
+        approvals: true,
+        employee: {
+          select: { firstName: true, lastName: true, department: true },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  // Only the requests whose current approval step the user can act on
+  async getPendingRegularizations(user: RequestUser) {
+    const approver = await this.findApproverOrThrow(user);
+
+    const regularizations = await this.prisma.attendanceRegularization.findMany(
+      {
+        where: { status: RegularizationStatus.PENDING },
+        include: {
+          approvals: true,
+          employee: {
+            select: {
+              firstName: true,
+              lastName: true,
+              managerId: true,
+              user: { select: { email: true } },
+            },
+          },
+          approvalChain: { include: { steps: true } },
+        },
+        orderBy: { createdAt: "desc" },
+      }
+    );
+
+    const decisions = await Promise.all(
+      regularizations.map(async (regularization) => ({
+        regularization,
+        decision: await this.approvalChainService.resolveApproval(
+          regularization,
+          approver,
+          Permission.ATTENDANCE_APPROVE
+        ),
+      }))
+    );
+
+    return decisions
+      .filter(({ decision }) => decision !== null)
+      .map(({ regularization, decision }) => ({
+        ...regularization,
+        awaitingStep: decision?.step?.stepOrder ?? null,
+      }));
+  }
+
+  private async recordStepApproval(
+    regularization: RegularizationWithApprovalChain,
+    approver: Approver,
+    stepOrder: number,
+    userId: string,
+    approveDto: ApproveRegularizationDto
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.attendanceRegularizationApproval.create({
+        data: {
+          regularizationId: regularization.id,
+          approvedBy: approver.id,
+          stepOrder,
+          comments: approveDto.comments,
+        },
+      });
+
+      const updatedRegularization = await tx.attendanceRegularization.update({
+        where: { id: regularization.id },
+        data: { currentStep: stepOrder + 1 },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "APPROVE",
+          userId,
+          entityType: "AttendanceRegularization",
+          entityId: regularization.id,
+          reason: `Approval step ${stepOrder} completed`,
+          changes: JSON.stringify({
+            stepOrder,
+            nextStep: stepOrder + 1,
+            comments: approveDto.comments,
+          }),
+        },
+      });
+
+      return updatedRegularization;
+    });
+  }
+
+  // The final approval replaces the day's punches with the approved check-in
+  // and check-out and recalculates the day from them
+  async approveRegularization(
+    regularizationId: string,
+    approverUser: RequestUser,
+    approveDto: ApproveRegularizationDto
+  ) {
+    const regularization = await this.findRegularizationWithChainOrThrow(
+      regularizationId
+    );
+
+    if (regularization.status !== RegularizationStatus.PENDING) {
+      throw new BadRequestException(
+        `Cannot approve a ${regularization.status} regularization request`
+      );
+    }
+
+    const approver = await this.findApproverOrThrow(approverUser);
+    const decision = await this.approvalChainService.resolveApproval(
+      regularization,
+      approver,
+      Permission.ATTENDANCE_APPROVE
+    );
+
+    if (!decision) {
+      throw new ForbiddenException(
+        "This regularization request is not awaiting your approval"
+      );
+    }
+
+    // Earlier steps of a sequential chain only move the request along
+    if (decision.step && !decision.isFinal) {
+      return this.recordStepApproval(
+        regularization,
+        approver,
+        decision.step.stepOrder,
+        approverUser.userId,
+        approveDto
+      );
+    }
+
+    const { employeeId, date, checkInTime, checkOutTime } = regularization;
+    await this.payrollRunService.assertMonthEditable(date);
+
+    const existing = await this.prisma.attendance.findUnique({
+      where: { employeeId_date: { employeeId, date } },
+      include: { shift: true, punches: { orderBy: { punchedAt: "asc" } } },
+    });
+    const shift =
+      existing?.shift ??
+      (await this.shiftService.resolveShift(regularization.employee, date));
+
+    const punches = [
+      { type: PunchType.IN, punchedAt: checkInTime },
+      { type: PunchType.OUT, punchedAt: checkOutTime },
+    ];
+    const { status: shiftStatus, ...summary } = summarizeDay(
+      punches,
+      shift,
+      date
+    );
+
+    // An HR override still decides the day's status
+    const updated = {
+      checkInTime,
+      checkOutTime,
+      status: existing?.overriddenBy
+        ? existing.status
+        : shiftStatus ?? AttendanceStatus.PRESENT,
+      ...summary,
+      overtimeStatus:
+        summary.overtimeMinutes > 0
+          ? existing?.overtimeStatus ?? OvertimeStatus.PENDING
+          : null,
+    };
+
+    return this.prisma.$transaction(async (tx) => {
+      const attendance = await tx.attendance.upsert({
+        where: { employeeId_date: { employeeId, date } },
+        create: {
+          employeeId,
+          date,
+          shiftId: shift?.id,
+          ...updated,
+          punches: { create: punches },
+        },
+        update: {
+          ...updated,
+          punches: { deleteMany: {}, create: punches },
+        },
+      });
+
+      const updatedRegularization = await tx.attendanceRegularization.update({
+        where: { id: regularizationId },
+        data: {
+          status: RegularizationStatus.APPROVED,
+          attendanceId: attendance.id,
+        },
+      });
+
+      await tx.attendanceRegularizationApproval.create({
+        data: {
+          regularizationId,
+          approvedBy: approver.id,
+          stepOrder: decision.step?.stepOrder,
+          comments: approveDto.comments,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "APPROVE",
+          userId: approverUser.userId,
+          entityType: "AttendanceRegularization",
+          entityId: regularizationId,
+          reason: "Regularization request approved",
+          changes: JSON.stringify({
+            status: RegularizationStatus.APPROVED,
+            comments: approveDto.comments,
+          }),
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "UPDATE",
+          userId: approverUser.userId,
+          entityType: "Attendance",
+          entityId: attendance.id,
+          reason: `Regularized: ${regularization.reason}`,
+          changes: JSON.stringify({
+            previous: existing && {
+              checkInTime: existing.checkInTime,
+              checkOutTime: existing.checkOutTime,
+              status: existing.status,
+              workedMinutes: existing.workedMinutes,
+              lateMinutes: existing.lateMinutes,
+              earlyLeaveMinutes: existing.earlyLeaveMinutes,
+              overtimeMinutes: existing.overtimeMinutes,
+              punches: existing.punches.map(({ type, punchedAt }) => ({
+                type,
+                punchedAt,
+              })),
+            },
+            updated: { ...updated, punches },
+          }),
+        },
+      });
+
+      return updatedRegularization;
+    });
+  }
+
+  async rejectRegularization(
+    regularizationId: string,
+    approverUser: RequestUser,
+    rejectDto: RejectRegularizationDto
+  ) {
+    const regularization = await this.findRegularizationWithChainOrThrow(
+      regularizationId
+    );
+
+    if (regularization.status !== RegularizationStatus.PENDING) {
+      throw new BadRequestException(
+        `Cannot reject a ${regularization.status} regularization request`
+      );
+    }
+
+    // Any approver the request is currently waiting on may reject it
+    const approver = await this.findApproverOrThrow(approverUser);
+    if (
+      !(await this.approvalChainService.resolveApproval(
+        regularization,
+        approver,
+        Permission.ATTENDANCE_APPROVE
+      ))
+    ) {
+      throw new ForbiddenException(
+        "This regularization request is not awaiting your approval"
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updatedRegularization = await tx.attendanceRegularization.update({
+        where: { id: regularizationId },
+        data: {
+          status: RegularizationStatus.REJECTED,
+          rejectionReason: rejectDto.reason,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "REJECT",
+          userId: approverUser.userId,
+          entityType: "AttendanceRegularization",
+          entityId: regularizationId,
+          reason: rejectDto.reason,
+          changes: JSON.stringify({ status: RegularizationStatus.REJECTED }),
+        },
+      });
+
+      return updatedRegularization;
+    });
+  }
+
+  async cancelRegularization(
+    regularizationId: string,
+    userId: string,
+    cancelDto: CancelRegularizationDto
+  ) {
+    const { id: employeeId } = await this.findEmployeeOrThrow(userId);
+    const regularization =
+      await this.prisma.attendanceRegularization.findUnique({
+        where: { id: regularizationId },
+      });
+
+    if (!regularization) {
+      throw new NotFoundException("Regularization request not found");
+    }
+
+    if (regularization.employeeId !== employeeId) {
+      throw new ForbiddenException(
+        "You can only cancel your own regularization requests"
+      );
+    }
+
+    if (regularization.status !== RegularizationStatus.PENDING) {
+      throw new BadRequestException(
+        `Cannot cancel a ${regularization.status} regularization request`
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updatedRegularization = await tx.attendanceRegularization.update({
+        where: { id: regularizationId },
+        data: { status: RegularizationStatus.CANCELLED },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "CANCEL",
+          userId,
+          entityType: "AttendanceRegularization",
+          entityId: regularizationId,
+          reason: cancelDto.reason || "Regularization request withdrawn",
+          changes: JSON.stringify({
+            previousStatus: RegularizationStatus.PENDING,
+            newStatus: RegularizationStatus.CANCELLED,
+          }),
+        },
+      });
+
+      return updatedRegularization;
+    });
+  }
+}
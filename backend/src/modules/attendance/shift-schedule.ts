@@ -0,0 +1,130 @@
+import { Shift } from "@prisma/client";
+import { AttendanceStatus } from "@common/enums/attendance-status.enum";
+import { attendanceConfig } from "@config/attendance.config";
+
+const MINUTE_MS = 60 * 1000;
+
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface ShiftWindow {
+  start: Date;
+  end: Date;
+}
+
+type ShiftTimes = Pick<Shift, "startTime" | "endTime">;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+export function isNightShift(shift: ShiftTimes): boolean {
+  return toMinutes(shift.endTime) <= toMinutes(shift.startTime);
+}
+
+// Scheduled length, counting past midnight for night shifts
+export function getShiftMinutes(shift: ShiftTimes): number {
+  const length = toMinutes(shift.endTime) - toMinutes(shift.startTime);
+  return length > 0 ? length : length + 24 * 60;
+}
+
+// Start and end of the shift that begins on the given date
+export function getShiftWindow(shift: ShiftTimes, date: Date): ShiftWindow {
+  const start = new Date(date);
+  start.setHours(0, toMinutes(shift.startTime), 0, 0);
+  const end = new Date(start.getTime() + getShiftMinutes(shift) * MINUTE_MS);
+
+  return { start, end };
+}
+
+// A stretch of work between two punches
+export interface WorkSession {
+  start: Date;
+  end: Date;
+}
+
+export function getSessionMinutes(sessions: WorkSession[]): number {
+  const workedMs = sessions.reduce(
+    (sum, session) => sum + session.end.getTime() - session.start.getTime(),
+    0
+  );
+  return Math.floor(workedMs / MINUTE_MS);
+}
+
+// Minutes worked across the day's sessions. A first arrival within the late
+// grace counts from the shift start and a last departure within the
+// early-leave grace counts to the shift end
+export function getWorkedMinutes(
+  shift: Pick<Shift, "lateGraceMinutes" | "earlyLeaveGraceMinutes">,
+  window: ShiftWindow,
+  sessions: WorkSession[]
+): number {
+  if (sessions.length === 0) {
+    return 0;
+  }
+
+  const lateBy = sessions[0].start.getTime() - window.start.getTime();
+  const earlyBy =
+    window.end.getTime() - sessions[sessions.length - 1].end.getTime();
+
+  const graceMs =
+    (lateBy > 0 && lateBy <= shift.lateGraceMinutes * MINUTE_MS ? lateBy : 0) +
+    (earlyBy > 0 && earlyBy <= shift.earlyLeaveGraceMinutes * MINUTE_MS
+      ? earlyBy
+      : 0);
+
+  return getSessionMinutes(sessions) + Math.floor(graceMs / MINUTE_MS);
+}
+
+// Minutes an arrival was late by; none within the late grace
+export function getLateMinutes(
+  shift: Pick<Shift, "lateGraceMinutes">,
+  window: ShiftWindow,
+  checkIn: Date
+): number {
+  const lateBy = Math.floor(
+    (checkIn.getTime() - window.start.getTime()) / MINUTE_MS
+  );
+  return lateBy > shift.lateGraceMinutes ? lateBy : 0;
+}
+
+// Minutes a departure was early by; none within the early-leave grace
+export function getEarlyLeaveMinutes(
+  shift: Pick<Shift, "earlyLeaveGraceMinutes">,
+  window: ShiftWindow,
+  checkOut: Date
+): number {
+  const earlyBy = Math.floor(
+    (window.end.getTime() - checkOut.getTime()) / MINUTE_MS
+  );
+  return earlyBy > shift.earlyLeaveGraceMinutes ? earlyBy : 0;
+}
+
+// Worked time beyond the scheduled length of the shift
+export function getOvertimeMinutes(
+  shift: ShiftTimes,
+  workedMinutes: number
+): number {
+  return Math.max(workedMinutes - getShiftMinutes(shift), 0);
+}
+
+export function getStatusForMinutes(
+  shift: Pick<Shift, "fullDayMinutes" | "halfDayMinutes">,
+  workedMinutes: number
+): AttendanceStatus {
+  if (workedMinutes >= shift.fullDayMinutes) {
+    return AttendanceStatus.PRESENT;
+  }
+
+  return workedMinutes >= shift.halfDayMinutes
+    ? AttendanceStatus.HALF_DAY
+    : AttendanceStatus.ABSENT;
+}
+
+// Half-days of loss of pay a month's late arrivals add up to
+export function getLateMarkHalfDays(lateMarks: number): number {
+  const { lateMarksPerHalfDay } = attendanceConfig;
+  return lateMarksPerHalfDay > 0
+    ? Math.floor(lateMarks / lateMarksPerHalfDay)
+    : 0;
+}
@@ -0,0 +1,126 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseFilters,
+} from "@nestjs/common";
+import { ShiftService } from "./shift.service";
+import {
+  CreateShiftDto,
+  UpdateShiftDto,
+  CreateShiftRotationDto,
+  UpdateShiftRotationDto,
+  CreateShiftAssignmentDto,
+} from "./dto/shift.dto";
+import { JwtGuard } from "@common/guards/jwt.guard";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
+import { User, RequestUser } from "@common/decorators/user.decorator";
+import { Permission } from "@common/enums/permission.enum";
+import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
+
+@Controller("shifts")
+@UseFilters(AllExceptionsFilter)
+export class ShiftController {
+  constructor(private shiftService: ShiftService) {}
+
+  @Get("me")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_SELF)
+  async getMySchedule(
+    @User() user: RequestUser,
+    @Query("startDate") startDate?: string,
+    @Query("endDate") endDate?: string
+  ) {
+    return this.shiftService.getMySchedule(user.userId, startDate, endDate);
+  }
+
+  @Get()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_READ)
+  async getShifts() {
+    return this.shiftService.getShifts();
+  }
+
+  @Post()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_MANAGE)
+  async createShift(
+    @User() user: RequestUser,
+    @Body() createDto: CreateShiftDto
+  ) {
+    return this.shiftService.createShift(createDto, user.userId);
+  }
+
+  @Get("rotations")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_READ)
+  async getRotations() {
+    return this.shiftService.getRotations();
+  }
+
+  @Post("rotations")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_MANAGE)
+  async createRotation(
+    @User() user: RequestUser,
+    @Body() createDto: CreateShiftRotationDto
+  ) {
+    return this.shiftService.createRotation(createDto, user.userId);
+  }
+
+  @Put("rotations/:id")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_MANAGE)
+  async updateRotation(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() updateDto: UpdateShiftRotationDto
+  ) {
+    return this.shiftService.updateRotation(id, updateDto, user.userId);
+  }
+
+  @Get("assignments")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_READ)
+  async getAssignments(
+    @Query("employeeId") employeeId?: string,
+    @Query("department") department?: string
+  ) {
+    return this.shiftService.getAssignments(employeeId, department);
+  }
+
+  @Post("assignments")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_MANAGE)
+  async createAssignment(
+    @User() user: RequestUser,
+    @Body() createDto: CreateShiftAssignmentDto
+  ) {
+    return this.shiftService.createAssignment(createDto, user.userId);
+  }
+
+  @Delete("assignments/:id")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_MANAGE)
+  async deleteAssignment(@Param("id") id: string, @User() user: RequestUser) {
+    return this.shiftService.deleteAssignment(id, user.userId);
+  }
+
+  @Put(":id")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ATTENDANCE_MANAGE)
+  async updateShift(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() updateDto: UpdateShiftDto
+  ) {
+    return this.shiftService.updateShift(id, updateDto, user.userId);
+  }
+}
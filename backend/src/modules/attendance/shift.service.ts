@@ -0,0 +1,524 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  Inject,
+} from "@nestjs/common";
+import { PrismaClient, Prisma, Employee, Shift } from "@prisma/client";
+import {
+  CreateShiftAssignmentDto,
+  CreateShiftDto,
+  CreateShiftRotationDto,
+  ShiftRotationSlotDto,
+  UpdateShiftDto,
+  UpdateShiftRotationDto,
+} from "./dto/shift.dto";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest range a schedule can be listed for
+const MAX_SCHEDULE_DAYS = 62;
+
+const ROTATION_INCLUDE = {
+  slots: { include: { shift: true }, orderBy: { slotOrder: "asc" } },
+} satisfies Prisma.ShiftRotationInclude;
+
+type RotationWithSlots = Prisma.ShiftRotationGetPayload<{
+  include: typeof ROTATION_INCLUDE;
+}>;
+
+type AssignmentWithSchedule = Prisma.ShiftAssignmentGetPayload<{
+  include: { shift: true; rotation: { include: typeof ROTATION_INCLUDE } };
+}>;
+
+export interface ScheduledDay {
+  shift: Shift | null;
+  // The day falls in an off slot of the employee's rotation
+  isOffDay: boolean;
+}
+
+@Injectable()
+export class ShiftService {
+  constructor(@Inject("PrismaClient") private prisma: PrismaClient) {}
+
+  private async findEmployeeOrThrow(userId: string): Promise<Employee> {
+    const employee = await this.prisma.employee.findUnique({
+      where: { userId },
+    });
+
+    if (!employee) {
+      throw new NotFoundException("Employee not found");
+    }
+
+    return employee;
+  }
+
+  private parseDate(date: string): Date {
+    const parsed = new Date(date);
+    parsed.setHours(0, 0, 0, 0);
+    return parsed;
+  }
+
+  private getDaysBetween(from: Date, to: Date): number {
+    return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+  }
+
+  private validateShift(
+    shift: Pick<Shift, "fullDayMinutes" | "halfDayMinutes">
+  ) {
+    if (shift.halfDayMinutes > shift.fullDayMinutes) {
+      throw new BadRequestException(
+        "halfDayMinutes cannot be more than fullDayMinutes"
+      );
+    }
+  }
+
+  private async validateSlots(slots: ShiftRotationSlotDto[]) {
+    const shiftIds = [
+      ...new Set(slots.flatMap((slot) => (slot.shiftId ? [slot.shiftId] : []))),
+    ];
+
+    if (shiftIds.length === 0) {
+      throw new BadRequestException("A rotation needs at least one shift");
+    }
+
+    const shifts = await this.prisma.shift.findMany({
+      where: { id: { in: shiftIds }, isActive: true },
+    });
+
+    if (shifts.length !== shiftIds.length) {
+      throw new BadRequestException("Slot shifts must be active shifts");
+    }
+  }
+
+  private toSlotData(slots: ShiftRotationSlotDto[]) {
+    return slots.map((slot, index) => ({
+      slotOrder: index + 1,
+      shiftId: slot.shiftId ?? null,
+      days: slot.days,
+    }));
+  }
+
+  // The slot a date falls in, counting whole cycles from the rotation start
+  private getRotationSlot(
+    rotation: RotationWithSlots,
+    rotationStart: Date,
+    date: Date
+  ): RotationWithSlots["slots"][number] | null {
+    const cycleDays = rotation.slots.reduce((sum, slot) => sum + slot.days, 0);
+    if (cycleDays === 0) {
+      return null;
+    }
+
+    let day = this.getDaysBetween(rotationStart, date) % cycleDays;
+    for (const slot of rotation.slots) {
+      if (day < slot.days) {
+        return slot;
+      }
+      day -= slot.days;
+    }
+
+    return null;
+  }
+
+  // Employee assignment first, then the department's, then the company
+  // default; the latest effective one at each level
+  private pickAssignment(
+    assignments: AssignmentWithSchedule[],
+    employee: Employee
+  ): AssignmentWithSchedule | undefined {
+    return (
+      assignments.find((assignment) => assignment.employeeId === employee.id) ??
+      assignments.find(
+        (assignment) =>
+          assignment.employeeId === null &&
+          employee.department &&
+          assignment.department === employee.department
+      ) ??
+      assignments.find(
+        (assignment) =>
+          assignment.employeeId === null && assignment.department === null
+      )
+    );
+  }
+
+  // The shift an employee is scheduled for on a date, or null when nothing
+  // is assigned or the rotation has them off
+  async resolveShift(employee: Employee, date: Date): Promise<Shift | null> {
+    return (await this.resolveScheduledDay(employee, date)).shift;
+  }
+
+  async resolveScheduledDay(
+    employee: Employee,
+    date: Date
+  ): Promise<ScheduledDay> {
+    const assignments = await this.prisma.shiftAssignment.findMany({
+      where: {
+        effectiveFrom: { lte: date },
+        AND: [
+          { OR: [{ effectiveTo: null }, { effectiveTo: { gte: date } }] },
+          {
+            OR: [
+              { employeeId: employee.id },
+              { employeeId: null, department: employee.department },
+              { employeeId: null, department: null },
+            ],
+          },
+        ],
+      },
+      include: {
+        shift: true,
+        rotation: { include: ROTATION_INCLUDE },
+      },
+      orderBy: { effectiveFrom: "desc" },
+    });
+
+    const assignment = this.pickAssignment(assignments, employee);
+    if (!assignment?.rotation) {
+      return { shift: assignment?.shift ?? null, isOffDay: false };
+    }
+
+    const slot = this.getRotationSlot(
+      assignment.rotation,
+      assignment.effectiveFrom,
+      date
+    );
+
+    return { shift: slot?.shift ?? null, isOffDay: !!slot && !slot.shift };
+  }
+
+  // Own shift for each day of a range; defaults to the next 7 days
+  async getMySchedule(userId: string, startDate?: string, endDate?: string) {
+    const employee = await this.findEmployeeOrThrow(userId);
+    const start = startDate ? this.parseDate(startDate) : new Date();
+    start.setHours(0, 0, 0, 0);
+    const end = endDate
+      ? this.parseDate(endDate)
+      : new Date(start.getFullYear(), start.getMonth(), start.getDate() + 6);
+
+    if (end < start) {
+      throw new BadRequestException("End date must be after start date");
+    }
+
+    if (this.getDaysBetween(start, end) >= MAX_SCHEDULE_DAYS) {
+      throw new BadRequestException(
+        `A schedule covers at most ${MAX_SCHEDULE_DAYS} days`
+      );
+    }
+
+    const schedule = [];
+    for (
+      let date = start;
+      date <= end;
+      date = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1)
+    ) {
+      schedule.push({
+        date,
+        ...(await this.resolveScheduledDay(employee, date)),
+      });
+    }
+
+    return schedule;
+  }
+
+  async getShifts() {
+    return this.prisma.shift.findMany({ orderBy: { startTime: "asc" } });
+  }
+
+  async createShift(createDto: CreateShiftDto, adminId: string) {
+    this.validateShift(createDto);
+
+    return this.prisma.$transaction(async (tx) => {
+      const shift = await tx.shift.create({ data: createDto });
+
+      await tx.auditLog.create({
+        data: {
+          action: "CREATE",
+          userId: adminId,
+          entityType: "Shift",
+          entityId: shift.id,
+          reason: "Shift created",
+          changes: JSON.stringify(createDto),
+        },
+      });
+
+      return shift;
+    });
+  }
+
+  async updateShift(
+    shiftId: string,
+    updateDto: UpdateShiftDto,
+    adminId: string
+  ) {
+    const shift = await this.prisma.shift.findUnique({
+      where: { id: shiftId },
+    });
+
+    if (!shift) {
+      throw new NotFoundException("Shift not found");
+    }
+
+    this.validateShift({ ...shift, ...updateDto });
+
+    return this.prisma.$transaction(async (tx) => {
+      const updatedShift = await tx.shift.update({
+        where: { id: shiftId },
+        data: updateDto,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "UPDATE",
+          userId: adminId,
+          entityType: "Shift",
+          entityId: shiftId,
+          reason: "Shift updated",
+          changes: JSON.stringify({ previous: shift, updated: updateDto }),
+        },
+      });
+
+      return updatedShift;
+    });
+  }
+
+  async getRotations() {
+    return this.prisma.shiftRotation.findMany({
+      include: ROTATION_INCLUDE,
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async createRotation(createDto: CreateShiftRotationDto, adminId: string) {
+    await this.validateSlots(createDto.slots);
+
+    return this.prisma.$transaction(async (tx) => {
+      const rotation = await tx.shiftRotation.create({
+        data: {
+          name: createDto.name,
+          slots: { create: this.toSlotData(createDto.slots) },
+        },
+        include: ROTATION_INCLUDE,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "CREATE",
+          userId: adminId,
+          entityType: "ShiftRotation",
+          entityId: rotation.id,
+          reason: "Shift rotation created",
+          changes: JSON.stringify(createDto),
+        },
+      });
+
+      return rotation;
+    });
+  }
+
+  async updateRotation(
+    rotationId: string,
+    updateDto: UpdateShiftRotationDto,
+    adminId: string
+  ) {
+    const rotation = await this.prisma.shiftRotation.findUnique({
+      where: { id: rotationId },
+      include: ROTATION_INCLUDE,
+    });
+
+    if (!rotation) {
+      throw new NotFoundException("Shift rotation not found");
+    }
+
+    const { slots, ...rotationFields } = updateDto;
+
+    if (slots) {
+      await this.validateSlots(slots);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      if (slots) {
+        await tx.shiftRotationSlot.deleteMany({ where: { rotationId } });
+      }
+
+      const updatedRotation = await tx.shiftRotation.update({
+        where: { id: rotationId },
+        data: {
+          ...rotationFields,
+          ...(slots && { slots: { create: this.toSlotData(slots) } }),
+        },
+        include: ROTATION_INCLUDE,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "UPDATE",
+          userId: adminId,
+          entityType: "ShiftRotation",
+          entityId: rotationId,
+          reason: "Shift rotation updated",
+          changes: JSON.stringify({ previous: rotation, updated: updateDto }),
+        },
+      });
+
+      return updatedRotation;
+    });
+  }
+
+  async getAssignments(employeeId?: string, department?: string) {
+    return this.prisma.shiftAssignment.findMany({
+      where: {
+        ...(employeeId && { employeeId }),
+        ...(department && { department }),
+      },
+      include: {
+        shift: true,
+        rotation: true,
+        employee: {
+          select: { firstName: true, lastName: true, department: true },
+        },
+      },
+      orderBy: [{ effectiveFrom: "desc" }, { createdAt: "desc" }],
+    });
+  }
+
+  // A new assignment ends the one its employee, department or the company
+  // had before it
+  async createAssignment(createDto: CreateShiftAssignmentDto, adminId: string) {
+    const employeeId = createDto.employeeId ?? null;
+    const department = createDto.department ?? null;
+    const effectiveFrom = this.parseDate(createDto.effectiveFrom);
+    const effectiveTo = createDto.effectiveTo
+      ? this.parseDate(createDto.effectiveTo)
+      : null;
+
+    if (employeeId && department) {
+      throw new BadRequestException(
+        "Assign a shift to an employee or a department, not both"
+      );
+    }
+
+    if (!createDto.shiftId === !createDto.rotationId) {
+      throw new BadRequestException("Give either shiftId or rotationId");
+    }
+
+    if (effectiveTo && effectiveTo < effectiveFrom) {
+      throw new BadRequestException(
+        "effectiveTo must be on or after effectiveFrom"
+      );
+    }
+
+    if (employeeId) {
+      const employee = await this.prisma.employee.findUnique({
+        where: { id: employeeId },
+      });
+      if (!employee) {
+        throw new NotFoundException("Employee not found");
+      }
+    }
+
+    const schedule = createDto.shiftId
+      ? await this.prisma.shift.findUnique({
+          where: { id: createDto.shiftId },
+        })
+      : await this.prisma.shiftRotation.findUnique({
+          where: { id: createDto.rotationId },
+        });
+
+    if (!schedule || !schedule.isActive) {
+      throw new BadRequestException(
+        createDto.shiftId
+          ? "Shift not found or inactive"
+          : "Shift rotation not found or inactive"
+      );
+    }
+
+    const target = {
+      employeeId,
+      department: employeeId ? undefined : department,
+    };
+    const laterAssignment = await this.prisma.shiftAssignment.findFirst({
+      where: { ...target, effectiveFrom: { gte: effectiveFrom } },
+    });
+
+    if (laterAssignment) {
+      throw new ConflictException(
+        `${
+          employeeId ? "The employee" : department ?? "The company default"
+        } already has an assignment from ${
+          laterAssignment.effectiveFrom.toISOString().split("T")[0]
+        }`
+      );
+    }
+
+    const dayBefore = new Date(
+      effectiveFrom.getFullYear(),
+      effectiveFrom.getMonth(),
+      effectiveFrom.getDate() - 1
+    );
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.shiftAssignment.updateMany({
+        where: {
+          ...target,
+          OR: [{ effectiveTo: null }, { effectiveTo: { gte: effectiveFrom } }],
+        },
+        data: { effectiveTo: dayBefore },
+      });
+
+      const assignment = await tx.shiftAssignment.create({
+        data: {
+          employeeId,
+          department,
+          shiftId: createDto.shiftId,
+          rotationId: createDto.rotationId,
+          effectiveFrom,
+          effectiveTo,
+          createdBy: adminId,
+        },
+        include: { shift: true, rotation: true },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "CREATE",
+          userId: adminId,
+          entityType: "ShiftAssignment",
+          entityId: assignment.id,
+          reason: "Shift assigned",
+          changes: JSON.stringify(createDto),
+        },
+      });
+
+      return assignment;
+    });
+  }
+
+  async deleteAssignment(assignmentId: string, adminId: string) {
+    const assignment = await this.prisma.shiftAssignment.findUnique({
+      where: { id: assignmentId },
+    });
+
+    if (!assignment) {
+      throw new NotFoundException("Shift assignment not found");
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.shiftAssignment.delete({ where: { id: assignmentId } });
+
+      await tx.auditLog.create({
+        data: {
+          action: "DELETE",
+          userId: adminId,
+          entityType: "ShiftAssignment",
+          entityId: assignmentId,
+          reason: "Shift assignment removed",
+          changes: JSON.stringify({ previous: assignment }),
+        },
+      });
+
+      return { message: "Shift assignment removed" };
+    });
+  }
+}
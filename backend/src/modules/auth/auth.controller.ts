@@ -6,6 +6,7 @@ import {
   UseGuards,
   UnauthorizedException,
   BadRequestException,
+  ForbiddenException,
 } from "@nestjs/common";
 import { AuthService } from "./auth.service";
 import { LoginDto } from "./dto/login.dto";
@@ -34,6 +35,9 @@ export class AuthController {
     try {
       return await this.authService.signup(createUserDto);
     } catch (error) {
+      if (error instanceof ForbiddenException) {
+        throw error;
+      }
       throw new BadRequestException("Failed to create account");
     }
   }
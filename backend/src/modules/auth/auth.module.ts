@@ -2,6 +2,7 @@ import { Module } from "@nestjs/common";
 import { JwtModule } from "@nestjs/jwt";
 import { AuthService } from "./auth.service";
 import { AuthController } from "./auth.controller";
+import { RolesModule } from "@modules/roles/roles.module";
 import { getPrismaClient } from "@config/database.config";
 
 @Module({
@@ -9,6 +10,7 @@ import { getPrismaClient } from "@config/database.config";
     JwtModule.register({
       global: true,
     }),
+    RolesModule,
   ],
   providers: [
     AuthService,
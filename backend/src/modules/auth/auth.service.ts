@@ -4,12 +4,15 @@ import { PrismaClient } from "@prisma/client";
 import * as bcrypt from "bcryptjs";
 import { authConfig } from "@config/auth.config";
 import { CreateUserDto } from "../users/dto/user.dto";
+import { RolesService } from "@modules/roles/roles.service";
+import { Role } from "@common/enums/role.enum";
 
 @Injectable()
 export class AuthService {
   constructor(
     private jwtService: JwtService,
-    @Inject("PrismaClient") private prisma: PrismaClient
+    @Inject("PrismaClient") private prisma: PrismaClient,
+    private rolesService: RolesService
   ) {}
 
   async login(email: string, password: string) {
@@ -30,6 +33,11 @@ export class AuthService {
   }
 
   async signup(createUserDto: CreateUserDto) {
+    // Sign-up is open to anyone, so it only creates employees
+    this.rolesService.assertCanAssignRoles(null, [
+      createUserDto.role ?? Role.EMPLOYEE,
+    ]);
+
     // Check if user already exists
     const existingUser = await this.prisma.user.findUnique({
       where: { email: createUserDto.email },
@@ -47,12 +55,12 @@ export class AuthService {
       data: {
         email: createUserDto.email,
         password: hashedPassword,
-        role: createUserDto.role || 'EMPLOYEE',
+        role: Role.EMPLOYEE,
         employee: {
           create: {
             firstName: createUserDto.firstName,
             lastName: createUserDto.lastName,
-            department: createUserDto.department || 'General',
+            department: createUserDto.department || "General",
             phone: createUserDto.phone,
             address: createUserDto.address,
           },
@@ -68,8 +76,13 @@ export class AuthService {
   }
 
   async generateTokens(userId: string, role: string) {
+    // Permissions are resolved once per token; role edits apply on refresh
+    const { roles, permissions } = await this.rolesService.getUserAccess(
+      userId
+    );
+
     const accessToken = this.jwtService.sign(
-      { userId, role },
+      { userId, role, roles, permissions },
       {
         secret: authConfig.jwtSecret,
         expiresIn: authConfig.jwtExpirationTime,
@@ -108,6 +121,8 @@ export class AuthService {
         id: user.id,
         email: user.email,
         role: user.role,
+        roles,
+        permissions,
       },
     };
   }
@@ -145,4 +160,13 @@ export class AuthService {
       where: { token },
     });
   }
+
+  // Expired tokens can no longer be refreshed, so nothing needs them
+  async purgeExpiredRefreshTokens(now: Date) {
+    const { count } = await this.prisma.refreshToken.deleteMany({
+      where: { expiresAt: { lt: now } },
+    });
+
+    return { deleted: count };
+  }
 }
@@ -0,0 +1,59 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseFilters,
+} from "@nestjs/common";
+import { CalendarService } from "./calendar.service";
+import { CreateHolidayDto } from "./dto/holiday.dto";
+import { JwtGuard } from "@common/guards/jwt.guard";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
+import { User, RequestUser } from "@common/decorators/user.decorator";
+import { Permission } from "@common/enums/permission.enum";
+import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
+
+@Controller("calendar")
+@UseFilters(AllExceptionsFilter)
+export class CalendarController {
+  constructor(private calendarService: CalendarService) {}
+
+  @Get("holidays")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions()
+  async getHolidays(@Query("year") year?: string) {
+    return this.calendarService.getHolidays(year ? Number(year) : undefined);
+  }
+
+  @Get("working-days")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions()
+  async getWorkingDays(
+    @Query("startDate") startDate: string,
+    @Query("endDate") endDate: string
+  ) {
+    return this.calendarService.getWorkingDaysSummary(startDate, endDate);
+  }
+
+  @Post("holidays")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.CALENDAR_WRITE)
+  async createHoliday(
+    @User() user: RequestUser,
+    @Body() createDto: CreateHolidayDto
+  ) {
+    return this.calendarService.createHoliday(createDto, user.userId);
+  }
+
+  @Delete("holidays/:id")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.CALENDAR_WRITE)
+  async deleteHoliday(@Param("id") id: string, @User() user: RequestUser) {
+    return this.calendarService.deleteHoliday(id, user.userId);
+  }
+}
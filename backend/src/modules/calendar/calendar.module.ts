@@ -0,0 +1,17 @@
+import { Module } from "@nestjs/common";
+import { CalendarService } from "./calendar.service";
+import { CalendarController } from "./calendar.controller";
+import { getPrismaClient } from "@config/database.config";
+
+@Module({
+  providers: [
+    CalendarService,
+    {
+      provide: "PrismaClient",
+      useValue: getPrismaClient(),
+    },
+  ],
+  controllers: [CalendarController],
+  exports: [CalendarService],
+})
+export class CalendarModule {}
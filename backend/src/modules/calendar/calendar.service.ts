@@ -0,0 +1,159 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Inject,
+  ConflictException,
+} from "@nestjs/common";
+import { PrismaClient, Prisma } from "@prisma/client";
+import { calendarConfig } from "@config/calendar.config";
+import { CreateHolidayDto } from "./dto/holiday.dto";
+
+@Injectable()
+export class CalendarService {
+  constructor(@Inject("PrismaClient") private prisma: PrismaClient) {}
+
+  private toDateKey(date: Date): string {
+    return date.toISOString().split("T")[0];
+  }
+
+  isWeeklyOff(date: Date): boolean {
+    return calendarConfig.weeklyOffDays.includes(date.getDay());
+  }
+
+  private async getHolidayKeys(
+    startDate: Date,
+    endDate: Date,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<Set<string>> {
+    const holidays = await client.holiday.findMany({
+      where: { date: { gte: startDate, lte: endDate } },
+    });
+
+    return new Set(holidays.map((holiday) => this.toDateKey(holiday.date)));
+  }
+
+  // Every day in the inclusive range that is neither a weekly off nor a holiday
+  async getWorkingDays(
+    startDate: Date,
+    endDate: Date,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<Date[]> {
+    const holidayKeys = await this.getHolidayKeys(startDate, endDate, client);
+    const workingDays: Date[] = [];
+
+    const currentDate = new Date(startDate);
+    while (currentDate <= endDate) {
+      if (
+        !this.isWeeklyOff(currentDate) &&
+        !holidayKeys.has(this.toDateKey(currentDate))
+      ) {
+        workingDays.push(new Date(currentDate));
+      }
+      currentDate.setDate(currentDate.getDate() + 1);
+    }
+
+    return workingDays;
+  }
+
+  async countWorkingDays(startDate: Date, endDate: Date): Promise<number> {
+    const workingDays = await this.getWorkingDays(startDate, endDate);
+    return workingDays.length;
+  }
+
+  async isWorkingDay(date: Date): Promise<boolean> {
+    return (await this.countWorkingDays(date, date)) === 1;
+  }
+
+  async getWorkingDaysSummary(startDate: string, endDate: string) {
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+
+    if (start > end) {
+      throw new BadRequestException("Start date must be before end date");
+    }
+
+    const workingDays = await this.getWorkingDays(start, end);
+
+    return {
+      startDate,
+      endDate,
+      weeklyOffDays: calendarConfig.weeklyOffDays,
+      workingDays: workingDays.length,
+      dates: workingDays.map((date) => this.toDateKey(date)),
+    };
+  }
+
+  async getHolidays(year?: number) {
+    return this.prisma.holiday.findMany({
+      where: year
+        ? {
+            date: {
+              gte: new Date(year, 0, 1),
+              lte: new Date(year, 11, 31),
+            },
+          }
+        : undefined,
+      orderBy: { date: "asc" },
+    });
+  }
+
+  async createHoliday(createDto: CreateHolidayDto, adminId: string) {
+    const date = new Date(createDto.date);
+
+    const existingHoliday = await this.prisma.holiday.findUnique({
+      where: { date },
+    });
+
+    if (existingHoliday) {
+      throw new ConflictException(
+        `${createDto.date} is already a holiday (${existingHoliday.name})`
+      );
+    }
+
+    const holiday = await this.prisma.holiday.create({
+      data: { name: createDto.name, date },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: "CREATE",
+        userId: adminId,
+        entityType: "Holiday",
+        entityId: holiday.id,
+        reason: "Holiday added",
+        changes: JSON.stringify(createDto),
+      },
+    });
+
+    return holiday;
+  }
+
+  async deleteHoliday(holidayId: string, adminId: string) {
+    const holiday = await this.prisma.holiday.findUnique({
+      where: { id: holidayId },
+    });
+
+    if (!holiday) {
+      throw new NotFoundException("Holiday not found");
+    }
+
+    await this.prisma.holiday.delete({ where: { id: holidayId } });
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: "DELETE",
+        userId: adminId,
+        entityType: "Holiday",
+        entityId: holidayId,
+        reason: "Holiday removed",
+        changes: JSON.stringify({
+          name: holiday.name,
+          date: this.toDateKey(holiday.date),
+        }),
+      },
+    });
+
+    return { message: "Holiday removed" };
+  }
+}
@@ -0,0 +1,9 @@
+import { IsString, IsDateString } from "class-validator";
+
+export class CreateHolidayDto {
+  @IsString()
+  name!: string;
+
+  @IsDateString()
+  date!: string; // ISO date format YYYY-MM-DD
+}
@@ -1,7 +1,10 @@
 import { Controller, Get, UseGuards, UseFilters } from "@nestjs/common";
 import { DashboardService } from "./dashboard.service";
 import { JwtGuard } from "@common/guards/jwt.guard";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
 import { User, RequestUser } from "@common/decorators/user.decorator";
+import { Permission } from "@common/enums/permission.enum";
 import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
 
 @Controller("dashboard")
@@ -10,13 +13,15 @@ export class DashboardController {
   constructor(private dashboardService: DashboardService) {}
 
   @Get("summary")
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PROFILE_SELF)
   async getDashboardSummary(@User() user: RequestUser) {
     return this.dashboardService.getDashboardSummary(user.userId);
   }
 
   @Get("statistics")
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PROFILE_SELF)
   async getStatistics(@User() user: RequestUser) {
     return this.dashboardService.getStatistics(user.userId);
   }
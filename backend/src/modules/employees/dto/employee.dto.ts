@@ -32,4 +32,9 @@ export class UpdateEmployeeDto {
 
 export class UpdateEmployeeByAdminDto extends UpdateEmployeeDto {
   // Admin can update all fields, employees can only update specific ones
+
+  // Reporting manager's employee ID; null removes the manager
+  @IsOptional()
+  @IsString()
+  managerId?: string | null;
 }
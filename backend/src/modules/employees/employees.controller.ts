@@ -3,6 +3,7 @@ import {
   Get,
   Put,
   Param,
+  Query,
   Body,
   UseGuards,
   UseFilters,
@@ -13,10 +14,10 @@ import {
   UpdateEmployeeByAdminDto,
 } from "./dto/employee.dto";
 import { JwtGuard } from "@common/guards/jwt.guard";
-import { RolesGuard } from "@common/guards/roles.guard";
-import { Roles } from "@common/decorators/roles.decorator";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
 import { User, RequestUser } from "@common/decorators/user.decorator";
-import { Role } from "@common/enums/role.enum";
+import { Permission } from "@common/enums/permission.enum";
 import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
 
 @Controller("employees")
@@ -25,13 +26,15 @@ export class EmployeesController {
   constructor(private employeesService: EmployeesService) {}
 
   @Get("me")
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PROFILE_SELF)
   async getMyProfile(@User() user: RequestUser) {
     return this.employeesService.getMyProfile(user.userId);
   }
 
   @Put("me")
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PROFILE_SELF)
   async updateMyProfile(
     @User() user: RequestUser,
     @Body() updateDto: UpdateEmployeeDto
@@ -40,21 +43,38 @@ export class EmployeesController {
   }
 
   @Get()
-  @UseGuards(JwtGuard, RolesGuard)
-  @Roles(Role.ADMIN)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.EMPLOYEES_READ)
   async getAllEmployees() {
     return this.employeesService.getAllEmployees();
   }
 
   @Get(":id")
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PROFILE_SELF)
   async getEmployeeById(@Param("id") id: string) {
     return this.employeesService.getEmployeeById(id);
   }
 
+  @Get(":id/reports")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PROFILE_SELF)
+  async getReports(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Query("transitive") transitive?: string
+  ) {
+    return this.employeesService.getReports(
+      id,
+      user.userId,
+      user.permissions,
+      transitive === "true"
+    );
+  }
+
   @Put(":id")
-  @UseGuards(JwtGuard, RolesGuard)
-  @Roles(Role.ADMIN, Role.EMPLOYEE)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PROFILE_SELF)
   async updateEmployee(
     @Param("id") id: string,
     @User() user: RequestUser,
@@ -64,7 +84,7 @@ export class EmployeesController {
       id,
       updateDto,
       user.userId,
-      user.role as Role
+      user.permissions
     );
   }
 }
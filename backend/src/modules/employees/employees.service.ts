@@ -10,7 +10,7 @@ import {
   UpdateEmployeeDto,
   UpdateEmployeeByAdminDto,
 } from "./dto/employee.dto";
-import { Role } from "@common/enums/role.enum";
+import { Permission } from "@common/enums/permission.enum";
 
 @Injectable()
 export class EmployeesService {
@@ -33,6 +33,149 @@ export class EmployeesService {
     return employee;
   }
 
+  // Walks up the reporting line from employeeId looking for managerId
+  async isInReportingLine(
+    managerId: string,
+    employeeId: string
+  ): Promise<boolean> {
+    const visited = new Set<string>();
+    let currentId: string | null = employeeId;
+
+    while (currentId && !visited.has(currentId)) {
+      visited.add(currentId);
+
+      const current: { managerId: string | null } | null =
+        await this.prisma.employee.findUnique({
+          where: { id: currentId },
+          select: { managerId: true },
+        });
+
+      if (!current?.managerId) {
+        return false;
+      }
+
+      if (current.managerId === managerId) {
+        return true;
+      }
+
+      currentId = current.managerId;
+    }
+
+    return false;
+  }
+
+  async getReportIds(
+    managerId: string,
+    transitive: boolean
+  ): Promise<string[]> {
+    const reportIds: string[] = [];
+    let frontier = [managerId];
+
+    while (frontier.length > 0) {
+      const reports = await this.prisma.employee.findMany({
+        where: { managerId: { in: frontier } },
+        select: { id: true },
+      });
+
+      // Guards against cycles in data written before cycle protection
+      frontier = reports
+        .map((report) => report.id)
+        .filter((id) => id !== managerId && !reportIds.includes(id));
+      reportIds.push(...frontier);
+
+      if (!transitive) {
+        break;
+      }
+    }
+
+    return reportIds;
+  }
+
+  async getReports(
+    employeeId: string,
+    userId: string,
+    permissions: string[],
+    transitive: boolean
+  ) {
+    const employee = await this.prisma.employee.findUnique({
+      where: { id: employeeId },
+    });
+
+    if (!employee) {
+      throw new NotFoundException("Employee not found");
+    }
+
+    if (
+      !permissions.includes(Permission.EMPLOYEES_READ) &&
+      employee.userId !== userId
+    ) {
+      const requester = await this.prisma.employee.findUnique({
+        where: { userId },
+      });
+
+      if (
+        !requester ||
+        !(await this.isInReportingLine(requester.id, employeeId))
+      ) {
+        throw new ForbiddenException(
+          "You can only view reports within your own team"
+        );
+      }
+    }
+
+    const reportIds = await this.getReportIds(employeeId, transitive);
+
+    return this.prisma.employee.findMany({
+      where: { id: { in: reportIds } },
+      include: {
+        user: {
+          select: { email: true, role: true, isActive: true },
+        },
+      },
+      orderBy: [{ firstName: "asc" }, { lastName: "asc" }],
+    });
+  }
+
+  // Direct and transitive reports of the requesting manager
+  async getTeamMemberIds(userId: string): Promise<string[]> {
+    const manager = await this.prisma.employee.findUnique({
+      where: { userId },
+    });
+
+    if (!manager) {
+      throw new NotFoundException("Employee profile not found");
+    }
+
+    const teamMemberIds = await this.getReportIds(manager.id, true);
+
+    if (teamMemberIds.length === 0) {
+      throw new ForbiddenException("You do not manage any employees");
+    }
+
+    return teamMemberIds;
+  }
+
+  private async assertValidManager(employeeId: string, managerId: string) {
+    if (managerId === employeeId) {
+      throw new BadRequestException("An employee cannot manage themselves");
+    }
+
+    const manager = await this.prisma.employee.findUnique({
+      where: { id: managerId },
+    });
+
+    if (!manager) {
+      throw new NotFoundException("Manager not found");
+    }
+
+    // The new manager must not already report to this employee
+    if (await this.isInReportingLine(employeeId, managerId)) {
+      throw new BadRequestException(
+        "This manager assignment would create a reporting cycle"
+      );
+    }
+  }
+
   async getAllEmployees() {
     return this.prisma.employee.findMany({
       include: {
@@ -45,11 +188,13 @@ export class EmployeesService {
 
   async updateEmployee(
     employeeId: string,
-    updateDto: UpdateEmployeeDto,
+    updateDto: UpdateEmployeeByAdminDto,
     userId: string,
-    userRole: Role
+    permissions: string[]
   ) {
-    // Verify employee exists and user owns it or is admin
+    const canEditAll = permissions.includes(Permission.EMPLOYEES_WRITE);
+
+    // Verify employee exists and user owns it or may edit anyone
     const employee = await this.prisma.employee.findUnique({
       where: { id: employeeId },
       include: { user: true },
@@ -60,12 +205,12 @@ export class EmployeesService {
     }
 
     // Authorization check
-    if (userRole !== Role.ADMIN && employee.userId !== userId) {
+    if (!canEditAll && employee.userId !== userId) {
       throw new ForbiddenException("You can only update your own profile");
     }
 
     // Employees can only update specific fields
-    if (userRole === Role.EMPLOYEE) {
+    if (!canEditAll) {
       const allowedFields = ["phone", "address", "profilePictureUrl"];
       const updateFields = Object.keys(updateDto);
       const unauthorizedFields = updateFields.filter(
@@ -81,14 +226,42 @@ export class EmployeesService {
       }
     }
 
-    return this.prisma.employee.update({
-      where: { id: employeeId },
-      data: updateDto,
-      include: {
-        user: {
-          select: { email: true, role: true, isActive: true },
+    const managerChanged =
+      updateDto.managerId !== undefined &&
+      updateDto.managerId !== employee.managerId;
+
+    if (managerChanged && updateDto.managerId) {
+      await this.assertValidManager(employeeId, updateDto.managerId);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updatedEmployee = await tx.employee.update({
+        where: { id: employeeId },
+        data: updateDto,
+        include: {
+          user: {
+            select: { email: true, role: true, isActive: true },
+          },
         },
-      },
+      });
+
+      if (managerChanged) {
+        await tx.auditLog.create({
+          data: {
+            action: "UPDATE",
+            userId,
+            entityType: "Employee",
+            entityId: employeeId,
+            reason: "Reporting manager changed",
+            changes: JSON.stringify({
+              previousManagerId: employee.managerId,
+              managerId: updateDto.managerId,
+            }),
+          },
+        });
+      }
+
+      return updatedEmployee;
     });
   }
 
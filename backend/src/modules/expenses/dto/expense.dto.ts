@@ -0,0 +1,66 @@
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsDateString,
+  IsNotEmpty,
+  Matches,
+} from "class-validator";
+import { IsMoney } from "@modules/payroll/money";
+
+// Replaces the whole category; leaving out monthlyLimit removes the limit
+export class UpsertExpenseCategoryDto {
+  @IsString()
+  @IsNotEmpty()
+  name!: string;
+
+  @IsOptional()
+  @IsMoney()
+  monthlyLimit?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+// Sent as multipart form fields alongside the receipt files
+export class SubmitExpenseClaimDto {
+  @IsString()
+  @IsNotEmpty()
+  categoryCode!: string;
+
+  @IsMoney()
+  amount!: string;
+
+  @IsDateString()
+  expenseDate!: string; // ISO date format
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
+
+export class ApproveExpenseClaimDto {
+  @IsOptional()
+  @IsString()
+  comments?: string;
+}
+
+export class RejectExpenseClaimDto {
+  @IsString()
+  reason!: string;
+}
+
+export class CancelExpenseClaimDto {
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class ExpenseLimitsQueryDto {
+  @IsOptional()
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, {
+    message: "month must be in YYYY-MM format",
+  })
+  month?: string;
+}
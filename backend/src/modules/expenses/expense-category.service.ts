@@ -0,0 +1,72 @@
+import { Injectable, BadRequestException, Inject } from "@nestjs/common";
+import { PrismaClient } from "@prisma/client";
+import { UpsertExpenseCategoryDto } from "./dto/expense.dto";
+import { toMoney } from "@modules/payroll/money";
+
+const KEY_PATTERN = /^[A-Z0-9_]+$/;
+
+@Injectable()
+export class ExpenseCategoryService {
+  constructor(@Inject("PrismaClient") private prisma: PrismaClient) {}
+
+  async getCategories(includeInactive = false) {
+    return this.prisma.expenseCategory.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: { name: "asc" },
+    });
+  }
+
+  async upsertCategory(
+    code: string,
+    upsertDto: UpsertExpenseCategoryDto,
+    adminId: string
+  ) {
+    if (!KEY_PATTERN.test(code)) {
+      throw new BadRequestException(
+        "Category codes use upper case letters, digits and underscores"
+      );
+    }
+
+    const existing = await this.prisma.expenseCategory.findUnique({
+      where: { code },
+    });
+    const data = {
+      name: upsertDto.name,
+      monthlyLimit: upsertDto.monthlyLimit
+        ? toMoney(upsertDto.monthlyLimit)
+        : null,
+      isActive: upsertDto.isActive ?? true,
+      updatedBy: adminId,
+    };
+
+    return this.prisma.$transaction(async (tx) => {
+      const category = await tx.expenseCategory.upsert({
+        where: { code },
+        create: { ...data, code },
+        update: data,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: existing ? "UPDATE" : "CREATE",
+          userId: adminId,
+          entityType: "ExpenseCategory",
+          entityId: category.id,
+          reason: `Expense category ${code} ${
+            existing ? "updated" : "created"
+          }`,
+          changes: JSON.stringify({
+            previous: existing && {
+              name: existing.name,
+              monthlyLimit: existing.monthlyLimit,
+              isActive: existing.isActive,
+            },
+            updated: upsertDto,
+          }),
+        },
+      });
+
+      return category;
+    });
+  }
+}
@@ -0,0 +1,761 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+  Inject,
+} from "@nestjs/common";
+import {
+  PrismaClient,
+  Prisma,
+  Employee,
+  ExpenseCategory,
+  Payroll,
+} from "@prisma/client";
+import { randomUUID } from "crypto";
+import { mkdir, readFile, unlink, writeFile } from "fs/promises";
+import { join, resolve } from "path";
+import {
+  ApproveExpenseClaimDto,
+  CancelExpenseClaimDto,
+  RejectExpenseClaimDto,
+  SubmitExpenseClaimDto,
+} from "./dto/expense.dto";
+import { ExpenseCategoryService } from "./expense-category.service";
+import {
+  ApprovalChainService,
+  ApprovableRequest,
+  Approver,
+} from "@modules/leave/approval-chain.service";
+import { RequestUser } from "@common/decorators/user.decorator";
+import {
+  ExpenseClaimStatus,
+  REIMBURSEMENT_CODE,
+} from "@common/enums/expense.enum";
+import { SalaryComponentType } from "@common/enums/payroll.enum";
+import { Permission } from "@common/enums/permission.enum";
+import { PolicyViolationException } from "@common/exceptions/policy-violation.exception";
+import { expenseConfig } from "@config/expense.config";
+import { payrollConfig } from "@config/payroll.config";
+import {
+  Money,
+  ZERO,
+  calculateNetSalary,
+  formatMoney,
+  sumMoney,
+  toMoney,
+} from "@modules/payroll/money";
+
+// A file from a multipart upload, as multer hands it over in memory
+export interface UploadedReceipt {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export interface ReceiptFile {
+  fileName: string;
+  content: Buffer;
+  mimeType: string;
+}
+
+type ClaimWithApprovalChain = Prisma.ExpenseClaimGetPayload<{
+  include: {
+    employee: { select: { managerId: true } };
+    approvalChain: { include: { steps: true } };
+    approvals: true;
+  };
+}> &
+  ApprovableRequest;
+
+const RECEIPT_EXTENSIONS: Record<string, string> = {
+  "application/pdf": ".pdf",
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+};
+
+// Claims that count towards a category's monthly limit
+const COUNTED_STATUSES = [
+  ExpenseClaimStatus.PENDING,
+  ExpenseClaimStatus.APPROVED,
+];
+
+// Where the stored file lives is never returned by the API
+const CLAIM_INCLUDE = {
+  category: { select: { code: true, name: true } },
+  receipts: {
+    select: {
+      id: true,
+      fileName: true,
+      mimeType: true,
+      size: true,
+      createdAt: true,
+    },
+  },
+  approvals: true,
+  payroll: { select: { month: true, run: { select: { status: true } } } },
+};
+
+@Injectable()
+export class ExpenseClaimService {
+  constructor(
+    @Inject("PrismaClient") private prisma: PrismaClient,
+    private approvalChainService: ApprovalChainService,
+    private expenseCategoryService: ExpenseCategoryService
+  ) {}
+
+  private async findEmployeeOrThrow(userId: string): Promise<Employee> {
+    const employee = await this.prisma.employee.findUnique({
+      where: { userId },
+    });
+
+    if (!employee) {
+      throw new NotFoundException("Employee not found");
+    }
+
+    return employee;
+  }
+
+  private async findApproverOrThrow(user: RequestUser): Promise<Approver> {
+    const employee = await this.prisma.employee.findUnique({
+      where: { userId: user.userId },
+    });
+
+    if (!employee) {
+      throw new BadRequestException("Approver is not an employee");
+    }
+
+    return { ...employee, roles: user.roles, permissions: user.permissions };
+  }
+
+  private async findClaimWithChainOrThrow(
+    claimId: string
+  ): Promise<ClaimWithApprovalChain> {
+    const claim = await this.prisma.expenseClaim.findUnique({
+      where: { id: claimId },
+      include: {
+        employee: { select: { managerId: true } },
+        approvalChain: { include: { steps: true } },
+        approvals: true,
+      },
+    });
+
+    if (!claim) {
+      throw new NotFoundException("Expense claim not found");
+    }
+
+    return claim;
+  }
+
+  private getMonthRange(date: Date) {
+    return {
+      start: new Date(date.getFullYear(), date.getMonth(), 1),
+      end: new Date(date.getFullYear(), date.getMonth() + 1, 1),
+    };
+  }
+
+  private getReceiptPath(storedName: string): string {
+    return join(resolve(expenseConfig.receiptsDir), storedName);
+  }
+
+  // Claimed so far in the category for the expense's calendar month
+  private async getMonthlyUsage(
+    client: Prisma.TransactionClient,
+    employeeId: string,
+    categoryId: string,
+    month: Date,
+    excludeClaimId?: string
+  ): Promise<Money> {
+    const { start, end } = this.getMonthRange(month);
+    const { _sum } = await client.expenseClaim.aggregate({
+      where: {
+        employeeId,
+        categoryId,
+        status: { in: COUNTED_STATUSES },
+        expenseDate: { gte: start, lt: end },
+        ...(excludeClaimId && { id: { not: excludeClaimId } }),
+      },
+      _sum: { amount: true },
+    });
+
+    return _sum.amount ?? ZERO;
+  }
+
+  private async assertWithinLimit(
+    client: Prisma.TransactionClient,
+    employeeId: string,
+    category: ExpenseCategory,
+    expenseDate: Date,
+    amount: Money,
+    excludeClaimId?: string
+  ) {
+    if (!category.monthlyLimit) {
+      return;
+    }
+
+    const used = await this.getMonthlyUsage(
+      client,
+      employeeId,
+      category.id,
+      expenseDate,
+      excludeClaimId
+    );
+
+    if (used.plus(amount).gt(category.monthlyLimit)) {
+      throw new PolicyViolationException([
+        {
+          rule: "MONTHLY_LIMIT",
+          message: `${category.name} claims are limited to ${formatMoney(
+            category.monthlyLimit
+          )} a month; ${formatMoney(
+            Prisma.Decimal.max(category.monthlyLimit.minus(used), 0)
+          )} remains for this month`,
+        },
+      ]);
+    }
+  }
+
+  private validateReceipts(files: UploadedReceipt[]) {
+    if (files.length === 0) {
+      throw new BadRequestException("At least one receipt is required");
+    }
+
+    if (files.length > expenseConfig.maxReceiptsPerClaim) {
+      throw new BadRequestException(
+        `A claim can have at most ${expenseConfig.maxReceiptsPerClaim} receipts`
+      );
+    }
+
+    for (const file of files) {
+      if (!RECEIPT_EXTENSIONS[file.mimetype]) {
+        throw new BadRequestException(
+          `${file.originalname} must be a PDF, JPEG, PNG or WebP file`
+        );
+      }
+
+      if (file.size > expenseConfig.receiptMaxBytes) {
+        throw new BadRequestException(
+          `${file.originalname} is larger than ${expenseConfig.receiptMaxBytes} bytes`
+        );
+      }
+    }
+  }
+
+  // Each active category's limit and what the employee has claimed against
+  // it in the month
+  async getMyLimits(userId: string, month?: string) {
+    const { id: employeeId } = await this.findEmployeeOrThrow(userId);
+    const [year, monthNum] = month
+      ? month.split("-").map(Number)
+      : [new Date().getFullYear(), new Date().getMonth() + 1];
+    const monthStart = new Date(year, monthNum - 1, 1);
+    const categories = await this.expenseCategoryService.getCategories();
+
+    return Promise.all(
+      categories.map(async (category) => {
+        const used = await this.getMonthlyUsage(
+          this.prisma,
+          employeeId,
+          category.id,
+          monthStart
+        );
+
+        return {
+          code: category.code,
+          name: category.name,
+          monthlyLimit: category.monthlyLimit,
+          used,
+          remaining:
+            category.monthlyLimit &&
+            Prisma.Decimal.max(category.monthlyLimit.minus(used), 0),
+        };
+      })
+    );
+  }
+
+  async submitClaim(
+    userId: string,
+    submitDto: SubmitExpenseClaimDto,
+    files: UploadedReceipt[]
+  ) {
+    const employee = await this.findEmployeeOrThrow(userId);
+    const amount = toMoney(submitDto.amount);
+    const expenseDate = new Date(submitDto.expenseDate);
+
+    const category = await this.prisma.expenseCategory.findUnique({
+      where: { code: submitDto.categoryCode },
+    });
+
+    if (!category || !category.isActive) {
+      throw new BadRequestException(
+        `Unknown expense category: ${submitDto.categoryCode}`
+      );
+    }
+
+    if (!amount.gt(0)) {
+      throw new BadRequestException("amount must be greater than 0");
+    }
+
+    if (expenseDate > new Date()) {
+      throw new BadRequestException("Expenses cannot be claimed in advance");
+    }
+
+    this.validateReceipts(files);
+    await this.assertWithinLimit(
+      this.prisma,
+      employee.id,
+      category,
+      expenseDate,
+      amount
+    );
+
+    const approvalChain = await this.approvalChainService.resolveChain(
+      employee
+    );
+
+    const receipts = files.map((file) => ({
+      fileName: file.originalname,
+      storedName: `${randomUUID()}${RECEIPT_EXTENSIONS[file.mimetype]}`,
+      mimeType: file.mimetype,
+      size: file.size,
+      buffer: file.buffer,
+    }));
+
+    await mkdir(resolve(expenseConfig.receiptsDir), { recursive: true });
+    await Promise.all(
+      receipts.map((receipt) =>
+        writeFile(this.getReceiptPath(receipt.storedName), receipt.buffer)
+      )
+    );
+
+    try {
+      return await this.prisma.expenseClaim.create({
+        data: {
+          employeeId: employee.id,
+          categoryId: category.id,
+          amount,
+          currency: payrollConfig.currency,
+          expenseDate,
+          description: submitDto.description,
+          approvalChainId: approvalChain?.id,
+          status: ExpenseClaimStatus.PENDING,
+          receipts: {
+            create: receipts.map(({ buffer, ...receipt }) => receipt),
+          },
+        },
+        include: CLAIM_INCLUDE,
+      });
+    } catch (error) {
+      // Files of a claim that was never saved would never be cleaned up
+      await Promise.all(
+        receipts.map((receipt) =>
+          unlink(this.getReceiptPath(receipt.storedName)).catch(() => {})
+        )
+      );
+      throw error;
+    }
+  }
+
+  async getMyClaims(userId: string) {
+    const { id: employeeId } = await this.findEmployeeOrThrow(userId);
+
+    return this.prisma.expenseClaim.findMany({
+      where: { employeeId },
+      include: CLAIM_INCLUDE,
+      orderBy: { expenseDate: "desc" },
+    });
+  }
+
+  async getClaims(status?: ExpenseClaimStatus) {
+    if (status && !Object.values(ExpenseClaimStatus).includes(status)) {
+      throw new BadRequestException(`Unknown expense claim status: ${status}`);
+    }
+
+    return this.prisma.expenseClaim.findMany({
+      where: status ? { status } : {},
+      include: {
+        ...CLAIM_INCLUDE,
+        employee: {
+          select: { firstName: true, lastName: true, department: true },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  // Only the claims whose current approval step the user can act on
+  async getPendingClaims(user: RequestUser) {
+    const approver = await this.findApproverOrThrow(user);
+
+    const claims = await this.prisma.expenseClaim.findMany({
+      where: { status: ExpenseClaimStatus.PENDING },
+      include: {
+        ...CLAIM_INCLUDE,
+        employee: {
+          select: {
+            firstName: true,
+            lastName: true,
+            managerId: true,
+            user: { select: { email: true } },
+          },
+        },
+        approvalChain: { include: { steps: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const decisions = await Promise.all(
+      claims.map(async (claim) => ({
+        claim,
+        decision: await this.approvalChainService.resolveApproval(
+          claim,
+          approver,
+          Permission.EXPENSE_APPROVE
+        ),
+      }))
+    );
+
+    return decisions
+      .filter(({ decision }) => decision !== null)
+      .map(({ claim, decision }) => ({
+        ...claim,
+        awaitingStep: decision?.step?.stepOrder ?? null,
+      }));
+  }
+
+  private async recordStepApproval(
+    claim: ClaimWithApprovalChain,
+    approver: Approver,
+    stepOrder: number,
+    userId: string,
+    approveDto: ApproveExpenseClaimDto
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.expenseClaimApproval.create({
+        data: {
+          claimId: claim.id,
+          approvedBy: approver.id,
+          stepOrder,
+          comments: approveDto.comments,
+        },
+      });
+
+      const updatedClaim = await tx.expenseClaim.update({
+        where: { id: claim.id },
+        data: { currentStep: stepOrder + 1 },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "APPROVE",
+          userId,
+          entityType: "ExpenseClaim",
+          entityId: claim.id,
+          reason: `Approval step ${stepOrder} completed`,
+          changes: JSON.stringify({
+            stepOrder,
+            nextStep: stepOrder + 1,
+            comments: approveDto.comments,
+          }),
+        },
+      });
+
+      return updatedClaim;
+    });
+  }
+
+  async approveClaim(
+    claimId: string,
+    approverUser: RequestUser,
+    approveDto: ApproveExpenseClaimDto
+  ) {
+    const claim = await this.findClaimWithChainOrThrow(claimId);
+
+    if (claim.status !== ExpenseClaimStatus.PENDING) {
+      throw new BadRequestException(
+        `Cannot approve a ${claim.status} expense claim`
+      );
+    }
+
+    const approver = await this.findApproverOrThrow(approverUser);
+    const decision = await this.approvalChainService.resolveApproval(
+      claim,
+      approver,
+      Permission.EXPENSE_APPROVE
+    );
+
+    if (!decision) {
+      throw new ForbiddenException(
+        "This expense claim is not awaiting your approval"
+      );
+    }
+
+    // Earlier steps of a sequential chain only move the claim along
+    if (decision.step && !decision.isFinal) {
+      return this.recordStepApproval(
+        claim,
+        approver,
+        decision.step.stepOrder,
+        approverUser.userId,
+        approveDto
+      );
+    }
+
+    const category = await this.prisma.expenseCategory.findUniqueOrThrow({
+      where: { id: claim.categoryId },
+    });
+
+    return this.prisma.$transaction(async (tx) => {
+      // The limit may have been lowered since the claim was filed
+      await this.assertWithinLimit(
+        tx,
+        claim.employeeId,
+        category,
+        claim.expenseDate,
+        claim.amount,
+        claim.id
+      );
+
+      const updatedClaim = await tx.expenseClaim.update({
+        where: { id: claimId },
+        data: { status: ExpenseClaimStatus.APPROVED },
+      });
+
+      await tx.expenseClaimApproval.create({
+        data: {
+          claimId,
+          approvedBy: approver.id,
+          stepOrder: decision.step?.stepOrder,
+          comments: approveDto.comments,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "APPROVE",
+          userId: approverUser.userId,
+          entityType: "ExpenseClaim",
+          entityId: claimId,
+          reason: "Expense claim approved",
+          changes: JSON.stringify({
+            status: ExpenseClaimStatus.APPROVED,
+            amount: formatMoney(claim.amount),
+            comments: approveDto.comments,
+          }),
+        },
+      });
+
+      return updatedClaim;
+    });
+  }
+
+  async rejectClaim(
+    claimId: string,
+    approverUser: RequestUser,
+    rejectDto: RejectExpenseClaimDto
+  ) {
+    const claim = await this.findClaimWithChainOrThrow(claimId);
+
+    if (claim.status !== ExpenseClaimStatus.PENDING) {
+      throw new BadRequestException(
+        `Cannot reject a ${claim.status} expense claim`
+      );
+    }
+
+    // Any approver the claim is currently waiting on may reject it
+    const approver = await this.findApproverOrThrow(approverUser);
+    if (
+      !(await this.approvalChainService.resolveApproval(
+        claim,
+        approver,
+        Permission.EXPENSE_APPROVE
+      ))
+    ) {
+      throw new ForbiddenException(
+        "This expense claim is not awaiting your approval"
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updatedClaim = await tx.expenseClaim.update({
+        where: { id: claimId },
+        data: {
+          status: ExpenseClaimStatus.REJECTED,
+          rejectionReason: rejectDto.reason,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "REJECT",
+          userId: approverUser.userId,
+          entityType: "ExpenseClaim",
+          entityId: claimId,
+          reason: rejectDto.reason,
+          changes: JSON.stringify({ status: ExpenseClaimStatus.REJECTED }),
+        },
+      });
+
+      return updatedClaim;
+    });
+  }
+
+  async cancelClaim(
+    claimId: string,
+    userId: string,
+    cancelDto: CancelExpenseClaimDto
+  ) {
+    const { id: employeeId } = await this.findEmployeeOrThrow(userId);
+    const claim = await this.prisma.expenseClaim.findUnique({
+      where: { id: claimId },
+    });
+
+    if (!claim) {
+      throw new NotFoundException("Expense claim not found");
+    }
+
+    if (claim.employeeId !== employeeId) {
+      throw new ForbiddenException("You can only cancel your own claims");
+    }
+
+    if (claim.status !== ExpenseClaimStatus.PENDING) {
+      throw new BadRequestException(
+        `Cannot cancel a ${claim.status} expense claim`
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updatedClaim = await tx.expenseClaim.update({
+        where: { id: claimId },
+        data: { status: ExpenseClaimStatus.CANCELLED },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "CANCEL",
+          userId,
+          entityType: "ExpenseClaim",
+          entityId: claimId,
+          reason: cancelDto.reason || "Expense claim withdrawn",
+          changes: JSON.stringify({
+            previousStatus: ExpenseClaimStatus.PENDING,
+            newStatus: ExpenseClaimStatus.CANCELLED,
+          }),
+        },
+      });
+
+      return updatedClaim;
+    });
+  }
+
+  // Receipts are visible to the claimant, payroll readers and anyone who is
+  // or has been an approver of the claim
+  async getReceipt(
+    claimId: string,
+    receiptId: string,
+    user: RequestUser
+  ): Promise<ReceiptFile> {
+    const claim = await this.findClaimWithChainOrThrow(claimId);
+    const receipt = await this.prisma.expenseReceipt.findFirst({
+      where: { id: receiptId, claimId },
+    });
+
+    if (!receipt) {
+      throw new NotFoundException("Receipt not found");
+    }
+
+    if (!user.permissions.includes(Permission.PAYROLL_READ)) {
+      const employee = await this.prisma.employee.findUnique({
+        where: { userId: user.userId },
+      });
+      const approver = employee && {
+        ...employee,
+        roles: user.roles,
+        permissions: user.permissions,
+      };
+
+      const canView =
+        approver &&
+        (claim.employeeId === approver.id ||
+          claim.approvals.some(
+            (approval) => approval.approvedBy === approver.id
+          ) ||
+          (claim.status === ExpenseClaimStatus.PENDING &&
+            (await this.approvalChainService.resolveApproval(
+              claim,
+              approver,
+              Permission.EXPENSE_APPROVE
+            ))));
+
+      if (!canView) {
+        throw new ForbiddenException("You cannot view this receipt");
+      }
+    }
+
+    return {
+      fileName: receipt.fileName,
+      content: await readFile(this.getReceiptPath(receipt.storedName)),
+      mimeType: receipt.mimeType,
+    };
+  }
+
+  // Pays every approved claim not yet reimbursed, from the payroll's month
+  // or earlier, and derives the record's reimbursements from the claims
+  // linked to it. They are paid as one non-taxable line item per category,
+  // after the record's salary items
+  async applyToPayroll(client: Prisma.TransactionClient, payroll: Payroll) {
+    const { end } = this.getMonthRange(payroll.month);
+
+    await client.expenseClaim.updateMany({
+      where: {
+        employeeId: payroll.employeeId,
+        status: ExpenseClaimStatus.APPROVED,
+        payrollId: null,
+        expenseDate: { lt: end },
+      },
+      data: { payrollId: payroll.id },
+    });
+
+    const claims = await client.expenseClaim.findMany({
+      where: { payrollId: payroll.id },
+      select: { amount: true, category: { select: { name: true } } },
+      orderBy: { expenseDate: "asc" },
+    });
+    const reimbursements = sumMoney(claims.map((claim) => claim.amount));
+
+    const byCategory = new Map<string, Money>();
+    for (const claim of claims) {
+      byCategory.set(
+        claim.category.name,
+        (byCategory.get(claim.category.name) ?? ZERO).plus(claim.amount)
+      );
+    }
+
+    await client.payrollLineItem.deleteMany({
+      where: { payrollId: payroll.id, code: REIMBURSEMENT_CODE },
+    });
+    const firstSortOrder = await client.payrollLineItem.count({
+      where: { payrollId: payroll.id },
+    });
+    await client.payrollLineItem.createMany({
+      data: [...byCategory].map(([category, amount], index) => ({
+        payrollId: payroll.id,
+        code: REIMBURSEMENT_CODE,
+        name: `${category} Reimbursement`,
+        type: SalaryComponentType.EARNING,
+        amount,
+        sortOrder: firstSortOrder + index,
+      })),
+    });
+
+    return client.payroll.update({
+      where: { id: payroll.id },
+      data: {
+        reimbursements,
+        netSalary: calculateNetSalary({ ...payroll, reimbursements }),
+      },
+    });
+  }
+}
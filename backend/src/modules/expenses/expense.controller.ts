@@ -0,0 +1,177 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  UseFilters,
+  UseInterceptors,
+  UploadedFiles,
+  StreamableFile,
+} from "@nestjs/common";
+import { FilesInterceptor } from "@nestjs/platform-express";
+import { ExpenseClaimService, UploadedReceipt } from "./expense-claim.service";
+import { ExpenseCategoryService } from "./expense-category.service";
+import {
+  ApproveExpenseClaimDto,
+  CancelExpenseClaimDto,
+  ExpenseLimitsQueryDto,
+  RejectExpenseClaimDto,
+  SubmitExpenseClaimDto,
+  UpsertExpenseCategoryDto,
+} from "./dto/expense.dto";
+import { JwtGuard } from "@common/guards/jwt.guard";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
+import { User, RequestUser } from "@common/decorators/user.decorator";
+import { ExpenseClaimStatus } from "@common/enums/expense.enum";
+import { Permission } from "@common/enums/permission.enum";
+import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
+import { MoneyInterceptor } from "@common/interceptors/money.interceptor";
+import { expenseConfig } from "@config/expense.config";
+
+@Controller("expenses")
+@UseFilters(AllExceptionsFilter)
+@UseInterceptors(MoneyInterceptor)
+export class ExpenseController {
+  constructor(
+    private expenseClaimService: ExpenseClaimService,
+    private expenseCategoryService: ExpenseCategoryService
+  ) {}
+
+  @Get("categories")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.EXPENSE_SELF)
+  async getCategories() {
+    return this.expenseCategoryService.getCategories();
+  }
+
+  @Get("categories/all")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async getAllCategories() {
+    return this.expenseCategoryService.getCategories(true);
+  }
+
+  @Put("categories/:code")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async upsertCategory(
+    @Param("code") code: string,
+    @User() user: RequestUser,
+    @Body() upsertDto: UpsertExpenseCategoryDto
+  ) {
+    return this.expenseCategoryService.upsertCategory(
+      code,
+      upsertDto,
+      user.userId
+    );
+  }
+
+  // Multipart form with the claim fields and up to the configured number of
+  // files in "receipts"
+  @Post("me")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.EXPENSE_SELF)
+  @UseInterceptors(
+    FilesInterceptor("receipts", expenseConfig.maxReceiptsPerClaim, {
+      limits: { fileSize: expenseConfig.receiptMaxBytes },
+    })
+  )
+  async submitClaim(
+    @User() user: RequestUser,
+    @Body() submitDto: SubmitExpenseClaimDto,
+    @UploadedFiles() files: UploadedReceipt[] = []
+  ) {
+    return this.expenseClaimService.submitClaim(user.userId, submitDto, files);
+  }
+
+  @Get("me")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.EXPENSE_SELF)
+  async getMyClaims(@User() user: RequestUser) {
+    return this.expenseClaimService.getMyClaims(user.userId);
+  }
+
+  @Get("me/limits")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.EXPENSE_SELF)
+  async getMyLimits(
+    @User() user: RequestUser,
+    @Query() query: ExpenseLimitsQueryDto
+  ) {
+    return this.expenseClaimService.getMyLimits(user.userId, query.month);
+  }
+
+  @Put("me/:id/cancel")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.EXPENSE_SELF)
+  async cancelClaim(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() cancelDto: CancelExpenseClaimDto
+  ) {
+    return this.expenseClaimService.cancelClaim(id, user.userId, cancelDto);
+  }
+
+  @Get("pending")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions()
+  async getPendingClaims(@User() user: RequestUser) {
+    return this.expenseClaimService.getPendingClaims(user);
+  }
+
+  @Get()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getClaims(@Query("status") status?: ExpenseClaimStatus) {
+    return this.expenseClaimService.getClaims(status);
+  }
+
+  // Access is checked against the claim and its approvers
+  @Get(":id/receipts/:receiptId")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions()
+  async getReceipt(
+    @Param("id") id: string,
+    @Param("receiptId") receiptId: string,
+    @User() user: RequestUser
+  ) {
+    const receipt = await this.expenseClaimService.getReceipt(
+      id,
+      receiptId,
+      user
+    );
+
+    return new StreamableFile(receipt.content, {
+      type: receipt.mimeType,
+      disposition: `inline; filename="${receipt.fileName.replace(/"/g, "")}"`,
+    });
+  }
+
+  // Approver eligibility is checked against the claim's approval chain
+  @Put(":id/approve")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions()
+  async approveClaim(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() approveDto: ApproveExpenseClaimDto
+  ) {
+    return this.expenseClaimService.approveClaim(id, user, approveDto);
+  }
+
+  @Put(":id/reject")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions()
+  async rejectClaim(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() rejectDto: RejectExpenseClaimDto
+  ) {
+    return this.expenseClaimService.rejectClaim(id, user, rejectDto);
+  }
+}
@@ -0,0 +1,21 @@
+import { Module, forwardRef } from "@nestjs/common";
+import { ExpenseClaimService } from "./expense-claim.service";
+import { ExpenseCategoryService } from "./expense-category.service";
+import { ExpenseController } from "./expense.controller";
+import { LeaveModule } from "@modules/leave/leave.module";
+import { getPrismaClient } from "@config/database.config";
+
+@Module({
+  imports: [forwardRef(() => LeaveModule)],
+  providers: [
+    ExpenseClaimService,
+    ExpenseCategoryService,
+    {
+      provide: "PrismaClient",
+      useValue: getPrismaClient(),
+    },
+  ],
+  controllers: [ExpenseController],
+  exports: [ExpenseClaimService],
+})
+export class ExpensesModule {}
@@ -0,0 +1,55 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Body,
+  Param,
+  UseGuards,
+  UseFilters,
+} from "@nestjs/common";
+import { ApprovalChainService } from "./approval-chain.service";
+import {
+  CreateApprovalChainDto,
+  UpdateApprovalChainDto,
+} from "./dto/approval-chain.dto";
+import { JwtGuard } from "@common/guards/jwt.guard";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
+import { User, RequestUser } from "@common/decorators/user.decorator";
+import { Permission } from "@common/enums/permission.enum";
+import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
+
+@Controller("approval-chains")
+@UseFilters(AllExceptionsFilter)
+export class ApprovalChainController {
+  constructor(private approvalChainService: ApprovalChainService) {}
+
+  @Get()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LEAVE_MANAGE)
+  async getChains() {
+    return this.approvalChainService.getChains();
+  }
+
+  @Post()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LEAVE_MANAGE)
+  async createChain(
+    @User() user: RequestUser,
+    @Body() createDto: CreateApprovalChainDto
+  ) {
+    return this.approvalChainService.createChain(createDto, user.userId);
+  }
+
+  @Put(":id")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LEAVE_MANAGE)
+  async updateChain(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() updateDto: UpdateApprovalChainDto
+  ) {
+    return this.approvalChainService.updateChain(id, updateDto, user.userId);
+  }
+}
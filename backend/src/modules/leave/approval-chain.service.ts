@@ -0,0 +1,416 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Inject,
+  ConflictException,
+} from "@nestjs/common";
+import {
+  PrismaClient,
+  Prisma,
+  ApprovalChain,
+  ApprovalChainStep,
+  Employee,
+  Leave,
+  LeaveApproval,
+} from "@prisma/client";
+import {
+  CreateApprovalChainDto,
+  UpdateApprovalChainDto,
+  ApprovalChainStepDto,
+} from "./dto/approval-chain.dto";
+import { ApprovalMode, ApproverType } from "@common/enums/approval.enum";
+import { Permission } from "@common/enums/permission.enum";
+
+// A leave or expense claim with what is needed to work out its approvers
+export interface ApprovableRequest {
+  employeeId: string;
+  currentStep: number;
+  employee: Pick<Employee, "managerId">;
+  approvalChain: (ApprovalChain & { steps: ApprovalChainStep[] }) | null;
+  approvals: { approvedBy: string }[];
+}
+
+export type LeaveWithApprovalChain = Leave &
+  ApprovableRequest & { approvals: LeaveApproval[] };
+
+// Roles and permissions come from the approver's access token
+export type Approver = Employee & { roles: string[]; permissions: string[] };
+
+export interface ApprovalDecision {
+  // null when the request has no chain and is approved directly
+  step: ApprovalChainStep | null;
+  isFinal: boolean;
+}
+
+@Injectable()
+export class ApprovalChainService {
+  constructor(@Inject("PrismaClient") private prisma: PrismaClient) {}
+
+  async resolveChain(employee: Employee): Promise<ApprovalChain | null> {
+    const chains = await this.prisma.approvalChain.findMany({
+      where: {
+        isActive: true,
+        OR: [{ department: null }, { department: employee.department }],
+      },
+    });
+
+    return (
+      chains.find(
+        (chain) =>
+          employee.department && chain.department === employee.department
+      ) ??
+      chains.find((chain) => chain.department === null) ??
+      null
+    );
+  }
+
+  // Employees a step names other than the requester. An empty list means the
+  // step falls back to holders of the fallback permission, as for a
+  // reporting manager step on an employee without a manager
+  private async getStepApproverIds(
+    step: ApprovalChainStep,
+    request: ApprovableRequest
+  ): Promise<string[]> {
+    let approverIds: string[] = [];
+
+    switch (step.approverType) {
+      case ApproverType.EMPLOYEE:
+        approverIds = step.approverEmployeeId ? [step.approverEmployeeId] : [];
+        break;
+      case ApproverType.ROLE:
+        if (step.approverRole) {
+          const role = step.approverRole;
+          const employees = await this.prisma.employee.findMany({
+            where: {
+              user: {
+                isActive: true,
+                OR: [{ role }, { extraRoles: { some: { role } } }],
+              },
+            },
+            select: { id: true },
+          });
+          approverIds = employees.map((employee) => employee.id);
+        }
+        break;
+      case ApproverType.REPORTING_MANAGER:
+        approverIds = request.employee.managerId
+          ? [request.employee.managerId]
+          : [];
+        break;
+    }
+
+    return approverIds.filter((id) => id !== request.employeeId);
+  }
+
+  // A step is already complete when everyone it names has approved an
+  // earlier step, so the same person is never asked twice
+  private isStepComplete(approverIds: string[], approvedBy: string[]) {
+    return (
+      approverIds.length > 0 &&
+      approverIds.every((id) => approvedBy.includes(id))
+    );
+  }
+
+  private canApproveStep(
+    approverIds: string[],
+    approvedBy: string[],
+    approver: Approver,
+    fallbackPermission: Permission
+  ): boolean {
+    if (approverIds.length === 0) {
+      return approver.permissions.includes(fallbackPermission);
+    }
+
+    return (
+      approverIds.includes(approver.id) && !approvedBy.includes(approver.id)
+    );
+  }
+
+  // Returns null when the request is not waiting on this approver. Without a
+  // chain, a holder of the fallback permission or the employee's own manager
+  // decides
+  async resolveApproval(
+    request: ApprovableRequest,
+    approver: Approver,
+    fallbackPermission: Permission = Permission.LEAVE_APPROVE
+  ): Promise<ApprovalDecision | null> {
+    const chain = request.approvalChain;
+
+    if (approver.id === request.employeeId) {
+      return null;
+    }
+
+    if (!chain || chain.steps.length === 0) {
+      return approver.permissions.includes(fallbackPermission) ||
+        request.employee.managerId === approver.id
+        ? { step: null, isFinal: true }
+        : null;
+    }
+
+    const approvedBy = request.approvals.map((approval) => approval.approvedBy);
+
+    if (chain.mode === ApprovalMode.ANY_OF) {
+      for (const step of chain.steps) {
+        const approverIds = await this.getStepApproverIds(step, request);
+
+        if (
+          this.canApproveStep(
+            approverIds,
+            approvedBy,
+            approver,
+            fallbackPermission
+          )
+        ) {
+          return { step, isFinal: true };
+        }
+      }
+
+      return null;
+    }
+
+    const remainingSteps = chain.steps
+      .filter((step) => step.stepOrder >= request.currentStep)
+      .sort((a, b) => a.stepOrder - b.stepOrder);
+
+    for (const [index, step] of remainingSteps.entries()) {
+      const approverIds = await this.getStepApproverIds(step, request);
+
+      if (this.isStepComplete(approverIds, approvedBy)) {
+        continue;
+      }
+
+      if (
+        !this.canApproveStep(
+          approverIds,
+          approvedBy,
+          approver,
+          fallbackPermission
+        )
+      ) {
+        return null;
+      }
+
+      // This approval is final when it completes every later step as well
+      const approvedByAfter = [...approvedBy, approver.id];
+      for (const laterStep of remainingSteps.slice(index + 1)) {
+        const laterApproverIds = await this.getStepApproverIds(
+          laterStep,
+          request
+        );
+
+        if (!this.isStepComplete(laterApproverIds, approvedByAfter)) {
+          return { step, isFinal: false };
+        }
+      }
+
+      return { step, isFinal: true };
+    }
+
+    // Every remaining step was completed by earlier approvals, as when the
+    // chain changed after the last one; a fallback permission holder closes it
+    const lastStep = chain.steps.reduce((last, step) =>
+      step.stepOrder > last.stepOrder ? step : last
+    );
+
+    return approver.permissions.includes(fallbackPermission)
+      ? { step: lastStep, isFinal: true }
+      : null;
+  }
+
+  private async validateSteps(steps: ApprovalChainStepDto[]) {
+    const employeeIds = steps
+      .filter((step) => step.approverType === ApproverType.EMPLOYEE)
+      .map((step) => step.approverEmployeeId as string);
+
+    if (employeeIds.length === 0) {
+      return;
+    }
+
+    const duplicates = employeeIds.filter(
+      (id, index) => employeeIds.indexOf(id) !== index
+    );
+
+    if (duplicates.length > 0) {
+      throw new BadRequestException(
+        `Approver employee(s) named in more than one step: ${[
+          ...new Set(duplicates),
+        ].join(", ")}`
+      );
+    }
+
+    const employees = await this.prisma.employee.findMany({
+      where: { id: { in: employeeIds } },
+      select: { id: true },
+    });
+
+    const missing = employeeIds.filter(
+      (id) => !employees.some((employee) => employee.id === id)
+    );
+
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Unknown approver employee(s): ${missing.join(", ")}`
+      );
+    }
+  }
+
+  private toStepData(
+    steps: ApprovalChainStepDto[]
+  ): Prisma.ApprovalChainStepCreateWithoutChainInput[] {
+    return steps.map((step, index) => ({
+      stepOrder: index + 1,
+      approverType: step.approverType,
+      approverRole:
+        step.approverType === ApproverType.ROLE ? step.approverRole : null,
+      approverEmployee:
+        step.approverType === ApproverType.EMPLOYEE
+          ? { connect: { id: step.approverEmployeeId } }
+          : undefined,
+    }));
+  }
+
+  // Pending requests already past the last step would wait on a step that no
+  // longer exists
+  private async assertNoRequestsPastStep(chainId: string, lastStep: number) {
+    const where = {
+      approvalChainId: chainId,
+      status: "PENDING" as const,
+      currentStep: { gt: lastStep },
+    };
+
+    const [leaves, expenseClaims, regularizations] = await Promise.all([
+      this.prisma.leave.count({ where }),
+      this.prisma.expenseClaim.count({ where }),
+      this.prisma.attendanceRegularization.count({ where }),
+    ]);
+    const pending = leaves + expenseClaims + regularizations;
+
+    if (pending > 0) {
+      throw new ConflictException(
+        `${pending} pending request(s) are past step ${lastStep}; decide them before removing steps`
+      );
+    }
+  }
+
+  async getChains() {
+    return this.prisma.approvalChain.findMany({
+      include: { steps: { orderBy: { stepOrder: "asc" } } },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async createChain(createDto: CreateApprovalChainDto, adminId: string) {
+    const department = createDto.department ?? null;
+
+    const existingChain = await this.prisma.approvalChain.findFirst({
+      where: { department, isActive: true },
+    });
+
+    if (existingChain) {
+      throw new ConflictException(
+        `An active approval chain already exists for ${
+          department ?? "the company default"
+        }`
+      );
+    }
+
+    await this.validateSteps(createDto.steps);
+
+    return this.prisma.$transaction(async (tx) => {
+      const chain = await tx.approvalChain.create({
+        data: {
+          name: createDto.name,
+          department,
+          mode: createDto.mode,
+          steps: { create: this.toStepData(createDto.steps) },
+        },
+        include: { steps: { orderBy: { stepOrder: "asc" } } },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "CREATE",
+          userId: adminId,
+          entityType: "ApprovalChain",
+          entityId: chain.id,
+          reason: "Approval chain created",
+          changes: JSON.stringify(createDto),
+        },
+      });
+
+      return chain;
+    });
+  }
+
+  async updateChain(
+    chainId: string,
+    updateDto: UpdateApprovalChainDto,
+    adminId: string
+  ) {
+    const chain = await this.prisma.approvalChain.findUnique({
+      where: { id: chainId },
+      include: { steps: { orderBy: { stepOrder: "asc" } } },
+    });
+
+    if (!chain) {
+      throw new NotFoundException("Approval chain not found");
+    }
+
+    const { steps, ...chainFields } = updateDto;
+
+    if (chainFields.isActive && !chain.isActive) {
+      const activeChain = await this.prisma.approvalChain.findFirst({
+        where: {
+          department: chain.department,
+          isActive: true,
+          id: { not: chainId },
+        },
+      });
+
+      if (activeChain) {
+        throw new ConflictException(
+          `An active approval chain already exists for ${
+            chain.department ?? "the company default"
+          }`
+        );
+      }
+    }
+
+    if (steps) {
+      await this.validateSteps(steps);
+      await this.assertNoRequestsPastStep(chainId, steps.length);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      if (steps) {
+        await tx.approvalChainStep.deleteMany({ where: { chainId } });
+      }
+
+      const updatedChain = await tx.approvalChain.update({
+        where: { id: chainId },
+        data: {
+          ...chainFields,
+          ...(steps && { steps: { create: this.toStepData(steps) } }),
+        },
+        include: { steps: { orderBy: { stepOrder: "asc" } } },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "UPDATE",
+          userId: adminId,
+          entityType: "ApprovalChain",
+          entityId: chainId,
+          reason: "Approval chain updated",
+          changes: JSON.stringify({
+            previous: chain,
+            updated: updateDto,
+          }),
+        },
+      });
+
+      return updatedChain;
+    });
+  }
+}
@@ -0,0 +1,72 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsBoolean,
+  IsArray,
+  ArrayMinSize,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { Role } from "@common/enums/role.enum";
+import { ApprovalMode, ApproverType } from "@common/enums/approval.enum";
+
+export class ApprovalChainStepDto {
+  @IsEnum(ApproverType)
+  approverType!: ApproverType;
+
+  @ValidateIf(
+    (step: ApprovalChainStepDto) => step.approverType === ApproverType.ROLE
+  )
+  @IsEnum(Role)
+  approverRole?: Role;
+
+  @ValidateIf(
+    (step: ApprovalChainStepDto) => step.approverType === ApproverType.EMPLOYEE
+  )
+  @IsString()
+  approverEmployeeId?: string;
+}
+
+export class CreateApprovalChainDto {
+  @IsString()
+  name!: string;
+
+  // Omit for the company-wide default
+  @IsOptional()
+  @IsString()
+  department?: string;
+
+  @IsOptional()
+  @IsEnum(ApprovalMode)
+  mode?: ApprovalMode;
+
+  // Steps are taken in array order
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ApprovalChainStepDto)
+  steps!: ApprovalChainStepDto[];
+}
+
+export class UpdateApprovalChainDto {
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @IsOptional()
+  @IsEnum(ApprovalMode)
+  mode?: ApprovalMode;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ApprovalChainStepDto)
+  steps?: ApprovalChainStepDto[];
+}
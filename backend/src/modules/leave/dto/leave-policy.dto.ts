@@ -0,0 +1,119 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  IsInt,
+  IsBoolean,
+  IsDateString,
+  Min,
+} from "class-validator";
+import { LeaveType } from "@common/enums/leave-status.enum";
+import { AccrualFrequency } from "@common/enums/leave-policy.enum";
+
+export class CreateLeavePolicyDto {
+  @IsString()
+  name!: string;
+
+  @IsEnum(LeaveType)
+  leaveType!: LeaveType;
+
+  // Omit for the company-wide default
+  @IsOptional()
+  @IsString()
+  department?: string;
+
+  @IsOptional()
+  @IsEnum(AccrualFrequency)
+  accrualFrequency?: AccrualFrequency;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  accrualDays?: number;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  maxBalance?: number;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  carryForwardLimit?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minNoticeDays?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxConsecutiveDays?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  probationDays?: number; // Days after joiningDate before leave can be taken
+}
+
+export class UpdateLeavePolicyDto {
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @IsOptional()
+  @IsEnum(AccrualFrequency)
+  accrualFrequency?: AccrualFrequency;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  accrualDays?: number;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  maxBalance?: number;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  carryForwardLimit?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minNoticeDays?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxConsecutiveDays?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  probationDays?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class RunAccrualDto {
+  @IsEnum(AccrualFrequency)
+  frequency!: AccrualFrequency;
+
+  // Any date inside the period to accrue; defaults to today
+  @IsOptional()
+  @IsDateString()
+  period?: string;
+}
+
+export class RunYearEndDto {
+  @IsInt()
+  @Min(2000)
+  year!: number;
+}
@@ -1,5 +1,18 @@
-import { IsString, IsDateString, IsOptional, IsEnum } from "class-validator";
-import { LeaveType } from "@common/enums/leave-status.enum";
+import {
+  IsString,
+  IsDateString,
+  IsOptional,
+  IsEnum,
+  IsIn,
+  IsNumber,
+  Min,
+  ValidateIf,
+} from "class-validator";
+import {
+  LeaveDuration,
+  LeaveLedgerEntryType,
+  LeaveType,
+} from "@common/enums/leave-status.enum";
 
 export class ApplyLeaveDto {
   @IsEnum(LeaveType)
@@ -11,6 +24,16 @@ export class ApplyLeaveDto {
   @IsDateString()
   endDate!: string; // ISO date format
 
+  // Partial-day leave must start and end on the same date
+  @IsOptional()
+  @IsEnum(LeaveDuration)
+  duration?: LeaveDuration;
+
+  @ValidateIf((dto: ApplyLeaveDto) => dto.duration === LeaveDuration.HOURS)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.25)
+  hours?: number;
+
   @IsOptional()
   @IsString()
   reason?: string;
@@ -26,3 +49,42 @@ export class RejectLeaveDto {
   @IsString()
   reason!: string;
 }
+
+export class CancelLeaveDto {
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class RevokeLeaveDto {
+  @IsString()
+  reason!: string;
+
+  // Cancel only the days from this date onwards (ongoing leave)
+  @IsOptional()
+  @IsDateString()
+  fromDate?: string;
+}
+
+export class AdjustLeaveBalanceDto {
+  @IsEnum(LeaveType)
+  leaveType!: LeaveType;
+
+  // CONSUMPTION entries are only written by leave approval
+  @IsIn([
+    LeaveLedgerEntryType.ACCRUAL,
+    LeaveLedgerEntryType.ADJUSTMENT,
+    LeaveLedgerEntryType.EXPIRY,
+  ])
+  entryType!: LeaveLedgerEntryType;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  days!: number; // Signed for ADJUSTMENT, positive for ACCRUAL and EXPIRY
+
+  @IsString()
+  reason!: string;
+
+  @IsOptional()
+  @IsDateString()
+  effectiveDate?: string;
+}
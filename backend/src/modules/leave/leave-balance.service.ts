@@ -0,0 +1,365 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Inject,
+} from "@nestjs/common";
+import { PrismaClient, Prisma, Employee, Leave } from "@prisma/client";
+import { AdjustLeaveBalanceDto } from "./dto/leave.dto";
+import {
+  LeaveDuration,
+  LeaveLedgerEntryType,
+  LeaveStatus,
+  LeaveType,
+} from "@common/enums/leave-status.enum";
+import { calendarConfig } from "@config/calendar.config";
+import { CalendarService } from "@modules/calendar/calendar.service";
+
+// UNPAID leave is unlimited and never touches the ledger
+export const BALANCE_TRACKED_LEAVE_TYPES: LeaveType[] = [
+  LeaveType.PAID,
+  LeaveType.SICK,
+];
+
+export interface LeavePeriod {
+  startDate: Date;
+  endDate: Date;
+  duration: string;
+  hours?: Prisma.Decimal | number | null;
+}
+
+export interface LeaveBalanceSummary {
+  leaveType: LeaveType;
+  accrued: number;
+  consumed: number;
+  adjusted: number;
+  expired: number;
+  balance: number;
+  pending: number;
+  available: number;
+}
+
+@Injectable()
+export class LeaveBalanceService {
+  constructor(
+    @Inject("PrismaClient") private prisma: PrismaClient,
+    private calendarService: CalendarService
+  ) {}
+
+  private async findEmployeeOrThrow(where: {
+    id?: string;
+    userId?: string;
+  }): Promise<Employee> {
+    const employee = await this.prisma.employee.findFirst({ where });
+
+    if (!employee) {
+      throw new NotFoundException("Employee not found");
+    }
+
+    return employee;
+  }
+
+  isTracked(leaveType: string): boolean {
+    return BALANCE_TRACKED_LEAVE_TYPES.includes(leaveType as LeaveType);
+  }
+
+  isPartialDay(duration: string): boolean {
+    return duration !== LeaveDuration.FULL_DAY;
+  }
+
+  // Weekends and holidays are not charged; partial days are charged as
+  // half a day or as hours pro-rated against a full working day
+  async countLeaveDays(period: LeavePeriod): Promise<number> {
+    const workingDays = await this.calendarService.countWorkingDays(
+      period.startDate,
+      period.endDate
+    );
+
+    switch (period.duration) {
+      case LeaveDuration.FIRST_HALF:
+      case LeaveDuration.SECOND_HALF:
+        return workingDays * 0.5;
+      case LeaveDuration.HOURS:
+        return (
+          Math.round(
+            ((workingDays * Number(period.hours ?? 0)) /
+              calendarConfig.workingHoursPerDay) *
+              100
+          ) / 100
+        );
+      default:
+        return workingDays;
+    }
+  }
+
+  private async getPendingDays(
+    employeeId: string,
+    leaveType: LeaveType,
+    db: Prisma.TransactionClient,
+    excludeLeaveId?: string
+  ): Promise<number> {
+    const pendingLeaves = await db.leave.findMany({
+      where: {
+        employeeId,
+        leaveType,
+        status: LeaveStatus.PENDING,
+        ...(excludeLeaveId && { id: { not: excludeLeaveId } }),
+      },
+    });
+
+    let pendingDays = 0;
+    for (const leave of pendingLeaves) {
+      pendingDays += await this.countLeaveDays(leave);
+    }
+
+    return pendingDays;
+  }
+
+  // Sum of the ledger, or only of entries effective by asOf when given
+  async getLedgerBalance(
+    employeeId: string,
+    leaveType: LeaveType,
+    db: Prisma.TransactionClient = this.prisma,
+    asOf?: Date
+  ): Promise<number> {
+    const result = await db.leaveBalanceEntry.aggregate({
+      where: {
+        employeeId,
+        leaveType,
+        ...(asOf && { effectiveDate: { lte: asOf } }),
+      },
+      _sum: { days: true },
+    });
+
+    return Number(result._sum.days ?? 0);
+  }
+
+  async getBalances(
+    employeeId: string,
+    db: Prisma.TransactionClient = this.prisma
+  ): Promise<LeaveBalanceSummary[]> {
+    const totals = await db.leaveBalanceEntry.groupBy({
+      by: ["leaveType", "entryType"],
+      where: { employeeId },
+      _sum: { days: true },
+    });
+
+    return Promise.all(
+      BALANCE_TRACKED_LEAVE_TYPES.map(async (leaveType) => {
+        const sumOf = (entryType: LeaveLedgerEntryType) =>
+          Number(
+            totals.find(
+              (row) =>
+                row.leaveType === leaveType && row.entryType === entryType
+            )?._sum.days ?? 0
+          );
+
+        const accrued = sumOf(LeaveLedgerEntryType.ACCRUAL);
+        const consumed = -sumOf(LeaveLedgerEntryType.CONSUMPTION);
+        const adjusted = sumOf(LeaveLedgerEntryType.ADJUSTMENT);
+        const expired = -sumOf(LeaveLedgerEntryType.EXPIRY);
+        const balance = accrued - consumed + adjusted - expired;
+        const pending = await this.getPendingDays(employeeId, leaveType, db);
+
+        return {
+          leaveType,
+          accrued,
+          consumed,
+          adjusted,
+          expired,
+          balance,
+          pending,
+          available: balance - pending,
+        };
+      })
+    );
+  }
+
+  async getMyBalances(userId: string) {
+    const employee = await this.findEmployeeOrThrow({ userId });
+    return this.getBalances(employee.id);
+  }
+
+  async getEmployeeBalances(employeeId: string) {
+    await this.findEmployeeOrThrow({ id: employeeId });
+    return this.getBalances(employeeId);
+  }
+
+  async getAvailableDays(
+    employeeId: string,
+    leaveType: LeaveType,
+    db: Prisma.TransactionClient = this.prisma,
+    excludeLeaveId?: string
+  ): Promise<number> {
+    const balance = await this.getLedgerBalance(employeeId, leaveType, db);
+    const pending = await this.getPendingDays(
+      employeeId,
+      leaveType,
+      db,
+      excludeLeaveId
+    );
+
+    return balance - pending;
+  }
+
+  async assertSufficientBalance(
+    employeeId: string,
+    leaveType: LeaveType,
+    days: number,
+    db: Prisma.TransactionClient = this.prisma,
+    excludeLeaveId?: string
+  ) {
+    if (!this.isTracked(leaveType)) {
+      return;
+    }
+
+    const available = await this.getAvailableDays(
+      employeeId,
+      leaveType,
+      db,
+      excludeLeaveId
+    );
+
+    if (days > available) {
+      throw new BadRequestException(
+        `Insufficient ${leaveType} leave balance: requested ${days} day(s), available ${available}`
+      );
+    }
+  }
+
+  async recordConsumption(
+    tx: Prisma.TransactionClient,
+    leave: Leave,
+    days: number,
+    userId: string
+  ) {
+    if (!this.isTracked(leave.leaveType)) {
+      return null;
+    }
+
+    return tx.leaveBalanceEntry.create({
+      data: {
+        employeeId: leave.employeeId,
+        leaveType: leave.leaveType,
+        entryType: LeaveLedgerEntryType.CONSUMPTION,
+        days: -days,
+        leaveId: leave.id,
+        reason: "Leave approved",
+        createdBy: userId,
+        effectiveDate: leave.startDate,
+      },
+    });
+  }
+
+  // Credits back what a leave has drawn from the ledger, or only `days` of it
+  // when part of the leave is cancelled; returns the days credited
+  async creditBack(
+    tx: Prisma.TransactionClient,
+    leave: Leave,
+    userId: string,
+    reason: string,
+    days?: number
+  ): Promise<number> {
+    const result = await tx.leaveBalanceEntry.aggregate({
+      where: { leaveId: leave.id },
+      _sum: { days: true },
+    });
+    const drawnDays = -Number(result._sum.days ?? 0);
+    const creditDays = Math.min(days ?? drawnDays, drawnDays);
+
+    if (creditDays <= 0) {
+      return 0;
+    }
+
+    await tx.leaveBalanceEntry.create({
+      data: {
+        employeeId: leave.employeeId,
+        leaveType: leave.leaveType,
+        entryType: LeaveLedgerEntryType.ADJUSTMENT,
+        days: creditDays,
+        leaveId: leave.id,
+        reason,
+        createdBy: userId,
+        effectiveDate: new Date(),
+      },
+    });
+
+    return creditDays;
+  }
+
+  async adjustBalance(
+    employeeId: string,
+    adjustDto: AdjustLeaveBalanceDto,
+    adminId: string
+  ) {
+    await this.findEmployeeOrThrow({ id: employeeId });
+    const { leaveType, entryType, days, reason, effectiveDate } = adjustDto;
+
+    if (!this.isTracked(leaveType)) {
+      throw new BadRequestException(
+        `${leaveType} leave does not have a balance`
+      );
+    }
+
+    if (days === 0) {
+      throw new BadRequestException(
+        "Adjustment must be a non-zero number of days"
+      );
+    }
+
+    if (entryType !== LeaveLedgerEntryType.ADJUSTMENT && days < 0) {
+      throw new BadRequestException(
+        `${entryType} entries take a positive number of days`
+      );
+    }
+
+    const signedDays = entryType === LeaveLedgerEntryType.EXPIRY ? -days : days;
+
+    return this.prisma.$transaction(async (tx) => {
+      const previousBalance = await this.getLedgerBalance(
+        employeeId,
+        leaveType,
+        tx
+      );
+      const newBalance = previousBalance + signedDays;
+
+      if (newBalance < 0) {
+        throw new BadRequestException(
+          `Adjustment would leave a negative ${leaveType} balance (${newBalance})`
+        );
+      }
+
+      const entry = await tx.leaveBalanceEntry.create({
+        data: {
+          employeeId,
+          leaveType,
+          entryType,
+          days: signedDays,
+          reason,
+          createdBy: adminId,
+          effectiveDate: effectiveDate ? new Date(effectiveDate) : new Date(),
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "UPDATE",
+          userId: adminId,
+          entityType: "LeaveBalance",
+          entityId: entry.id,
+          reason,
+          changes: JSON.stringify({
+            employeeId,
+            leaveType,
+            entryType,
+            days: signedDays,
+            previousBalance,
+            newBalance,
+          }),
+        },
+      });
+
+      return entry;
+    });
+  }
+}
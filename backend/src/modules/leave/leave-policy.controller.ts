@@ -0,0 +1,72 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseFilters,
+} from "@nestjs/common";
+import { LeavePolicyService } from "./leave-policy.service";
+import {
+  CreateLeavePolicyDto,
+  UpdateLeavePolicyDto,
+  RunAccrualDto,
+  RunYearEndDto,
+} from "./dto/leave-policy.dto";
+import { JwtGuard } from "@common/guards/jwt.guard";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
+import { User, RequestUser } from "@common/decorators/user.decorator";
+import { Permission } from "@common/enums/permission.enum";
+import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
+
+@Controller("leave-policies")
+@UseFilters(AllExceptionsFilter)
+export class LeavePolicyController {
+  constructor(private leavePolicyService: LeavePolicyService) {}
+
+  @Get()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LEAVE_MANAGE)
+  async getPolicies(@Query("department") department?: string) {
+    return this.leavePolicyService.getPolicies(department);
+  }
+
+  @Post()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LEAVE_MANAGE)
+  async createPolicy(
+    @User() user: RequestUser,
+    @Body() createDto: CreateLeavePolicyDto
+  ) {
+    return this.leavePolicyService.createPolicy(createDto, user.userId);
+  }
+
+  @Post("accrue")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LEAVE_MANAGE)
+  async runAccrual(@User() user: RequestUser, @Body() runDto: RunAccrualDto) {
+    return this.leavePolicyService.runAccrual(runDto, user.userId);
+  }
+
+  @Post("year-end")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LEAVE_MANAGE)
+  async runYearEnd(@User() user: RequestUser, @Body() runDto: RunYearEndDto) {
+    return this.leavePolicyService.runYearEnd(runDto, user.userId);
+  }
+
+  @Put(":id")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LEAVE_MANAGE)
+  async updatePolicy(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() updateDto: UpdateLeavePolicyDto
+  ) {
+    return this.leavePolicyService.updatePolicy(id, updateDto, user.userId);
+  }
+}
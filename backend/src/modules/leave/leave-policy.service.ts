@@ -0,0 +1,396 @@
+import {
+  Injectable,
+  NotFoundException,
+  Inject,
+  ConflictException,
+} from "@nestjs/common";
+import { PrismaClient, Prisma, Employee, LeavePolicy } from "@prisma/client";
+import {
+  CreateLeavePolicyDto,
+  UpdateLeavePolicyDto,
+  RunAccrualDto,
+  RunYearEndDto,
+} from "./dto/leave-policy.dto";
+import {
+  LeaveLedgerEntryType,
+  LeaveType,
+} from "@common/enums/leave-status.enum";
+import {
+  AccrualFrequency,
+  LeavePolicyRule,
+} from "@common/enums/leave-policy.enum";
+import { PolicyViolation } from "@common/exceptions/policy-violation.exception";
+import { LeaveBalanceService, LeavePeriod } from "./leave-balance.service";
+
+@Injectable()
+export class LeavePolicyService {
+  constructor(
+    @Inject("PrismaClient") private prisma: PrismaClient,
+    private leaveBalanceService: LeaveBalanceService
+  ) {}
+
+  private getStartOfToday(): Date {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return today;
+  }
+
+  // Department-specific policy wins over the company-wide default
+  private pickPolicy(
+    policies: LeavePolicy[],
+    employee: Employee,
+    leaveType: LeaveType
+  ): LeavePolicy | undefined {
+    const candidates = policies.filter(
+      (policy) => policy.leaveType === leaveType && policy.isActive
+    );
+
+    return (
+      candidates.find(
+        (policy) =>
+          employee.department && policy.department === employee.department
+      ) ?? candidates.find((policy) => policy.department === null)
+    );
+  }
+
+  private getEligibleFrom(employee: Employee, policy: LeavePolicy): Date {
+    const eligibleFrom = new Date(employee.joiningDate);
+    eligibleFrom.setHours(0, 0, 0, 0);
+    eligibleFrom.setDate(eligibleFrom.getDate() + policy.probationDays);
+    return eligibleFrom;
+  }
+
+  async resolvePolicy(employee: Employee, leaveType: LeaveType) {
+    const policies = await this.prisma.leavePolicy.findMany({
+      where: {
+        leaveType,
+        isActive: true,
+        OR: [{ department: null }, { department: employee.department }],
+      },
+    });
+
+    return this.pickPolicy(policies, employee, leaveType) ?? null;
+  }
+
+  async evaluateLeaveRequest(
+    employee: Employee,
+    leaveType: LeaveType,
+    period: LeavePeriod,
+    db: Prisma.TransactionClient = this.prisma
+  ): Promise<PolicyViolation[]> {
+    const violations: PolicyViolation[] = [];
+    const { startDate } = period;
+    const policy = await this.resolvePolicy(employee, leaveType);
+    const days = await this.leaveBalanceService.countLeaveDays(period);
+
+    if (policy) {
+      const eligibleFrom = this.getEligibleFrom(employee, policy);
+      if (startDate < eligibleFrom) {
+        violations.push({
+          rule: LeavePolicyRule.PROBATION,
+          message: `${leaveType} leave can only be taken from ${
+            eligibleFrom.toISOString().split("T")[0]
+          }`,
+        });
+      }
+
+      const msPerDay = 24 * 60 * 60 * 1000;
+      const noticeDays = Math.round(
+        (startDate.getTime() - this.getStartOfToday().getTime()) / msPerDay
+      );
+      if (noticeDays < policy.minNoticeDays) {
+        violations.push({
+          rule: LeavePolicyRule.MIN_NOTICE,
+          message: `${leaveType} leave requires at least ${policy.minNoticeDays} day(s) notice`,
+        });
+      }
+
+      if (
+        policy.maxConsecutiveDays !== null &&
+        days > policy.maxConsecutiveDays
+      ) {
+        violations.push({
+          rule: LeavePolicyRule.MAX_CONSECUTIVE_DAYS,
+          message: `${leaveType} leave cannot exceed ${policy.maxConsecutiveDays} consecutive working day(s)`,
+        });
+      }
+    }
+
+    if (this.leaveBalanceService.isTracked(leaveType)) {
+      const available = await this.leaveBalanceService.getAvailableDays(
+        employee.id,
+        leaveType,
+        db
+      );
+      if (days > available) {
+        violations.push({
+          rule: LeavePolicyRule.INSUFFICIENT_BALANCE,
+          message: `Insufficient ${leaveType} leave balance: requested ${days} day(s), available ${available}`,
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  async getPolicies(department?: string) {
+    return this.prisma.leavePolicy.findMany({
+      where: department
+        ? { OR: [{ department }, { department: null }] }
+        : undefined,
+      orderBy: [{ leaveType: "asc" }, { department: "asc" }],
+    });
+  }
+
+  async createPolicy(createDto: CreateLeavePolicyDto, adminId: string) {
+    const department = createDto.department ?? null;
+
+    // The unique index does not cover NULL departments, so check explicitly
+    const existingPolicy = await this.prisma.leavePolicy.findFirst({
+      where: { leaveType: createDto.leaveType, department },
+    });
+
+    if (existingPolicy) {
+      throw new ConflictException(
+        `A ${createDto.leaveType} policy already exists for ${
+          department ?? "the company default"
+        }`
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const policy = await tx.leavePolicy.create({
+        data: { ...createDto, department },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "CREATE",
+          userId: adminId,
+          entityType: "LeavePolicy",
+          entityId: policy.id,
+          reason: "Leave policy created",
+          changes: JSON.stringify(createDto),
+        },
+      });
+
+      return policy;
+    });
+  }
+
+  async updatePolicy(
+    policyId: string,
+    updateDto: UpdateLeavePolicyDto,
+    adminId: string
+  ) {
+    const policy = await this.prisma.leavePolicy.findUnique({
+      where: { id: policyId },
+    });
+
+    if (!policy) {
+      throw new NotFoundException("Leave policy not found");
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updatedPolicy = await tx.leavePolicy.update({
+        where: { id: policyId },
+        data: updateDto,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "UPDATE",
+          userId: adminId,
+          entityType: "LeavePolicy",
+          entityId: policyId,
+          reason: "Leave policy updated",
+          changes: JSON.stringify({
+            previous: policy,
+            updated: updateDto,
+          }),
+        },
+      });
+
+      return updatedPolicy;
+    });
+  }
+
+  async runAccrual(runDto: RunAccrualDto, adminId: string) {
+    const { frequency } = runDto;
+    const reference = runDto.period ? new Date(runDto.period) : new Date();
+    const year = reference.getFullYear();
+
+    const periodStart =
+      frequency === AccrualFrequency.MONTHLY
+        ? new Date(year, reference.getMonth(), 1)
+        : new Date(year, 0, 1);
+    const periodEnd =
+      frequency === AccrualFrequency.MONTHLY
+        ? new Date(year, reference.getMonth() + 1, 0)
+        : new Date(year, 11, 31);
+    const periodLabel =
+      frequency === AccrualFrequency.MONTHLY
+        ? `${year}-${String(reference.getMonth() + 1).padStart(2, "0")}`
+        : `${year}`;
+    const reason = `${frequency} accrual ${periodLabel}`;
+
+    const [policies, employees] = await Promise.all([
+      this.prisma.leavePolicy.findMany({ where: { isActive: true } }),
+      this.prisma.employee.findMany({
+        where: { user: { isActive: true }, joiningDate: { lte: periodEnd } },
+      }),
+    ]);
+
+    let credited = 0;
+    let skipped = 0;
+
+    for (const employee of employees) {
+      for (const leaveType of Object.values(LeaveType)) {
+        const policy = this.pickPolicy(policies, employee, leaveType);
+
+        if (
+          !policy ||
+          policy.accrualFrequency !== frequency ||
+          !this.leaveBalanceService.isTracked(leaveType) ||
+          this.getEligibleFrom(employee, policy) > periodEnd
+        ) {
+          continue;
+        }
+
+        const alreadyAccrued = await this.prisma.leaveBalanceEntry.findFirst({
+          where: {
+            employeeId: employee.id,
+            leaveType,
+            entryType: LeaveLedgerEntryType.ACCRUAL,
+            reason,
+          },
+        });
+
+        if (alreadyAccrued) {
+          skipped++;
+          continue;
+        }
+
+        let days = Number(policy.accrualDays);
+        if (policy.maxBalance !== null) {
+          const balance = await this.leaveBalanceService.getLedgerBalance(
+            employee.id,
+            leaveType
+          );
+          days = Math.min(days, Number(policy.maxBalance) - balance);
+        }
+
+        if (days <= 0) {
+          skipped++;
+          continue;
+        }
+
+        await this.prisma.leaveBalanceEntry.create({
+          data: {
+            employeeId: employee.id,
+            leaveType,
+            entryType: LeaveLedgerEntryType.ACCRUAL,
+            days,
+            reason,
+            createdBy: adminId,
+            effectiveDate: periodStart,
+          },
+        });
+        credited++;
+      }
+    }
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: "CREATE",
+        userId: adminId,
+        entityType: "LeaveAccrual",
+        entityId: periodLabel,
+        reason,
+        changes: JSON.stringify({ frequency, credited, skipped }),
+      },
+    });
+
+    return { period: periodLabel, frequency, credited, skipped };
+  }
+
+  // Lapses whatever exceeds each policy's carry-forward limit at year end
+  async runYearEnd(runDto: RunYearEndDto, adminId: string) {
+    const { year } = runDto;
+    const yearEnd = new Date(year, 11, 31);
+    const reason = `Year-end lapse ${year}`;
+
+    const [policies, employees] = await Promise.all([
+      this.prisma.leavePolicy.findMany({ where: { isActive: true } }),
+      this.prisma.employee.findMany({ where: { user: { isActive: true } } }),
+    ]);
+
+    let lapsedEntries = 0;
+
+    for (const employee of employees) {
+      for (const leaveType of Object.values(LeaveType)) {
+        const policy = this.pickPolicy(policies, employee, leaveType);
+
+        if (
+          !policy ||
+          policy.carryForwardLimit === null ||
+          !this.leaveBalanceService.isTracked(leaveType)
+        ) {
+          continue;
+        }
+
+        const alreadyLapsed = await this.prisma.leaveBalanceEntry.findFirst({
+          where: {
+            employeeId: employee.id,
+            leaveType,
+            entryType: LeaveLedgerEntryType.EXPIRY,
+            reason,
+          },
+        });
+
+        if (alreadyLapsed) {
+          continue;
+        }
+
+        // Credits and debits dated into the next year do not count
+        const balance = await this.leaveBalanceService.getLedgerBalance(
+          employee.id,
+          leaveType,
+          this.prisma,
+          yearEnd
+        );
+        const excess = balance - Number(policy.carryForwardLimit);
+
+        if (excess <= 0) {
+          continue;
+        }
+
+        await this.prisma.leaveBalanceEntry.create({
+          data: {
+            employeeId: employee.id,
+            leaveType,
+            entryType: LeaveLedgerEntryType.EXPIRY,
+            days: -excess,
+            reason,
+            createdBy: adminId,
+            effectiveDate: yearEnd,
+          },
+        });
+        lapsedEntries++;
+      }
+    }
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: "UPDATE",
+        userId: adminId,
+        entityType: "LeaveAccrual",
+        entityId: `${year}`,
+        reason,
+        changes: JSON.stringify({ lapsedEntries }),
+      },
+    });
+
+    return { year, lapsedEntries };
+  }
+}
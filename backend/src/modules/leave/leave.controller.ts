@@ -4,30 +4,40 @@ import {
   Get,
   Body,
   Param,
+  Query,
   UseGuards,
   UseFilters,
   Put,
 } from "@nestjs/common";
 import { LeaveService } from "./leave.service";
+import { LeaveBalanceService } from "./leave-balance.service";
 import {
+  AdjustLeaveBalanceDto,
   ApplyLeaveDto,
   ApproveLeaveDto,
   RejectLeaveDto,
+  CancelLeaveDto,
+  RevokeLeaveDto,
 } from "./dto/leave.dto";
 import { JwtGuard } from "@common/guards/jwt.guard";
-import { RolesGuard } from "@common/guards/roles.guard";
-import { Roles } from "@common/decorators/roles.decorator";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
 import { User, RequestUser } from "@common/decorators/user.decorator";
-import { Role } from "@common/enums/role.enum";
+import { LeaveStatus } from "@common/enums/leave-status.enum";
+import { Permission } from "@common/enums/permission.enum";
 import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
 
 @Controller("leave")
 @UseFilters(AllExceptionsFilter)
 export class LeaveController {
-  constructor(private leaveService: LeaveService) {}
+  constructor(
+    private leaveService: LeaveService,
+    private leaveBalanceService: LeaveBalanceService
+  ) {}
 
   @Post("apply")
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LEAVE_SELF)
   async applyLeave(
     @User() user: RequestUser,
     @Body() applyLeaveDto: ApplyLeaveDto
@@ -36,43 +46,107 @@ export class LeaveController {
   }
 
   @Get("my-requests")
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LEAVE_SELF)
   async getMyLeaveRequests(@User() user: RequestUser) {
     return this.leaveService.getMyLeaveRequests(user.userId);
   }
 
   @Get("pending")
-  @UseGuards(JwtGuard, RolesGuard)
-  @Roles(Role.ADMIN)
-  async getPendingLeaveRequests() {
-    return this.leaveService.getAllPendingLeaveRequests();
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions()
+  async getPendingLeaveRequests(@User() user: RequestUser) {
+    return this.leaveService.getPendingLeaveRequests(user);
+  }
+
+  @Get("team")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LEAVE_TEAM)
+  async getTeamLeaveRequests(
+    @User() user: RequestUser,
+    @Query("status") status?: LeaveStatus
+  ) {
+    return this.leaveService.getTeamLeaveRequests(user.userId, status);
+  }
+
+  @Get("balance")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LEAVE_SELF)
+  async getMyLeaveBalance(@User() user: RequestUser) {
+    return this.leaveBalanceService.getMyBalances(user.userId);
+  }
+
+  @Get("balance/:employeeId")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LEAVE_READ)
+  async getEmployeeLeaveBalance(@Param("employeeId") employeeId: string) {
+    return this.leaveBalanceService.getEmployeeBalances(employeeId);
+  }
+
+  @Post("balance/:employeeId/adjust")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LEAVE_MANAGE)
+  async adjustLeaveBalance(
+    @Param("employeeId") employeeId: string,
+    @User() user: RequestUser,
+    @Body() adjustDto: AdjustLeaveBalanceDto
+  ) {
+    return this.leaveBalanceService.adjustBalance(
+      employeeId,
+      adjustDto,
+      user.userId
+    );
   }
 
   @Get(":id")
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LEAVE_SELF)
   async getLeaveRequestById(@Param("id") id: string) {
     return this.leaveService.getLeaveRequestById(id);
   }
 
+  // Approver eligibility is checked against the leave's approval chain
   @Put(":id/approve")
-  @UseGuards(JwtGuard, RolesGuard)
-  @Roles(Role.ADMIN)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions()
   async approveLeave(
     @Param("id") id: string,
     @User() user: RequestUser,
     @Body() approveDto: ApproveLeaveDto
   ) {
-    return this.leaveService.approveLeave(id, user.userId, approveDto);
+    return this.leaveService.approveLeave(id, user, approveDto);
   }
 
   @Put(":id/reject")
-  @UseGuards(JwtGuard, RolesGuard)
-  @Roles(Role.ADMIN)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions()
   async rejectLeave(
     @Param("id") id: string,
     @User() user: RequestUser,
     @Body() rejectDto: RejectLeaveDto
   ) {
-    return this.leaveService.rejectLeave(id, user.userId, rejectDto);
+    return this.leaveService.rejectLeave(id, user, rejectDto);
+  }
+
+  @Put(":id/cancel")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LEAVE_SELF)
+  async cancelLeave(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() cancelDto: CancelLeaveDto
+  ) {
+    return this.leaveService.cancelLeave(id, user.userId, cancelDto);
+  }
+
+  @Put(":id/revoke")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LEAVE_MANAGE)
+  async revokeLeave(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() revokeDto: RevokeLeaveDto
+  ) {
+    return this.leaveService.revokeLeave(id, user.userId, revokeDto);
   }
 }
@@ -1,17 +1,39 @@
-import { Module } from "@nestjs/common";
+import { Module, forwardRef } from "@nestjs/common";
 import { LeaveService } from "./leave.service";
+import { LeaveBalanceService } from "./leave-balance.service";
+import { LeavePolicyService } from "./leave-policy.service";
+import { ApprovalChainService } from "./approval-chain.service";
 import { LeaveController } from "./leave.controller";
+import { LeavePolicyController } from "./leave-policy.controller";
+import { ApprovalChainController } from "./approval-chain.controller";
+import { CalendarModule } from "@modules/calendar/calendar.module";
+import { EmployeesModule } from "@modules/employees/employees.module";
+import { PayrollModule } from "@modules/payroll/payroll.module";
 import { getPrismaClient } from "@config/database.config";
 
 @Module({
+  // Payroll reaches back to leave through expense approval chains
+  imports: [CalendarModule, EmployeesModule, forwardRef(() => PayrollModule)],
   providers: [
     LeaveService,
+    LeaveBalanceService,
+    LeavePolicyService,
+    ApprovalChainService,
     {
       provide: "PrismaClient",
       useValue: getPrismaClient(),
     },
   ],
-  controllers: [LeaveController],
-  exports: [LeaveService],
+  controllers: [
+    LeaveController,
+    LeavePolicyController,
+    ApprovalChainController,
+  ],
+  exports: [
+    LeaveService,
+    LeaveBalanceService,
+    LeavePolicyService,
+    ApprovalChainService,
+  ],
 })
 export class LeaveModule {}
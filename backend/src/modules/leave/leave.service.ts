@@ -4,19 +4,64 @@ import {
   NotFoundException,
   Inject,
   ConflictException,
+  ForbiddenException,
 } from "@nestjs/common";
-import { PrismaClient, Employee } from "@prisma/client";
+import { PrismaClient, Prisma, Employee } from "@prisma/client";
 import {
   ApplyLeaveDto,
   ApproveLeaveDto,
   RejectLeaveDto,
+  CancelLeaveDto,
+  RevokeLeaveDto,
 } from "./dto/leave.dto";
-import { LeaveStatus } from "@common/enums/leave-status.enum";
-import { AttendanceStatus } from "@common/enums/attendance-status.enum";
+import {
+  LeaveDuration,
+  LeaveStatus,
+  LeaveType,
+} from "@common/enums/leave-status.enum";
+import { calendarConfig } from "@config/calendar.config";
+import {
+  AttendanceStatus,
+  OvertimeStatus,
+} from "@common/enums/attendance-status.enum";
+import { PolicyViolationException } from "@common/exceptions/policy-violation.exception";
+import { LeaveBalanceService } from "./leave-balance.service";
+import { LeavePolicyService } from "./leave-policy.service";
+import {
+  ApprovalChainService,
+  Approver,
+  LeaveWithApprovalChain,
+} from "./approval-chain.service";
+import { CalendarService } from "@modules/calendar/calendar.service";
+import { RequestUser } from "@common/decorators/user.decorator";
+import { EmployeesService } from "@modules/employees/employees.service";
+import { PayrollRunService } from "@modules/payroll/payroll-run.service";
+import { isDayOpen, summarizeDay } from "@modules/attendance/punch-sessions";
 
 @Injectable()
 export class LeaveService {
-  constructor(@Inject("PrismaClient") private prisma: PrismaClient) {}
+  constructor(
+    @Inject("PrismaClient") private prisma: PrismaClient,
+    private leaveBalanceService: LeaveBalanceService,
+    private leavePolicyService: LeavePolicyService,
+    private calendarService: CalendarService,
+    private approvalChainService: ApprovalChainService,
+    private employeesService: EmployeesService,
+    private payrollRunService: PayrollRunService
+  ) {}
+
+  // Attendance written for the days must not change a locked payroll month
+  private async assertDaysEditable(days: Date[]) {
+    const months = new Set(
+      days.map((day) =>
+        new Date(day.getFullYear(), day.getMonth(), 1).getTime()
+      )
+    );
+
+    for (const month of months) {
+      await this.payrollRunService.assertMonthEditable(new Date(month));
+    }
+  }
 
   private async findEmployeeOrThrow(userId: string): Promise<Employee> {
     const employee = await this.prisma.employee.findUnique({
@@ -30,9 +75,44 @@ export class LeaveService {
     return employee;
   }
 
+  private async findApproverOrThrow(user: RequestUser): Promise<Approver> {
+    const employee = await this.prisma.employee.findUnique({
+      where: { userId: user.userId },
+    });
+
+    if (!employee) {
+      throw new BadRequestException("Approver is not an employee");
+    }
+
+    return { ...employee, roles: user.roles, permissions: user.permissions };
+  }
+
+  private async findLeaveWithChainOrThrow(
+    leaveId: string
+  ): Promise<LeaveWithApprovalChain> {
+    const leave = await this.prisma.leave.findUnique({
+      where: { id: leaveId },
+      include: {
+        employee: { select: { managerId: true } },
+        approvalChain: { include: { steps: true } },
+        approvals: true,
+      },
+    });
+
+    if (!leave) {
+      throw new NotFoundException("Leave request not found");
+    }
+
+    return leave;
+  }
+
   async applyLeave(userId: string, applyLeaveDto: ApplyLeaveDto) {
-    const { id: employeeId } = await this.findEmployeeOrThrow(userId);
+    const employee = await this.findEmployeeOrThrow(userId);
+    const employeeId = employee.id;
     const { leaveType, startDate, endDate, reason } = applyLeaveDto;
+    const duration = applyLeaveDto.duration ?? LeaveDuration.FULL_DAY;
+    const hours =
+      duration === LeaveDuration.HOURS ? applyLeaveDto.hours : undefined;
 
     const start = new Date(startDate);
     const end = new Date(endDate);
@@ -41,42 +121,112 @@ export class LeaveService {
       throw new BadRequestException("Start date must be before end date");
     }
 
-    // Check for overlapping leave requests
-    const overlappingLeave = await this.prisma.leave.findFirst({
-      where: {
-        employeeId,
-        status: { in: ["PENDING", "APPROVED"] },
-        OR: [
-          {
-            startDate: { lte: end },
-            endDate: { gte: start },
-          },
-        ],
-      },
-    });
+    if (
+      this.leaveBalanceService.isPartialDay(duration) &&
+      start.getTime() !== end.getTime()
+    ) {
+      throw new BadRequestException(
+        "Half-day and hourly leave must start and end on the same date"
+      );
+    }
 
-    if (overlappingLeave) {
-      throw new ConflictException(
-        "You already have a leave request that overlaps with these dates"
+    if (hours !== undefined && hours >= calendarConfig.workingHoursPerDay) {
+      throw new BadRequestException(
+        `Hourly leave must be shorter than a ${calendarConfig.workingHoursPerDay}-hour working day`
       );
     }
 
-    return this.prisma.leave.create({
-      data: {
-        employeeId,
-        leaveType,
-        startDate: start,
-        endDate: end,
-        reason,
-        status: LeaveStatus.PENDING,
-      },
-    });
+    if ((await this.calendarService.countWorkingDays(start, end)) === 0) {
+      throw new BadRequestException(
+        "The selected dates do not include any working days"
+      );
+    }
+
+    const approvalChain = await this.approvalChainService.resolveChain(
+      employee
+    );
+
+    // The overlap and balance checks read in the same serializable
+    // transaction as the insert, so two requests filed at once cannot both
+    // spend the same balance or days
+    try {
+      return await this.prisma.$transaction(
+        async (tx) => {
+          // The two halves of the same day can be requested separately
+          const overlappingLeaves = await tx.leave.findMany({
+            where: {
+              employeeId,
+              status: { in: ["PENDING", "APPROVED"] },
+              OR: [
+                {
+                  startDate: { lte: end },
+                  endDate: { gte: start },
+                },
+              ],
+            },
+          });
+
+          const conflictingLeave = overlappingLeaves.find(
+            (leave) =>
+              !(
+                (leave.duration === LeaveDuration.FIRST_HALF &&
+                  duration === LeaveDuration.SECOND_HALF) ||
+                (leave.duration === LeaveDuration.SECOND_HALF &&
+                  duration === LeaveDuration.FIRST_HALF)
+              )
+          );
+
+          if (conflictingLeave) {
+            throw new ConflictException(
+              "You already have a leave request that overlaps with these dates"
+            );
+          }
+
+          const violations = await this.leavePolicyService.evaluateLeaveRequest(
+            employee,
+            leaveType,
+            { startDate: start, endDate: end, duration, hours },
+            tx
+          );
+
+          if (violations.length > 0) {
+            throw new PolicyViolationException(violations);
+          }
+
+          return tx.leave.create({
+            data: {
+              employeeId,
+              approvalChainId: approvalChain?.id,
+              leaveType,
+              startDate: start,
+              endDate: end,
+              duration,
+              hours,
+              reason,
+              status: LeaveStatus.PENDING,
+            },
+          });
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
+    } catch (error) {
+      // Postgres aborts one of two serializable transactions that conflict
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2034"
+      ) {
+        throw new ConflictException(
+          "Another leave request was filed at the same time; please try again"
+        );
+      }
+      throw error;
+    }
   }
 
   async getMyLeaveRequests(userId: string) {
     const { id: employeeId } = await this.findEmployeeOrThrow(userId);
 
-    return this.prisma.leave.findMany({
+    const leaves = await this.prisma.leave.findMany({
       where: { employeeId },
       include: {
         approvals: {
@@ -93,6 +243,41 @@ export class LeaveService {
       },
       orderBy: { createdAt: "desc" },
     });
+
+    return Promise.all(
+      leaves.map(async (leave) => ({
+        ...leave,
+        workingDays: await this.calendarService.countWorkingDays(
+          leave.startDate,
+          leave.endDate
+        ),
+        chargedDays: await this.leaveBalanceService.countLeaveDays(leave),
+      }))
+    );
+  }
+
+  async getTeamLeaveRequests(userId: string, status?: LeaveStatus) {
+    if (status && !Object.values(LeaveStatus).includes(status)) {
+      throw new BadRequestException(`Unknown leave status: ${status}`);
+    }
+
+    const teamMemberIds = await this.employeesService.getTeamMemberIds(userId);
+
+    return this.prisma.leave.findMany({
+      where: { employeeId: { in: teamMemberIds }, status },
+      include: {
+        employee: {
+          select: {
+            firstName: true,
+            lastName: true,
+            department: true,
+            managerId: true,
+          },
+        },
+        approvals: true,
+      },
+      orderBy: { startDate: "desc" },
+    });
   }
 
   async getLeaveRequestById(leaveId: string) {
@@ -120,35 +305,92 @@ export class LeaveService {
     return leave;
   }
 
-  async getAllPendingLeaveRequests() {
-    return this.prisma.leave.findMany({
+  // Only the requests whose current approval step the user can act on
+  async getPendingLeaveRequests(user: RequestUser) {
+    const approver = await this.findApproverOrThrow(user);
+
+    const leaves = await this.prisma.leave.findMany({
       where: { status: LeaveStatus.PENDING },
       include: {
         employee: {
           select: {
             firstName: true,
             lastName: true,
+            managerId: true,
             user: { select: { email: true } },
           },
         },
+        approvalChain: { include: { steps: true } },
         approvals: true,
       },
       orderBy: { createdAt: "desc" },
     });
+
+    const decisions = await Promise.all(
+      leaves.map(async (leave) => ({
+        leave,
+        decision: await this.approvalChainService.resolveApproval(
+          leave,
+          approver
+        ),
+      }))
+    );
+
+    return decisions
+      .filter(({ decision }) => decision !== null)
+      .map(({ leave, decision }) => ({
+        ...leave,
+        awaitingStep: decision?.step?.stepOrder ?? null,
+      }));
   }
 
-  async approveLeave(
-    leaveId: string,
-    adminId: string,
+  private async recordStepApproval(
+    leave: LeaveWithApprovalChain,
+    approver: Approver,
+    stepOrder: number,
+    userId: string,
     approveDto: ApproveLeaveDto
   ) {
-    const leave = await this.prisma.leave.findUnique({
-      where: { id: leaveId },
+    return this.prisma.$transaction(async (tx) => {
+      await tx.leaveApproval.create({
+        data: {
+          leaveId: leave.id,
+          approvedBy: approver.id,
+          stepOrder,
+          comments: approveDto.comments,
+        },
+      });
+
+      const updatedLeave = await tx.leave.update({
+        where: { id: leave.id },
+        data: { currentStep: stepOrder + 1 },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "APPROVE",
+          userId,
+          entityType: "Leave",
+          entityId: leave.id,
+          reason: `Approval step ${stepOrder} completed`,
+          changes: JSON.stringify({
+            stepOrder,
+            nextStep: stepOrder + 1,
+            comments: approveDto.comments,
+          }),
+        },
+      });
+
+      return updatedLeave;
     });
+  }
 
-    if (!leave) {
-      throw new NotFoundException("Leave request not found");
-    }
+  async approveLeave(
+    leaveId: string,
+    approverUser: RequestUser,
+    approveDto: ApproveLeaveDto
+  ) {
+    const leave = await this.findLeaveWithChainOrThrow(leaveId);
 
     if (leave.status !== LeaveStatus.PENDING) {
       throw new BadRequestException(
@@ -156,8 +398,54 @@ export class LeaveService {
       );
     }
 
+    const approver = await this.findApproverOrThrow(approverUser);
+    const decision = await this.approvalChainService.resolveApproval(
+      leave,
+      approver
+    );
+
+    if (!decision) {
+      throw new ForbiddenException(
+        "This leave request is not awaiting your approval"
+      );
+    }
+
+    // Earlier steps of a sequential chain only move the request along
+    if (decision.step && !decision.isFinal) {
+      return this.recordStepApproval(
+        leave,
+        approver,
+        decision.step.stepOrder,
+        approverUser.userId,
+        approveDto
+      );
+    }
+
+    const workingDays = await this.calendarService.getWorkingDays(
+      leave.startDate,
+      leave.endDate
+    );
+    await this.assertDaysEditable(workingDays);
+    const leaveDays = await this.leaveBalanceService.countLeaveDays(leave);
+
+    // A partial-day leave still leaves the rest of the day to be worked
+    const attendanceStatus = this.leaveBalanceService.isPartialDay(
+      leave.duration
+    )
+      ? AttendanceStatus.HALF_DAY
+      : AttendanceStatus.LEAVE;
+
     // Use transaction to update leave and create attendance records
     return this.prisma.$transaction(async (tx) => {
+      // Balance may have changed since the request was filed
+      await this.leaveBalanceService.assertSufficientBalance(
+        leave.employeeId,
+        leave.leaveType as LeaveType,
+        leaveDays,
+        tx,
+        leave.id
+      );
+
       // Update leave status
       const updatedLeave = await tx.leave.update({
         where: { id: leaveId },
@@ -165,26 +453,19 @@ export class LeaveService {
       });
 
       // Create approval record
-      const approver = await tx.employee.findUnique({
-        where: { userId: adminId },
-      });
-
-      if (!approver) {
-        throw new BadRequestException("Approver is not an employee");
-      }
-
       await tx.leaveApproval.create({
         data: {
           leaveId,
           approvedBy: approver.id,
+          stepOrder: decision.step?.stepOrder,
           comments: approveDto.comments,
         },
       });
 
-      // Update attendance records for all days in the leave period
-      const currentDate = new Date(leave.startDate);
-      while (currentDate <= leave.endDate) {
-        const date = new Date(currentDate);
+      // Mark attendance for the working days in the leave period;
+      // weekly offs and holidays are left untouched
+      for (const workingDay of workingDays) {
+        const date = new Date(workingDay);
         date.setHours(0, 0, 0, 0);
 
         await tx.attendance.upsert({
@@ -197,27 +478,35 @@ export class LeaveService {
           create: {
             employeeId: leave.employeeId,
             date,
-            status: AttendanceStatus.LEAVE,
+            status: attendanceStatus,
           },
           update: {
-            status: AttendanceStatus.LEAVE,
+            status: attendanceStatus,
           },
         });
-
-        currentDate.setDate(currentDate.getDate() + 1);
       }
 
+      await this.leaveBalanceService.recordConsumption(
+        tx,
+        leave,
+        leaveDays,
+        approverUser.userId
+      );
+
       // Log the approval
       await tx.auditLog.create({
         data: {
           action: "APPROVE",
-          userId: adminId,
+          userId: approverUser.userId,
           entityType: "Leave",
           entityId: leaveId,
           reason: "Leave request approved",
           changes: JSON.stringify({
             status: LeaveStatus.APPROVED,
             comments: approveDto.comments,
+            daysDebited: this.leaveBalanceService.isTracked(leave.leaveType)
+              ? leaveDays
+              : 0,
           }),
         },
       });
@@ -228,9 +517,137 @@ export class LeaveService {
 
   async rejectLeave(
     leaveId: string,
-    adminId: string,
+    approverUser: RequestUser,
     rejectDto: RejectLeaveDto
   ) {
+    const leave = await this.findLeaveWithChainOrThrow(leaveId);
+
+    if (leave.status !== LeaveStatus.PENDING) {
+      throw new BadRequestException(
+        `Cannot reject a ${leave.status} leave request`
+      );
+    }
+
+    // Any approver the request is currently waiting on may reject it
+    const approver = await this.findApproverOrThrow(approverUser);
+    if (!(await this.approvalChainService.resolveApproval(leave, approver))) {
+      throw new ForbiddenException(
+        "This leave request is not awaiting your approval"
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updatedLeave = await tx.leave.update({
+        where: { id: leaveId },
+        data: { status: LeaveStatus.REJECTED },
+      });
+
+      const daysCredited = await this.leaveBalanceService.creditBack(
+        tx,
+        leave,
+        approverUser.userId,
+        "Leave rejected"
+      );
+
+      // Log the rejection
+      await tx.auditLog.create({
+        data: {
+          action: "REJECT",
+          userId: approverUser.userId,
+          entityType: "Leave",
+          entityId: leaveId,
+          reason: rejectDto.reason,
+          changes: JSON.stringify({
+            status: LeaveStatus.REJECTED,
+            daysCredited,
+          }),
+        },
+      });
+
+      return updatedLeave;
+    });
+  }
+
+  // Undo the rows written on approval: days the employee punched on are
+  // recalculated from their punches against the day's shift, as check-out
+  // does, and untouched days are removed. An HR override still decides the
+  // day's status
+  private async restoreAttendance(
+    tx: Prisma.TransactionClient,
+    employeeId: string,
+    days: Date[]
+  ): Promise<number> {
+    let restored = 0;
+
+    for (const day of days) {
+      const date = new Date(day);
+      date.setHours(0, 0, 0, 0);
+
+      const attendance = await tx.attendance.findUnique({
+        where: { employeeId_date: { employeeId, date } },
+        include: { shift: true, punches: { orderBy: { punchedAt: "asc" } } },
+      });
+
+      if (
+        !attendance ||
+        (attendance.status !== AttendanceStatus.LEAVE &&
+          attendance.status !== AttendanceStatus.HALF_DAY)
+      ) {
+        continue;
+      }
+
+      if (attendance.punches.length === 0 && !attendance.overriddenBy) {
+        await tx.attendance.delete({ where: { id: attendance.id } });
+        restored++;
+        continue;
+      }
+
+      // A day still checked in keeps its check-in figures, as it would have
+      // before check-out
+      if (isDayOpen(attendance.punches)) {
+        await tx.attendance.update({
+          where: { id: attendance.id },
+          data: {
+            status: attendance.overriddenBy
+              ? attendance.status
+              : AttendanceStatus.PRESENT,
+          },
+        });
+        restored++;
+        continue;
+      }
+
+      const { status: shiftStatus, ...summary } = summarizeDay(
+        attendance.punches,
+        attendance.shift,
+        date
+      );
+
+      await tx.attendance.update({
+        where: { id: attendance.id },
+        data: {
+          status: attendance.overriddenBy
+            ? attendance.status
+            : shiftStatus ?? AttendanceStatus.PRESENT,
+          ...summary,
+          overtimeStatus:
+            summary.overtimeMinutes > 0
+              ? attendance.overtimeStatus ?? OvertimeStatus.PENDING
+              : null,
+        },
+      });
+      restored++;
+    }
+
+    return restored;
+  }
+
+  async cancelLeave(
+    leaveId: string,
+    userId: string,
+    cancelDto: CancelLeaveDto
+  ) {
+    const { id: employeeId } = await this.findEmployeeOrThrow(userId);
     const leave = await this.prisma.leave.findUnique({
       where: { id: leaveId },
     });
@@ -239,26 +656,123 @@ export class LeaveService {
       throw new NotFoundException("Leave request not found");
     }
 
+    if (leave.employeeId !== employeeId) {
+      throw new ForbiddenException("You can only cancel your own leave");
+    }
+
     if (leave.status !== LeaveStatus.PENDING) {
       throw new BadRequestException(
-        `Cannot reject a ${leave.status} leave request`
+        `Cannot cancel a ${leave.status} leave request`
       );
     }
 
     return this.prisma.$transaction(async (tx) => {
       const updatedLeave = await tx.leave.update({
         where: { id: leaveId },
-        data: { status: LeaveStatus.REJECTED },
+        data: { status: LeaveStatus.CANCELLED },
       });
 
-      // Log the rejection
       await tx.auditLog.create({
         data: {
-          action: "REJECT",
+          action: "CANCEL",
+          userId,
+          entityType: "Leave",
+          entityId: leaveId,
+          reason: cancelDto.reason || "Leave request withdrawn",
+          changes: JSON.stringify({
+            previousStatus: LeaveStatus.PENDING,
+            newStatus: LeaveStatus.CANCELLED,
+          }),
+        },
+      });
+
+      return updatedLeave;
+    });
+  }
+
+  async revokeLeave(
+    leaveId: string,
+    adminId: string,
+    revokeDto: RevokeLeaveDto
+  ) {
+    const leave = await this.prisma.leave.findUnique({
+      where: { id: leaveId },
+    });
+
+    if (!leave) {
+      throw new NotFoundException("Leave request not found");
+    }
+
+    if (leave.status !== LeaveStatus.APPROVED) {
+      throw new BadRequestException(
+        `Cannot revoke a ${leave.status} leave request`
+      );
+    }
+
+    const fromDate = revokeDto.fromDate
+      ? new Date(revokeDto.fromDate)
+      : leave.startDate;
+
+    if (fromDate < leave.startDate || fromDate > leave.endDate) {
+      throw new BadRequestException(
+        "Cancellation date must fall within the leave period"
+      );
+    }
+
+    // Cancelling from the first day revokes the whole leave; otherwise the
+    // leave is cut short and ends the day before fromDate
+    const isPartial = fromDate > leave.startDate;
+    const newEndDate = new Date(fromDate);
+    newEndDate.setDate(newEndDate.getDate() - 1);
+
+    const cancelledDays = await this.calendarService.getWorkingDays(
+      fromDate,
+      leave.endDate
+    );
+    await this.assertDaysEditable(cancelledDays);
+    const daysToCredit = await this.leaveBalanceService.countLeaveDays({
+      ...leave,
+      startDate: fromDate,
+    });
+
+    return this.prisma.$transaction(async (tx) => {
+      const updatedLeave = await tx.leave.update({
+        where: { id: leaveId },
+        data: isPartial
+          ? { endDate: newEndDate }
+          : { status: LeaveStatus.CANCELLED },
+      });
+
+      const daysRestored = await this.restoreAttendance(
+        tx,
+        leave.employeeId,
+        cancelledDays
+      );
+
+      const daysCredited = await this.leaveBalanceService.creditBack(
+        tx,
+        leave,
+        adminId,
+        isPartial ? "Leave partially cancelled" : "Leave revoked",
+        daysToCredit
+      );
+
+      await tx.auditLog.create({
+        data: {
+          action: "CANCEL",
           userId: adminId,
           entityType: "Leave",
           entityId: leaveId,
-          reason: rejectDto.reason,
+          reason: revokeDto.reason,
+          changes: JSON.stringify({
+            previousStatus: leave.status,
+            newStatus: updatedLeave.status,
+            previousEndDate: leave.endDate,
+            newEndDate: updatedLeave.endDate,
+            cancelledFrom: fromDate,
+            daysRestored,
+            daysCredited,
+          }),
         },
       });
 
@@ -0,0 +1,112 @@
+import { sumMoney } from "@modules/payroll/money";
+import {
+  ScheduledInstallment,
+  buildSchedule,
+  calculateEmi,
+  calculateInterest,
+  getMonths,
+} from "./amortization";
+
+function amounts(schedule: ScheduledInstallment[]) {
+  return schedule.map((installment) => installment.amount.toFixed(2));
+}
+
+function totalPrincipal(schedule: ScheduledInstallment[]) {
+  return sumMoney(schedule.map((installment) => installment.principal)).toFixed(
+    2
+  );
+}
+
+describe("calculateEmi", () => {
+  it("repays the balance with interest on the reducing balance", () => {
+    expect(calculateEmi(100000, 12, 12).toFixed(2)).toBe("8884.88");
+  });
+
+  it("splits the balance evenly without interest", () => {
+    expect(calculateEmi(120000, 0, 12).toFixed(2)).toBe("10000.00");
+    expect(calculateEmi(1000, 0, 3).toFixed(2)).toBe("333.33");
+  });
+});
+
+describe("calculateInterest", () => {
+  it("charges a twelfth of the annual rate", () => {
+    expect(calculateInterest(100000, 12).toFixed(2)).toBe("1000.00");
+    expect(calculateInterest(12345.67, 10.5).toFixed(2)).toBe("108.02");
+  });
+});
+
+describe("getMonths", () => {
+  it("returns consecutive first days of the month across years", () => {
+    expect(getMonths(new Date(2026, 10, 1), 3)).toEqual([
+      new Date(2026, 10, 1),
+      new Date(2026, 11, 1),
+      new Date(2027, 0, 1),
+    ]);
+  });
+});
+
+describe("buildSchedule", () => {
+  const months = getMonths(new Date(2026, 3, 1), 12);
+
+  it("pays the EMI every month and clears the balance with the last", () => {
+    const schedule = buildSchedule(100000, 12, months);
+
+    expect(schedule).toHaveLength(12);
+    expect(new Set(amounts(schedule.slice(0, -1)))).toEqual(
+      new Set(["8884.88"])
+    );
+    expect(schedule[0].interest.toFixed(2)).toBe("1000.00");
+    expect(schedule[0].principal.toFixed(2)).toBe("7884.88");
+    expect(totalPrincipal(schedule)).toBe("100000.00");
+    expect(schedule[11].closingBalance.toFixed(2)).toBe("0.00");
+  });
+
+  it("carries each closing balance into the next month", () => {
+    const schedule = buildSchedule(50000, 9.5, months);
+
+    schedule.slice(1).forEach((installment, index) => {
+      expect(installment.openingBalance.toFixed(2)).toBe(
+        schedule[index].closingBalance.toFixed(2)
+      );
+    });
+  });
+
+  it("leaves the last installment to absorb rounding", () => {
+    const schedule = buildSchedule(1000, 0, getMonths(months[0], 3));
+
+    expect(amounts(schedule)).toEqual(["333.33", "333.33", "333.34"]);
+  });
+
+  it("schedules nothing for a repaid balance", () => {
+    expect(buildSchedule(0, 12, months)).toEqual([]);
+  });
+
+  it("lowers the EMI when a prepayment is rescheduled over the months left", () => {
+    const original = buildSchedule(100000, 12, months);
+    const balance = original[2].closingBalance.minus(20000);
+    const rescheduled = buildSchedule(balance, 12, months.slice(3));
+
+    expect(rescheduled).toHaveLength(9);
+    expect(rescheduled[0].month).toEqual(months[3]);
+    expect(rescheduled[0].amount.lt(original[3].amount)).toBe(true);
+    expect(totalPrincipal(rescheduled)).toBe(balance.toFixed(2));
+    expect(rescheduled[8].closingBalance.toFixed(2)).toBe("0.00");
+  });
+
+  it("moves a skipped installment to a month after the last", () => {
+    const original = buildSchedule(100000, 12, months);
+    const remaining = [...months.slice(4), getMonths(months[11], 2)[1]];
+    const rescheduled = buildSchedule(
+      original[2].closingBalance,
+      12,
+      remaining
+    );
+
+    expect(rescheduled).toHaveLength(9);
+    expect(rescheduled[0].month).toEqual(new Date(2026, 7, 1));
+    expect(rescheduled[8].month).toEqual(new Date(2027, 3, 1));
+    expect(totalPrincipal(rescheduled)).toBe(
+      original[2].closingBalance.toFixed(2)
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  Money,
+  MoneyValue,
+  ZERO,
+  roundMoney,
+  toMoney,
+} from "@modules/payroll/money";
+
+export interface ScheduledInstallment {
+  month: Date;
+  openingBalance: Money;
+  principal: Money;
+  interest: Money;
+  amount: Money;
+  closingBalance: Money;
+}
+
+// Interest is charged monthly on the reducing balance
+export function getMonthlyRate(annualInterestRate: MoneyValue): Money {
+  return toMoney(annualInterestRate).dividedBy(1200);
+}
+
+// Equated monthly instalment that repays the balance over the given months
+export function calculateEmi(
+  balance: MoneyValue,
+  annualInterestRate: MoneyValue,
+  months: number
+): Money {
+  const rate = getMonthlyRate(annualInterestRate);
+
+  if (rate.isZero()) {
+    return roundMoney(toMoney(balance).dividedBy(months));
+  }
+
+  const factor = rate.plus(1).pow(months);
+  return roundMoney(
+    toMoney(balance).times(rate).times(factor).dividedBy(factor.minus(1))
+  );
+}
+
+export function calculateInterest(
+  balance: MoneyValue,
+  annualInterestRate: MoneyValue
+): Money {
+  return roundMoney(toMoney(balance).times(getMonthlyRate(annualInterestRate)));
+}
+
+// One installment per month, in order. Every installment but the last pays
+// the EMI; the last clears whatever rounding has left on the balance
+export function buildSchedule(
+  balance: MoneyValue,
+  annualInterestRate: MoneyValue,
+  months: Date[]
+): ScheduledInstallment[] {
+  const emi = calculateEmi(balance, annualInterestRate, months.length);
+  const schedule: ScheduledInstallment[] = [];
+  let openingBalance = toMoney(balance);
+
+  for (const [index, month] of months.entries()) {
+    if (!openingBalance.gt(0)) {
+      break;
+    }
+
+    const interest = calculateInterest(openingBalance, annualInterestRate);
+    const isLast = index === months.length - 1;
+    const principal =
+      isLast || emi.minus(interest).gt(openingBalance)
+        ? openingBalance
+        : emi.minus(interest);
+    const closingBalance = openingBalance.minus(principal);
+
+    schedule.push({
+      month,
+      openingBalance,
+      principal,
+      interest,
+      amount: principal.plus(interest),
+      closingBalance: closingBalance.gt(0) ? closingBalance : ZERO,
+    });
+    openingBalance = closingBalance;
+  }
+
+  return schedule;
+}
+
+// Consecutive months starting at the given one
+export function getMonths(start: Date, count: number): Date[] {
+  return Array.from(
+    { length: count },
+    (_, index) => new Date(start.getFullYear(), start.getMonth() + index, 1)
+  );
+}
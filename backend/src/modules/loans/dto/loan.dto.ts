@@ -0,0 +1,83 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsDateString,
+  Matches,
+  Min,
+  Max,
+} from "class-validator";
+import { LoanType } from "@common/enums/loan.enum";
+import { IsMoney } from "@modules/payroll/money";
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export class RequestLoanDto {
+  @IsOptional()
+  @IsEnum(LoanType)
+  type?: LoanType;
+
+  @IsMoney()
+  principal!: string;
+
+  @IsInt()
+  @Min(1)
+  tenureMonths!: number;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class ApproveLoanDto {
+  @Matches(MONTH_PATTERN, {
+    message: "startMonth must be in YYYY-MM format",
+  })
+  startMonth!: string; // First month the EMI is deducted
+
+  // Reducing balance rate; advances are always interest free
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  annualInterestRate?: number;
+
+  @IsOptional()
+  @IsString()
+  comment?: string;
+}
+
+export class RejectLoanDto {
+  @IsString()
+  reason!: string;
+}
+
+export class CancelLoanDto {
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class RecordPrepaymentDto {
+  @IsMoney()
+  amount!: string;
+
+  @IsDateString()
+  paidOn!: string; // ISO date format
+
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class SkipInstallmentDto {
+  @Matches(MONTH_PATTERN, {
+    message: "month must be in YYYY-MM format",
+  })
+  month!: string;
+
+  @IsString()
+  reason!: string;
+}
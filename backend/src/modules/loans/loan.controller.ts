@@ -0,0 +1,129 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  UseFilters,
+  UseInterceptors,
+} from "@nestjs/common";
+import { LoanService } from "./loan.service";
+import {
+  ApproveLoanDto,
+  CancelLoanDto,
+  RecordPrepaymentDto,
+  RejectLoanDto,
+  RequestLoanDto,
+  SkipInstallmentDto,
+} from "./dto/loan.dto";
+import { JwtGuard } from "@common/guards/jwt.guard";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
+import { User, RequestUser } from "@common/decorators/user.decorator";
+import { LoanStatus } from "@common/enums/loan.enum";
+import { Permission } from "@common/enums/permission.enum";
+import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
+import { MoneyInterceptor } from "@common/interceptors/money.interceptor";
+
+@Controller("loans")
+@UseFilters(AllExceptionsFilter)
+@UseInterceptors(MoneyInterceptor)
+export class LoanController {
+  constructor(private loanService: LoanService) {}
+
+  @Post("me")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_SELF)
+  async requestLoan(
+    @User() user: RequestUser,
+    @Body() requestDto: RequestLoanDto
+  ) {
+    return this.loanService.requestLoan(user.userId, requestDto);
+  }
+
+  @Get("me")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_SELF)
+  async getMyLoans(@User() user: RequestUser) {
+    return this.loanService.getMyLoans(user.userId);
+  }
+
+  @Get("me/:id")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_SELF)
+  async getMyLoan(@User() user: RequestUser, @Param("id") id: string) {
+    return this.loanService.getMyLoan(user.userId, id);
+  }
+
+  @Put("me/:id/cancel")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_SELF)
+  async cancelLoan(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() cancelDto: CancelLoanDto
+  ) {
+    return this.loanService.cancelLoan(id, user.userId, cancelDto);
+  }
+
+  @Get()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getLoans(@Query("status") status?: LoanStatus) {
+    return this.loanService.getLoans(status);
+  }
+
+  @Get(":id")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getLoan(@Param("id") id: string) {
+    return this.loanService.getLoan(id);
+  }
+
+  @Put(":id/approve")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async approveLoan(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() approveDto: ApproveLoanDto
+  ) {
+    return this.loanService.approveLoan(id, approveDto, user.userId);
+  }
+
+  @Put(":id/reject")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async rejectLoan(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() rejectDto: RejectLoanDto
+  ) {
+    return this.loanService.rejectLoan(id, rejectDto, user.userId);
+  }
+
+  @Post(":id/prepayments")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async recordPrepayment(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() prepaymentDto: RecordPrepaymentDto
+  ) {
+    return this.loanService.recordPrepayment(id, prepaymentDto, user.userId);
+  }
+
+  @Post(":id/skips")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async skipInstallment(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() skipDto: SkipInstallmentDto
+  ) {
+    return this.loanService.skipInstallment(id, skipDto, user.userId);
+  }
+}
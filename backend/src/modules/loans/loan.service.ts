@@ -0,0 +1,650 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+  Inject,
+} from "@nestjs/common";
+import { PrismaClient, Prisma, Employee, Loan, Payroll } from "@prisma/client";
+import {
+  ApproveLoanDto,
+  CancelLoanDto,
+  RecordPrepaymentDto,
+  RejectLoanDto,
+  RequestLoanDto,
+  SkipInstallmentDto,
+} from "./dto/loan.dto";
+import {
+  LOAN_DEDUCTION_CODES,
+  LoanInstallmentStatus,
+  LoanStatus,
+  LoanType,
+} from "@common/enums/loan.enum";
+import {
+  PayrollRunStatus,
+  SalaryComponentType,
+} from "@common/enums/payroll.enum";
+import { buildSchedule, getMonths } from "./amortization";
+import {
+  Money,
+  ZERO,
+  calculateNetSalary,
+  formatMoney,
+  sumMoney,
+  toMoney,
+} from "@modules/payroll/money";
+import { refreshRunTotals } from "@modules/payroll/run-totals";
+import { payrollConfig } from "@config/payroll.config";
+
+const EMPLOYEE_SELECT = {
+  select: { firstName: true, lastName: true, department: true },
+};
+
+const DETAIL_INCLUDE = {
+  employee: EMPLOYEE_SELECT,
+  installments: { orderBy: { month: "asc" as const } },
+  prepayments: { orderBy: { paidOn: "asc" as const } },
+};
+
+@Injectable()
+export class LoanService {
+  constructor(@Inject("PrismaClient") private prisma: PrismaClient) {}
+
+  private async findEmployeeOrThrow(userId: string): Promise<Employee> {
+    const employee = await this.prisma.employee.findUnique({
+      where: { userId },
+    });
+
+    if (!employee) {
+      throw new NotFoundException("Employee not found");
+    }
+
+    return employee;
+  }
+
+  private async findLoanOrThrow(loanId: string): Promise<Loan> {
+    const loan = await this.prisma.loan.findUnique({ where: { id: loanId } });
+
+    if (!loan) {
+      throw new NotFoundException("Loan not found");
+    }
+
+    return loan;
+  }
+
+  private formatMonth(month: Date): string {
+    return `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(
+      2,
+      "0"
+    )}`;
+  }
+
+  // Installments from earlier months are ones caught up this month
+  private getDeductionName(
+    type: LoanType,
+    months: Date[],
+    payrollMonth: Date
+  ): string {
+    const name =
+      type === LoanType.ADVANCE ? "Salary Advance Recovery" : "Loan EMI";
+    const caughtUp = months.filter(
+      (month) => month.getTime() !== payrollMonth.getTime()
+    );
+
+    return caughtUp.length
+      ? `${name} (incl. ${caughtUp.map((m) => this.formatMonth(m)).join(", ")})`
+      : name;
+  }
+
+  private parseMonth(month: string): Date {
+    const [year, monthNum] = month.split("-").map(Number);
+    return new Date(year, monthNum - 1, 1);
+  }
+
+  // Replaces every installment still to be deducted with a fresh schedule
+  // that repays the loan's outstanding balance over the given months
+  private async reschedule(
+    tx: Prisma.TransactionClient,
+    loan: Loan,
+    months: Date[]
+  ) {
+    await tx.loanInstallment.deleteMany({
+      where: {
+        loanId: loan.id,
+        status: LoanInstallmentStatus.SCHEDULED,
+        payrollId: null,
+      },
+    });
+
+    const schedule = buildSchedule(
+      loan.outstandingPrincipal,
+      loan.annualInterestRate,
+      months
+    );
+
+    await tx.loanInstallment.createMany({
+      data: schedule.map((installment) => ({
+        ...installment,
+        loanId: loan.id,
+      })),
+    });
+
+    if (schedule.length === 0) {
+      return loan;
+    }
+
+    return tx.loan.update({
+      where: { id: loan.id },
+      data: { emiAmount: schedule[0].amount },
+    });
+  }
+
+  // Months of the installments a reschedule replaces
+  private async getScheduledMonths(
+    tx: Prisma.TransactionClient,
+    loanId: string
+  ): Promise<Date[]> {
+    const installments = await tx.loanInstallment.findMany({
+      where: {
+        loanId,
+        status: LoanInstallmentStatus.SCHEDULED,
+        payrollId: null,
+      },
+      orderBy: { month: "asc" },
+    });
+
+    return installments.map((installment) => installment.month);
+  }
+
+  async requestLoan(userId: string, requestDto: RequestLoanDto) {
+    const employee = await this.findEmployeeOrThrow(userId);
+    const type = requestDto.type ?? LoanType.LOAN;
+    const principal = toMoney(requestDto.principal);
+    const maxTenure =
+      type === LoanType.ADVANCE
+        ? payrollConfig.advanceMaxTenureMonths
+        : payrollConfig.loanMaxTenureMonths;
+
+    if (!principal.gt(0)) {
+      throw new BadRequestException("principal must be greater than 0");
+    }
+
+    if (requestDto.tenureMonths > maxTenure) {
+      throw new BadRequestException(
+        `A ${
+          type === LoanType.ADVANCE ? "salary advance" : "loan"
+        } can be repaid over at most ${maxTenure} months`
+      );
+    }
+
+    return this.prisma.loan.create({
+      data: {
+        employeeId: employee.id,
+        type,
+        principal,
+        tenureMonths: requestDto.tenureMonths,
+        outstandingPrincipal: principal,
+        reason: requestDto.reason,
+      },
+    });
+  }
+
+  async getMyLoans(userId: string) {
+    const { id: employeeId } = await this.findEmployeeOrThrow(userId);
+
+    return this.prisma.loan.findMany({
+      where: { employeeId },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  async getMyLoan(userId: string, loanId: string) {
+    const { id: employeeId } = await this.findEmployeeOrThrow(userId);
+    const loan = await this.getLoan(loanId);
+
+    if (loan.employeeId !== employeeId) {
+      throw new ForbiddenException("You can only view your own loans");
+    }
+
+    return loan;
+  }
+
+  async getLoans(status?: LoanStatus) {
+    if (status && !Object.values(LoanStatus).includes(status)) {
+      throw new BadRequestException(`Unknown loan status: ${status}`);
+    }
+
+    return this.prisma.loan.findMany({
+      where: status ? { status } : {},
+      include: { employee: EMPLOYEE_SELECT },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  async getLoan(loanId: string) {
+    const loan = await this.prisma.loan.findUnique({
+      where: { id: loanId },
+      include: DETAIL_INCLUDE,
+    });
+
+    if (!loan) {
+      throw new NotFoundException("Loan not found");
+    }
+
+    return loan;
+  }
+
+  async cancelLoan(loanId: string, userId: string, cancelDto: CancelLoanDto) {
+    const { id: employeeId } = await this.findEmployeeOrThrow(userId);
+    const loan = await this.findLoanOrThrow(loanId);
+
+    if (loan.employeeId !== employeeId) {
+      throw new ForbiddenException("You can only cancel your own loan");
+    }
+
+    if (loan.status !== LoanStatus.PENDING) {
+      throw new BadRequestException(
+        `Cannot cancel a ${loan.status} loan request`
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updatedLoan = await tx.loan.update({
+        where: { id: loanId },
+        data: { status: LoanStatus.CANCELLED },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "CANCEL",
+          userId,
+          entityType: "Loan",
+          entityId: loanId,
+          reason: cancelDto.reason || "Loan request withdrawn",
+          changes: JSON.stringify({
+            previousStatus: LoanStatus.PENDING,
+            newStatus: LoanStatus.CANCELLED,
+          }),
+        },
+      });
+
+      return updatedLoan;
+    });
+  }
+
+  // Fixes the interest rate and first deduction month and lays out the
+  // amortization schedule
+  async approveLoan(
+    loanId: string,
+    approveDto: ApproveLoanDto,
+    adminId: string
+  ) {
+    const loan = await this.findLoanOrThrow(loanId);
+
+    if (loan.status !== LoanStatus.PENDING) {
+      throw new BadRequestException(
+        `Cannot approve a ${loan.status} loan request`
+      );
+    }
+
+    const annualInterestRate = approveDto.annualInterestRate ?? 0;
+    if (loan.type === LoanType.ADVANCE && annualInterestRate > 0) {
+      throw new BadRequestException("Salary advances are interest free");
+    }
+
+    const startMonth = this.parseMonth(approveDto.startMonth);
+
+    await this.prisma.$transaction(async (tx) => {
+      const approvedLoan = await tx.loan.update({
+        where: { id: loanId },
+        data: {
+          status: LoanStatus.ACTIVE,
+          annualInterestRate,
+          startMonth,
+          reviewedBy: adminId,
+          reviewedAt: new Date(),
+          reviewComment: approveDto.comment,
+        },
+      });
+
+      const scheduledLoan = await this.reschedule(
+        tx,
+        approvedLoan,
+        getMonths(startMonth, loan.tenureMonths)
+      );
+
+      await tx.auditLog.create({
+        data: {
+          action: "APPROVE",
+          userId: adminId,
+          entityType: "Loan",
+          entityId: loanId,
+          reason: approveDto.comment || "Loan approved",
+          changes: JSON.stringify({
+            previousStatus: LoanStatus.PENDING,
+            newStatus: LoanStatus.ACTIVE,
+            principal: formatMoney(loan.principal),
+            annualInterestRate,
+            tenureMonths: loan.tenureMonths,
+            startMonth: approveDto.startMonth,
+            emiAmount: formatMoney(scheduledLoan.emiAmount),
+          }),
+        },
+      });
+    });
+
+    return this.getLoan(loanId);
+  }
+
+  async rejectLoan(loanId: string, rejectDto: RejectLoanDto, adminId: string) {
+    const loan = await this.findLoanOrThrow(loanId);
+
+    if (loan.status !== LoanStatus.PENDING) {
+      throw new BadRequestException(
+        `Cannot reject a ${loan.status} loan request`
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updatedLoan = await tx.loan.update({
+        where: { id: loanId },
+        data: {
+          status: LoanStatus.REJECTED,
+          reviewedBy: adminId,
+          reviewedAt: new Date(),
+          reviewComment: rejectDto.reason,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "REJECT",
+          userId: adminId,
+          entityType: "Loan",
+          entityId: loanId,
+          reason: rejectDto.reason,
+          changes: JSON.stringify({
+            previousStatus: LoanStatus.PENDING,
+            newStatus: LoanStatus.REJECTED,
+          }),
+        },
+      });
+
+      return updatedLoan;
+    });
+  }
+
+  // A prepayment comes off the outstanding balance. The remaining
+  // installments keep their months and are recalculated with a lower EMI
+  async recordPrepayment(
+    loanId: string,
+    prepaymentDto: RecordPrepaymentDto,
+    adminId: string
+  ) {
+    const loan = await this.findLoanOrThrow(loanId);
+    const amount = toMoney(prepaymentDto.amount);
+
+    if (loan.status !== LoanStatus.ACTIVE) {
+      throw new BadRequestException(
+        `Cannot record a prepayment on a ${loan.status} loan`
+      );
+    }
+
+    if (!amount.gt(0)) {
+      throw new BadRequestException("amount must be greater than 0");
+    }
+
+    if (amount.gt(loan.outstandingPrincipal)) {
+      throw new BadRequestException(
+        `The prepayment exceeds the outstanding balance of ${formatMoney(
+          loan.outstandingPrincipal
+        )}`
+      );
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const prepayment = await tx.loanPrepayment.create({
+        data: {
+          loanId,
+          amount,
+          paidOn: new Date(prepaymentDto.paidOn),
+          note: prepaymentDto.note,
+          recordedBy: adminId,
+        },
+      });
+
+      const outstandingPrincipal = loan.outstandingPrincipal.minus(amount);
+      const updatedLoan = await tx.loan.update({
+        where: { id: loanId },
+        data: {
+          outstandingPrincipal,
+          ...(outstandingPrincipal.isZero() && { status: LoanStatus.CLOSED }),
+        },
+      });
+
+      await this.reschedule(
+        tx,
+        updatedLoan,
+        outstandingPrincipal.isZero()
+          ? []
+          : await this.getScheduledMonths(tx, loanId)
+      );
+
+      await tx.auditLog.create({
+        data: {
+          action: "UPDATE",
+          userId: adminId,
+          entityType: "Loan",
+          entityId: loanId,
+          reason: prepaymentDto.note || "Loan prepayment recorded",
+          changes: JSON.stringify({
+            prepaymentId: prepayment.id,
+            amount: formatMoney(amount),
+            previousOutstanding: formatMoney(loan.outstandingPrincipal),
+            newOutstanding: formatMoney(outstandingPrincipal),
+          }),
+        },
+      });
+    });
+
+    return this.getLoan(loanId);
+  }
+
+  // The month's EMI is not deducted; its interest is added to the balance
+  // and the schedule gains a month at the end. An EMI already deducted in a
+  // DRAFT run is given back, and that payroll and its run's totals are
+  // recalculated at once
+  async skipInstallment(
+    loanId: string,
+    skipDto: SkipInstallmentDto,
+    adminId: string
+  ) {
+    const loan = await this.findLoanOrThrow(loanId);
+    const month = this.parseMonth(skipDto.month);
+
+    const installment = await this.prisma.loanInstallment.findUnique({
+      where: { loanId_month: { loanId, month } },
+      include: { payroll: { include: { run: true } } },
+    });
+
+    if (!installment) {
+      throw new NotFoundException(
+        `The loan has no installment in ${skipDto.month}`
+      );
+    }
+
+    if (installment.status === LoanInstallmentStatus.SKIPPED) {
+      throw new BadRequestException(
+        `The installment for ${skipDto.month} is already skipped`
+      );
+    }
+
+    const isDeducted = installment.status === LoanInstallmentStatus.DEDUCTED;
+    const run = installment.payroll?.run;
+    if (isDeducted && run?.status !== PayrollRunStatus.DRAFT) {
+      throw new BadRequestException(
+        `The installment for ${skipDto.month} has already been deducted in a ${
+          run?.status ?? "finalized"
+        } payroll; reopen the payroll run first`
+      );
+    }
+
+    const interest = installment.interest;
+    const outstandingPrincipal = loan.outstandingPrincipal
+      .plus(isDeducted ? installment.principal : ZERO)
+      .plus(interest);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.loanInstallment.update({
+        where: { id: installment.id },
+        data: {
+          status: LoanInstallmentStatus.SKIPPED,
+          payrollId: null,
+          principal: ZERO,
+          amount: ZERO,
+          closingBalance: installment.openingBalance.plus(interest),
+          skipReason: skipDto.reason,
+          skipApprovedBy: adminId,
+        },
+      });
+
+      const updatedLoan = await tx.loan.update({
+        where: { id: loanId },
+        data: { outstandingPrincipal, status: LoanStatus.ACTIVE },
+      });
+
+      // The schedule runs one month past its current last installment
+      const last = await tx.loanInstallment.findFirst({
+        where: { loanId },
+        orderBy: { month: "desc" },
+      });
+
+      if (!last) {
+        throw new NotFoundException("The loan has no installments");
+      }
+
+      const months = await this.getScheduledMonths(tx, loanId);
+      months.push(getMonths(last.month, 2)[1]);
+
+      await this.reschedule(tx, updatedLoan, months);
+
+      if (isDeducted && installment.payroll?.runId) {
+        await this.applyToPayroll(tx, installment.payroll);
+        await refreshRunTotals(tx, installment.payroll.runId);
+      }
+
+      await tx.auditLog.create({
+        data: {
+          action: "UPDATE",
+          userId: adminId,
+          entityType: "Loan",
+          entityId: loanId,
+          reason: skipDto.reason,
+          changes: JSON.stringify({
+            skippedMonth: skipDto.month,
+            skippedAmount: formatMoney(installment.amount),
+            capitalizedInterest: formatMoney(interest),
+            previousStatus: installment.status,
+            payrollId: installment.payrollId,
+            previousOutstanding: formatMoney(loan.outstandingPrincipal),
+            newOutstanding: formatMoney(outstandingPrincipal),
+          }),
+        },
+      });
+    });
+
+    return this.getLoan(loanId);
+  }
+
+  // Deducts every installment due by the payroll's month that no payroll has
+  // deducted yet, including any missed in earlier months, and derives the
+  // record's loan deductions from the installments linked to it. Each loan
+  // gets a deduction line item naming any earlier months caught up
+  async applyToPayroll(client: Prisma.TransactionClient, payroll: Payroll) {
+    const due = await client.loanInstallment.findMany({
+      where: {
+        status: LoanInstallmentStatus.SCHEDULED,
+        payrollId: null,
+        month: { lte: payroll.month },
+        loan: { employeeId: payroll.employeeId, status: LoanStatus.ACTIVE },
+      },
+      orderBy: { month: "asc" },
+    });
+
+    for (const installment of due) {
+      await client.loanInstallment.update({
+        where: { id: installment.id },
+        data: {
+          status: LoanInstallmentStatus.DEDUCTED,
+          payrollId: payroll.id,
+        },
+      });
+
+      const loan = await client.loan.update({
+        where: { id: installment.loanId },
+        data: {
+          outstandingPrincipal: { decrement: installment.principal },
+        },
+      });
+
+      if (!loan.outstandingPrincipal.gt(0)) {
+        await client.loan.update({
+          where: { id: loan.id },
+          data: { status: LoanStatus.CLOSED },
+        });
+      }
+    }
+
+    const installments = await client.loanInstallment.findMany({
+      where: { payrollId: payroll.id },
+      include: { loan: { select: { type: true } } },
+      orderBy: { month: "asc" },
+    });
+    const loanDeductions = sumMoney(
+      installments.map((installment) => installment.amount)
+    );
+
+    const byLoan = new Map<
+      string,
+      { type: LoanType; months: Date[]; amount: Money }
+    >();
+    for (const installment of installments) {
+      const line = byLoan.get(installment.loanId) ?? {
+        type: installment.loan.type as LoanType,
+        months: [],
+        amount: ZERO,
+      };
+      line.months.push(installment.month);
+      line.amount = line.amount.plus(installment.amount);
+      byLoan.set(installment.loanId, line);
+    }
+
+    await client.payrollLineItem.deleteMany({
+      where: {
+        payrollId: payroll.id,
+        code: { in: Object.values(LOAN_DEDUCTION_CODES) },
+      },
+    });
+    const firstSortOrder = await client.payrollLineItem.count({
+      where: { payrollId: payroll.id },
+    });
+    await client.payrollLineItem.createMany({
+      data: [...byLoan.values()].map((line, index) => ({
+        payrollId: payroll.id,
+        code: LOAN_DEDUCTION_CODES[line.type],
+        name: this.getDeductionName(line.type, line.months, payroll.month),
+        type: SalaryComponentType.DEDUCTION,
+        amount: line.amount,
+        sortOrder: firstSortOrder + index,
+      })),
+    });
+
+    return client.payroll.update({
+      where: { id: payroll.id },
+      data: {
+        loanDeductions,
+        netSalary: calculateNetSalary({ ...payroll, loanDeductions }),
+      },
+    });
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from "@nestjs/common";
+import { LoanService } from "./loan.service";
+import { LoanController } from "./loan.controller";
+import { getPrismaClient } from "@config/database.config";
+
+@Module({
+  providers: [
+    LoanService,
+    {
+      provide: "PrismaClient",
+      useValue: getPrismaClient(),
+    },
+  ],
+  controllers: [LoanController],
+  exports: [LoanService],
+})
+export class LoansModule {}
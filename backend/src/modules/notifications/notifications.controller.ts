@@ -1,7 +1,10 @@
 import { Controller, Get, UseGuards, UseFilters } from "@nestjs/common";
 import { NotificationsService } from "./notifications.service";
 import { JwtGuard } from "@common/guards/jwt.guard";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
 import { User, RequestUser } from "@common/decorators/user.decorator";
+import { Permission } from "@common/enums/permission.enum";
 import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
 
 @Controller("notifications")
@@ -10,7 +13,8 @@ export class NotificationsController {
   constructor(private notificationsService: NotificationsService) {}
 
   @Get()
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PROFILE_SELF)
   async getNotifications(@User() user: RequestUser) {
     return this.notificationsService.getNotifications(user.userId);
   }
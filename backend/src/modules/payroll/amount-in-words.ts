@@ -0,0 +1,89 @@
+import { MoneyValue, roundMoney } from "./money";
+
+const ONES = [
+  "",
+  "One",
+  "Two",
+  "Three",
+  "Four",
+  "Five",
+  "Six",
+  "Seven",
+  "Eight",
+  "Nine",
+  "Ten",
+  "Eleven",
+  "Twelve",
+  "Thirteen",
+  "Fourteen",
+  "Fifteen",
+  "Sixteen",
+  "Seventeen",
+  "Eighteen",
+  "Nineteen",
+];
+
+const TENS = [
+  "",
+  "",
+  "Twenty",
+  "Thirty",
+  "Forty",
+  "Fifty",
+  "Sixty",
+  "Seventy",
+  "Eighty",
+  "Ninety",
+];
+
+// Indian numbering: the last three digits, then groups of two
+const SCALES: [number, string][] = [
+  [10000000, "Crore"],
+  [100000, "Lakh"],
+  [1000, "Thousand"],
+  [100, "Hundred"],
+];
+
+function belowHundred(value: number): string {
+  if (value < 20) {
+    return ONES[value];
+  }
+  return [TENS[Math.floor(value / 10)], ONES[value % 10]]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function integerToWords(value: number): string {
+  if (value === 0) {
+    return "Zero";
+  }
+
+  const words: string[] = [];
+  let remaining = value;
+
+  for (const [scale, name] of SCALES) {
+    if (remaining >= scale) {
+      words.push(`${integerToWords(Math.floor(remaining / scale))} ${name}`);
+      remaining %= scale;
+    }
+  }
+
+  if (remaining > 0) {
+    words.push(belowHundred(remaining));
+  }
+
+  return words.join(" ");
+}
+
+// e.g. 77000.5 -> "Rupees Seventy Seven Thousand and Fifty Paise Only"
+export function amountInWords(amount: MoneyValue): string {
+  const value = roundMoney(amount);
+  const paise = value.abs().times(100).toNumber();
+  const rupees = Math.floor(paise / 100);
+  const fraction = paise % 100;
+  const sign = value.isNegative() ? "Minus " : "";
+
+  return `${sign}Rupees ${integerToWords(rupees)}${
+    fraction > 0 ? ` and ${belowHundred(fraction)} Paise` : ""
+  } Only`;
+}
@@ -0,0 +1,602 @@
+import { Injectable, NotFoundException, Inject } from "@nestjs/common";
+import {
+  PrismaClient,
+  Prisma,
+  Employee,
+  Payroll,
+  PayrollRun,
+  PayslipTemplate,
+} from "@prisma/client";
+import PDFDocument from "pdfkit";
+import { payrollConfig } from "@config/payroll.config";
+import {
+  FinancialYear,
+  getFinancialYear,
+  parseFinancialYear,
+} from "@modules/statutory/financial-year";
+import {
+  AnnualTaxComputation,
+  StatutoryService,
+  parseStatutoryBreakdown,
+} from "@modules/statutory/statutory.service";
+import {
+  PayslipFile,
+  PayslipService,
+  PUBLISHED_STATUSES,
+} from "./payslip.service";
+import { Money, formatAmount, sumMoney } from "./money";
+
+type SummaryPayroll = Payroll & { run: PayrollRun | null };
+
+export interface AnnualAmount {
+  code: string;
+  name: string;
+  amount: Money;
+}
+
+export interface AnnualSummaryMonth {
+  month: Date;
+  runStatus: string | null;
+  grossEarnings: Money;
+  totalDeductions: Money;
+  taxableIncome: Money;
+  taxDeducted: Money;
+  employerContributions: Money;
+  netSalary: Money;
+}
+
+export interface AnnualSummary {
+  financialYear: string;
+  from: Date;
+  to: Date;
+  currency: string;
+  employee: Pick<
+    Employee,
+    "id" | "firstName" | "lastName" | "department" | "designation"
+  >;
+  // False when records from runs not yet finalized are included
+  publishedOnly: boolean;
+  earnings: {
+    baseSalary: Money;
+    allowances: Money;
+    arrears: Money;
+    overtime: Money;
+    reimbursements: Money;
+    total: Money;
+  };
+  deductions: {
+    deductions: Money;
+    lossOfPay: Money;
+    arrearsRecovered: Money;
+    statutory: AnnualAmount[];
+    loanRepayments: Money;
+    total: Money;
+  };
+  employerContributions: AnnualAmount[];
+  taxableIncome: Money;
+  taxDeducted: Money;
+  netSalary: Money;
+  months: AnnualSummaryMonth[];
+}
+
+// Months of the financial year reported together, as in TDS returns
+const QUARTER_LENGTH = 3;
+
+@Injectable()
+export class AnnualStatementService {
+  constructor(
+    @Inject("PrismaClient") private prisma: PrismaClient,
+    private statutoryService: StatutoryService,
+    private payslipService: PayslipService
+  ) {}
+
+  private async findEmployeeOrThrow(userId: string): Promise<Employee> {
+    const employee = await this.prisma.employee.findUnique({
+      where: { userId },
+    });
+
+    if (!employee) {
+      throw new NotFoundException("Employee not found");
+    }
+
+    return employee;
+  }
+
+  private async findEmployeeByIdOrThrow(employeeId: string): Promise<Employee> {
+    const employee = await this.prisma.employee.findUnique({
+      where: { id: employeeId },
+    });
+
+    if (!employee) {
+      throw new NotFoundException("Employee not found");
+    }
+
+    return employee;
+  }
+
+  // The current financial year when none is given
+  private resolveFinancialYear(label?: string): FinancialYear {
+    return label ? parseFinancialYear(label) : getFinancialYear(new Date());
+  }
+
+  private formatMonth(month: Date): string {
+    return `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(
+      2,
+      "0"
+    )}`;
+  }
+
+  private getStatutoryComponents(payroll: Payroll) {
+    return (
+      parseStatutoryBreakdown(payroll.statutoryBreakdown)?.components ?? []
+    );
+  }
+
+  // Totals per statutory code, in the order codes first appear
+  private addAmount(
+    totals: AnnualAmount[],
+    code: string,
+    name: string,
+    amount: Money
+  ) {
+    if (amount.isZero()) {
+      return;
+    }
+
+    const total = totals.find((entry) => entry.code === code);
+    if (total) {
+      total.amount = total.amount.plus(amount);
+    } else {
+      totals.push({ code, name, amount });
+    }
+  }
+
+  private async getPayrolls(
+    employeeId: string,
+    financialYear: FinancialYear,
+    publishedOnly: boolean
+  ): Promise<SummaryPayroll[]> {
+    const payrolls = await this.prisma.payroll.findMany({
+      where: {
+        employeeId,
+        month: { gte: financialYear.start, lte: financialYear.lastMonth },
+      },
+      include: { run: true },
+      orderBy: { month: "asc" },
+    });
+
+    // Records entered outside a run are published as soon as they are saved
+    return publishedOnly
+      ? payrolls.filter(
+          (payroll) =>
+            !payroll.run || PUBLISHED_STATUSES.includes(payroll.run.status)
+        )
+      : payrolls;
+  }
+
+  private buildSummary(
+    employee: Employee,
+    financialYear: FinancialYear,
+    payrolls: SummaryPayroll[],
+    publishedOnly: boolean
+  ): AnnualSummary {
+    const statutory: AnnualAmount[] = [];
+    const employerContributions: AnnualAmount[] = [];
+
+    const months = payrolls.map((payroll) => {
+      const arrears = Prisma.Decimal.max(payroll.arrears, 0);
+      const arrearsRecovered = Prisma.Decimal.max(payroll.arrears.negated(), 0);
+
+      for (const component of this.getStatutoryComponents(payroll)) {
+        this.addAmount(
+          statutory,
+          component.code,
+          component.name,
+          component.employeeAmount
+        );
+        this.addAmount(
+          employerContributions,
+          component.code,
+          component.name,
+          component.employerAmount
+        );
+      }
+
+      return {
+        month: payroll.month,
+        runStatus: payroll.run?.status ?? null,
+        grossEarnings: sumMoney([
+          payroll.baseSalary,
+          payroll.allowances,
+          arrears,
+          payroll.overtimePay,
+          payroll.reimbursements,
+        ]),
+        totalDeductions: sumMoney([
+          payroll.deductions,
+          payroll.lossOfPayAmount,
+          arrearsRecovered,
+          payroll.statutoryDeductions,
+          payroll.loanDeductions,
+        ]),
+        taxableIncome: this.statutoryService.getTaxableIncome(payroll),
+        taxDeducted: this.statutoryService.getTaxDeducted(payroll),
+        employerContributions: payroll.employerContributions,
+        netSalary: payroll.netSalary,
+        arrears,
+        arrearsRecovered,
+      };
+    });
+
+    const total = (pick: (payroll: SummaryPayroll) => Money) =>
+      sumMoney(payrolls.map(pick));
+    const totalMonths = (pick: (month: (typeof months)[number]) => Money) =>
+      sumMoney(months.map(pick));
+
+    return {
+      financialYear: financialYear.label,
+      from: financialYear.start,
+      to: financialYear.lastMonth,
+      currency: payrollConfig.currency,
+      employee: {
+        id: employee.id,
+        firstName: employee.firstName,
+        lastName: employee.lastName,
+        department: employee.department,
+        designation: employee.designation,
+      },
+      publishedOnly,
+      earnings: {
+        baseSalary: total((payroll) => payroll.baseSalary),
+        allowances: total((payroll) => payroll.allowances),
+        arrears: totalMonths((month) => month.arrears),
+        overtime: total((payroll) => payroll.overtimePay),
+        reimbursements: total((payroll) => payroll.reimbursements),
+        total: totalMonths((month) => month.grossEarnings),
+      },
+      deductions: {
+        deductions: total((payroll) => payroll.deductions),
+        lossOfPay: total((payroll) => payroll.lossOfPayAmount),
+        arrearsRecovered: totalMonths((month) => month.arrearsRecovered),
+        statutory,
+        loanRepayments: total((payroll) => payroll.loanDeductions),
+        total: totalMonths((month) => month.totalDeductions),
+      },
+      employerContributions,
+      taxableIncome: totalMonths((month) => month.taxableIncome),
+      taxDeducted: totalMonths((month) => month.taxDeducted),
+      netSalary: total((payroll) => payroll.netSalary),
+      months: months.map(({ arrears, arrearsRecovered, ...month }) => month),
+    };
+  }
+
+  private async getSummary(
+    employee: Employee,
+    financialYear: FinancialYear,
+    publishedOnly: boolean
+  ): Promise<AnnualSummary> {
+    const payrolls = await this.getPayrolls(
+      employee.id,
+      financialYear,
+      publishedOnly
+    );
+    return this.buildSummary(employee, financialYear, payrolls, publishedOnly);
+  }
+
+  // Employees see the same published records their payslips come from
+  async getMyAnnualSummary(userId: string, fy?: string) {
+    const employee = await this.findEmployeeOrThrow(userId);
+    return this.getSummary(employee, this.resolveFinancialYear(fy), true);
+  }
+
+  // Includes draft runs so the year can be reviewed before it is closed
+  async getAnnualSummary(employeeId: string, fy?: string) {
+    const employee = await this.findEmployeeByIdOrThrow(employeeId);
+    return this.getSummary(employee, this.resolveFinancialYear(fy), false);
+  }
+
+  async getMyTaxStatement(userId: string, fy?: string): Promise<PayslipFile> {
+    const employee = await this.findEmployeeOrThrow(userId);
+    return this.renderTaxStatement(employee, this.resolveFinancialYear(fy));
+  }
+
+  async getTaxStatement(employeeId: string, fy?: string): Promise<PayslipFile> {
+    const employee = await this.findEmployeeByIdOrThrow(employeeId);
+    return this.renderTaxStatement(employee, this.resolveFinancialYear(fy));
+  }
+
+  // Statements only ever cover published payroll, whoever downloads them
+  private async renderTaxStatement(
+    employee: Employee,
+    financialYear: FinancialYear
+  ): Promise<PayslipFile> {
+    const summary = await this.getSummary(employee, financialYear, true);
+
+    if (summary.months.length === 0) {
+      throw new NotFoundException(
+        `No published payroll for ${financialYear.label}`
+      );
+    }
+
+    const computation = await this.statutoryService.getAnnualTaxComputation(
+      employee.id,
+      financialYear.label,
+      summary.taxableIncome
+    );
+    const name = `${employee.firstName}-${employee.lastName}`
+      .toLowerCase()
+      .replace(/[^a-z0-9-]+/g, "-");
+
+    return {
+      fileName: `tax-statement-${financialYear.label}-${name}.pdf`,
+      content: await this.renderPdf(
+        summary,
+        financialYear,
+        computation,
+        await this.payslipService.getTemplate()
+      ),
+    };
+  }
+
+  // Amount credited and tax deducted per quarter of the financial year
+  private getQuarters(summary: AnnualSummary, financialYear: FinancialYear) {
+    return [0, 1, 2, 3].map((quarter) => {
+      const from = new Date(
+        financialYear.start.getFullYear(),
+        financialYear.start.getMonth() + quarter * QUARTER_LENGTH,
+        1
+      );
+      const to = new Date(
+        from.getFullYear(),
+        from.getMonth() + QUARTER_LENGTH - 1,
+        1
+      );
+      const months = summary.months.filter(
+        (month) => month.month >= from && month.month <= to
+      );
+
+      return {
+        label: `Q${quarter + 1} (${this.formatMonth(
+          from
+        )} to ${this.formatMonth(to)})`,
+        taxableIncome: sumMoney(months.map((month) => month.taxableIncome)),
+        taxDeducted: sumMoney(months.map((month) => month.taxDeducted)),
+      };
+    });
+  }
+
+  private renderPdf(
+    summary: AnnualSummary,
+    financialYear: FinancialYear,
+    computation: AnnualTaxComputation | null,
+    template: PayslipTemplate
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: "A4", margin: 50 });
+      const chunks: Buffer[] = [];
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+
+      const left = 50;
+      const width = doc.page.width - 100;
+      const currency = summary.currency;
+      const { employee } = summary;
+      // The assessment year is the financial year after the one taxed
+      const assessmentYear = getFinancialYear(
+        new Date(
+          financialYear.lastMonth.getFullYear(),
+          financialYear.lastMonth.getMonth() + 1,
+          1
+        )
+      ).label;
+
+      const rule = () => {
+        doc
+          .moveTo(left, doc.y)
+          .lineTo(left + width, doc.y)
+          .strokeColor(template.accentColor)
+          .stroke();
+        doc.moveDown(0.5);
+      };
+
+      const heading = (text: string) => {
+        doc
+          .font("Helvetica-Bold")
+          .fontSize(10)
+          .fillColor(template.accentColor)
+          .text(text, left, doc.y, { width });
+        doc.fillColor("black").font("Helvetica").fontSize(9).moveDown(0.3);
+      };
+
+      const row = (label: string, value: string, bold = false) => {
+        const y = doc.y;
+        doc
+          .font(bold ? "Helvetica-Bold" : "Helvetica")
+          .text(label, left, y, { width: width - 130 })
+          .text(value, left + width - 130, y, { width: 130, align: "right" });
+        doc.x = left;
+      };
+
+      const amountRow = (label: string, amount: Money, bold = false) =>
+        row(label, `${currency} ${formatAmount(amount)}`, bold);
+
+      // Header
+      doc
+        .fillColor(template.accentColor)
+        .font("Helvetica-Bold")
+        .fontSize(18)
+        .text(template.companyName, left, 50, { width, align: "center" });
+      if (template.companyAddress) {
+        doc
+          .font("Helvetica")
+          .fontSize(9)
+          .text(template.companyAddress, { width, align: "center" });
+      }
+      doc
+        .moveDown(0.5)
+        .font("Helvetica-Bold")
+        .fontSize(12)
+        .text(`Annual Tax Statement - FY ${financialYear.label}`, {
+          width,
+          align: "center",
+        })
+        .font("Helvetica")
+        .fontSize(9)
+        .text(
+          `Statement of salary paid and tax deducted at source (Form 16 format), Assessment Year ${assessmentYear}`,
+          { width, align: "center" }
+        );
+      doc.moveDown(0.5);
+      rule();
+
+      // Part A: employer, employee and tax deducted per quarter
+      heading("Part A - Employee and Tax Deducted at Source");
+      const details: [string, string][] = [
+        ["Employee", `${employee.firstName} ${employee.lastName}`],
+        ["Employee ID", employee.id],
+        ["Department", employee.department ?? "-"],
+        ["Designation", employee.designation ?? "-"],
+        [
+          "Period",
+          `${this.formatMonth(summary.from)} to ${this.formatMonth(
+            summary.to
+          )}`,
+        ],
+        ["Tax Regime", computation?.taxRegime ?? "-"],
+      ];
+      const detailsTop = doc.y;
+      details.forEach(([label, value], index) => {
+        const x = left + (index % 2) * (width / 2);
+        const y = detailsTop + Math.floor(index / 2) * 16;
+        doc.font("Helvetica-Bold").text(`${label}:`, x, y, { width: 90 });
+        doc
+          .font("Helvetica")
+          .text(value, x + 95, y, { width: width / 2 - 100 });
+      });
+      doc.y = detailsTop + Math.ceil(details.length / 2) * 16 + 8;
+      doc.x = left;
+
+      const quarterTop = doc.y;
+      doc
+        .font("Helvetica-Bold")
+        .text("Quarter", left, quarterTop, { width: width - 260 })
+        .text(`Amount Credited (${currency})`, left + width - 260, quarterTop, {
+          width: 130,
+          align: "right",
+        })
+        .text(`Tax Deducted (${currency})`, left + width - 130, quarterTop, {
+          width: 130,
+          align: "right",
+        });
+      doc.font("Helvetica");
+      for (const quarter of this.getQuarters(summary, financialYear)) {
+        const y = doc.y + 2;
+        doc
+          .text(quarter.label, left, y, { width: width - 260 })
+          .text(formatAmount(quarter.taxableIncome), left + width - 260, y, {
+            width: 130,
+            align: "right",
+          })
+          .text(formatAmount(quarter.taxDeducted), left + width - 130, y, {
+            width: 130,
+            align: "right",
+          });
+      }
+      doc.x = left;
+      doc.moveDown(0.5);
+      rule();
+
+      // Part B: salary and the tax computed on it
+      heading("Part B - Details of Salary Paid and Tax Computed");
+      amountRow("Basic Salary", summary.earnings.baseSalary);
+      amountRow("Allowances", summary.earnings.allowances);
+      if (summary.earnings.arrears.gt(0)) {
+        amountRow("Arrears", summary.earnings.arrears);
+      }
+      if (summary.earnings.overtime.gt(0)) {
+        amountRow("Overtime", summary.earnings.overtime);
+      }
+      if (summary.deductions.arrearsRecovered.gt(0)) {
+        amountRow(
+          "Less: Arrears Recovered",
+          summary.deductions.arrearsRecovered
+        );
+      }
+      if (summary.deductions.lossOfPay.gt(0)) {
+        amountRow("Less: Loss of Pay", summary.deductions.lossOfPay);
+      }
+      amountRow("Gross Taxable Salary", summary.taxableIncome, true);
+      doc.moveDown(0.3);
+
+      if (computation) {
+        amountRow("Less: Standard Deduction", computation.standardDeduction);
+        if (computation.declaredDeductions.gt(0)) {
+          amountRow(
+            "Less: Declared Deductions (Chapter VI-A)",
+            computation.declaredDeductions
+          );
+        }
+        amountRow("Total Taxable Income", computation.taxableIncome, true);
+        amountRow(
+          "Tax on Total Income (after rebate, with cess)",
+          computation.taxPayable
+        );
+      } else {
+        doc.text(
+          `No statutory rates are set for ${financialYear.label}, so tax on total income is not computed.`,
+          left,
+          doc.y,
+          { width }
+        );
+      }
+      amountRow("Tax Deducted at Source", summary.taxDeducted, true);
+      if (computation) {
+        const balance = computation.taxPayable.minus(summary.taxDeducted);
+        amountRow(
+          balance.isNegative()
+            ? "Tax Deducted in Excess"
+            : "Balance Tax Payable",
+          balance.abs(),
+          true
+        );
+      }
+      doc.moveDown(0.5);
+      rule();
+
+      // Other amounts paid or deducted in the year
+      heading("Other Payroll Amounts");
+      for (const component of summary.deductions.statutory) {
+        amountRow(component.name, component.amount);
+      }
+      if (summary.deductions.deductions.gt(0)) {
+        amountRow("Other Deductions", summary.deductions.deductions);
+      }
+      if (summary.deductions.loanRepayments.gt(0)) {
+        amountRow("Loan Repayments", summary.deductions.loanRepayments);
+      }
+      if (summary.earnings.reimbursements.gt(0)) {
+        amountRow(
+          "Expense Reimbursements (not taxable)",
+          summary.earnings.reimbursements
+        );
+      }
+      for (const component of summary.employerContributions) {
+        amountRow(`Employer ${component.name}`, component.amount);
+      }
+      amountRow("Net Pay", summary.netSalary, true);
+      doc.moveDown(1);
+
+      // Footer
+      doc.fillColor("gray").font("Helvetica").fontSize(8);
+      doc.text(
+        `This is a computer-generated statement covering ${summary.months.length} published payroll month(s).`,
+        left,
+        doc.y,
+        { width, align: "center" }
+      );
+
+      doc.end();
+    });
+  }
+}
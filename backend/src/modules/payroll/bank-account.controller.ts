@@ -0,0 +1,65 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  UseFilters,
+} from "@nestjs/common";
+import { BankAccountService } from "./bank-account.service";
+import { UpsertBankAccountDto } from "./dto/bank-account.dto";
+import { JwtGuard } from "@common/guards/jwt.guard";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
+import { User, RequestUser } from "@common/decorators/user.decorator";
+import { Permission } from "@common/enums/permission.enum";
+import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
+
+// Bank details are limited to payroll writers; read-only payroll roles such
+// as auditors cannot see them
+@Controller("bank-accounts")
+@UseFilters(AllExceptionsFilter)
+export class BankAccountController {
+  constructor(private bankAccountService: BankAccountService) {}
+
+  @Get()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async getAccounts() {
+    return this.bankAccountService.getAccounts();
+  }
+
+  @Get(":employeeId")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async getAccount(@Param("employeeId") employeeId: string) {
+    return this.bankAccountService.getAccount(employeeId);
+  }
+
+  @Put(":employeeId")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async upsertAccount(
+    @Param("employeeId") employeeId: string,
+    @User() user: RequestUser,
+    @Body() upsertDto: UpsertBankAccountDto
+  ) {
+    return this.bankAccountService.upsertAccount(
+      employeeId,
+      upsertDto,
+      user.userId
+    );
+  }
+
+  @Delete(":employeeId")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async deleteAccount(
+    @Param("employeeId") employeeId: string,
+    @User() user: RequestUser
+  ) {
+    return this.bankAccountService.deleteAccount(employeeId, user.userId);
+  }
+}
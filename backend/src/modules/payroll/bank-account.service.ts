@@ -0,0 +1,182 @@
+import {
+  Injectable,
+  NotFoundException,
+  Inject,
+  OnModuleInit,
+} from "@nestjs/common";
+import { PrismaClient, BankAccount } from "@prisma/client";
+import { UpsertBankAccountDto } from "./dto/bank-account.dto";
+import { payrollConfig } from "@config/payroll.config";
+import { decrypt, encrypt } from "@common/utils/encryption";
+
+export interface DecryptedBankAccount {
+  accountHolderName: string;
+  accountNumber: string;
+  ifscCode: string;
+  bankName: string | null;
+}
+
+@Injectable()
+export class BankAccountService implements OnModuleInit {
+  constructor(@Inject("PrismaClient") private prisma: PrismaClient) {}
+
+  // A missing key would encrypt account numbers with a guessable secret
+  onModuleInit() {
+    if (!payrollConfig.bankDetailsKey) {
+      throw new Error("BANK_DETAILS_ENCRYPTION_KEY must be set");
+    }
+  }
+
+  // The encrypted account number never leaves this service
+  private toResponse(account: BankAccount) {
+    const { accountNumber, accountLast4, ...rest } = account;
+    return { ...rest, maskedAccountNumber: `XXXXXX${accountLast4}` };
+  }
+
+  private toAuditFields(account: BankAccount | null) {
+    return (
+      account && {
+        accountHolderName: account.accountHolderName,
+        accountLast4: account.accountLast4,
+        ifscCode: account.ifscCode,
+        bankName: account.bankName,
+      }
+    );
+  }
+
+  async getAccounts() {
+    const accounts = await this.prisma.bankAccount.findMany({
+      include: {
+        employee: {
+          select: { firstName: true, lastName: true, department: true },
+        },
+      },
+      orderBy: { employee: { firstName: "asc" } },
+    });
+
+    return accounts.map(({ employee, ...account }) => ({
+      ...this.toResponse(account),
+      employee,
+    }));
+  }
+
+  async getAccount(employeeId: string) {
+    const account = await this.prisma.bankAccount.findUnique({
+      where: { employeeId },
+    });
+
+    if (!account) {
+      throw new NotFoundException("No bank account on record");
+    }
+
+    return this.toResponse(account);
+  }
+
+  async upsertAccount(
+    employeeId: string,
+    upsertDto: UpsertBankAccountDto,
+    adminId: string
+  ) {
+    const employee = await this.prisma.employee.findUnique({
+      where: { id: employeeId },
+      include: { bankAccount: true },
+    });
+
+    if (!employee) {
+      throw new NotFoundException("Employee not found");
+    }
+
+    const data = {
+      accountHolderName: upsertDto.accountHolderName,
+      accountNumber: encrypt(
+        upsertDto.accountNumber,
+        payrollConfig.bankDetailsKey
+      ),
+      accountLast4: upsertDto.accountNumber.slice(-4),
+      ifscCode: upsertDto.ifscCode,
+      bankName: upsertDto.bankName ?? null,
+      updatedBy: adminId,
+    };
+
+    return this.prisma.$transaction(async (tx) => {
+      const account = await tx.bankAccount.upsert({
+        where: { employeeId },
+        create: { ...data, employeeId },
+        update: data,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: employee.bankAccount ? "UPDATE" : "CREATE",
+          userId: adminId,
+          entityType: "BankAccount",
+          entityId: account.id,
+          reason: `Bank account ${
+            employee.bankAccount ? "updated" : "added"
+          } for ${employee.firstName} ${employee.lastName}`,
+          changes: JSON.stringify({
+            employeeId,
+            previous: this.toAuditFields(employee.bankAccount),
+            updated: this.toAuditFields(account),
+          }),
+        },
+      });
+
+      return this.toResponse(account);
+    });
+  }
+
+  async deleteAccount(employeeId: string, adminId: string) {
+    const account = await this.prisma.bankAccount.findUnique({
+      where: { employeeId },
+    });
+
+    if (!account) {
+      throw new NotFoundException("No bank account on record");
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.bankAccount.delete({ where: { id: account.id } });
+
+      await tx.auditLog.create({
+        data: {
+          action: "DELETE",
+          userId: adminId,
+          entityType: "BankAccount",
+          entityId: account.id,
+          reason: "Bank account removed",
+          changes: JSON.stringify({
+            employeeId,
+            previous: this.toAuditFields(account),
+          }),
+        },
+      });
+    });
+
+    return { message: "Bank account removed" };
+  }
+
+  // Full account details for building transfer files
+  async getDecryptedAccounts(
+    employeeIds: string[]
+  ): Promise<Map<string, DecryptedBankAccount>> {
+    const accounts = await this.prisma.bankAccount.findMany({
+      where: { employeeId: { in: employeeIds } },
+    });
+
+    return new Map(
+      accounts.map((account) => [
+        account.employeeId,
+        {
+          accountHolderName: account.accountHolderName,
+          accountNumber: decrypt(
+            account.accountNumber,
+            payrollConfig.bankDetailsKey
+          ),
+          ifscCode: account.ifscCode,
+          bankName: account.bankName,
+        },
+      ])
+    );
+  }
+}
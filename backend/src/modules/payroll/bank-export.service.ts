@@ -0,0 +1,396 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Inject,
+} from "@nestjs/common";
+import { PrismaClient } from "@prisma/client";
+import { createHash } from "crypto";
+import { BankExportFormat, PayrollRunStatus } from "@common/enums/payroll.enum";
+import { payrollConfig } from "@config/payroll.config";
+import {
+  BankAccountService,
+  DecryptedBankAccount,
+} from "./bank-account.service";
+import { Money, formatMoney, sumMoney } from "./money";
+
+interface Transfer {
+  employeeId: string;
+  employeeName: string;
+  account: DecryptedBankAccount;
+  amount: Money;
+  reference: string; // Unique per transfer, at most 35 characters
+}
+
+export interface BankExportSummary {
+  format: BankExportFormat;
+  fileName: string;
+  recordCount: number;
+  controlSum: string; // Total of every transfer
+  currency: string;
+  sha256: string; // Of the file content, to check the upload is unchanged
+}
+
+export interface BankExportFile {
+  fileName: string;
+  content: Buffer;
+  contentType: string;
+  summary: BankExportSummary;
+}
+
+// Only finalized salaries can be paid out
+const EXPORTABLE_STATUSES: string[] = [
+  PayrollRunStatus.FINALIZED,
+  PayrollRunStatus.PAID,
+];
+
+const CONTENT_TYPES: Record<BankExportFormat, string> = {
+  [BankExportFormat.CSV]: "text/csv",
+  [BankExportFormat.NEFT]: "text/csv",
+  [BankExportFormat.PAIN_001]: "application/xml",
+};
+
+const FILE_EXTENSIONS: Record<BankExportFormat, string> = {
+  [BankExportFormat.CSV]: "csv",
+  [BankExportFormat.NEFT]: "neft.csv",
+  [BankExportFormat.PAIN_001]: "pain001.xml",
+};
+
+@Injectable()
+export class BankExportService {
+  constructor(
+    @Inject("PrismaClient") private prisma: PrismaClient,
+    private bankAccountService: BankAccountService
+  ) {}
+
+  private formatMonth(month: Date): string {
+    return `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(
+      2,
+      "0"
+    )}`;
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split("T")[0];
+  }
+
+  private csvField(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  private toCsv(rows: string[][]): string {
+    return rows
+      .map((row) => row.map((field) => this.csvField(field)).join(","))
+      .join("\n")
+      .concat("\n");
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;");
+  }
+
+  // NEFT and RTGS accept letters, digits, spaces and a little punctuation in
+  // names and narrations
+  private bankText(value: string, maxLength: number): string {
+    return value
+      .replace(/[^A-Za-z0-9 .\-/]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, maxLength);
+  }
+
+  private buildCsv(transfers: Transfer[], currency: string): string {
+    return this.toCsv([
+      [
+        "Employee ID",
+        "Employee Name",
+        "Account Holder",
+        "Account Number",
+        "IFSC",
+        "Bank",
+        "Amount",
+        "Currency",
+        "Reference",
+      ],
+      ...transfers.map((transfer) => [
+        transfer.employeeId,
+        transfer.employeeName,
+        transfer.account.accountHolderName,
+        transfer.account.accountNumber,
+        transfer.account.ifscCode,
+        transfer.account.bankName ?? "",
+        formatMoney(transfer.amount),
+        currency,
+        transfer.reference,
+      ]),
+    ]);
+  }
+
+  // One row per transfer, no header: payment mode, beneficiary account, IFSC,
+  // name, amount, debit account, value date, reference and narration
+  private buildNeft(
+    transfers: Transfer[],
+    month: Date,
+    valueDate: Date
+  ): string {
+    const [year, monthNum, day] = this.formatDate(valueDate).split("-");
+    const narration = `Salary ${this.formatMonth(month)}`;
+
+    return this.toCsv(
+      transfers.map((transfer) => [
+        transfer.amount.gte(payrollConfig.rtgsMinimumAmount) ? "R" : "N",
+        transfer.account.accountNumber,
+        transfer.account.ifscCode,
+        this.bankText(transfer.account.accountHolderName, 35),
+        formatMoney(transfer.amount),
+        payrollConfig.debitAccountNumber,
+        `${day}/${monthNum}/${year}`,
+        transfer.reference,
+        narration,
+      ])
+    );
+  }
+
+  // ISO 20022 pain.001.001.03 with a single salary payment batch
+  private buildPain001(
+    transfers: Transfer[],
+    month: Date,
+    currency: string,
+    messageId: string,
+    createdAt: Date
+  ): string {
+    const controlSum = formatMoney(
+      sumMoney(transfers.map((transfer) => transfer.amount))
+    );
+    const text = (value: string) => this.escapeXml(value);
+
+    const transactions = transfers.map(
+      (transfer) => `      <CdtTrfTxInf>
+        <PmtId>
+          <EndToEndId>${text(transfer.reference)}</EndToEndId>
+        </PmtId>
+        <Amt>
+          <InstdAmt Ccy="${text(currency)}">${formatMoney(
+        transfer.amount
+      )}</InstdAmt>
+        </Amt>
+        <CdtrAgt>
+          <FinInstnId>
+            <ClrSysMmbId>
+              <ClrSysId>
+                <Prtry>IFSC</Prtry>
+              </ClrSysId>
+              <MmbId>${text(transfer.account.ifscCode)}</MmbId>
+            </ClrSysMmbId>
+          </FinInstnId>
+        </CdtrAgt>
+        <Cdtr>
+          <Nm>${text(transfer.account.accountHolderName.slice(0, 70))}</Nm>
+        </Cdtr>
+        <CdtrAcct>
+          <Id>
+            <Othr>
+              <Id>${text(transfer.account.accountNumber)}</Id>
+            </Othr>
+          </Id>
+        </CdtrAcct>
+        <RmtInf>
+          <Ustrd>Salary ${this.formatMonth(month)}</Ustrd>
+        </RmtInf>
+      </CdtTrfTxInf>`
+    );
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03">
+  <CstmrCdtTrfInitn>
+    <GrpHdr>
+      <MsgId>${text(messageId)}</MsgId>
+      <CreDtTm>${createdAt.toISOString().split(".")[0]}</CreDtTm>
+      <NbOfTxs>${transfers.length}</NbOfTxs>
+      <CtrlSum>${controlSum}</CtrlSum>
+      <InitgPty>
+        <Nm>${text(payrollConfig.companyName)}</Nm>
+      </InitgPty>
+    </GrpHdr>
+    <PmtInf>
+      <PmtInfId>${text(messageId)}</PmtInfId>
+      <PmtMtd>TRF</PmtMtd>
+      <NbOfTxs>${transfers.length}</NbOfTxs>
+      <CtrlSum>${controlSum}</CtrlSum>
+      <PmtTpInf>
+        <CtgyPurp>
+          <Cd>SALA</Cd>
+        </CtgyPurp>
+      </PmtTpInf>
+      <ReqdExctnDt>${this.formatDate(createdAt)}</ReqdExctnDt>
+      <Dbtr>
+        <Nm>${text(payrollConfig.companyName)}</Nm>
+      </Dbtr>
+      <DbtrAcct>
+        <Id>
+          <Othr>
+            <Id>${text(payrollConfig.debitAccountNumber)}</Id>
+          </Othr>
+        </Id>
+      </DbtrAcct>
+      <DbtrAgt>
+        <FinInstnId>
+          <ClrSysMmbId>
+            <ClrSysId>
+              <Prtry>IFSC</Prtry>
+            </ClrSysId>
+            <MmbId>${text(payrollConfig.debitIfscCode)}</MmbId>
+          </ClrSysMmbId>
+        </FinInstnId>
+      </DbtrAgt>
+      <ChrgBr>SLEV</ChrgBr>
+${transactions.join("\n")}
+    </PmtInf>
+  </CstmrCdtTrfInitn>
+</Document>
+`;
+  }
+
+  // Builds a transfer file of every positive net salary in a finalized run.
+  // Refuses to export while any payee is missing bank details, so a file
+  // never silently leaves someone unpaid
+  async exportRun(
+    runId: string,
+    format: BankExportFormat,
+    adminId: string
+  ): Promise<BankExportFile> {
+    const run = await this.prisma.payrollRun.findUnique({
+      where: { id: runId },
+    });
+
+    if (!run) {
+      throw new NotFoundException("Payroll run not found");
+    }
+
+    if (!EXPORTABLE_STATUSES.includes(run.status)) {
+      throw new BadRequestException(
+        "Only finalized or paid payroll runs can be exported"
+      );
+    }
+
+    if (format !== BankExportFormat.CSV && !payrollConfig.debitAccountNumber) {
+      throw new BadRequestException(
+        "COMPANY_BANK_ACCOUNT must be configured to export bank transfer files"
+      );
+    }
+
+    const payrolls = await this.prisma.payroll.findMany({
+      where: { runId, netSalary: { gt: 0 } },
+      include: { employee: { select: { firstName: true, lastName: true } } },
+      orderBy: { employee: { firstName: "asc" } },
+    });
+
+    if (payrolls.length === 0) {
+      throw new BadRequestException("The run has no net pay to transfer");
+    }
+
+    const currencies = new Set(payrolls.map((payroll) => payroll.currency));
+    if (currencies.size > 1) {
+      throw new BadRequestException(
+        `The run mixes currencies (${[...currencies].join(", ")})`
+      );
+    }
+    const [currency] = currencies;
+
+    if (format === BankExportFormat.NEFT && currency !== "INR") {
+      throw new BadRequestException("NEFT/RTGS transfers must be in INR");
+    }
+
+    const accounts = await this.bankAccountService.getDecryptedAccounts(
+      payrolls.map((payroll) => payroll.employeeId)
+    );
+    const missing = payrolls.filter(
+      (payroll) => !accounts.has(payroll.employeeId)
+    );
+
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `No bank account on record for ${missing
+          .map(({ employee }) => `${employee.firstName} ${employee.lastName}`)
+          .join(", ")}`
+      );
+    }
+
+    const monthLabel = this.formatMonth(run.month);
+    const transfers: Transfer[] = payrolls.map((payroll) => ({
+      employeeId: payroll.employeeId,
+      employeeName: `${payroll.employee.firstName} ${payroll.employee.lastName}`,
+      account: accounts.get(payroll.employeeId)!,
+      amount: payroll.netSalary,
+      reference: `SAL${monthLabel.replace("-", "")}${payroll.id}`.slice(0, 35),
+    }));
+
+    const createdAt = new Date();
+    const messageId = `SAL${monthLabel.replace("-", "")}${createdAt.getTime()}`;
+    let text: string;
+    switch (format) {
+      case BankExportFormat.NEFT:
+        text = this.buildNeft(transfers, run.month, createdAt);
+        break;
+      case BankExportFormat.PAIN_001:
+        text = this.buildPain001(
+          transfers,
+          run.month,
+          currency,
+          messageId,
+          createdAt
+        );
+        break;
+      default:
+        text = this.buildCsv(transfers, currency);
+    }
+    const content = Buffer.from(text, "utf8");
+
+    const summary: BankExportSummary = {
+      format,
+      fileName: `salary-transfers-${monthLabel}.${FILE_EXTENSIONS[format]}`,
+      recordCount: transfers.length,
+      controlSum: formatMoney(
+        sumMoney(transfers.map((transfer) => transfer.amount))
+      ),
+      currency,
+      sha256: createHash("sha256").update(content).digest("hex"),
+    };
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: "EXPORT",
+        userId: adminId,
+        entityType: "PayrollRun",
+        entityId: run.id,
+        reason: `Bank transfer file exported for ${monthLabel}`,
+        changes: JSON.stringify(summary),
+      },
+    });
+
+    return {
+      fileName: summary.fileName,
+      content,
+      contentType: CONTENT_TYPES[format],
+      summary,
+    };
+  }
+
+  async getExportHistory(runId: string) {
+    const exports = await this.prisma.auditLog.findMany({
+      where: { entityType: "PayrollRun", entityId: runId, action: "EXPORT" },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return exports.map((entry) => ({
+      exportedAt: entry.createdAt,
+      exportedBy: entry.userId,
+      ...(JSON.parse(entry.changes ?? "{}") as BankExportSummary),
+    }));
+  }
+}
@@ -0,0 +1,26 @@
+import { IsString, IsOptional, IsEnum, Matches } from "class-validator";
+import { BankExportFormat } from "@common/enums/payroll.enum";
+
+export class UpsertBankAccountDto {
+  @IsString()
+  accountHolderName!: string;
+
+  @Matches(/^\d{9,18}$/, {
+    message: "accountNumber must be 9 to 18 digits",
+  })
+  accountNumber!: string;
+
+  @Matches(/^[A-Z]{4}0[A-Z0-9]{6}$/, {
+    message: "ifscCode must be an 11 character IFSC such as HDFC0001234",
+  })
+  ifscCode!: string;
+
+  @IsOptional()
+  @IsString()
+  bankName?: string;
+}
+
+export class BankExportQueryDto {
+  @IsEnum(BankExportFormat)
+  format!: BankExportFormat;
+}
@@ -0,0 +1,13 @@
+import { IsString, Matches } from "class-validator";
+
+export class CreatePayrollRunDto {
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, {
+    message: "month must be in YYYY-MM format",
+  })
+  month!: string;
+}
+
+export class ReopenPayrollRunDto {
+  @IsString()
+  reason!: string;
+}
@@ -1,19 +1,17 @@
-import { IsNumber, IsDateString, IsOptional, Min } from "class-validator";
+import { IsDateString, IsOptional } from "class-validator";
+import { IsMoney } from "../money";
 
 export class CreatePayrollDto {
-  @IsNumber()
-  @Min(0)
-  baseSalary!: number;
+  @IsMoney()
+  baseSalary!: string;
 
   @IsOptional()
-  @IsNumber()
-  @Min(0)
-  allowances?: number;
+  @IsMoney()
+  allowances?: string;
 
   @IsOptional()
-  @IsNumber()
-  @Min(0)
-  deductions?: number;
+  @IsMoney()
+  deductions?: string;
 
   @IsDateString()
   effectiveDate!: string; // ISO date format
@@ -21,19 +19,16 @@ export class CreatePayrollDto {
 
 export class UpdatePayrollDto {
   @IsOptional()
-  @IsNumber()
-  @Min(0)
-  baseSalary?: number;
+  @IsMoney()
+  baseSalary?: string;
 
   @IsOptional()
-  @IsNumber()
-  @Min(0)
-  allowances?: number;
+  @IsMoney()
+  allowances?: string;
 
   @IsOptional()
-  @IsNumber()
-  @Min(0)
-  deductions?: number;
+  @IsMoney()
+  deductions?: string;
 
   @IsOptional()
   @IsDateString()
@@ -0,0 +1,33 @@
+import { IsString, IsOptional, IsBoolean, Matches } from "class-validator";
+
+export class UpdatePayslipTemplateDto {
+  @IsOptional()
+  @IsString()
+  companyName?: string;
+
+  @IsOptional()
+  @IsString()
+  companyAddress?: string;
+
+  @IsOptional()
+  @IsString()
+  title?: string;
+
+  @IsOptional()
+  @IsString()
+  footerNote?: string;
+
+  @IsOptional()
+  @Matches(/^#[0-9a-fA-F]{6}$/, {
+    message: "accentColor must be a hex colour such as #1f2937",
+  })
+  accentColor?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  showYtd?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  showAmountInWords?: boolean;
+}
@@ -0,0 +1,22 @@
+import { IsString, IsOptional, IsDateString } from "class-validator";
+import { IsMoney } from "../money";
+
+export class CreateSalaryRevisionDto {
+  @IsString()
+  employeeId!: string;
+
+  @IsMoney()
+  monthlyGross!: string;
+
+  // May be backdated into finalized months; arrears follow in the next payroll
+  @IsDateString()
+  effectiveDate!: string;
+
+  // Defaults to the employee's current structure
+  @IsOptional()
+  @IsString()
+  structureId?: string;
+
+  @IsString()
+  reason!: string;
+}
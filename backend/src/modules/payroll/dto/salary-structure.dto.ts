@@ -0,0 +1,116 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  IsBoolean,
+  IsArray,
+  IsDateString,
+  ArrayMinSize,
+  Matches,
+  Min,
+  Max,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { IsMoney } from "../money";
+import {
+  SalaryCalculationType,
+  SalaryComponentType,
+} from "@common/enums/payroll.enum";
+
+export class SalaryComponentDto {
+  @Matches(/^[A-Z][A-Z0-9_]*$/, {
+    message: "code must be upper case letters, digits and underscores",
+  })
+  code!: string;
+
+  @IsString()
+  name!: string;
+
+  @IsEnum(SalaryComponentType)
+  type!: SalaryComponentType;
+
+  @IsEnum(SalaryCalculationType)
+  calculationType!: SalaryCalculationType;
+
+  @ValidateIf(
+    (component: SalaryComponentDto) =>
+      component.calculationType === SalaryCalculationType.FIXED
+  )
+  @IsMoney()
+  amount?: string;
+
+  @ValidateIf(
+    (component: SalaryComponentDto) =>
+      component.calculationType === SalaryCalculationType.PERCENTAGE
+  )
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  percentage?: number;
+
+  // A component code or GROSS
+  @ValidateIf(
+    (component: SalaryComponentDto) =>
+      component.calculationType === SalaryCalculationType.PERCENTAGE
+  )
+  @IsString()
+  baseCode?: string;
+
+  @ValidateIf(
+    (component: SalaryComponentDto) =>
+      component.calculationType === SalaryCalculationType.FORMULA
+  )
+  @IsString()
+  formula?: string;
+}
+
+export class CreateSalaryStructureDto {
+  @IsString()
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  // Line items are listed in array order
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => SalaryComponentDto)
+  components!: SalaryComponentDto[];
+}
+
+export class UpdateSalaryStructureDto {
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => SalaryComponentDto)
+  components?: SalaryComponentDto[];
+}
+
+export class AssignSalaryStructureDto {
+  @IsString()
+  employeeId!: string;
+
+  @IsMoney()
+  monthlyGross!: string;
+
+  @IsDateString()
+  effectiveFrom!: string;
+}
@@ -0,0 +1,196 @@
+import { Injectable, Inject } from "@nestjs/common";
+import { PrismaClient, Prisma, Leave, Payroll } from "@prisma/client";
+import { AttendanceStatus } from "@common/enums/attendance-status.enum";
+import {
+  LeaveDuration,
+  LeaveStatus,
+  LeaveType,
+} from "@common/enums/leave-status.enum";
+import { calendarConfig } from "@config/calendar.config";
+import { CalendarService } from "@modules/calendar/calendar.service";
+import { getLateMarkHalfDays } from "@modules/attendance/shift-schedule";
+import {
+  Money,
+  MoneyValue,
+  ZERO,
+  calculateNetSalary,
+  formatMoney,
+  roundMoney,
+  toMoney,
+} from "./money";
+
+export interface LossOfPayBreakdown {
+  workingDays: number;
+  absentDays: number;
+  halfDays: number;
+  lateMarks: number;
+  lateMarkHalfDays: number;
+  unpaidLeaveDays: number;
+  lossOfPayDays: number;
+  payableDays: number;
+  perDayRate: Money;
+  lossOfPayAmount: Money;
+}
+
+@Injectable()
+export class LossOfPayService {
+  constructor(
+    @Inject("PrismaClient") private prisma: PrismaClient,
+    private calendarService: CalendarService
+  ) {}
+
+  private toDateKey(date: Date): string {
+    return date.toISOString().split("T")[0];
+  }
+
+  // Day counts are fractions of a day, not money
+  private roundDays(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private getDayFraction(leave: Leave): number {
+    switch (leave.duration) {
+      case LeaveDuration.FIRST_HALF:
+      case LeaveDuration.SECOND_HALF:
+        return 0.5;
+      case LeaveDuration.HOURS:
+        return Number(leave.hours ?? 0) / calendarConfig.workingHoursPerDay;
+      default:
+        return 1;
+    }
+  }
+
+  // ABSENT days, half of each HALF_DAY and approved UNPAID leave are unpaid,
+  // as is a half-day for every ATTENDANCE_LATE_MARKS_PER_HALF_DAY late
+  // arrivals on otherwise PRESENT days. Days covered by approved leave are
+  // judged by the leave, not attendance, since approval itself writes LEAVE
+  // and HALF_DAY attendance rows
+  async calculate(
+    employeeId: string,
+    month: Date,
+    grossSalary: MoneyValue,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<LossOfPayBreakdown> {
+    const monthStart = new Date(month.getFullYear(), month.getMonth(), 1);
+    const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+
+    const [workingDays, records, leaves] = await Promise.all([
+      this.calendarService.getWorkingDays(monthStart, monthEnd, client),
+      client.attendance.findMany({
+        where: { employeeId, date: { gte: monthStart, lte: monthEnd } },
+      }),
+      client.leave.findMany({
+        where: {
+          employeeId,
+          status: LeaveStatus.APPROVED,
+          startDate: { lte: monthEnd },
+          endDate: { gte: monthStart },
+        },
+      }),
+    ]);
+
+    const workingDayKeys = new Set(workingDays.map((d) => this.toDateKey(d)));
+    const leaveDayKeys = new Set<string>();
+    let unpaidLeaveDays = 0;
+
+    for (const leave of leaves) {
+      const fraction = this.getDayFraction(leave);
+
+      for (const date of workingDays) {
+        if (date < leave.startDate || date > leave.endDate) {
+          continue;
+        }
+
+        leaveDayKeys.add(this.toDateKey(date));
+        if (leave.leaveType === LeaveType.UNPAID) {
+          unpaidLeaveDays += fraction;
+        }
+      }
+    }
+
+    let absentDays = 0;
+    let halfDays = 0;
+    let lateMarks = 0;
+
+    for (const record of records) {
+      const key = this.toDateKey(record.date);
+      if (!workingDayKeys.has(key) || leaveDayKeys.has(key)) {
+        continue;
+      }
+
+      if (record.status === AttendanceStatus.ABSENT) {
+        absentDays++;
+      } else if (record.status === AttendanceStatus.HALF_DAY) {
+        halfDays++;
+      } else if (record.lateMinutes > 0) {
+        lateMarks++;
+      }
+    }
+
+    const lateMarkHalfDays = getLateMarkHalfDays(lateMarks);
+
+    unpaidLeaveDays = this.roundDays(unpaidLeaveDays);
+    const lossOfPayDays = Math.min(
+      this.roundDays(
+        absentDays + (halfDays + lateMarkHalfDays) * 0.5 + unpaidLeaveDays
+      ),
+      workingDays.length
+    );
+    const gross = toMoney(grossSalary);
+    const perDayRate =
+      workingDays.length > 0
+        ? roundMoney(gross.dividedBy(workingDays.length))
+        : ZERO;
+
+    return {
+      workingDays: workingDays.length,
+      absentDays,
+      halfDays,
+      lateMarks,
+      lateMarkHalfDays,
+      unpaidLeaveDays,
+      lossOfPayDays,
+      payableDays: this.roundDays(workingDays.length - lossOfPayDays),
+      perDayRate,
+      lossOfPayAmount: Prisma.Decimal.min(
+        roundMoney(perDayRate.times(lossOfPayDays)),
+        gross
+      ),
+    };
+  }
+
+  toPayrollData(breakdown: LossOfPayBreakdown) {
+    return {
+      payableDays: breakdown.payableDays,
+      lossOfPayDays: breakdown.lossOfPayDays,
+      lossOfPayAmount: breakdown.lossOfPayAmount,
+      lossOfPayBreakdown: {
+        ...breakdown,
+        perDayRate: formatMoney(breakdown.perDayRate),
+        lossOfPayAmount: formatMoney(breakdown.lossOfPayAmount),
+      },
+    };
+  }
+
+  // Recomputes loss of pay and net salary for a stored payroll record;
+  // arrears are paid in full and never reduced by loss of pay
+  async applyToPayroll(client: Prisma.TransactionClient, payroll: Payroll) {
+    const breakdown = await this.calculate(
+      payroll.employeeId,
+      payroll.month,
+      payroll.baseSalary.plus(payroll.allowances),
+      client
+    );
+
+    return client.payroll.update({
+      where: { id: payroll.id },
+      data: {
+        ...this.toPayrollData(breakdown),
+        netSalary: calculateNetSalary({
+          ...payroll,
+          lossOfPayAmount: breakdown.lossOfPayAmount,
+        }),
+      },
+    });
+  }
+}
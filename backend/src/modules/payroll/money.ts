@@ -0,0 +1,96 @@
+import { Prisma } from "@prisma/client";
+import { Matches, ValidationOptions } from "class-validator";
+
+// Payroll amounts are Prisma.Decimal from the database to the response and
+// are never converted to floating point for arithmetic. Rounding rules:
+// - every component (line item, loss of pay, arrears, statutory amount) is
+//   rounded half up to 2 decimal places when it is calculated
+// - totals and net salary add up already rounded components, so they are
+//   exact, and are rounded to 2 decimal places as a last step
+// - statutory calculators round their contributions to whole rupees
+export type Money = Prisma.Decimal;
+export type MoneyValue = Prisma.Decimal.Value | null | undefined;
+
+export const ZERO = new Prisma.Decimal(0);
+
+// A non-negative amount with at most 2 decimal places
+export const MONEY_PATTERN = /^\d+(\.\d{1,2})?$/;
+
+export function toMoney(value: MoneyValue): Money {
+  return new Prisma.Decimal(value ?? 0);
+}
+
+export function roundMoney(value: MoneyValue): Money {
+  return toMoney(value).toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+}
+
+export function roundRupees(
+  value: MoneyValue,
+  rounding: Prisma.Decimal.Rounding = Prisma.Decimal.ROUND_HALF_UP
+): Money {
+  return toMoney(value).toDecimalPlaces(0, rounding);
+}
+
+export function sumMoney(values: MoneyValue[]): Money {
+  return values.reduce<Money>(
+    (total, value) => total.plus(toMoney(value)),
+    ZERO
+  );
+}
+
+export interface NetSalaryComponents {
+  baseSalary: MoneyValue;
+  allowances: MoneyValue;
+  arrears?: MoneyValue;
+  overtimePay?: MoneyValue;
+  reimbursements?: MoneyValue;
+  deductions: MoneyValue;
+  lossOfPayAmount?: MoneyValue;
+  statutoryDeductions?: MoneyValue;
+  loanDeductions?: MoneyValue;
+}
+
+// Gross plus arrears, overtime and reimbursements, less every deduction. Net salary is
+// only derived here
+export function calculateNetSalary(components: NetSalaryComponents): Money {
+  return roundMoney(
+    sumMoney([
+      components.baseSalary,
+      components.allowances,
+      components.arrears,
+      components.overtimePay,
+      components.reimbursements,
+    ]).minus(
+      sumMoney([
+        components.deductions,
+        components.lossOfPayAmount,
+        components.statutoryDeductions,
+        components.loanDeductions,
+      ])
+    )
+  );
+}
+
+export function formatMoney(value: MoneyValue): string {
+  return roundMoney(value).toFixed(2);
+}
+
+// Groups digits the Indian way (12,34,567.89) without going through a float
+export function formatAmount(amount: MoneyValue): string {
+  const [rupees, paise] = toMoney(amount).abs().toFixed(2).split(".");
+  const lastThree = rupees.slice(-3);
+  const rest = rupees.slice(0, -3).replace(/\B(?=(\d{2})+$)/g, ",");
+  const sign = toMoney(amount).isNegative() ? "-" : "";
+
+  return `${sign}${rest ? `${rest},` : ""}${lastThree}.${paise}`;
+}
+
+// Request amounts arrive as JSON numbers or strings and are validated as
+// non-negative decimals with at most 2 places before becoming Decimals
+export function IsMoney(validationOptions?: ValidationOptions) {
+  return Matches(MONEY_PATTERN, {
+    message:
+      "$property must be a non-negative amount with at most 2 decimal places",
+    ...validationOptions,
+  });
+}
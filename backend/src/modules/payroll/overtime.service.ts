@@ -0,0 +1,92 @@
+import { Injectable, Inject } from "@nestjs/common";
+import { PrismaClient, Prisma, Payroll } from "@prisma/client";
+import { OvertimeStatus } from "@common/enums/attendance-status.enum";
+import { attendanceConfig } from "@config/attendance.config";
+import { calendarConfig } from "@config/calendar.config";
+import { CalendarService } from "@modules/calendar/calendar.service";
+import {
+  Money,
+  MoneyValue,
+  ZERO,
+  calculateNetSalary,
+  roundMoney,
+  toMoney,
+} from "./money";
+
+export interface OvertimeBreakdown {
+  approvedMinutes: number;
+  hourlyRate: Money;
+  overtimePay: Money;
+}
+
+@Injectable()
+export class OvertimeService {
+  constructor(
+    @Inject("PrismaClient") private prisma: PrismaClient,
+    private calendarService: CalendarService
+  ) {}
+
+  // Approved overtime on days in the month, paid at the month's hourly rate
+  // of gross salary times the overtime multiplier
+  async calculate(
+    employeeId: string,
+    month: Date,
+    grossSalary: MoneyValue,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<OvertimeBreakdown> {
+    const monthStart = new Date(month.getFullYear(), month.getMonth(), 1);
+    const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+
+    const [workingDays, totals] = await Promise.all([
+      this.calendarService.getWorkingDays(monthStart, monthEnd, client),
+      client.attendance.aggregate({
+        where: {
+          employeeId,
+          date: { gte: monthStart, lte: monthEnd },
+          overtimeStatus: OvertimeStatus.APPROVED,
+        },
+        _sum: { approvedOvertimeMinutes: true },
+      }),
+    ]);
+
+    const approvedMinutes = totals._sum.approvedOvertimeMinutes ?? 0;
+    const workingHours = workingDays.length * calendarConfig.workingHoursPerDay;
+    const hourlyRate =
+      workingHours > 0
+        ? roundMoney(toMoney(grossSalary).dividedBy(workingHours))
+        : ZERO;
+
+    return {
+      approvedMinutes,
+      hourlyRate,
+      overtimePay: roundMoney(
+        hourlyRate
+          .times(attendanceConfig.overtimeRateMultiplier)
+          .times(approvedMinutes)
+          .dividedBy(60)
+      ),
+    };
+  }
+
+  // Recomputes overtime pay and net salary for a stored payroll record
+  async applyToPayroll(client: Prisma.TransactionClient, payroll: Payroll) {
+    const breakdown = await this.calculate(
+      payroll.employeeId,
+      payroll.month,
+      payroll.baseSalary.plus(payroll.allowances),
+      client
+    );
+
+    return client.payroll.update({
+      where: { id: payroll.id },
+      data: {
+        overtimeMinutes: breakdown.approvedMinutes,
+        overtimePay: breakdown.overtimePay,
+        netSalary: calculateNetSalary({
+          ...payroll,
+          overtimePay: breakdown.overtimePay,
+        }),
+      },
+    });
+  }
+}
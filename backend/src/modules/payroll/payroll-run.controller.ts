@@ -0,0 +1,135 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  Query,
+  Res,
+  StreamableFile,
+  UseGuards,
+  UseFilters,
+  UseInterceptors,
+} from "@nestjs/common";
+import { Response } from "express";
+import { PayrollRunService } from "./payroll-run.service";
+import { BankExportService } from "./bank-export.service";
+import {
+  CreatePayrollRunDto,
+  ReopenPayrollRunDto,
+} from "./dto/payroll-run.dto";
+import { BankExportQueryDto } from "./dto/bank-account.dto";
+import { JwtGuard } from "@common/guards/jwt.guard";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
+import { User, RequestUser } from "@common/decorators/user.decorator";
+import { Permission } from "@common/enums/permission.enum";
+import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
+import { MoneyInterceptor } from "@common/interceptors/money.interceptor";
+
+@Controller("payroll-runs")
+@UseFilters(AllExceptionsFilter)
+@UseInterceptors(MoneyInterceptor)
+export class PayrollRunController {
+  constructor(
+    private payrollRunService: PayrollRunService,
+    private bankExportService: BankExportService
+  ) {}
+
+  @Get()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getRuns() {
+    return this.payrollRunService.getRuns();
+  }
+
+  @Get(":id")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getRun(@Param("id") id: string) {
+    return this.payrollRunService.getRun(id);
+  }
+
+  @Get(":id/bank-exports")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async getBankExports(@Param("id") id: string) {
+    return this.bankExportService.getExportHistory(id);
+  }
+
+  // The checksum summary is sent in X-Export-* headers alongside the file
+  @Get(":id/bank-export")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async exportBankFile(
+    @Param("id") id: string,
+    @Query() query: BankExportQueryDto,
+    @User() user: RequestUser,
+    @Res({ passthrough: true }) res: Response
+  ) {
+    const file = await this.bankExportService.exportRun(
+      id,
+      query.format,
+      user.userId
+    );
+
+    res.setHeader("X-Export-Record-Count", String(file.summary.recordCount));
+    res.setHeader("X-Export-Control-Sum", file.summary.controlSum);
+    res.setHeader("X-Export-Currency", file.summary.currency);
+    res.setHeader("X-Export-SHA256", file.summary.sha256);
+
+    return new StreamableFile(file.content, {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.fileName}"`,
+    });
+  }
+
+  @Post()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async createRun(
+    @User() user: RequestUser,
+    @Body() createDto: CreatePayrollRunDto
+  ) {
+    return this.payrollRunService.createRun(createDto, user.userId);
+  }
+
+  @Post(":id/regenerate")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async regenerateRun(@Param("id") id: string, @User() user: RequestUser) {
+    return this.payrollRunService.regenerateRun(id, user.userId);
+  }
+
+  @Post(":id/review")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async reviewRun(@Param("id") id: string, @User() user: RequestUser) {
+    return this.payrollRunService.reviewRun(id, user.userId);
+  }
+
+  @Post(":id/finalize")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async finalizeRun(@Param("id") id: string, @User() user: RequestUser) {
+    return this.payrollRunService.finalizeRun(id, user.userId);
+  }
+
+  @Post(":id/pay")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async markRunPaid(@Param("id") id: string, @User() user: RequestUser) {
+    return this.payrollRunService.markRunPaid(id, user.userId);
+  }
+
+  @Post(":id/reopen")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async reopenRun(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() reopenDto: ReopenPayrollRunDto
+  ) {
+    return this.payrollRunService.reopenRun(id, reopenDto, user.userId);
+  }
+}
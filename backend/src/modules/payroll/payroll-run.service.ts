@@ -0,0 +1,571 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Inject,
+  ConflictException,
+} from "@nestjs/common";
+import { PrismaClient, Prisma, PayrollRun } from "@prisma/client";
+import {
+  CreatePayrollRunDto,
+  ReopenPayrollRunDto,
+} from "./dto/payroll-run.dto";
+import {
+  PayrollRunStatus,
+  PayrollRunWarningCode,
+  SalaryComponentType,
+} from "@common/enums/payroll.enum";
+import { LossOfPayService } from "./loss-of-pay.service";
+import { OvertimeService } from "./overtime.service";
+import {
+  SalaryStructureService,
+  StructuredSalary,
+} from "./salary-structure.service";
+import { SalaryRevisionService } from "./salary-revision.service";
+import { StatutoryService } from "@modules/statutory/statutory.service";
+import { LoanService } from "@modules/loans/loan.service";
+import { ExpenseClaimService } from "@modules/expenses/expense-claim.service";
+import { calculateNetSalary, formatMoney } from "./money";
+import { refreshRunTotals } from "./run-totals";
+import { payrollConfig } from "@config/payroll.config";
+
+export interface PayrollRunWarning {
+  code: PayrollRunWarningCode;
+  employeeId: string;
+  message: string;
+}
+
+const LOCKED_STATUSES: string[] = [
+  PayrollRunStatus.REVIEWED,
+  PayrollRunStatus.FINALIZED,
+  PayrollRunStatus.PAID,
+];
+
+@Injectable()
+export class PayrollRunService {
+  constructor(
+    @Inject("PrismaClient") private prisma: PrismaClient,
+    private lossOfPayService: LossOfPayService,
+    private overtimeService: OvertimeService,
+    private salaryStructureService: SalaryStructureService,
+    private salaryRevisionService: SalaryRevisionService,
+    private statutoryService: StatutoryService,
+    private loanService: LoanService,
+    private expenseClaimService: ExpenseClaimService
+  ) {}
+
+  private getMonthEnd(month: Date): Date {
+    return new Date(month.getFullYear(), month.getMonth() + 1, 0);
+  }
+
+  private formatMonth(month: Date): string {
+    return `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(
+      2,
+      "0"
+    )}`;
+  }
+
+  private async findRunOrThrow(runId: string): Promise<PayrollRun> {
+    const run = await this.prisma.payrollRun.findUnique({
+      where: { id: runId },
+    });
+
+    if (!run) {
+      throw new NotFoundException("Payroll run not found");
+    }
+
+    return run;
+  }
+
+  // Drafts for the whole company are generated in one transaction, which
+  // outlasts Prisma's default limits
+  private getGenerationTransactionOptions() {
+    return {
+      timeout: payrollConfig.runGenerationTimeoutMs,
+      maxWait: payrollConfig.runGenerationMaxWaitMs,
+    };
+  }
+
+  // Rejects changes to a month whose payroll has been reviewed, finalized or
+  // paid, so a run is never approved on figures that later change
+  async assertMonthEditable(date: Date): Promise<PayrollRun | null> {
+    const month = new Date(date.getFullYear(), date.getMonth(), 1);
+    const run = await this.prisma.payrollRun.findUnique({ where: { month } });
+
+    if (run && LOCKED_STATUSES.includes(run.status)) {
+      throw new ConflictException(
+        run.status === PayrollRunStatus.PAID
+          ? `Payroll for ${this.formatMonth(month)} has already been paid`
+          : `Payroll for ${this.formatMonth(
+              month
+            )} is ${run.status.toLowerCase()}; reopen the payroll run to make changes`
+      );
+    }
+
+    return run;
+  }
+
+  async refreshTotals(client: Prisma.TransactionClient, runId: string) {
+    return refreshRunTotals(client, runId);
+  }
+
+  private async saveStructuredPayroll(
+    tx: Prisma.TransactionClient,
+    run: PayrollRun,
+    employeeId: string,
+    salary: StructuredSalary
+  ) {
+    const amounts = {
+      baseSalary: salary.baseSalary,
+      allowances: salary.allowances,
+      deductions: salary.deductions,
+      netSalary: calculateNetSalary(salary),
+    };
+
+    let payroll = await tx.payroll.upsert({
+      where: { employeeId_month: { employeeId, month: run.month } },
+      create: {
+        ...amounts,
+        employeeId,
+        month: run.month,
+        currency: payrollConfig.currency,
+        effectiveDate: run.month,
+        runId: run.id,
+      },
+      update: { ...amounts, runId: run.id },
+    });
+
+    // Revisions backdated into finalized months are settled here
+    const arrears = await this.salaryRevisionService.calculateArrears(
+      employeeId,
+      run.month,
+      payroll.id,
+      tx
+    );
+
+    payroll = await tx.payroll.update({
+      where: { id: payroll.id },
+      data: {
+        arrears: arrears.amount,
+        arrearsBreakdown: arrears.breakdown.length
+          ? arrears.breakdown.map((entry) => ({ ...entry }))
+          : Prisma.DbNull,
+        netSalary: calculateNetSalary({ ...salary, arrears: arrears.amount }),
+      },
+    });
+
+    await tx.salaryRevision.updateMany({
+      where: { id: { in: arrears.revisionIds } },
+      data: { arrearsPayrollId: payroll.id },
+    });
+
+    const lineItems = [...salary.lineItems];
+    if (!arrears.amount.isZero()) {
+      const isPayment = arrears.amount.isPositive();
+      lineItems.push({
+        code: isPayment ? "ARREARS" : "ARREARS_RECOVERY",
+        name: isPayment ? "Salary Arrears" : "Arrears Recovery",
+        type: isPayment
+          ? SalaryComponentType.EARNING
+          : SalaryComponentType.DEDUCTION,
+        amount: arrears.amount.abs(),
+        sortOrder: lineItems.length,
+      });
+    }
+
+    await tx.payrollLineItem.deleteMany({ where: { payrollId: payroll.id } });
+    await tx.payrollLineItem.createMany({
+      data: lineItems.map((item) => ({ ...item, payrollId: payroll.id })),
+    });
+  }
+
+  // Employees with a salary structure get their structure expanded into line
+  // items, plus any arrears; others carry their latest salary into the month. Records that
+  // already exist for the month are attached, and loss of pay, overtime,
+  // statutory deductions, loan EMIs and then expense reimbursements are
+  // recalculated for the whole run
+  private async generateDrafts(tx: Prisma.TransactionClient, run: PayrollRun) {
+    const { count: linked } = await tx.payroll.updateMany({
+      where: { month: run.month, runId: null },
+      data: { runId: run.id },
+    });
+
+    const employees = await tx.employee.findMany({
+      where: {
+        user: { isActive: true },
+        joiningDate: { lte: this.getMonthEnd(run.month) },
+      },
+      include: {
+        payrollRecords: {
+          where: { month: { lte: run.month } },
+          orderBy: { month: "desc" },
+          take: 1,
+        },
+      },
+    });
+
+    let created = 0;
+    let structured = 0;
+
+    for (const employee of employees) {
+      const salary = await this.salaryStructureService.buildPayroll(
+        employee.id,
+        run.month,
+        tx
+      );
+
+      if (salary) {
+        await this.saveStructuredPayroll(tx, run, employee.id, salary);
+        structured++;
+        continue;
+      }
+
+      const [latest] = employee.payrollRecords;
+
+      // Employees without any salary are reported as warnings instead
+      if (!latest || latest.month.getTime() === run.month.getTime()) {
+        continue;
+      }
+
+      await tx.payroll.create({
+        data: {
+          employeeId: employee.id,
+          month: run.month,
+          baseSalary: latest.baseSalary,
+          allowances: latest.allowances,
+          deductions: latest.deductions,
+          netSalary: latest.netSalary,
+          currency: latest.currency,
+          effectiveDate: run.month,
+          runId: run.id,
+        },
+      });
+      created++;
+    }
+
+    const payrolls = await tx.payroll.findMany({ where: { runId: run.id } });
+    for (const payroll of payrolls) {
+      let updated = await this.lossOfPayService.applyToPayroll(tx, payroll);
+      updated = await this.overtimeService.applyToPayroll(tx, updated);
+      updated = await this.statutoryService.applyToPayroll(tx, updated);
+      updated = await this.loanService.applyToPayroll(tx, updated);
+      await this.expenseClaimService.applyToPayroll(tx, updated);
+    }
+
+    return { created, structured, linked, recalculated: payrolls.length };
+  }
+
+  private async getWarnings(run: PayrollRun): Promise<PayrollRunWarning[]> {
+    const previousMonth = new Date(
+      run.month.getFullYear(),
+      run.month.getMonth() - 1,
+      1
+    );
+
+    const [payrolls, activeEmployees, previousPayrolls] = await Promise.all([
+      this.prisma.payroll.findMany({
+        where: { runId: run.id },
+        include: {
+          employee: {
+            select: {
+              firstName: true,
+              lastName: true,
+              user: { select: { isActive: true } },
+              bankAccount: { select: { id: true } },
+            },
+          },
+        },
+      }),
+      this.prisma.employee.findMany({
+        where: {
+          user: { isActive: true },
+          joiningDate: { lte: this.getMonthEnd(run.month) },
+        },
+        select: { id: true, firstName: true, lastName: true },
+      }),
+      this.prisma.payroll.findMany({
+        where: { month: previousMonth },
+        select: { employeeId: true, baseSalary: true },
+      }),
+    ]);
+
+    const warnings: PayrollRunWarning[] = [];
+
+    for (const employee of activeEmployees) {
+      if (!payrolls.some((payroll) => payroll.employeeId === employee.id)) {
+        warnings.push({
+          code: PayrollRunWarningCode.MISSING_SALARY,
+          employeeId: employee.id,
+          message: `${employee.firstName} ${employee.lastName} has no salary on record`,
+        });
+      }
+    }
+
+    for (const payroll of payrolls) {
+      const name = `${payroll.employee.firstName} ${payroll.employee.lastName}`;
+
+      if (!payroll.employee.user.isActive) {
+        warnings.push({
+          code: PayrollRunWarningCode.INACTIVE_EMPLOYEE,
+          employeeId: payroll.employeeId,
+          message: `${name} is no longer active`,
+        });
+      }
+
+      if (payroll.netSalary.lte(0)) {
+        warnings.push({
+          code: PayrollRunWarningCode.NON_POSITIVE_NET,
+          employeeId: payroll.employeeId,
+          message: `${name} has a net salary of ${formatMoney(
+            payroll.netSalary
+          )}`,
+        });
+      }
+
+      if (payroll.netSalary.gt(0) && !payroll.employee.bankAccount) {
+        warnings.push({
+          code: PayrollRunWarningCode.MISSING_BANK_ACCOUNT,
+          employeeId: payroll.employeeId,
+          message: `${name} has no bank account on record`,
+        });
+      }
+
+      const previous = previousPayrolls.find(
+        (record) => record.employeeId === payroll.employeeId
+      );
+      if (previous && !previous.baseSalary.equals(payroll.baseSalary)) {
+        warnings.push({
+          code: PayrollRunWarningCode.SALARY_CHANGED,
+          employeeId: payroll.employeeId,
+          message: `${name}'s base salary changed from ${formatMoney(
+            previous.baseSalary
+          )} to ${formatMoney(payroll.baseSalary)}`,
+        });
+      }
+    }
+
+    return warnings;
+  }
+
+  async getRuns() {
+    return this.prisma.payrollRun.findMany({ orderBy: { month: "desc" } });
+  }
+
+  async getRun(runId: string) {
+    const run = await this.findRunOrThrow(runId);
+
+    const payrolls = await this.prisma.payroll.findMany({
+      where: { runId },
+      include: {
+        lineItems: { orderBy: { sortOrder: "asc" } },
+        employee: {
+          select: {
+            firstName: true,
+            lastName: true,
+            department: true,
+          },
+        },
+      },
+      orderBy: { employee: { firstName: "asc" } },
+    });
+
+    return { ...run, payrolls, warnings: await this.getWarnings(run) };
+  }
+
+  async createRun(createDto: CreatePayrollRunDto, adminId: string) {
+    const [year, monthNum] = createDto.month.split("-").map(Number);
+    const month = new Date(year, monthNum - 1, 1);
+
+    const existingRun = await this.prisma.payrollRun.findUnique({
+      where: { month },
+    });
+
+    if (existingRun) {
+      throw new ConflictException(
+        `A payroll run already exists for ${createDto.month}`
+      );
+    }
+
+    const run = await this.prisma.$transaction(async (tx) => {
+      const createdRun = await tx.payrollRun.create({
+        data: { month, createdBy: adminId },
+      });
+
+      const generated = await this.generateDrafts(tx, createdRun);
+
+      await tx.auditLog.create({
+        data: {
+          action: "CREATE",
+          userId: adminId,
+          entityType: "PayrollRun",
+          entityId: createdRun.id,
+          reason: "Payroll run created",
+          changes: JSON.stringify({ month: createDto.month, ...generated }),
+        },
+      });
+
+      return this.refreshTotals(tx, createdRun.id);
+    }, this.getGenerationTransactionOptions());
+
+    return this.getRun(run.id);
+  }
+
+  // Picks up new employees and attendance changes since the run was created
+  async regenerateRun(runId: string, adminId: string) {
+    const run = await this.findRunOrThrow(runId);
+
+    if (run.status !== PayrollRunStatus.DRAFT) {
+      throw new BadRequestException(
+        `Cannot regenerate a ${run.status} payroll run`
+      );
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const generated = await this.generateDrafts(tx, run);
+
+      await tx.auditLog.create({
+        data: {
+          action: "UPDATE",
+          userId: adminId,
+          entityType: "PayrollRun",
+          entityId: runId,
+          reason: "Payroll run regenerated",
+          changes: JSON.stringify(generated),
+        },
+      });
+
+      await this.refreshTotals(tx, runId);
+    }, this.getGenerationTransactionOptions());
+
+    return this.getRun(runId);
+  }
+
+  private async transition(
+    run: PayrollRun,
+    from: PayrollRunStatus,
+    to: PayrollRunStatus,
+    adminId: string,
+    data: Prisma.PayrollRunUpdateInput
+  ) {
+    if (run.status !== from) {
+      throw new BadRequestException(
+        `Cannot move a ${run.status} payroll run to ${to}`
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updatedRun = await tx.payrollRun.update({
+        where: { id: run.id },
+        data: { ...data, status: to },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "UPDATE",
+          userId: adminId,
+          entityType: "PayrollRun",
+          entityId: run.id,
+          reason: `Payroll run ${to.toLowerCase()}`,
+          changes: JSON.stringify({
+            previousStatus: run.status,
+            newStatus: to,
+            totalNetSalary: run.totalNetSalary,
+          }),
+        },
+      });
+
+      return updatedRun;
+    });
+  }
+
+  async reviewRun(runId: string, adminId: string) {
+    const run = await this.findRunOrThrow(runId);
+
+    return this.transition(
+      run,
+      PayrollRunStatus.DRAFT,
+      PayrollRunStatus.REVIEWED,
+      adminId,
+      { reviewedBy: adminId, reviewedAt: new Date() }
+    );
+  }
+
+  async finalizeRun(runId: string, adminId: string) {
+    const run = await this.findRunOrThrow(runId);
+
+    if (run.employeeCount === 0) {
+      throw new BadRequestException("Cannot finalize an empty payroll run");
+    }
+
+    return this.transition(
+      run,
+      PayrollRunStatus.REVIEWED,
+      PayrollRunStatus.FINALIZED,
+      adminId,
+      { finalizedBy: adminId, finalizedAt: new Date() }
+    );
+  }
+
+  async markRunPaid(runId: string, adminId: string) {
+    const run = await this.findRunOrThrow(runId);
+
+    return this.transition(
+      run,
+      PayrollRunStatus.FINALIZED,
+      PayrollRunStatus.PAID,
+      adminId,
+      { paidBy: adminId, paidAt: new Date() }
+    );
+  }
+
+  // Sends a reviewed or finalized run back to DRAFT so the month can be edited
+  async reopenRun(
+    runId: string,
+    reopenDto: ReopenPayrollRunDto,
+    adminId: string
+  ) {
+    const run = await this.findRunOrThrow(runId);
+
+    if (run.status === PayrollRunStatus.PAID) {
+      throw new BadRequestException("A paid payroll run cannot be reopened");
+    }
+
+    if (run.status === PayrollRunStatus.DRAFT) {
+      throw new BadRequestException("Payroll run is already in DRAFT");
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updatedRun = await tx.payrollRun.update({
+        where: { id: runId },
+        data: {
+          status: PayrollRunStatus.DRAFT,
+          reviewedBy: null,
+          reviewedAt: null,
+          finalizedBy: null,
+          finalizedAt: null,
+          reopenedBy: adminId,
+          reopenedAt: new Date(),
+          reopenReason: reopenDto.reason,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "UPDATE",
+          userId: adminId,
+          entityType: "PayrollRun",
+          entityId: runId,
+          reason: reopenDto.reason,
+          changes: JSON.stringify({
+            previousStatus: run.status,
+            newStatus: PayrollRunStatus.DRAFT,
+            reviewedBy: run.reviewedBy,
+            finalizedBy: run.finalizedBy,
+          }),
+        },
+      });
+
+      return updatedRun;
+    });
+  }
+}
@@ -8,29 +8,88 @@ import {
   Query,
   UseGuards,
   UseFilters,
+  UseInterceptors,
+  StreamableFile,
 } from "@nestjs/common";
 import { PayrollService } from "./payroll.service";
+import { SalaryRevisionService } from "./salary-revision.service";
+import { PayslipService, PayslipFile } from "./payslip.service";
+import { AnnualStatementService } from "./annual-statement.service";
 import { CreatePayrollDto, UpdatePayrollDto } from "./dto/payroll.dto";
+import { UpdatePayslipTemplateDto } from "./dto/payslip.dto";
 import { JwtGuard } from "@common/guards/jwt.guard";
-import { RolesGuard } from "@common/guards/roles.guard";
-import { Roles } from "@common/decorators/roles.decorator";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
 import { User, RequestUser } from "@common/decorators/user.decorator";
-import { Role } from "@common/enums/role.enum";
+import { Permission } from "@common/enums/permission.enum";
 import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
+import { MoneyInterceptor } from "@common/interceptors/money.interceptor";
 
 @Controller("payroll")
 @UseFilters(AllExceptionsFilter)
+@UseInterceptors(MoneyInterceptor)
 export class PayrollController {
-  constructor(private payrollService: PayrollService) {}
+  constructor(
+    private payrollService: PayrollService,
+    private salaryRevisionService: SalaryRevisionService,
+    private payslipService: PayslipService,
+    private annualStatementService: AnnualStatementService
+  ) {}
+
+  private toFile(file: PayslipFile, type: string): StreamableFile {
+    return new StreamableFile(file.content, {
+      type,
+      disposition: `attachment; filename="${file.fileName}"`,
+    });
+  }
 
   @Get("me")
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_SELF)
   async getMyPayroll(@User() user: RequestUser) {
     return this.payrollService.getMyPayroll(user.userId);
   }
 
+  @Get("me/compensation")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_SELF)
+  async getMyCompensationTimeline(@User() user: RequestUser) {
+    return this.salaryRevisionService.getMyCompensationTimeline(user.userId);
+  }
+
+  // fy is a financial year label such as 2026-27; defaults to the current one
+  @Get("me/ytd")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_SELF)
+  async getMyAnnualSummary(
+    @User() user: RequestUser,
+    @Query("fy") fy?: string
+  ) {
+    return this.annualStatementService.getMyAnnualSummary(user.userId, fy);
+  }
+
+  @Get("me/tax-statement.pdf")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_SELF)
+  async getMyTaxStatement(@User() user: RequestUser, @Query("fy") fy?: string) {
+    const statement = await this.annualStatementService.getMyTaxStatement(
+      user.userId,
+      fy
+    );
+    return this.toFile(statement, "application/pdf");
+  }
+
+  @Get("me/:month/payslip.pdf")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_SELF)
+  async getMyPayslip(@User() user: RequestUser, @Param("month") month: string) {
+    const payslip = await this.payslipService.getMyPayslip(user.userId, month);
+    return this.toFile(payslip, "application/pdf");
+  }
+
   @Get("me/:month")
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_SELF)
   async getMyPayrollByMonth(
     @User() user: RequestUser,
     @Param("month") month: string
@@ -38,9 +97,34 @@ export class PayrollController {
     return this.payrollService.getPayrollByMonth(user.userId, month);
   }
 
+  @Get("payslips/:month")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getMonthPayslips(@Param("month") month: string) {
+    const archive = await this.payslipService.getMonthPayslipsZip(month);
+    return this.toFile(archive, "application/zip");
+  }
+
+  @Get("payslip-template")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getPayslipTemplate() {
+    return this.payslipService.getTemplate();
+  }
+
+  @Put("payslip-template")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async updatePayslipTemplate(
+    @Body() updateDto: UpdatePayslipTemplateDto,
+    @User() user: RequestUser
+  ) {
+    return this.payslipService.updateTemplate(updateDto, user.userId);
+  }
+
   @Post(":employeeId")
-  @UseGuards(JwtGuard, RolesGuard)
-  @Roles(Role.ADMIN)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
   async createPayroll(
     @Param("employeeId") employeeId: string,
     @Body() createPayrollDto: CreatePayrollDto,
@@ -54,15 +138,39 @@ export class PayrollController {
   }
 
   @Get("employee/:employeeId")
-  @UseGuards(JwtGuard, RolesGuard)
-  @Roles(Role.ADMIN)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
   async getEmployeePayroll(@Param("employeeId") employeeId: string) {
     return this.payrollService.getEmployeePayroll(employeeId);
   }
 
+  @Get("employee/:employeeId/ytd")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getAnnualSummary(
+    @Param("employeeId") employeeId: string,
+    @Query("fy") fy?: string
+  ) {
+    return this.annualStatementService.getAnnualSummary(employeeId, fy);
+  }
+
+  @Get("employee/:employeeId/tax-statement.pdf")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getTaxStatement(
+    @Param("employeeId") employeeId: string,
+    @Query("fy") fy?: string
+  ) {
+    const statement = await this.annualStatementService.getTaxStatement(
+      employeeId,
+      fy
+    );
+    return this.toFile(statement, "application/pdf");
+  }
+
   @Put(":id")
-  @UseGuards(JwtGuard, RolesGuard)
-  @Roles(Role.ADMIN)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
   async updatePayroll(
     @Param("id") id: string,
     @Body() updatePayrollDto: UpdatePayrollDto,
@@ -72,8 +180,8 @@ export class PayrollController {
   }
 
   @Get()
-  @UseGuards(JwtGuard, RolesGuard)
-  @Roles(Role.ADMIN)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
   async getAllEmployeesPayroll(@Query("month") month?: string) {
     return this.payrollService.getAllEmployeesPayroll(month);
   }
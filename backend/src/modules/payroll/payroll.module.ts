@@ -1,17 +1,50 @@
 import { Module } from "@nestjs/common";
 import { PayrollService } from "./payroll.service";
 import { PayrollController } from "./payroll.controller";
+import { PayrollRunService } from "./payroll-run.service";
+import { PayrollRunController } from "./payroll-run.controller";
+import { LossOfPayService } from "./loss-of-pay.service";
+import { OvertimeService } from "./overtime.service";
+import { SalaryStructureService } from "./salary-structure.service";
+import { SalaryStructureController } from "./salary-structure.controller";
+import { SalaryRevisionService } from "./salary-revision.service";
+import { SalaryRevisionController } from "./salary-revision.controller";
+import { PayslipService } from "./payslip.service";
+import { AnnualStatementService } from "./annual-statement.service";
+import { BankAccountService } from "./bank-account.service";
+import { BankExportService } from "./bank-export.service";
+import { BankAccountController } from "./bank-account.controller";
+import { CalendarModule } from "@modules/calendar/calendar.module";
+import { StatutoryModule } from "@modules/statutory/statutory.module";
+import { LoansModule } from "@modules/loans/loans.module";
+import { ExpensesModule } from "@modules/expenses/expenses.module";
 import { getPrismaClient } from "@config/database.config";
 
 @Module({
+  imports: [CalendarModule, StatutoryModule, LoansModule, ExpensesModule],
   providers: [
     PayrollService,
+    PayrollRunService,
+    LossOfPayService,
+    OvertimeService,
+    SalaryStructureService,
+    SalaryRevisionService,
+    PayslipService,
+    AnnualStatementService,
+    BankAccountService,
+    BankExportService,
     {
       provide: "PrismaClient",
       useValue: getPrismaClient(),
     },
   ],
-  controllers: [PayrollController],
-  exports: [PayrollService],
+  controllers: [
+    PayrollController,
+    PayrollRunController,
+    SalaryStructureController,
+    SalaryRevisionController,
+    BankAccountController,
+  ],
+  exports: [PayrollService, PayrollRunService],
 })
 export class PayrollModule {}
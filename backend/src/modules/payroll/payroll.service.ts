@@ -4,12 +4,29 @@ import {
   NotFoundException,
   Inject,
 } from "@nestjs/common";
-import { PrismaClient, Employee } from "@prisma/client";
+import { PrismaClient, Prisma, Employee, Payroll } from "@prisma/client";
 import { CreatePayrollDto, UpdatePayrollDto } from "./dto/payroll.dto";
+import { PayrollRunService } from "./payroll-run.service";
+import { LossOfPayService } from "./loss-of-pay.service";
+import { OvertimeService } from "./overtime.service";
+import { StatutoryService } from "@modules/statutory/statutory.service";
+import { LoanService } from "@modules/loans/loan.service";
+import { ExpenseClaimService } from "@modules/expenses/expense-claim.service";
+import { calculateNetSalary, toMoney } from "./money";
+import { payrollConfig } from "@config/payroll.config";
+import { NON_SALARY_CODES } from "@common/enums/payroll.enum";
 
 @Injectable()
 export class PayrollService {
-  constructor(@Inject("PrismaClient") private prisma: PrismaClient) {}
+  constructor(
+    @Inject("PrismaClient") private prisma: PrismaClient,
+    private payrollRunService: PayrollRunService,
+    private lossOfPayService: LossOfPayService,
+    private overtimeService: OvertimeService,
+    private statutoryService: StatutoryService,
+    private loanService: LoanService,
+    private expenseClaimService: ExpenseClaimService
+  ) {}
 
   private async findEmployeeOrThrow(userId: string): Promise<Employee> {
     const employee = await this.prisma.employee.findUnique({
@@ -23,12 +40,16 @@ export class PayrollService {
     return employee;
   }
 
-  private calculateNetSalary(
-    baseSalary: number,
-    allowances: number = 0,
-    deductions: number = 0
-  ): number {
-    return baseSalary + allowances - deductions;
+  // Overtime, statutory deductions, loan EMIs and reimbursements once salary
+  // and loss of pay are set
+  private async applyAdjustments(
+    client: Prisma.TransactionClient,
+    payroll: Payroll
+  ) {
+    let updated = await this.overtimeService.applyToPayroll(client, payroll);
+    updated = await this.statutoryService.applyToPayroll(client, updated);
+    updated = await this.loanService.applyToPayroll(client, updated);
+    return this.expenseClaimService.applyToPayroll(client, updated);
   }
 
   async createPayroll(
@@ -44,22 +65,10 @@ export class PayrollService {
       throw new NotFoundException("Employee not found");
     }
 
-    const {
-      baseSalary,
-      allowances = 0,
-      deductions = 0,
-      effectiveDate,
-    } = createPayrollDto;
-
-    if (baseSalary < 0 || allowances < 0 || deductions < 0) {
-      throw new BadRequestException("Salary components cannot be negative");
-    }
-
-    const netSalary = this.calculateNetSalary(
-      baseSalary,
-      allowances,
-      deductions
-    );
+    const { effectiveDate } = createPayrollDto;
+    const baseSalary = toMoney(createPayrollDto.baseSalary);
+    const allowances = toMoney(createPayrollDto.allowances);
+    const deductions = toMoney(createPayrollDto.deductions);
 
     const effectiveDateTime = new Date(effectiveDate);
     const month = new Date(
@@ -68,6 +77,8 @@ export class PayrollService {
       1
     );
 
+    const run = await this.payrollRunService.assertMonthEditable(month);
+
     // Check if payroll already exists for this month
     const existingPayroll = await this.prisma.payroll.findUnique({
       where: {
@@ -86,36 +97,62 @@ export class PayrollService {
       );
     }
 
-    const payroll = await this.prisma.payroll.create({
-      data: {
-        employeeId,
-        month,
-        baseSalary,
-        allowances,
-        deductions,
-        netSalary,
-        effectiveDate: effectiveDateTime,
-      },
+    const lossOfPay = await this.lossOfPayService.calculate(
+      employeeId,
+      month,
+      baseSalary.plus(allowances)
+    );
+
+    const netSalary = calculateNetSalary({
+      baseSalary,
+      allowances,
+      deductions,
+      lossOfPayAmount: lossOfPay.lossOfPayAmount,
     });
 
-    // Log the payroll creation
-    await this.prisma.auditLog.create({
-      data: {
-        action: "CREATE",
-        userId: adminId,
-        entityType: "Payroll",
-        entityId: payroll.id,
-        reason: "Payroll created",
-        changes: JSON.stringify({
+    return this.prisma.$transaction(async (tx) => {
+      const createdPayroll = await tx.payroll.create({
+        data: {
+          employeeId,
+          month,
           baseSalary,
           allowances,
           deductions,
           netSalary,
-        }),
-      },
-    });
+          currency: payrollConfig.currency,
+          ...this.lossOfPayService.toPayrollData(lossOfPay),
+          effectiveDate: effectiveDateTime,
+          runId: run?.id,
+        },
+      });
+
+      const payroll = await this.applyAdjustments(tx, createdPayroll);
+
+      if (run) {
+        await this.payrollRunService.refreshTotals(tx, run.id);
+      }
+
+      // Log the payroll creation
+      await tx.auditLog.create({
+        data: {
+          action: "CREATE",
+          userId: adminId,
+          entityType: "Payroll",
+          entityId: payroll.id,
+          reason: "Payroll created",
+          changes: JSON.stringify({
+            baseSalary,
+            allowances,
+            deductions,
+            lossOfPayAmount: lossOfPay.lossOfPayAmount,
+            statutoryDeductions: payroll.statutoryDeductions,
+            netSalary: payroll.netSalary,
+          }),
+        },
+      });
 
-    return payroll;
+      return payroll;
+    });
   }
 
   async getMyPayroll(userId: string) {
@@ -145,6 +182,14 @@ export class PayrollService {
           month: monthDate,
         },
       },
+      include: {
+        lineItems: { orderBy: { sortOrder: "asc" } },
+        loanInstallments: { orderBy: { month: "asc" } },
+        expenseClaims: {
+          select: { id: true, amount: true, expenseDate: true, category: true },
+          orderBy: { expenseDate: "asc" },
+        },
+      },
     });
 
     if (!payroll) {
@@ -182,58 +227,100 @@ export class PayrollService {
       throw new NotFoundException("Payroll record not found");
     }
 
-    const baseSalary = updateDto.baseSalary ?? Number(payroll.baseSalary);
-    const allowances = updateDto.allowances ?? Number(payroll.allowances);
-    const deductions = updateDto.deductions ?? Number(payroll.deductions);
+    await this.payrollRunService.assertMonthEditable(payroll.month);
+
+    // A payroll generated from a salary structure carries its components as
+    // line items, which statutory deductions and the journal are built from.
+    // Changing the lump sums alone would leave them out of step.
+    const editsSalary = [
+      updateDto.baseSalary,
+      updateDto.allowances,
+      updateDto.deductions,
+    ].some((value) => value !== undefined);
+
+    if (editsSalary) {
+      const salaryItemCount = await this.prisma.payrollLineItem.count({
+        where: { payrollId, code: { notIn: NON_SALARY_CODES } },
+      });
+
+      if (salaryItemCount > 0) {
+        throw new BadRequestException(
+          "This payroll was generated from a salary structure; change the employee's salary structure and regenerate the payroll run instead"
+        );
+      }
+    }
+
+    const baseSalary = toMoney(updateDto.baseSalary ?? payroll.baseSalary);
+    const allowances = toMoney(updateDto.allowances ?? payroll.allowances);
+    const deductions = toMoney(updateDto.deductions ?? payroll.deductions);
     const effectiveDate = updateDto.effectiveDate
       ? new Date(updateDto.effectiveDate)
       : payroll.effectiveDate;
 
-    if (baseSalary < 0 || allowances < 0 || deductions < 0) {
-      throw new BadRequestException("Salary components cannot be negative");
-    }
-
-    const netSalary = this.calculateNetSalary(
-      baseSalary,
-      allowances,
-      deductions
-    );
+    return this.prisma.$transaction(async (tx) => {
+      const lossOfPay = await this.lossOfPayService.calculate(
+        payroll.employeeId,
+        payroll.month,
+        baseSalary.plus(allowances),
+        tx
+      );
 
-    const updatedPayroll = await this.prisma.payroll.update({
-      where: { id: payrollId },
-      data: {
+      const netSalary = calculateNetSalary({
         baseSalary,
         allowances,
+        arrears: payroll.arrears,
         deductions,
-        netSalary,
-        effectiveDate,
-      },
-    });
+        lossOfPayAmount: lossOfPay.lossOfPayAmount,
+      });
+
+      const updatedPayroll = await this.applyAdjustments(
+        tx,
+        await tx.payroll.update({
+          where: { id: payrollId },
+          data: {
+            baseSalary,
+            allowances,
+            deductions,
+            netSalary,
+            ...this.lossOfPayService.toPayrollData(lossOfPay),
+            effectiveDate,
+          },
+        })
+      );
 
-    // Log the update
-    await this.prisma.auditLog.create({
-      data: {
-        action: "UPDATE",
-        userId: adminId,
-        entityType: "Payroll",
-        entityId: payrollId,
-        reason: "Payroll updated",
-        changes: JSON.stringify({
-          previousBaseSalary: Number(payroll.baseSalary),
-          newBaseSalary: baseSalary,
-          previousAllowances: Number(payroll.allowances),
-          newAllowances: allowances,
-          previousDeductions: Number(payroll.deductions),
-          newDeductions: deductions,
-          previousNetSalary: Number(payroll.netSalary),
-          newNetSalary: netSalary,
-          previousEffectiveDate: payroll.effectiveDate,
-          newEffectiveDate: effectiveDate,
-        }),
-      },
-    });
+      if (payroll.runId) {
+        await this.payrollRunService.refreshTotals(tx, payroll.runId);
+      }
+
+      // Log the update
+      await tx.auditLog.create({
+        data: {
+          action: "UPDATE",
+          userId: adminId,
+          entityType: "Payroll",
+          entityId: payrollId,
+          reason: "Payroll updated",
+          changes: JSON.stringify({
+            previousBaseSalary: payroll.baseSalary,
+            newBaseSalary: baseSalary,
+            previousAllowances: payroll.allowances,
+            newAllowances: allowances,
+            previousDeductions: payroll.deductions,
+            newDeductions: deductions,
+            previousLossOfPayAmount: payroll.lossOfPayAmount,
+            newLossOfPayAmount: lossOfPay.lossOfPayAmount,
+            previousStatutoryDeductions: payroll.statutoryDeductions,
+            newStatutoryDeductions: updatedPayroll.statutoryDeductions,
+            previousNetSalary: payroll.netSalary,
+            newNetSalary: updatedPayroll.netSalary,
+            previousEffectiveDate: payroll.effectiveDate,
+            newEffectiveDate: effectiveDate,
+          }),
+        },
+      });
 
-    return updatedPayroll;
+      return updatedPayroll;
+    });
   }
 
   async getAllEmployeesPayroll(month?: string) {
@@ -0,0 +1,503 @@
+import { Injectable, NotFoundException, Inject } from "@nestjs/common";
+import {
+  PrismaClient,
+  Prisma,
+  Employee,
+  Payroll,
+  PayrollLineItem,
+  PayrollRun,
+  PayslipTemplate,
+} from "@prisma/client";
+import PDFDocument from "pdfkit";
+import archiver from "archiver";
+import { UpdatePayslipTemplateDto } from "./dto/payslip.dto";
+import {
+  NON_SALARY_CODES,
+  PayrollRunStatus,
+  SalaryComponentType,
+} from "@common/enums/payroll.enum";
+import { LOAN_DEDUCTION_CODES } from "@common/enums/loan.enum";
+import { REIMBURSEMENT_CODE } from "@common/enums/expense.enum";
+import { payrollConfig } from "@config/payroll.config";
+import { amountInWords } from "./amount-in-words";
+import { getFinancialYear } from "@modules/statutory/financial-year";
+import { parseStatutoryBreakdown } from "@modules/statutory/statutory.service";
+import { Money, ZERO, formatAmount, sumMoney } from "./money";
+
+type PayslipPayroll = Payroll & {
+  employee: Employee;
+  lineItems: PayrollLineItem[];
+  run: PayrollRun | null;
+};
+
+interface PayslipRow {
+  label: string;
+  amount: Money;
+}
+
+interface YtdTotals {
+  from: Date;
+  gross: Money;
+  deductions: Money;
+  net: Money;
+}
+
+export interface PayslipFile {
+  fileName: string;
+  content: Buffer;
+}
+
+// Draft payroll can still change, so employees only see published payslips
+export const PUBLISHED_STATUSES: string[] = [
+  PayrollRunStatus.FINALIZED,
+  PayrollRunStatus.PAID,
+];
+
+@Injectable()
+export class PayslipService {
+  constructor(@Inject("PrismaClient") private prisma: PrismaClient) {}
+
+  private parseMonth(month: string): Date {
+    const [year, monthNum] = month.split("-").map(Number);
+    return new Date(year, monthNum - 1, 1);
+  }
+
+  private formatMonth(month: Date): string {
+    return `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(
+      2,
+      "0"
+    )}`;
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split("T")[0];
+  }
+
+  private getFileName(payroll: PayslipPayroll): string {
+    const name = `${payroll.employee.firstName}-${payroll.employee.lastName}`
+      .toLowerCase()
+      .replace(/[^a-z0-9-]+/g, "-");
+    return `payslip-${this.formatMonth(payroll.month)}-${name}.pdf`;
+  }
+
+  async getTemplate(): Promise<PayslipTemplate> {
+    const template = await this.prisma.payslipTemplate.findFirst();
+
+    if (template) {
+      return template;
+    }
+
+    // Unsaved template: config defaults with the schema's column defaults
+    return {
+      id: "",
+      companyName: payrollConfig.companyName,
+      companyAddress: payrollConfig.companyAddress || null,
+      title: "Payslip",
+      footerNote: null,
+      accentColor: "#1f2937",
+      showYtd: true,
+      showAmountInWords: true,
+      updatedBy: null,
+      createdAt: new Date(0),
+      updatedAt: new Date(0),
+    };
+  }
+
+  async updateTemplate(updateDto: UpdatePayslipTemplateDto, adminId: string) {
+    const template = await this.getTemplate();
+    const { id, createdAt, updatedAt, ...fields } = template;
+
+    return this.prisma.$transaction(async (tx) => {
+      const data = { ...fields, ...updateDto, updatedBy: adminId };
+      const savedTemplate = id
+        ? await tx.payslipTemplate.update({ where: { id }, data })
+        : await tx.payslipTemplate.create({ data });
+
+      await tx.auditLog.create({
+        data: {
+          action: "UPDATE",
+          userId: adminId,
+          entityType: "PayslipTemplate",
+          entityId: savedTemplate.id,
+          reason: "Payslip template updated",
+          changes: JSON.stringify({ previous: fields, updated: updateDto }),
+        },
+      });
+
+      return savedTemplate;
+    });
+  }
+
+  private getRows(payroll: PayslipPayroll) {
+    const earnings: PayslipRow[] = [];
+    const deductions: PayslipRow[] = [];
+
+    const salaryItems = payroll.lineItems.filter(
+      (item) => !NON_SALARY_CODES.includes(item.code)
+    );
+
+    if (salaryItems.length > 0) {
+      for (const item of salaryItems) {
+        (item.type === SalaryComponentType.EARNING
+          ? earnings
+          : deductions
+        ).push({ label: item.name, amount: item.amount });
+      }
+    } else {
+      earnings.push({ label: "Basic", amount: payroll.baseSalary });
+      earnings.push({ label: "Allowances", amount: payroll.allowances });
+      deductions.push({ label: "Deductions", amount: payroll.deductions });
+    }
+
+    if (payroll.overtimePay.gt(0)) {
+      const hours = Number((payroll.overtimeMinutes / 60).toFixed(2));
+      earnings.push({
+        label: `Overtime (${hours} hours)`,
+        amount: payroll.overtimePay,
+      });
+    }
+
+    if (payroll.lossOfPayAmount.gt(0)) {
+      deductions.push({
+        label: `Loss of Pay (${Number(payroll.lossOfPayDays)} days)`,
+        amount: payroll.lossOfPayAmount,
+      });
+    }
+
+    const statutory = parseStatutoryBreakdown(payroll.statutoryBreakdown);
+    for (const component of statutory?.components ?? []) {
+      if (component.employeeAmount.gt(0)) {
+        deductions.push({
+          label: component.name,
+          amount: component.employeeAmount,
+        });
+      }
+    }
+
+    // Loans are recovered one line item per loan, and reimbursements paid
+    // with salary one line item per category
+    for (const item of payroll.lineItems) {
+      if (Object.values(LOAN_DEDUCTION_CODES).includes(item.code)) {
+        deductions.push({ label: item.name, amount: item.amount });
+      } else if (item.code === REIMBURSEMENT_CODE) {
+        earnings.push({ label: item.name, amount: item.amount });
+      }
+    }
+
+    return { earnings, deductions };
+  }
+
+  private async getYtdTotals(payroll: PayslipPayroll): Promise<YtdTotals> {
+    const { start: from } = getFinancialYear(payroll.month);
+    const payrolls = await this.prisma.payroll.findMany({
+      where: {
+        employeeId: payroll.employeeId,
+        month: { gte: from, lte: payroll.month },
+      },
+    });
+
+    return payrolls.reduce<YtdTotals>(
+      (totals, record) => ({
+        from,
+        gross: totals.gross.plus(
+          sumMoney([
+            record.baseSalary,
+            record.allowances,
+            record.overtimePay,
+            record.reimbursements,
+            Prisma.Decimal.max(record.arrears, 0),
+          ])
+        ),
+        deductions: totals.deductions.plus(
+          sumMoney([
+            record.deductions,
+            record.lossOfPayAmount,
+            record.statutoryDeductions,
+            record.loanDeductions,
+            Prisma.Decimal.max(record.arrears.negated(), 0),
+          ])
+        ),
+        net: totals.net.plus(record.netSalary),
+      }),
+      { from, gross: ZERO, deductions: ZERO, net: ZERO }
+    );
+  }
+
+  private renderPdf(
+    payroll: PayslipPayroll,
+    template: PayslipTemplate,
+    ytd: YtdTotals | null
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: "A4", margin: 50 });
+      const chunks: Buffer[] = [];
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+
+      const left = 50;
+      const width = doc.page.width - 100;
+      const currency = payrollConfig.currency;
+      const { employee } = payroll;
+
+      const rule = () => {
+        doc
+          .moveTo(left, doc.y)
+          .lineTo(left + width, doc.y)
+          .strokeColor(template.accentColor)
+          .stroke();
+        doc.moveDown(0.5);
+      };
+
+      // Header
+      doc
+        .fillColor(template.accentColor)
+        .font("Helvetica-Bold")
+        .fontSize(18)
+        .text(template.companyName, left, 50, { width, align: "center" });
+      if (template.companyAddress) {
+        doc
+          .font("Helvetica")
+          .fontSize(9)
+          .text(template.companyAddress, { width, align: "center" });
+      }
+      doc
+        .moveDown(0.5)
+        .font("Helvetica-Bold")
+        .fontSize(12)
+        .text(`${template.title} - ${this.formatMonth(payroll.month)}`, {
+          width,
+          align: "center",
+        });
+      doc.moveDown(0.5);
+      rule();
+
+      // Employee details
+      const details: [string, string][] = [
+        ["Employee", `${employee.firstName} ${employee.lastName}`],
+        ["Employee ID", employee.id],
+        ["Department", employee.department ?? "-"],
+        ["Designation", employee.designation ?? "-"],
+        ["Date of Joining", this.formatDate(employee.joiningDate)],
+        ["Pay Period", this.formatMonth(payroll.month)],
+        [
+          "Payable Days",
+          payroll.payableDays === null ? "-" : `${Number(payroll.payableDays)}`,
+        ],
+        ["Loss of Pay Days", `${Number(payroll.lossOfPayDays)}`],
+      ];
+
+      doc.fillColor("black").fontSize(9);
+      const detailsTop = doc.y;
+      details.forEach(([label, value], index) => {
+        const x = left + (index % 2) * (width / 2);
+        const y = detailsTop + Math.floor(index / 2) * 16;
+        doc.font("Helvetica-Bold").text(`${label}:`, x, y, { width: 90 });
+        doc
+          .font("Helvetica")
+          .text(value, x + 95, y, { width: width / 2 - 100 });
+      });
+      doc.y = detailsTop + Math.ceil(details.length / 2) * 16 + 8;
+      doc.x = left;
+      rule();
+
+      // Earnings and deductions side by side
+      const { earnings, deductions } = this.getRows(payroll);
+      const columnWidth = width / 2 - 10;
+      const tableTop = doc.y;
+
+      const drawColumn = (title: string, rows: PayslipRow[], x: number) => {
+        let y = tableTop;
+        doc
+          .font("Helvetica-Bold")
+          .fillColor(template.accentColor)
+          .text(title, x, y, { width: columnWidth - 90 })
+          .text(currency, x + columnWidth - 90, y, {
+            width: 90,
+            align: "right",
+          });
+        doc.fillColor("black").font("Helvetica");
+        y += 18;
+        for (const row of rows) {
+          doc
+            .text(row.label, x, y, { width: columnWidth - 90 })
+            .text(formatAmount(row.amount), x + columnWidth - 90, y, {
+              width: 90,
+              align: "right",
+            });
+          y += 16;
+        }
+        return y;
+      };
+
+      const rowsBottom = Math.max(
+        drawColumn("Earnings", earnings, left),
+        drawColumn("Deductions", deductions, left + width / 2 + 10)
+      );
+
+      const sum = (rows: PayslipRow[]) =>
+        sumMoney(rows.map((row) => row.amount));
+
+      doc.y = rowsBottom + 4;
+      rule();
+      const totalsTop = doc.y;
+      doc
+        .font("Helvetica-Bold")
+        .text("Gross Earnings", left, totalsTop, { width: columnWidth - 90 })
+        .text(formatAmount(sum(earnings)), left + columnWidth - 90, totalsTop, {
+          width: 90,
+          align: "right",
+        })
+        .text("Total Deductions", left + width / 2 + 10, totalsTop, {
+          width: columnWidth - 90,
+        })
+        .text(
+          formatAmount(sum(deductions)),
+          left + width / 2 + 10 + columnWidth - 90,
+          totalsTop,
+          { width: 90, align: "right" }
+        );
+      doc.x = left;
+      doc.moveDown(1);
+      rule();
+
+      // Net pay
+      const netSalary = payroll.netSalary;
+      doc
+        .fontSize(12)
+        .fillColor(template.accentColor)
+        .text(`Net Pay: ${currency} ${formatAmount(netSalary)}`, left);
+      if (template.showAmountInWords) {
+        doc
+          .fillColor("black")
+          .font("Helvetica-Oblique")
+          .fontSize(9)
+          .text(amountInWords(netSalary));
+      }
+      doc.moveDown(1);
+
+      // Year to date
+      if (ytd) {
+        doc
+          .font("Helvetica-Bold")
+          .fontSize(10)
+          .fillColor(template.accentColor)
+          .text(
+            `Year to Date (${this.formatMonth(ytd.from)} to ${this.formatMonth(
+              payroll.month
+            )})`
+          );
+        doc.fillColor("black").font("Helvetica").fontSize(9);
+        for (const [label, amount] of [
+          ["Gross Earnings", ytd.gross],
+          ["Total Deductions", ytd.deductions],
+          ["Net Pay", ytd.net],
+        ] as [string, Money][]) {
+          const y = doc.y;
+          doc
+            .text(label, left, y, { width: 150 })
+            .text(`${currency} ${formatAmount(amount)}`, left + 150, y, {
+              width: 120,
+              align: "right",
+            });
+        }
+        doc.x = left;
+        doc.moveDown(1);
+      }
+
+      // Footer
+      doc.fillColor("gray").font("Helvetica").fontSize(8);
+      if (template.footerNote) {
+        doc.text(template.footerNote, left, doc.y, { width, align: "center" });
+      }
+      doc.text("This is a computer-generated payslip.", left, doc.y, {
+        width,
+        align: "center",
+      });
+
+      doc.end();
+    });
+  }
+
+  private async renderPayslip(
+    payroll: PayslipPayroll,
+    template: PayslipTemplate
+  ): Promise<PayslipFile> {
+    const ytd = template.showYtd ? await this.getYtdTotals(payroll) : null;
+
+    return {
+      fileName: this.getFileName(payroll),
+      content: await this.renderPdf(payroll, template, ytd),
+    };
+  }
+
+  async getMyPayslip(userId: string, month: string): Promise<PayslipFile> {
+    const employee = await this.prisma.employee.findUnique({
+      where: { userId },
+    });
+
+    if (!employee) {
+      throw new NotFoundException("Employee not found");
+    }
+
+    const payroll = await this.prisma.payroll.findUnique({
+      where: {
+        employeeId_month: {
+          employeeId: employee.id,
+          month: this.parseMonth(month),
+        },
+      },
+      include: {
+        employee: true,
+        lineItems: { orderBy: { sortOrder: "asc" } },
+        run: true,
+      },
+    });
+
+    if (!payroll) {
+      throw new NotFoundException("Payroll record not found for this month");
+    }
+
+    if (payroll.run && !PUBLISHED_STATUSES.includes(payroll.run.status)) {
+      throw new NotFoundException(
+        "Payslip is not available until payroll for this month is finalized"
+      );
+    }
+
+    return this.renderPayslip(payroll, await this.getTemplate());
+  }
+
+  // Every payslip for the month, whatever the run status
+  async getMonthPayslipsZip(month: string): Promise<PayslipFile> {
+    const payrolls = await this.prisma.payroll.findMany({
+      where: { month: this.parseMonth(month) },
+      include: {
+        employee: true,
+        lineItems: { orderBy: { sortOrder: "asc" } },
+        run: true,
+      },
+      orderBy: { employee: { firstName: "asc" } },
+    });
+
+    if (payrolls.length === 0) {
+      throw new NotFoundException("No payroll records found for this month");
+    }
+
+    const template = await this.getTemplate();
+    const archive = archiver("zip");
+    const chunks: Buffer[] = [];
+    archive.on("data", (chunk: Buffer) => chunks.push(chunk));
+
+    for (const payroll of payrolls) {
+      const payslip = await this.renderPayslip(payroll, template);
+      archive.append(payslip.content, { name: payslip.fileName });
+    }
+
+    await archive.finalize();
+
+    return {
+      fileName: `payslips-${month}.zip`,
+      content: Buffer.concat(chunks),
+    };
+  }
+}
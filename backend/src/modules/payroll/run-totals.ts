@@ -0,0 +1,42 @@
+import { Prisma } from "@prisma/client";
+
+// Sums a run's payroll records into its totals. Shared with services the
+// payroll module depends on, which cannot inject PayrollRunService
+export async function refreshRunTotals(
+  client: Prisma.TransactionClient,
+  runId: string
+) {
+  const totals = await client.payroll.aggregate({
+    where: { runId },
+    _count: true,
+    _sum: {
+      baseSalary: true,
+      allowances: true,
+      deductions: true,
+      lossOfPayAmount: true,
+      statutoryDeductions: true,
+      employerContributions: true,
+      loanDeductions: true,
+      reimbursements: true,
+      overtimePay: true,
+      netSalary: true,
+    },
+  });
+
+  return client.payrollRun.update({
+    where: { id: runId },
+    data: {
+      employeeCount: totals._count,
+      totalBaseSalary: totals._sum.baseSalary ?? 0,
+      totalAllowances: totals._sum.allowances ?? 0,
+      totalDeductions: totals._sum.deductions ?? 0,
+      totalLossOfPay: totals._sum.lossOfPayAmount ?? 0,
+      totalStatutoryDeductions: totals._sum.statutoryDeductions ?? 0,
+      totalEmployerContributions: totals._sum.employerContributions ?? 0,
+      totalLoanDeductions: totals._sum.loanDeductions ?? 0,
+      totalReimbursements: totals._sum.reimbursements ?? 0,
+      totalOvertimePay: totals._sum.overtimePay ?? 0,
+      totalNetSalary: totals._sum.netSalary ?? 0,
+    },
+  });
+}
@@ -0,0 +1,135 @@
+import { BadRequestException } from "@nestjs/common";
+import { PrismaClient } from "@prisma/client";
+import { SalaryCalculationType } from "@common/enums/payroll.enum";
+import { Money, toMoney } from "./money";
+import { evaluateFormula, getFormulaReferences } from "./salary-formula";
+import { SalaryStructureService } from "./salary-structure.service";
+
+const VARIABLES: Record<string, Money> = {
+  GROSS: toMoney(50000),
+  BASIC: toMoney(20000),
+  HRA: toMoney(8000),
+};
+
+function evaluate(formula: string): string {
+  return evaluateFormula(formula, VARIABLES).toString();
+}
+
+describe("evaluateFormula", () => {
+  it("multiplies and divides before adding and subtracting", () => {
+    expect(evaluate("2 + 3 * 4")).toBe("14");
+    expect(evaluate("20 - 12 / 4")).toBe("17");
+  });
+
+  it("evaluates operators of equal precedence left to right", () => {
+    expect(evaluate("10 - 4 - 3")).toBe("3");
+    expect(evaluate("100 / 8 / 5")).toBe("2.5");
+  });
+
+  it("evaluates parentheses first", () => {
+    expect(evaluate("(2 + 3) * 4")).toBe("20");
+  });
+
+  it("negates with a unary minus", () => {
+    expect(evaluate("-BASIC + 25000")).toBe("5000");
+    expect(evaluate("2 * -(3 + 1)")).toBe("-8");
+  });
+
+  it("resolves component codes", () => {
+    expect(evaluate("GROSS - BASIC - HRA")).toBe("22000");
+  });
+
+  it("calls functions by name in any case", () => {
+    expect(evaluate("min(BASIC, 15000) * 0.12")).toBe("1800");
+    expect(evaluate("MAX(BASIC, HRA, 25000)")).toBe("25000");
+    expect(evaluate("round(1000 / 3)")).toBe("333");
+    expect(evaluate("round(2.5)")).toBe("3");
+  });
+
+  it("keeps exact decimals", () => {
+    expect(evaluate("0.1 + 0.2")).toBe("0.3");
+  });
+
+  it.each([
+    ["BASIC + DA", "unknown component DA"],
+    ["floor(BASIC)", "unknown function floor"],
+    ["__proto__(1)", "unknown function __proto__"],
+    ["constructor(BASIC)", "unknown function constructor"],
+    ["toString(BASIC)", "unknown function toString"],
+    ["BASIC / (HRA - 8000)", "division by zero"],
+    ["BASIC HRA", "unexpected trailing input"],
+    ["BASIC +", "unexpected end of formula"],
+    ["(BASIC + HRA", 'expected ")"'],
+    ["BASIC * 10%", 'unexpected "%"'],
+    ["min(BASIC,)", 'unexpected ")"'],
+  ])("rejects %s", (formula, message) => {
+    expect(() => evaluate(formula)).toThrow(BadRequestException);
+    expect(() => evaluate(formula)).toThrow(message);
+  });
+});
+
+describe("getFormulaReferences", () => {
+  it("lists each component code once, leaving out functions", () => {
+    expect(
+      getFormulaReferences("min(BASIC, 15000) + HRA * 0.4 + BASIC")
+    ).toEqual(["BASIC", "HRA"]);
+  });
+
+  it("lists nothing for a constant", () => {
+    expect(getFormulaReferences("1600")).toEqual([]);
+  });
+});
+
+describe("formula components", () => {
+  const service = new SalaryStructureService({} as PrismaClient);
+
+  const component = (code: string, formula: string) => ({
+    code,
+    name: code,
+    type: "EARNING",
+    calculationType: SalaryCalculationType.FORMULA,
+    formula,
+  });
+
+  it("are evaluated after the components they reference", () => {
+    const items = service.calculateLineItems(
+      [
+        component("SPECIAL", "GROSS - BASIC - HRA"),
+        component("HRA", "BASIC * 0.4"),
+        component("BASIC", "GROSS * 0.5"),
+      ],
+      50000
+    );
+
+    expect(items.map((item) => [item.code, item.amount.toString()])).toEqual([
+      ["SPECIAL", "15000"],
+      ["HRA", "10000"],
+      ["BASIC", "25000"],
+    ]);
+  });
+
+  it("reject a circular reference", () => {
+    expect(() =>
+      service.calculateLineItems(
+        [
+          component("BASIC", "GROSS * 0.5 - SPECIAL"),
+          component("HRA", "BASIC * 0.4"),
+          component("SPECIAL", "HRA + 100"),
+        ],
+        50000
+      )
+    ).toThrow("Circular reference");
+  });
+
+  it("reject a component referencing itself", () => {
+    expect(() =>
+      service.calculateLineItems([component("BASIC", "BASIC * 2")], 50000)
+    ).toThrow("Circular reference involving component BASIC");
+  });
+
+  it("reject a reference to a component not in the structure", () => {
+    expect(() =>
+      service.calculateLineItems([component("HRA", "BASIC * 0.4")], 50000)
+    ).toThrow("Component HRA references unknown component BASIC");
+  });
+});
@@ -0,0 +1,196 @@
+import { BadRequestException } from "@nestjs/common";
+import { Prisma } from "@prisma/client";
+import { Money } from "./money";
+
+// Salary formulas are arithmetic over component codes, e.g.
+// "min(BASIC, 15000) * 0.12". They are parsed rather than eval'd: numbers,
+// codes, + - * /, parentheses and the functions below are all that is allowed.
+// Evaluation is in exact decimals; division keeps Decimal's 20 significant
+// digits and the caller rounds the result. A Map so that names like
+// "constructor" never resolve to an object's inherited properties.
+const FUNCTIONS = new Map<string, (...args: Money[]) => Money>([
+  ["min", (...args) => Prisma.Decimal.min(...args)],
+  ["max", (...args) => Prisma.Decimal.max(...args)],
+  ["round", (value) => value.toDecimalPlaces(0, Prisma.Decimal.ROUND_HALF_UP)],
+]);
+
+type Token =
+  | { kind: "number"; value: string }
+  | { kind: "name"; value: string }
+  | { kind: "symbol"; value: string };
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern =
+    /\s*(?:(\d+(?:\.\d+)?)|([A-Za-z_][A-Za-z0-9_]*)|([-+*/(),]))/y;
+  let index = 0;
+
+  while (index < formula.length) {
+    if (formula.slice(index).trim() === "") {
+      break;
+    }
+
+    pattern.lastIndex = index;
+    const match = pattern.exec(formula);
+    if (!match) {
+      throw new BadRequestException(
+        `Invalid formula "${formula}": unexpected "${formula
+          .slice(index)
+          .trim()
+          .charAt(0)}"`
+      );
+    }
+
+    if (match[1] !== undefined) {
+      tokens.push({ kind: "number", value: match[1] });
+    } else if (match[2] !== undefined) {
+      tokens.push({ kind: "name", value: match[2] });
+    } else {
+      tokens.push({ kind: "symbol", value: match[3] });
+    }
+    index = pattern.lastIndex;
+  }
+
+  return tokens;
+}
+
+class FormulaParser {
+  private position = 0;
+
+  constructor(
+    private formula: string,
+    private tokens: Token[],
+    private resolve: (name: string) => Money
+  ) {}
+
+  parse(): Money {
+    const value = this.parseExpression();
+    if (this.position < this.tokens.length) {
+      this.fail("unexpected trailing input");
+    }
+    return value;
+  }
+
+  private fail(message: string): never {
+    throw new BadRequestException(
+      `Invalid formula "${this.formula}": ${message}`
+    );
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private isSymbol(symbol: string): boolean {
+    const token = this.peek();
+    return token?.kind === "symbol" && token.value === symbol;
+  }
+
+  private expect(symbol: string) {
+    if (!this.isSymbol(symbol)) {
+      this.fail(`expected "${symbol}"`);
+    }
+    this.position++;
+  }
+
+  private parseExpression(): Money {
+    let value = this.parseTerm();
+    while (this.isSymbol("+") || this.isSymbol("-")) {
+      const operator = (this.tokens[this.position++] as Token).value;
+      const right = this.parseTerm();
+      value = operator === "+" ? value.plus(right) : value.minus(right);
+    }
+    return value;
+  }
+
+  private parseTerm(): Money {
+    let value = this.parseFactor();
+    while (this.isSymbol("*") || this.isSymbol("/")) {
+      const operator = (this.tokens[this.position++] as Token).value;
+      const right = this.parseFactor();
+      if (operator === "/" && right.isZero()) {
+        this.fail("division by zero");
+      }
+      value = operator === "*" ? value.times(right) : value.dividedBy(right);
+    }
+    return value;
+  }
+
+  private parseFactor(): Money {
+    const token = this.peek();
+
+    if (!token) {
+      return this.fail("unexpected end of formula");
+    }
+
+    if (this.isSymbol("-")) {
+      this.position++;
+      return this.parseFactor().negated();
+    }
+
+    if (this.isSymbol("(")) {
+      this.position++;
+      const value = this.parseExpression();
+      this.expect(")");
+      return value;
+    }
+
+    this.position++;
+
+    if (token.kind === "number") {
+      return new Prisma.Decimal(token.value);
+    }
+
+    if (token.kind === "name") {
+      if (!this.isSymbol("(")) {
+        return this.resolve(token.value);
+      }
+
+      const fn = FUNCTIONS.get(token.value.toLowerCase());
+      if (!fn) {
+        this.fail(`unknown function ${token.value}`);
+      }
+
+      this.position++;
+      const args = [this.parseExpression()];
+      while (this.isSymbol(",")) {
+        this.position++;
+        args.push(this.parseExpression());
+      }
+      this.expect(")");
+      return fn(...args);
+    }
+
+    return this.fail(`unexpected "${token.value}"`);
+  }
+}
+
+// Component codes a formula depends on
+export function getFormulaReferences(formula: string): string[] {
+  const tokens = tokenize(formula);
+  const references = new Set<string>();
+
+  tokens.forEach((token, index) => {
+    const next = tokens[index + 1];
+    const isCall = next?.kind === "symbol" && next.value === "(";
+    if (token.kind === "name" && !isCall) {
+      references.add(token.value);
+    }
+  });
+
+  return [...references];
+}
+
+export function evaluateFormula(
+  formula: string,
+  variables: Record<string, Money>
+): Money {
+  return new FormulaParser(formula, tokenize(formula), (name) => {
+    if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+      throw new BadRequestException(
+        `Invalid formula "${formula}": unknown component ${name}`
+      );
+    }
+    return variables[name];
+  }).parse();
+}
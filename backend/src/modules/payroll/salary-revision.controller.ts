@@ -0,0 +1,43 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  UseGuards,
+  UseFilters,
+  UseInterceptors,
+} from "@nestjs/common";
+import { SalaryRevisionService } from "./salary-revision.service";
+import { CreateSalaryRevisionDto } from "./dto/salary-revision.dto";
+import { JwtGuard } from "@common/guards/jwt.guard";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
+import { User, RequestUser } from "@common/decorators/user.decorator";
+import { Permission } from "@common/enums/permission.enum";
+import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
+import { MoneyInterceptor } from "@common/interceptors/money.interceptor";
+
+@Controller("salary-revisions")
+@UseFilters(AllExceptionsFilter)
+@UseInterceptors(MoneyInterceptor)
+export class SalaryRevisionController {
+  constructor(private salaryRevisionService: SalaryRevisionService) {}
+
+  @Post()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async createRevision(
+    @User() user: RequestUser,
+    @Body() createDto: CreateSalaryRevisionDto
+  ) {
+    return this.salaryRevisionService.createRevision(createDto, user.userId);
+  }
+
+  @Get("employee/:employeeId")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getCompensationTimeline(@Param("employeeId") employeeId: string) {
+    return this.salaryRevisionService.getCompensationTimeline(employeeId);
+  }
+}
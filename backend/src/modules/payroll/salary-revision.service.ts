@@ -0,0 +1,280 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Inject,
+} from "@nestjs/common";
+import { PrismaClient, Prisma, Employee } from "@prisma/client";
+import { CreateSalaryRevisionDto } from "./dto/salary-revision.dto";
+import { PayrollRunStatus } from "@common/enums/payroll.enum";
+import { SalaryStructureService } from "./salary-structure.service";
+import { Money, formatMoney, sumMoney, toMoney } from "./money";
+import { readArray, readObject, readString } from "@common/utils/json";
+
+// Stored as JSON on the payroll, so amounts are decimal strings
+export interface ArrearsEntry {
+  month: string;
+  expected: string;
+  paid: string;
+  amount: string;
+}
+
+// Reads the arrears breakdown stored on a payroll record
+function parseArrearsBreakdown(value: Prisma.JsonValue): ArrearsEntry[] {
+  if (value === null) {
+    return [];
+  }
+
+  return readArray(value, "arrears breakdown").map((item) => {
+    const entry = readObject(item, "arrears entry");
+    const month = readString(entry.month, "arrears month");
+
+    return {
+      month,
+      expected: readString(entry.expected, `${month} expected salary`),
+      paid: readString(entry.paid, `${month} paid salary`),
+      amount: readString(entry.amount, `${month} arrears`),
+    };
+  });
+}
+
+export interface Arrears {
+  amount: Money;
+  breakdown: ArrearsEntry[];
+  revisionIds: string[];
+}
+
+@Injectable()
+export class SalaryRevisionService {
+  constructor(
+    @Inject("PrismaClient") private prisma: PrismaClient,
+    private salaryStructureService: SalaryStructureService
+  ) {}
+
+  private async findEmployeeOrThrow(userId: string): Promise<Employee> {
+    const employee = await this.prisma.employee.findUnique({
+      where: { userId },
+    });
+
+    if (!employee) {
+      throw new NotFoundException("Employee not found");
+    }
+
+    return employee;
+  }
+
+  private formatMonth(month: Date): string {
+    return `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(
+      2,
+      "0"
+    )}`;
+  }
+
+  async createRevision(createDto: CreateSalaryRevisionDto, adminId: string) {
+    const { employeeId, monthlyGross, reason } = createDto;
+    const effectiveDate = new Date(createDto.effectiveDate);
+    effectiveDate.setHours(0, 0, 0, 0);
+
+    const current = await this.prisma.salaryStructureAssignment.findFirst({
+      where: { employeeId },
+      orderBy: { effectiveFrom: "desc" },
+    });
+
+    const structureId = createDto.structureId ?? current?.structureId;
+
+    if (!structureId) {
+      throw new BadRequestException(
+        "Employee has no salary structure; a structureId is required"
+      );
+    }
+
+    const structure = await this.salaryStructureService.validateAssignment(
+      structureId,
+      employeeId,
+      effectiveDate
+    );
+
+    return this.prisma.$transaction(async (tx) => {
+      const assignment = await this.salaryStructureService.createAssignment(
+        tx,
+        {
+          employeeId,
+          structureId,
+          monthlyGross: toMoney(monthlyGross),
+          effectiveFrom: effectiveDate,
+        },
+        adminId
+      );
+
+      const revision = await tx.salaryRevision.create({
+        data: {
+          employeeId,
+          assignmentId: assignment.id,
+          effectiveDate,
+          previousMonthlyGross: current?.monthlyGross ?? null,
+          newMonthlyGross: monthlyGross,
+          reason,
+          createdBy: adminId,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "CREATE",
+          userId: adminId,
+          entityType: "SalaryRevision",
+          entityId: revision.id,
+          reason,
+          changes: JSON.stringify({
+            employeeId,
+            structure: structure.name,
+            previousMonthlyGross: current?.monthlyGross ?? null,
+            newMonthlyGross: monthlyGross,
+            effectiveDate: createDto.effectiveDate,
+          }),
+        },
+      });
+
+      return revision;
+    });
+  }
+
+  // Difference between the revised salary and what was paid for every
+  // finalized month since the earliest unsettled revision. Arrears already
+  // paid by other payrolls count as paid, so months are never settled twice
+  async calculateArrears(
+    employeeId: string,
+    month: Date,
+    payrollId: string,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<Arrears> {
+    const revisions = await client.salaryRevision.findMany({
+      where: {
+        employeeId,
+        effectiveDate: { lt: month },
+        OR: [{ arrearsPayrollId: null }, { arrearsPayrollId: payrollId }],
+      },
+      orderBy: { effectiveDate: "asc" },
+    });
+
+    if (revisions.length === 0) {
+      return { amount: toMoney(0), breakdown: [], revisionIds: [] };
+    }
+
+    const firstMonth = new Date(
+      revisions[0].effectiveDate.getFullYear(),
+      revisions[0].effectiveDate.getMonth(),
+      1
+    );
+
+    const [lockedPayrolls, settledPayrolls] = await Promise.all([
+      client.payroll.findMany({
+        where: {
+          employeeId,
+          month: { gte: firstMonth, lt: month },
+          run: {
+            status: {
+              in: [PayrollRunStatus.FINALIZED, PayrollRunStatus.PAID],
+            },
+          },
+        },
+        orderBy: { month: "asc" },
+      }),
+      client.payroll.findMany({
+        where: { employeeId, id: { not: payrollId }, arrears: { not: 0 } },
+        select: { arrearsBreakdown: true },
+      }),
+    ]);
+
+    const settledEntries = settledPayrolls.flatMap((payroll) =>
+      parseArrearsBreakdown(payroll.arrearsBreakdown)
+    );
+    const breakdown: ArrearsEntry[] = [];
+
+    for (const payroll of lockedPayrolls) {
+      const salary = await this.salaryStructureService.buildPayroll(
+        employeeId,
+        payroll.month,
+        client
+      );
+
+      if (!salary) {
+        continue;
+      }
+
+      const label = this.formatMonth(payroll.month);
+      const expected = salary.baseSalary
+        .plus(salary.allowances)
+        .minus(salary.deductions);
+      const paid = payroll.baseSalary
+        .plus(payroll.allowances)
+        .minus(payroll.deductions)
+        .plus(
+          sumMoney(
+            settledEntries
+              .filter((entry) => entry.month === label)
+              .map((entry) => entry.amount)
+          )
+        );
+      const amount = expected.minus(paid);
+
+      if (!amount.isZero()) {
+        breakdown.push({
+          month: label,
+          expected: formatMoney(expected),
+          paid: formatMoney(paid),
+          amount: formatMoney(amount),
+        });
+      }
+    }
+
+    return {
+      amount: sumMoney(breakdown.map((entry) => entry.amount)),
+      breakdown,
+      revisionIds: revisions.map((revision) => revision.id),
+    };
+  }
+
+  async getCompensationTimeline(employeeId: string) {
+    const employee = await this.prisma.employee.findUnique({
+      where: { id: employeeId },
+    });
+
+    if (!employee) {
+      throw new NotFoundException("Employee not found");
+    }
+
+    const assignments = await this.prisma.salaryStructureAssignment.findMany({
+      where: { employeeId },
+      include: {
+        structure: { select: { name: true } },
+        revision: { include: { arrearsPayroll: { select: { month: true } } } },
+      },
+      orderBy: { effectiveFrom: "asc" },
+    });
+
+    return assignments.map((assignment) => ({
+      effectiveFrom: assignment.effectiveFrom,
+      effectiveTo: assignment.effectiveTo,
+      structureId: assignment.structureId,
+      structureName: assignment.structure.name,
+      monthlyGross: assignment.monthlyGross,
+      revision: assignment.revision && {
+        id: assignment.revision.id,
+        previousMonthlyGross: assignment.revision.previousMonthlyGross,
+        newMonthlyGross: assignment.revision.newMonthlyGross,
+        reason: assignment.revision.reason,
+        createdBy: assignment.revision.createdBy,
+        createdAt: assignment.revision.createdAt,
+        arrearsSettledIn: assignment.revision.arrearsPayroll
+          ? this.formatMonth(assignment.revision.arrearsPayroll.month)
+          : null,
+      },
+    }));
+  }
+
+  async getMyCompensationTimeline(userId: string) {
+    const { id: employeeId } = await this.findEmployeeOrThrow(userId);
+    return this.getCompensationTimeline(employeeId);
+  }
+}
@@ -0,0 +1,103 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  UseFilters,
+  UseInterceptors,
+} from "@nestjs/common";
+import { SalaryStructureService } from "./salary-structure.service";
+import {
+  AssignSalaryStructureDto,
+  CreateSalaryStructureDto,
+  UpdateSalaryStructureDto,
+} from "./dto/salary-structure.dto";
+import { JwtGuard } from "@common/guards/jwt.guard";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
+import { User, RequestUser } from "@common/decorators/user.decorator";
+import { Permission } from "@common/enums/permission.enum";
+import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
+import { MoneyInterceptor } from "@common/interceptors/money.interceptor";
+
+@Controller("salary-structures")
+@UseFilters(AllExceptionsFilter)
+@UseInterceptors(MoneyInterceptor)
+export class SalaryStructureController {
+  constructor(private salaryStructureService: SalaryStructureService) {}
+
+  @Get()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getStructures() {
+    return this.salaryStructureService.getStructures();
+  }
+
+  @Get("employee/:employeeId")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getEmployeeAssignments(@Param("employeeId") employeeId: string) {
+    return this.salaryStructureService.getEmployeeAssignments(employeeId);
+  }
+
+  @Get(":id")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getStructure(@Param("id") id: string) {
+    return this.salaryStructureService.getStructure(id);
+  }
+
+  @Get(":id/preview")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async previewStructure(
+    @Param("id") id: string,
+    @Query("monthlyGross") monthlyGross: string
+  ) {
+    return this.salaryStructureService.previewStructure(id, monthlyGross);
+  }
+
+  @Post()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async createStructure(
+    @User() user: RequestUser,
+    @Body() createDto: CreateSalaryStructureDto
+  ) {
+    return this.salaryStructureService.createStructure(createDto, user.userId);
+  }
+
+  @Put(":id")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async updateStructure(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() updateDto: UpdateSalaryStructureDto
+  ) {
+    return this.salaryStructureService.updateStructure(
+      id,
+      updateDto,
+      user.userId
+    );
+  }
+
+  @Post(":id/assign")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async assignStructure(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() assignDto: AssignSalaryStructureDto
+  ) {
+    return this.salaryStructureService.assignStructure(
+      id,
+      assignDto,
+      user.userId
+    );
+  }
+}
@@ -0,0 +1,541 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Inject,
+  ConflictException,
+} from "@nestjs/common";
+import { PrismaClient, Prisma } from "@prisma/client";
+import {
+  AssignSalaryStructureDto,
+  CreateSalaryStructureDto,
+  SalaryComponentDto,
+  UpdateSalaryStructureDto,
+} from "./dto/salary-structure.dto";
+import {
+  SalaryCalculationType,
+  SalaryComponentType,
+} from "@common/enums/payroll.enum";
+import { evaluateFormula, getFormulaReferences } from "./salary-formula";
+import {
+  Money,
+  MoneyValue,
+  MONEY_PATTERN,
+  ZERO,
+  roundMoney,
+  sumMoney,
+  toMoney,
+} from "./money";
+
+// Reserved code for the assignment's monthly gross
+const GROSS_CODE = "GROSS";
+
+// Large enough that sample formulas evaluate without dividing by zero
+const SAMPLE_GROSS = 100000;
+
+interface ComponentDefinition {
+  code: string;
+  name: string;
+  type: string;
+  calculationType: string;
+  amount?: MoneyValue;
+  percentage?: MoneyValue;
+  baseCode?: string | null;
+  formula?: string | null;
+}
+
+export interface SalaryLineItem {
+  code: string;
+  name: string;
+  type: SalaryComponentType;
+  amount: Money;
+  sortOrder: number;
+}
+
+export interface StructuredSalary {
+  baseSalary: Money;
+  allowances: Money;
+  deductions: Money;
+  lineItems: SalaryLineItem[];
+}
+
+@Injectable()
+export class SalaryStructureService {
+  constructor(@Inject("PrismaClient") private prisma: PrismaClient) {}
+
+  private getDependencies(component: ComponentDefinition): string[] {
+    switch (component.calculationType) {
+      case SalaryCalculationType.PERCENTAGE:
+        return component.baseCode ? [component.baseCode] : [];
+      case SalaryCalculationType.FORMULA:
+        return getFormulaReferences(component.formula ?? "");
+      default:
+        return [];
+    }
+  }
+
+  // Orders components so each is evaluated after the ones it references
+  private orderComponents<T extends ComponentDefinition>(components: T[]): T[] {
+    const byCode = new Map<string, T>();
+
+    for (const component of components) {
+      if (component.code === GROSS_CODE) {
+        throw new BadRequestException(`${GROSS_CODE} is a reserved code`);
+      }
+      if (byCode.has(component.code)) {
+        throw new BadRequestException(
+          `Duplicate component code ${component.code}`
+        );
+      }
+      byCode.set(component.code, component);
+    }
+
+    const ordered: T[] = [];
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+
+    const visit = (component: T) => {
+      if (visited.has(component.code)) {
+        return;
+      }
+      if (visiting.has(component.code)) {
+        throw new BadRequestException(
+          `Circular reference involving component ${component.code}`
+        );
+      }
+
+      visiting.add(component.code);
+      for (const reference of this.getDependencies(component)) {
+        if (reference === GROSS_CODE) {
+          continue;
+        }
+
+        const dependency = byCode.get(reference);
+        if (!dependency) {
+          throw new BadRequestException(
+            `Component ${component.code} references unknown component ${reference}`
+          );
+        }
+        visit(dependency);
+      }
+      visiting.delete(component.code);
+      visited.add(component.code);
+      ordered.push(component);
+    };
+
+    components.forEach(visit);
+    return ordered;
+  }
+
+  // Negative results, e.g. a balancing allowance on a low gross, become zero
+  calculateLineItems(
+    components: ComponentDefinition[],
+    monthlyGross: MoneyValue
+  ): SalaryLineItem[] {
+    const values: Record<string, Money> = {
+      [GROSS_CODE]: toMoney(monthlyGross),
+    };
+
+    for (const component of this.orderComponents(components)) {
+      let amount: Money;
+
+      switch (component.calculationType) {
+        case SalaryCalculationType.PERCENTAGE:
+          amount = values[component.baseCode as string]
+            .times(toMoney(component.percentage))
+            .dividedBy(100);
+          break;
+        case SalaryCalculationType.FORMULA:
+          amount = evaluateFormula(component.formula ?? "", values);
+          break;
+        default:
+          amount = toMoney(component.amount);
+      }
+
+      values[component.code] = Prisma.Decimal.max(ZERO, roundMoney(amount));
+    }
+
+    return components.map((component, index) => ({
+      code: component.code,
+      name: component.name,
+      type: component.type as SalaryComponentType,
+      amount: values[component.code],
+      sortOrder: index,
+    }));
+  }
+
+  private validateComponents(components: SalaryComponentDto[]) {
+    this.calculateLineItems(components, SAMPLE_GROSS);
+  }
+
+  private toComponentData(
+    components: SalaryComponentDto[]
+  ): Prisma.SalaryComponentCreateWithoutStructureInput[] {
+    return components.map((component, index) => ({
+      code: component.code,
+      name: component.name,
+      type: component.type,
+      calculationType: component.calculationType,
+      amount:
+        component.calculationType === SalaryCalculationType.FIXED
+          ? component.amount
+          : null,
+      percentage:
+        component.calculationType === SalaryCalculationType.PERCENTAGE
+          ? component.percentage
+          : null,
+      baseCode:
+        component.calculationType === SalaryCalculationType.PERCENTAGE
+          ? component.baseCode
+          : null,
+      formula:
+        component.calculationType === SalaryCalculationType.FORMULA
+          ? component.formula
+          : null,
+      sortOrder: index,
+    }));
+  }
+
+  private async findStructureOrThrow(structureId: string) {
+    const structure = await this.prisma.salaryStructure.findUnique({
+      where: { id: structureId },
+      include: { components: { orderBy: { sortOrder: "asc" } } },
+    });
+
+    if (!structure) {
+      throw new NotFoundException("Salary structure not found");
+    }
+
+    return structure;
+  }
+
+  // Assignments covering any part of the month, oldest first
+  async getMonthAssignments(
+    employeeId: string,
+    month: Date,
+    client: Prisma.TransactionClient = this.prisma
+  ) {
+    const monthStart = new Date(month.getFullYear(), month.getMonth(), 1);
+    const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+
+    return client.salaryStructureAssignment.findMany({
+      where: {
+        employeeId,
+        effectiveFrom: { lte: monthEnd },
+        OR: [{ effectiveTo: null }, { effectiveTo: { gte: monthStart } }],
+      },
+      include: {
+        structure: {
+          include: { components: { orderBy: { sortOrder: "asc" } } },
+        },
+      },
+      orderBy: { effectiveFrom: "asc" },
+    });
+  }
+
+  // Expands the employee's structure for the month. When a revision starts
+  // mid-month each assignment is paid for the days it covers; the earliest
+  // one also covers the days before it so a first assignment is not
+  // prorated. BASIC becomes the base salary and the remaining earnings the
+  // allowances; without a BASIC component every earning counts as base
+  async buildPayroll(
+    employeeId: string,
+    month: Date,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<StructuredSalary | null> {
+    const assignments = await this.getMonthAssignments(
+      employeeId,
+      month,
+      client
+    );
+
+    if (assignments.length === 0) {
+      return null;
+    }
+
+    const msPerDay = 24 * 60 * 60 * 1000;
+    const monthStart = new Date(month.getFullYear(), month.getMonth(), 1);
+    const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+    const daysInMonth = monthEnd.getDate();
+    const itemsByCode = new Map<string, SalaryLineItem>();
+
+    assignments.forEach((assignment, index) => {
+      const segmentStart =
+        index === 0 || assignment.effectiveFrom < monthStart
+          ? monthStart
+          : assignment.effectiveFrom;
+      const segmentEnd =
+        assignment.effectiveTo && assignment.effectiveTo < monthEnd
+          ? assignment.effectiveTo
+          : monthEnd;
+      const days =
+        Math.round((segmentEnd.getTime() - segmentStart.getTime()) / msPerDay) +
+        1;
+
+      for (const item of this.calculateLineItems(
+        assignment.structure.components,
+        assignment.monthlyGross
+      )) {
+        const existing = itemsByCode.get(item.code);
+        itemsByCode.set(item.code, {
+          ...(existing ?? item),
+          amount: (existing?.amount ?? ZERO).plus(
+            item.amount.times(days).dividedBy(daysInMonth)
+          ),
+        });
+      }
+    });
+
+    // Prorated amounts are rounded once, after the segments are combined
+    const lineItems = [...itemsByCode.values()].map((item) => ({
+      ...item,
+      amount: roundMoney(item.amount),
+    }));
+
+    const sum = (type: SalaryComponentType) =>
+      sumMoney(
+        lineItems.filter((item) => item.type === type).map((item) => item.amount)
+      );
+
+    const earnings = sum(SalaryComponentType.EARNING);
+    const basic = lineItems.find((item) => item.code === "BASIC");
+    const baseSalary = basic ? basic.amount : earnings;
+
+    return {
+      baseSalary,
+      allowances: earnings.minus(baseSalary),
+      deductions: sum(SalaryComponentType.DEDUCTION),
+      lineItems,
+    };
+  }
+
+  async getStructures() {
+    return this.prisma.salaryStructure.findMany({
+      include: { components: { orderBy: { sortOrder: "asc" } } },
+      orderBy: { name: "asc" },
+    });
+  }
+
+  async getStructure(structureId: string) {
+    return this.findStructureOrThrow(structureId);
+  }
+
+  async previewStructure(structureId: string, monthlyGross: string) {
+    if (!MONEY_PATTERN.test(monthlyGross ?? "")) {
+      throw new BadRequestException(
+        "monthlyGross must be a non-negative amount with at most 2 decimal places"
+      );
+    }
+
+    const structure = await this.findStructureOrThrow(structureId);
+
+    return {
+      structureId,
+      monthlyGross: toMoney(monthlyGross),
+      lineItems: this.calculateLineItems(structure.components, monthlyGross),
+    };
+  }
+
+  async createStructure(createDto: CreateSalaryStructureDto, adminId: string) {
+    const existingStructure = await this.prisma.salaryStructure.findUnique({
+      where: { name: createDto.name },
+    });
+
+    if (existingStructure) {
+      throw new ConflictException(
+        `A salary structure named ${createDto.name} already exists`
+      );
+    }
+
+    this.validateComponents(createDto.components);
+
+    return this.prisma.$transaction(async (tx) => {
+      const structure = await tx.salaryStructure.create({
+        data: {
+          name: createDto.name,
+          description: createDto.description,
+          components: { create: this.toComponentData(createDto.components) },
+        },
+        include: { components: { orderBy: { sortOrder: "asc" } } },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "CREATE",
+          userId: adminId,
+          entityType: "SalaryStructure",
+          entityId: structure.id,
+          reason: "Salary structure created",
+          changes: JSON.stringify(createDto),
+        },
+      });
+
+      return structure;
+    });
+  }
+
+  async updateStructure(
+    structureId: string,
+    updateDto: UpdateSalaryStructureDto,
+    adminId: string
+  ) {
+    const structure = await this.findStructureOrThrow(structureId);
+    const { components, ...structureFields } = updateDto;
+
+    if (components) {
+      this.validateComponents(components);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      if (components) {
+        await tx.salaryComponent.deleteMany({ where: { structureId } });
+      }
+
+      const updatedStructure = await tx.salaryStructure.update({
+        where: { id: structureId },
+        data: {
+          ...structureFields,
+          ...(components && {
+            components: { create: this.toComponentData(components) },
+          }),
+        },
+        include: { components: { orderBy: { sortOrder: "asc" } } },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "UPDATE",
+          userId: adminId,
+          entityType: "SalaryStructure",
+          entityId: structureId,
+          reason: "Salary structure updated",
+          changes: JSON.stringify({
+            previous: structure,
+            updated: updateDto,
+          }),
+        },
+      });
+
+      return updatedStructure;
+    });
+  }
+
+  async getEmployeeAssignments(employeeId: string) {
+    const employee = await this.prisma.employee.findUnique({
+      where: { id: employeeId },
+    });
+
+    if (!employee) {
+      throw new NotFoundException("Employee not found");
+    }
+
+    return this.prisma.salaryStructureAssignment.findMany({
+      where: { employeeId },
+      include: { structure: { select: { name: true } } },
+      orderBy: { effectiveFrom: "desc" },
+    });
+  }
+
+  // Checks that a new assignment may start on effectiveFrom
+  async validateAssignment(
+    structureId: string,
+    employeeId: string,
+    effectiveFrom: Date
+  ) {
+    const structure = await this.findStructureOrThrow(structureId);
+
+    if (!structure.isActive) {
+      throw new BadRequestException(
+        "Cannot assign an inactive salary structure"
+      );
+    }
+
+    const employee = await this.prisma.employee.findUnique({
+      where: { id: employeeId },
+    });
+
+    if (!employee) {
+      throw new NotFoundException("Employee not found");
+    }
+
+    const laterAssignment =
+      await this.prisma.salaryStructureAssignment.findFirst({
+        where: { employeeId, effectiveFrom: { gte: effectiveFrom } },
+      });
+
+    if (laterAssignment) {
+      throw new ConflictException(
+        `A salary structure assignment already starts on ${
+          laterAssignment.effectiveFrom.toISOString().split("T")[0]
+        }`
+      );
+    }
+
+    return structure;
+  }
+
+  // The employee's open assignment ends the day before the new one starts
+  async createAssignment(
+    tx: Prisma.TransactionClient,
+    data: {
+      employeeId: string;
+      structureId: string;
+      monthlyGross: Money;
+      effectiveFrom: Date;
+    },
+    adminId: string
+  ) {
+    const previousEnd = new Date(data.effectiveFrom);
+    previousEnd.setDate(previousEnd.getDate() - 1);
+
+    await tx.salaryStructureAssignment.updateMany({
+      where: { employeeId: data.employeeId, effectiveTo: null },
+      data: { effectiveTo: previousEnd },
+    });
+
+    return tx.salaryStructureAssignment.create({
+      data: { ...data, createdBy: adminId },
+    });
+  }
+
+  async assignStructure(
+    structureId: string,
+    assignDto: AssignSalaryStructureDto,
+    adminId: string
+  ) {
+    const effectiveFrom = new Date(assignDto.effectiveFrom);
+    effectiveFrom.setHours(0, 0, 0, 0);
+
+    const structure = await this.validateAssignment(
+      structureId,
+      assignDto.employeeId,
+      effectiveFrom
+    );
+
+    return this.prisma.$transaction(async (tx) => {
+      const assignment = await this.createAssignment(
+        tx,
+        {
+          employeeId: assignDto.employeeId,
+          structureId,
+          monthlyGross: toMoney(assignDto.monthlyGross),
+          effectiveFrom,
+        },
+        adminId
+      );
+
+      await tx.auditLog.create({
+        data: {
+          action: "CREATE",
+          userId: adminId,
+          entityType: "SalaryStructureAssignment",
+          entityId: assignment.id,
+          reason: `Assigned salary structure ${structure.name}`,
+          changes: JSON.stringify(assignDto),
+        },
+      });
+
+      return assignment;
+    });
+  }
+}
@@ -0,0 +1,23 @@
+import { IsArray, IsEnum, IsOptional } from "class-validator";
+import { Role } from "@common/enums/role.enum";
+import { Permission } from "@common/enums/permission.enum";
+
+export class UpdateRolePermissionsDto {
+  // Replaces the role's current permissions
+  @IsArray()
+  @IsEnum(Permission, { each: true })
+  permissions!: Permission[];
+}
+
+export class AssignUserRolesDto {
+  // Primary role stored on the user; unchanged when omitted
+  @IsOptional()
+  @IsEnum(Role)
+  role?: Role;
+
+  // Replaces the user's extra roles
+  @IsOptional()
+  @IsArray()
+  @IsEnum(Role, { each: true })
+  additionalRoles?: Role[];
+}
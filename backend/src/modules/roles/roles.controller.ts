@@ -0,0 +1,60 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  Param,
+  UseGuards,
+  UseFilters,
+} from "@nestjs/common";
+import { RolesService } from "./roles.service";
+import { UpdateRolePermissionsDto } from "./dto/role.dto";
+import { JwtGuard } from "@common/guards/jwt.guard";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
+import { User, RequestUser } from "@common/decorators/user.decorator";
+import { Permission } from "@common/enums/permission.enum";
+import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
+
+@Controller("roles")
+@UseFilters(AllExceptionsFilter)
+export class RolesController {
+  constructor(private rolesService: RolesService) {}
+
+  // Current roles and permissions, without waiting for a token refresh
+  @Get("me")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions()
+  async getMyAccess(@User() user: RequestUser) {
+    return this.rolesService.getUserAccess(user.userId);
+  }
+
+  @Get("permissions")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  async getPermissionCatalog() {
+    return this.rolesService.getPermissionCatalog();
+  }
+
+  @Get()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  async getRoles() {
+    return this.rolesService.getRoles();
+  }
+
+  @Put(":role/permissions")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  async updateRolePermissions(
+    @Param("role") role: string,
+    @User() user: RequestUser,
+    @Body() updateDto: UpdateRolePermissionsDto
+  ) {
+    return this.rolesService.updateRolePermissions(
+      role,
+      updateDto,
+      user.userId
+    );
+  }
+}
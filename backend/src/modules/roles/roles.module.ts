@@ -0,0 +1,17 @@
+import { Module } from "@nestjs/common";
+import { RolesService } from "./roles.service";
+import { RolesController } from "./roles.controller";
+import { getPrismaClient } from "@config/database.config";
+
+@Module({
+  providers: [
+    RolesService,
+    {
+      provide: "PrismaClient",
+      useValue: getPrismaClient(),
+    },
+  ],
+  controllers: [RolesController],
+  exports: [RolesService],
+})
+export class RolesModule {}
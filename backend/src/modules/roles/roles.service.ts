@@ -0,0 +1,254 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  Inject,
+  OnModuleInit,
+} from "@nestjs/common";
+import { PrismaClient } from "@prisma/client";
+import { AssignUserRolesDto, UpdateRolePermissionsDto } from "./dto/role.dto";
+import { Role } from "@common/enums/role.enum";
+import { RequestUser } from "@common/decorators/user.decorator";
+import {
+  Permission,
+  DEFAULT_ROLE_PERMISSIONS,
+} from "@common/enums/permission.enum";
+
+export interface UserAccess {
+  roles: Role[];
+  permissions: Permission[];
+}
+
+@Injectable()
+export class RolesService implements OnModuleInit {
+  constructor(@Inject("PrismaClient") private prisma: PrismaClient) {}
+
+  async onModuleInit() {
+    await this.installDefaultPermissions();
+  }
+
+  // Only runs against an empty table so admin edits are never overwritten
+  private async installDefaultPermissions() {
+    const existingGrants = await this.prisma.rolePermission.count();
+
+    if (existingGrants > 0) {
+      return;
+    }
+
+    await this.prisma.rolePermission.createMany({
+      data: Object.entries(DEFAULT_ROLE_PERMISSIONS).flatMap(
+        ([role, permissions]) =>
+          permissions.map((permission) => ({ role: role as Role, permission }))
+      ),
+      skipDuplicates: true,
+    });
+  }
+
+  private isPermission(value: string): value is Permission {
+    return Object.values(Permission).includes(value as Permission);
+  }
+
+  private parseRole(role: string): Role {
+    if (!Object.values(Role).includes(role as Role)) {
+      throw new NotFoundException(`Unknown role: ${role}`);
+    }
+
+    return role as Role;
+  }
+
+  async getUserRoles(userId: string): Promise<Role[]> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { extraRoles: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+
+    const extraRoles = user.extraRoles
+      .map((extraRole) => extraRole.role as Role)
+      .filter((role) => role !== user.role);
+
+    return [user.role as Role, ...extraRoles];
+  }
+
+  async getPermissionsForRoles(roles: Role[]): Promise<Permission[]> {
+    if (roles.includes(Role.ADMIN)) {
+      return Object.values(Permission);
+    }
+
+    const grants = await this.prisma.rolePermission.findMany({
+      where: { role: { in: roles } },
+    });
+
+    return [...new Set(grants.map((grant) => grant.permission))].filter(
+      (permission): permission is Permission => this.isPermission(permission)
+    );
+  }
+
+  async getUserAccess(userId: string): Promise<UserAccess> {
+    const roles = await this.getUserRoles(userId);
+    const permissions = await this.getPermissionsForRoles(roles);
+    return { roles, permissions };
+  }
+
+  getPermissionCatalog(): Permission[] {
+    return Object.values(Permission);
+  }
+
+  async getRoles() {
+    const grants = await this.prisma.rolePermission.findMany({
+      orderBy: { permission: "asc" },
+    });
+
+    return Object.values(Role).map((role) => ({
+      role,
+      editable: role !== Role.ADMIN,
+      permissions:
+        role === Role.ADMIN
+          ? Object.values(Permission)
+          : grants
+              .filter((grant) => grant.role === role)
+              .map((grant) => grant.permission),
+    }));
+  }
+
+  async updateRolePermissions(
+    roleParam: string,
+    updateDto: UpdateRolePermissionsDto,
+    adminId: string
+  ) {
+    const role = this.parseRole(roleParam);
+
+    if (role === Role.ADMIN) {
+      throw new BadRequestException(
+        "ADMIN always holds every permission and cannot be edited"
+      );
+    }
+
+    const permissions = [...new Set(updateDto.permissions)];
+
+    return this.prisma.$transaction(async (tx) => {
+      const previous = await tx.rolePermission.findMany({ where: { role } });
+
+      await tx.rolePermission.deleteMany({ where: { role } });
+      await tx.rolePermission.createMany({
+        data: permissions.map((permission) => ({ role, permission })),
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "UPDATE",
+          userId: adminId,
+          entityType: "Role",
+          entityId: role,
+          reason: "Role permissions updated",
+          changes: JSON.stringify({
+            previous: previous.map((grant) => grant.permission),
+            updated: permissions,
+          }),
+        },
+      });
+
+      return { role, editable: true, permissions };
+    });
+  }
+
+  // Any role but EMPLOYEE needs roles:manage, and only an ADMIN can make
+  // someone an ADMIN. Without a caller, as on sign-up, only EMPLOYEE is
+  // allowed
+  assertCanAssignRoles(caller: RequestUser | null, roles: Role[]) {
+    const elevatedRoles = roles.filter((role) => role !== Role.EMPLOYEE);
+
+    if (elevatedRoles.length === 0) {
+      return;
+    }
+
+    if (!caller?.permissions.includes(Permission.ROLES_MANAGE)) {
+      throw new ForbiddenException(
+        `Assigning roles other than ${Role.EMPLOYEE} requires ${Permission.ROLES_MANAGE}`
+      );
+    }
+
+    if (
+      elevatedRoles.includes(Role.ADMIN) &&
+      !caller.roles.includes(Role.ADMIN)
+    ) {
+      throw new ForbiddenException("Only an ADMIN can assign the ADMIN role");
+    }
+  }
+
+  async assignUserRoles(
+    userId: string,
+    assignDto: AssignUserRolesDto,
+    caller: RequestUser
+  ) {
+    const adminId = caller.userId;
+    const previousRoles = await this.getUserRoles(userId);
+    const [previousRole, ...previousExtraRoles] = previousRoles;
+
+    const role = assignDto.role ?? previousRole;
+    const additionalRoles = [
+      ...new Set(assignDto.additionalRoles ?? previousExtraRoles),
+    ].filter((extraRole) => extraRole !== role);
+
+    // An ADMIN's roles are changed by another ADMIN only
+    if (
+      previousRoles.includes(Role.ADMIN) &&
+      !caller.roles.includes(Role.ADMIN)
+    ) {
+      throw new ForbiddenException("Only an ADMIN can change an ADMIN's roles");
+    }
+
+    this.assertCanAssignRoles(
+      caller,
+      [role, ...additionalRoles].filter(
+        (newRole) => !previousRoles.includes(newRole)
+      )
+    );
+
+    // Keeps at least one admin able to manage roles
+    if (
+      userId === adminId &&
+      previousRoles.includes(Role.ADMIN) &&
+      role !== Role.ADMIN &&
+      !additionalRoles.includes(Role.ADMIN)
+    ) {
+      throw new BadRequestException("You cannot remove your own ADMIN role");
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: { role },
+      });
+
+      await tx.userRole.deleteMany({ where: { userId } });
+      await tx.userRole.createMany({
+        data: additionalRoles.map((extraRole) => ({
+          userId,
+          role: extraRole,
+          assignedBy: adminId,
+        })),
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "UPDATE",
+          userId: adminId,
+          entityType: "User",
+          entityId: userId,
+          reason: "User roles changed",
+          changes: JSON.stringify({
+            previous: previousRoles,
+            updated: [role, ...additionalRoles],
+          }),
+        },
+      });
+    });
+
+    return { userId, ...(await this.getUserAccess(userId)) };
+  }
+}
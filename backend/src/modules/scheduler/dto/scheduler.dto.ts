@@ -0,0 +1,19 @@
+import { IsEnum, IsInt, IsOptional, Max, Min } from "class-validator";
+import { JobRunStatus, ScheduledJobName } from "@common/enums/scheduler.enum";
+
+export class JobRunsQueryDto {
+  @IsOptional()
+  @IsEnum(ScheduledJobName)
+  job?: ScheduledJobName;
+
+  @IsOptional()
+  @IsEnum(JobRunStatus)
+  status?: JobRunStatus;
+
+  // Most recent runs first; defaults to 50
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
@@ -0,0 +1,44 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  UseFilters,
+} from "@nestjs/common";
+import { SchedulerService } from "./scheduler.service";
+import { JobRunsQueryDto } from "./dto/scheduler.dto";
+import { JwtGuard } from "@common/guards/jwt.guard";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
+import { User, RequestUser } from "@common/decorators/user.decorator";
+import { Permission } from "@common/enums/permission.enum";
+import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
+
+@Controller("scheduler")
+@UseFilters(AllExceptionsFilter)
+export class SchedulerController {
+  constructor(private schedulerService: SchedulerService) {}
+
+  @Get("jobs")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.SCHEDULER_MANAGE)
+  async getJobs() {
+    return this.schedulerService.getJobs();
+  }
+
+  @Get("runs")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.SCHEDULER_MANAGE)
+  async getRuns(@Query() query: JobRunsQueryDto) {
+    return this.schedulerService.getRuns(query);
+  }
+
+  @Post("jobs/:name/run")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.SCHEDULER_MANAGE)
+  async runJob(@Param("name") name: string, @User() user: RequestUser) {
+    return this.schedulerService.runJob(name, user.userId);
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from "@nestjs/common";
+import { SchedulerService } from "./scheduler.service";
+import { SchedulerController } from "./scheduler.controller";
+import { AttendanceModule } from "@modules/attendance/attendance.module";
+import { AuthModule } from "@modules/auth/auth.module";
+import { getPrismaClient } from "@config/database.config";
+
+@Module({
+  imports: [AttendanceModule, AuthModule],
+  providers: [
+    SchedulerService,
+    {
+      provide: "PrismaClient",
+      useValue: getPrismaClient(),
+    },
+  ],
+  controllers: [SchedulerController],
+})
+export class SchedulerModule {}
@@ -0,0 +1,346 @@
+import {
+  Injectable,
+  ConflictException,
+  Inject,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { PrismaClient, Prisma } from "@prisma/client";
+import { JobRunsQueryDto } from "./dto/scheduler.dto";
+import { AttendanceService } from "@modules/attendance/attendance.service";
+import { AuthService } from "@modules/auth/auth.service";
+import { JobRunStatus, ScheduledJobName } from "@common/enums/scheduler.enum";
+import { schedulerConfig } from "@config/scheduler.config";
+
+const MINUTE_MS = 60 * 1000;
+
+// How often due jobs are looked for
+const TICK_MS = MINUTE_MS;
+
+const DEFAULT_RUNS_LIMIT = 50;
+
+// Daily at a local time, or every so many minutes after the last run started
+type JobSchedule = { dailyAt: string } | { everyMinutes: number };
+
+interface ScheduledJob {
+  name: ScheduledJobName;
+  description: string;
+  schedule: JobSchedule;
+  run: (now: Date) => Promise<object>;
+}
+
+@Injectable()
+export class SchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SchedulerService.name);
+  private readonly jobs: ScheduledJob[];
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor(
+    @Inject("PrismaClient") private prisma: PrismaClient,
+    private attendanceService: AttendanceService,
+    private authService: AuthService
+  ) {
+    this.jobs = [
+      {
+        name: ScheduledJobName.MARK_ABSENTEES,
+        description:
+          "Marks employees with no attendance absent, for every day up to yesterday since the last successful run",
+        schedule: { dailyAt: schedulerConfig.absentMarkingTime },
+        run: async (now) =>
+          this.attendanceService.markAbsenteesBetween(
+            await this.getAbsentMarkingStart(now),
+            new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1)
+          ),
+      },
+      {
+        name: ScheduledJobName.AUTO_CHECK_OUT,
+        description: "Checks out sessions still open after their shift ended",
+        schedule: { everyMinutes: schedulerConfig.autoCheckOutIntervalMinutes },
+        run: (now) => this.attendanceService.closeOpenCheckIns(now),
+      },
+      {
+        name: ScheduledJobName.PURGE_REFRESH_TOKENS,
+        description: "Deletes expired refresh tokens",
+        schedule: { dailyAt: schedulerConfig.tokenPurgeTime },
+        run: (now) => this.authService.purgeExpiredRefreshTokens(now),
+      },
+    ];
+  }
+
+  onModuleInit() {
+    if (!schedulerConfig.enabled) {
+      this.logger.log("Scheduler disabled; jobs only run when started by hand");
+      return;
+    }
+
+    this.timer = setInterval(() => void this.tick(), TICK_MS);
+    // A pending tick must not keep the process alive on shutdown
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  private findJobOrThrow(name: string): ScheduledJob {
+    const job = this.jobs.find((candidate) => candidate.name === name);
+
+    if (!job) {
+      throw new NotFoundException(`Unknown job: ${name}`);
+    }
+
+    return job;
+  }
+
+  // The day after the last one a successful run covered, or yesterday when
+  // the job has never succeeded. Days missed while no instance ran it are
+  // caught up
+  private async getAbsentMarkingStart(now: Date): Promise<Date> {
+    const lastRun = await this.prisma.jobRun.findFirst({
+      where: {
+        job: ScheduledJobName.MARK_ABSENTEES,
+        status: JobRunStatus.SUCCEEDED,
+      },
+      orderBy: { startedAt: "desc" },
+    });
+    const from = lastRun?.startedAt ?? now;
+
+    return new Date(
+      from.getFullYear(),
+      from.getMonth(),
+      from.getDate() - (lastRun ? 0 : 1)
+    );
+  }
+
+  // When the latest scheduled run was due, at or before now
+  private getLastDueTime(schedule: JobSchedule, now: Date): Date {
+    if ("everyMinutes" in schedule) {
+      return new Date(now.getTime() - schedule.everyMinutes * MINUTE_MS);
+    }
+
+    const [hours, minutes] = schedule.dailyAt.split(":").map(Number);
+    const dueAt = new Date(now);
+    dueAt.setHours(hours, minutes, 0, 0);
+    if (dueAt > now) {
+      dueAt.setDate(dueAt.getDate() - 1);
+    }
+
+    return dueAt;
+  }
+
+  // Run history is shared by every instance, so a job is due when no
+  // instance has started it since it last fell due
+  private async isDue(job: ScheduledJob, now: Date): Promise<boolean> {
+    const runSince = await this.prisma.jobRun.findFirst({
+      where: {
+        job: job.name,
+        startedAt: { gte: this.getLastDueTime(job.schedule, now) },
+      },
+    });
+
+    return !runSince;
+  }
+
+  // Takes the job's lock unless another instance holds one that has not
+  // expired. Runs left RUNNING under an expired lock died with their
+  // instance and are failed
+  private async acquireLock(job: ScheduledJob, now: Date): Promise<boolean> {
+    const lockedUntil = new Date(
+      now.getTime() + schedulerConfig.lockTtlMinutes * MINUTE_MS
+    );
+    const lock = { lockedBy: schedulerConfig.instanceId, lockedUntil };
+
+    const created = await this.prisma.jobLock.createMany({
+      data: [{ job: job.name, ...lock }],
+      skipDuplicates: true,
+    });
+    if (created.count > 0) {
+      return true;
+    }
+
+    const takenOver = await this.prisma.jobLock.updateMany({
+      where: { job: job.name, lockedUntil: { lt: now } },
+      data: lock,
+    });
+    if (takenOver.count === 0) {
+      return false;
+    }
+
+    await this.prisma.jobRun.updateMany({
+      where: { job: job.name, status: JobRunStatus.RUNNING },
+      data: {
+        status: JobRunStatus.FAILED,
+        error: "The instance running the job stopped before it finished",
+        finishedAt: now,
+      },
+    });
+
+    return true;
+  }
+
+  // Extends the lock while this instance still holds it
+  private async renewLock(job: ScheduledJob): Promise<boolean> {
+    const renewed = await this.prisma.jobLock.updateMany({
+      where: { job: job.name, lockedBy: schedulerConfig.instanceId },
+      data: {
+        lockedUntil: new Date(
+          Date.now() + schedulerConfig.lockTtlMinutes * MINUTE_MS
+        ),
+      },
+    });
+
+    return renewed.count > 0;
+  }
+
+  // Renews the lock every third of its TTL so a long job is not taken for
+  // a crashed one
+  private async runWithRenewal(job: ScheduledJob, now: Date) {
+    const renewal = setInterval(
+      () =>
+        void this.renewLock(job).catch((error) =>
+          this.logger.error(
+            `Renewing the lock of ${job.name} failed`,
+            error instanceof Error ? error.stack : undefined
+          )
+        ),
+      (schedulerConfig.lockTtlMinutes * MINUTE_MS) / 3
+    );
+    renewal.unref();
+
+    try {
+      return await job.run(now);
+    } finally {
+      clearInterval(renewal);
+    }
+  }
+
+  private async releaseLock(job: ScheduledJob) {
+    await this.prisma.jobLock.deleteMany({
+      where: { job: job.name, lockedBy: schedulerConfig.instanceId },
+    });
+  }
+
+  // Runs the job under its lock and records the run; null when another
+  // instance is running it
+  private async execute(job: ScheduledJob, triggeredBy: string | null) {
+    const now = new Date();
+
+    if (!(await this.acquireLock(job, now))) {
+      return null;
+    }
+
+    try {
+      // Another instance may have finished the job before the lock was taken
+      if (!triggeredBy && !(await this.isDue(job, now))) {
+        return null;
+      }
+
+      const run = await this.prisma.jobRun.create({
+        data: {
+          job: job.name,
+          triggeredBy,
+          instanceId: schedulerConfig.instanceId,
+          startedAt: now,
+        },
+      });
+
+      let outcome: Prisma.JobRunUpdateInput;
+      try {
+        const result = await this.runWithRenewal(job, now);
+        outcome = {
+          status: JobRunStatus.SUCCEEDED,
+          result: JSON.stringify(result),
+          finishedAt: new Date(),
+        };
+      } catch (error) {
+        this.logger.error(
+          `Job ${job.name} failed`,
+          error instanceof Error ? error.stack : undefined
+        );
+        outcome = {
+          status: JobRunStatus.FAILED,
+          error: error instanceof Error ? error.message : String(error),
+          finishedAt: new Date(),
+        };
+      }
+
+      // An instance that took the lock over has already failed this run
+      if (!(await this.renewLock(job))) {
+        this.logger.warn(`Job ${job.name} lost its lock before finishing`);
+        return await this.prisma.jobRun.findUniqueOrThrow({
+          where: { id: run.id },
+        });
+      }
+
+      return await this.prisma.jobRun.update({
+        where: { id: run.id },
+        data: outcome,
+      });
+    } finally {
+      await this.releaseLock(job);
+    }
+  }
+
+  private async tick() {
+    // A slow job must not overlap the next tick
+    if (this.ticking) {
+      return;
+    }
+
+    this.ticking = true;
+    try {
+      for (const job of this.jobs) {
+        if (await this.isDue(job, new Date())) {
+          await this.execute(job, null);
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        "Scheduler tick failed",
+        error instanceof Error ? error.stack : undefined
+      );
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // Each job with its schedule and latest run
+  async getJobs() {
+    return Promise.all(
+      this.jobs.map(async (job) => ({
+        name: job.name,
+        description: job.description,
+        schedule: job.schedule,
+        lastRun: await this.prisma.jobRun.findFirst({
+          where: { job: job.name },
+          orderBy: { startedAt: "desc" },
+        }),
+      }))
+    );
+  }
+
+  async getRuns(query: JobRunsQueryDto) {
+    return this.prisma.jobRun.findMany({
+      where: {
+        ...(query.job && { job: query.job }),
+        ...(query.status && { status: query.status }),
+      },
+      orderBy: { startedAt: "desc" },
+      take: query.limit ?? DEFAULT_RUNS_LIMIT,
+    });
+  }
+
+  // Runs a job now, whether or not it is due
+  async runJob(name: string, userId: string) {
+    const run = await this.execute(this.findJobOrThrow(name), userId);
+
+    if (!run) {
+      throw new ConflictException(`Job ${name} is already running`);
+    }
+
+    return run;
+  }
+}
@@ -0,0 +1,173 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  IsBoolean,
+  IsArray,
+  ArrayMinSize,
+  Min,
+  Max,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { TaxRegime } from "@common/enums/statutory.enum";
+import { IsMoney } from "@modules/payroll/money";
+
+export class TaxSlabDto {
+  // null for the open-ended top slab
+  @ValidateIf((slab: TaxSlabDto) => slab.upTo !== null)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  upTo!: number | null;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  rate!: number;
+}
+
+export class RegimeRatesDto {
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  standardDeduction!: number;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => TaxSlabDto)
+  slabs!: TaxSlabDto[];
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  rebateLimit!: number;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  rebateMax!: number;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  cessPercentage!: number;
+}
+
+export class IncomeTaxRatesDto {
+  @ValidateNested()
+  @Type(() => RegimeRatesDto)
+  oldRegime!: RegimeRatesDto;
+
+  @ValidateNested()
+  @Type(() => RegimeRatesDto)
+  newRegime!: RegimeRatesDto;
+}
+
+export class ProvidentFundRatesDto {
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  employeePercentage!: number;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  employerPercentage!: number;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  wageCeiling!: number;
+
+  @IsBoolean()
+  restrictToCeiling!: boolean;
+
+  // Salary component codes whose earned amounts make up PF wages
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  wageCodes!: string[];
+}
+
+export class EmployeeStateInsuranceRatesDto {
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  employeePercentage!: number;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  employerPercentage!: number;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  wageThreshold!: number;
+}
+
+export class ProfessionalTaxSlabDto {
+  @ValidateIf((slab: ProfessionalTaxSlabDto) => slab.upTo !== null)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  upTo!: number | null;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  amount!: number;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  februaryAmount?: number;
+}
+
+export class ProfessionalTaxStateDto {
+  @IsString()
+  state!: string; // e.g. "KA", matched against StatutoryProfile.professionalTaxState
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ProfessionalTaxSlabDto)
+  slabs!: ProfessionalTaxSlabDto[];
+}
+
+export class UpsertStatutoryRatesDto {
+  @ValidateNested()
+  @Type(() => IncomeTaxRatesDto)
+  incomeTax!: IncomeTaxRatesDto;
+
+  @ValidateNested()
+  @Type(() => ProvidentFundRatesDto)
+  providentFund!: ProvidentFundRatesDto;
+
+  @ValidateNested()
+  @Type(() => EmployeeStateInsuranceRatesDto)
+  employeeStateInsurance!: EmployeeStateInsuranceRatesDto;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ProfessionalTaxStateDto)
+  professionalTax!: ProfessionalTaxStateDto[];
+}
+
+// Choices an employee makes for themselves
+export class UpdateMyStatutoryProfileDto {
+  @IsOptional()
+  @IsEnum(TaxRegime)
+  taxRegime?: TaxRegime;
+
+  @IsOptional()
+  @IsMoney()
+  declaredDeductions?: string; // Annual; only used under the old regime
+}
+
+export class UpdateStatutoryProfileDto extends UpdateMyStatutoryProfileDto {
+  // null removes professional tax
+  @IsOptional()
+  @IsString()
+  professionalTaxState?: string | null;
+
+  @IsOptional()
+  @IsBoolean()
+  providentFundEnabled?: boolean;
+}
@@ -0,0 +1,51 @@
+import { BadRequestException } from "@nestjs/common";
+import { payrollConfig } from "@config/payroll.config";
+
+export interface FinancialYear {
+  label: string; // "2026-27", or "2026" when the year starts in January
+  start: Date; // First day of the first month
+  lastMonth: Date; // First day of the last month
+}
+
+function build(startYear: number): FinancialYear {
+  const startMonth = payrollConfig.financialYearStartMonth - 1;
+  const start = new Date(startYear, startMonth, 1);
+  const lastMonth = new Date(startYear, startMonth + 11, 1);
+  const label =
+    startMonth === 0
+      ? `${startYear}`
+      : `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+
+  return { label, start, lastMonth };
+}
+
+export function getFinancialYear(date: Date): FinancialYear {
+  const startMonth = payrollConfig.financialYearStartMonth - 1;
+  return build(
+    date.getMonth() >= startMonth ? date.getFullYear() : date.getFullYear() - 1
+  );
+}
+
+export function parseFinancialYear(label: string): FinancialYear {
+  const financialYear = build(Number(label.slice(0, 4)));
+
+  if (!/^\d{4}(-\d{2})?$/.test(label) || financialYear.label !== label) {
+    throw new BadRequestException(
+      `Invalid financial year "${label}"; expected ${
+        build(new Date().getFullYear()).label
+      } style`
+    );
+  }
+
+  return financialYear;
+}
+
+// Months after the given month until the end of its financial year
+export function getRemainingMonths(month: Date): number {
+  const { lastMonth } = getFinancialYear(month);
+  return (
+    (lastMonth.getFullYear() - month.getFullYear()) * 12 +
+    lastMonth.getMonth() -
+    month.getMonth()
+  );
+}
@@ -0,0 +1,347 @@
+import { BadRequestException } from "@nestjs/common";
+import { StatutoryCode, TaxRegime } from "@common/enums/statutory.enum";
+import { Money, ZERO, toMoney } from "@modules/payroll/money";
+import {
+  RegimeRates,
+  STATUTORY_CALCULATORS,
+  StatutoryContext,
+  StatutoryRates,
+  calculateAnnualTax,
+  calculateSlabTax,
+  parseRates,
+  serializeRates,
+  validateRates,
+} from "./statutory-calculators";
+
+const OLD_REGIME: RegimeRates = {
+  standardDeduction: 50000,
+  slabs: [
+    { upTo: 250000, rate: 0 },
+    { upTo: 500000, rate: 5 },
+    { upTo: 1000000, rate: 20 },
+    { upTo: null, rate: 30 },
+  ],
+  rebateLimit: 500000,
+  rebateMax: 12500,
+  cessPercentage: 4,
+};
+
+const NEW_REGIME: RegimeRates = {
+  standardDeduction: 75000,
+  slabs: [
+    { upTo: 300000, rate: 0 },
+    { upTo: 700000, rate: 5 },
+    { upTo: 1000000, rate: 10 },
+    { upTo: null, rate: 15 },
+  ],
+  rebateLimit: 700000,
+  rebateMax: 25000,
+  cessPercentage: 4,
+};
+
+const RATES: StatutoryRates = {
+  incomeTax: { oldRegime: OLD_REGIME, newRegime: NEW_REGIME },
+  providentFund: {
+    employeePercentage: 12,
+    employerPercentage: 12,
+    wageCeiling: 15000,
+    restrictToCeiling: true,
+    wageCodes: ["BASIC"],
+  },
+  employeeStateInsurance: {
+    employeePercentage: 0.75,
+    employerPercentage: 3.25,
+    wageThreshold: 21000,
+  },
+  professionalTax: [
+    {
+      state: "MH",
+      slabs: [
+        { upTo: 7500, amount: 0 },
+        { upTo: 10000, amount: 175 },
+        { upTo: null, amount: 200, februaryAmount: 300 },
+      ],
+    },
+  ],
+};
+
+function buildContext(overrides: Partial<StatutoryContext>): StatutoryContext {
+  return {
+    month: new Date(2026, 3, 1),
+    monthlyGross: ZERO,
+    grossEarned: ZERO,
+    earnedAmounts: {},
+    taxRegime: TaxRegime.NEW,
+    declaredDeductions: ZERO,
+    professionalTaxState: null,
+    providentFundEnabled: true,
+    taxableToDate: ZERO,
+    taxDeductedToDate: ZERO,
+    currentTaxable: ZERO,
+    remainingMonths: 11,
+    ...overrides,
+  };
+}
+
+function calculate(
+  code: StatutoryCode,
+  context: StatutoryContext,
+  rates: StatutoryRates = RATES
+) {
+  const calculator = STATUTORY_CALCULATORS.find((entry) => entry.code === code);
+  return calculator?.calculate(context, rates) ?? null;
+}
+
+function expectMoney(actual: Money | undefined, expected: string) {
+  expect(actual?.toFixed(2)).toBe(expected);
+}
+
+describe("calculateSlabTax", () => {
+  it("taxes each slab's share of the income at its rate", () => {
+    // 5% of 4L, 10% of 3L and 15% of 2L
+    expectMoney(
+      calculateSlabTax(toMoney(1200000), NEW_REGIME.slabs),
+      "80000.00"
+    );
+  });
+
+  it("stops at the slab the income falls in", () => {
+    expectMoney(calculateSlabTax(toMoney(400000), OLD_REGIME.slabs), "7500.00");
+    expectMoney(calculateSlabTax(toMoney(250000), OLD_REGIME.slabs), "0.00");
+  });
+});
+
+describe("calculateAnnualTax", () => {
+  it("applies the rebate up to the rebate limit", () => {
+    expectMoney(calculateAnnualTax(toMoney(700000), NEW_REGIME), "0.00");
+    expectMoney(calculateAnnualTax(toMoney(500000), OLD_REGIME), "0.00");
+  });
+
+  it("adds cess once income is past the rebate limit", () => {
+    // 20000 + 10000, plus 4% cess
+    expectMoney(calculateAnnualTax(toMoney(800000), NEW_REGIME), "31200.00");
+    // 12500 + 100000, plus 4% cess
+    expectMoney(calculateAnnualTax(toMoney(1000000), OLD_REGIME), "117000.00");
+  });
+
+  it("rounds to whole rupees", () => {
+    // 20,000 and 10% of 1,10,001 is 31,000.10, plus 4% cess
+    expectMoney(calculateAnnualTax(toMoney(810001), NEW_REGIME), "32240.00");
+  });
+});
+
+describe("income tax", () => {
+  const context = buildContext({
+    monthlyGross: toMoney(100000),
+    currentTaxable: toMoney(100000),
+    declaredDeductions: toMoney(150000),
+  });
+
+  it("spreads the new regime tax on projected income over the year", () => {
+    const result = calculate(StatutoryCode.INCOME_TAX, context);
+
+    // 12L less the 75,000 standard deduction: 68,750 plus cess, over 12 months
+    expectMoney(result?.details.annualTax as Money, "71500.00");
+    expectMoney(result?.employeeAmount, "5958.00");
+  });
+
+  it("allows declared deductions under the old regime only", () => {
+    const result = calculate(StatutoryCode.INCOME_TAX, {
+      ...context,
+      taxRegime: TaxRegime.OLD,
+    });
+
+    // 12L less 50,000 and 1.5L declared
+    expectMoney(result?.details.taxableIncome as Money, "1000000.00");
+    expectMoney(result?.employeeAmount, "9750.00");
+  });
+
+  it("deducts what is still owed over the months left", () => {
+    const result = calculate(StatutoryCode.INCOME_TAX, {
+      ...context,
+      taxableToDate: toMoney(600000),
+      taxDeductedToDate: toMoney(41500),
+      remainingMonths: 5,
+    });
+
+    expectMoney(result?.employeeAmount, "5000.00");
+  });
+});
+
+describe("provident fund", () => {
+  const context = buildContext({
+    earnedAmounts: { BASIC: toMoney(30000), HRA: toMoney(12000) },
+  });
+
+  it("is calculated on the wage codes up to the ceiling", () => {
+    const result = calculate(StatutoryCode.PROVIDENT_FUND, context);
+
+    expectMoney(result?.employeeAmount, "1800.00");
+    expectMoney(result?.employerAmount, "1800.00");
+  });
+
+  it("uses full wages when not restricted to the ceiling", () => {
+    const result = calculate(StatutoryCode.PROVIDENT_FUND, context, {
+      ...RATES,
+      providentFund: { ...RATES.providentFund, restrictToCeiling: false },
+    });
+
+    expectMoney(result?.employeeAmount, "3600.00");
+  });
+
+  it("is skipped for employees who opted out", () => {
+    expect(
+      calculate(StatutoryCode.PROVIDENT_FUND, {
+        ...context,
+        providentFundEnabled: false,
+      })
+    ).toBeNull();
+  });
+});
+
+describe("employee state insurance", () => {
+  it("covers employees up to the wage threshold", () => {
+    const result = calculate(
+      StatutoryCode.EMPLOYEE_STATE_INSURANCE,
+      buildContext({
+        monthlyGross: toMoney(21000),
+        grossEarned: toMoney(20000),
+      })
+    );
+
+    expectMoney(result?.employeeAmount, "150.00");
+    expectMoney(result?.employerAmount, "650.00");
+  });
+
+  it("rounds contributions up to the next rupee", () => {
+    const result = calculate(
+      StatutoryCode.EMPLOYEE_STATE_INSURANCE,
+      buildContext({
+        monthlyGross: toMoney(20001),
+        grossEarned: toMoney(20001),
+      })
+    );
+
+    expectMoney(result?.employeeAmount, "151.00");
+  });
+
+  it("does not apply above the wage threshold", () => {
+    expect(
+      calculate(
+        StatutoryCode.EMPLOYEE_STATE_INSURANCE,
+        buildContext({
+          monthlyGross: toMoney(21001),
+          grossEarned: toMoney(15000),
+        })
+      )
+    ).toBeNull();
+  });
+});
+
+describe("professional tax", () => {
+  const context = buildContext({
+    grossEarned: toMoney(25000),
+    professionalTaxState: "MH",
+  });
+
+  it("takes the amount of the slab gross falls in", () => {
+    expectMoney(
+      calculate(StatutoryCode.PROFESSIONAL_TAX, context)?.employeeAmount,
+      "200.00"
+    );
+    expectMoney(
+      calculate(StatutoryCode.PROFESSIONAL_TAX, {
+        ...context,
+        grossEarned: toMoney(9000),
+      })?.employeeAmount,
+      "175.00"
+    );
+  });
+
+  it("collects the February amount in February", () => {
+    expectMoney(
+      calculate(StatutoryCode.PROFESSIONAL_TAX, {
+        ...context,
+        month: new Date(2027, 1, 1),
+      })?.employeeAmount,
+      "300.00"
+    );
+  });
+
+  it("does not apply in states without rates", () => {
+    expect(
+      calculate(StatutoryCode.PROFESSIONAL_TAX, {
+        ...context,
+        professionalTaxState: "KA",
+      })
+    ).toBeNull();
+  });
+});
+
+describe("validateRates", () => {
+  it("accepts well-formed rates", () => {
+    expect(() => validateRates(RATES)).not.toThrow();
+  });
+
+  it("requires the last slab, and only the last, to be open-ended", () => {
+    const rates = {
+      ...RATES,
+      incomeTax: {
+        ...RATES.incomeTax,
+        newRegime: {
+          ...NEW_REGIME,
+          slabs: [
+            { upTo: null, rate: 0 },
+            { upTo: 500000, rate: 5 },
+          ],
+        },
+      },
+    };
+
+    expect(() => validateRates(rates)).toThrow(BadRequestException);
+  });
+
+  it("requires slab limits in ascending order", () => {
+    const rates = {
+      ...RATES,
+      professionalTax: [
+        {
+          state: "MH",
+          slabs: [
+            { upTo: 10000, amount: 175 },
+            { upTo: 7500, amount: 0 },
+            { upTo: null, amount: 200 },
+          ],
+        },
+      ],
+    };
+
+    expect(() => validateRates(rates)).toThrow("ascending order");
+  });
+
+  it("rejects a state listed twice", () => {
+    expect(() =>
+      validateRates({
+        ...RATES,
+        professionalTax: [...RATES.professionalTax, ...RATES.professionalTax],
+      })
+    ).toThrow("more than once");
+  });
+});
+
+describe("parseRates", () => {
+  const stored = JSON.parse(JSON.stringify(serializeRates(RATES)));
+
+  it("reads back the rates as stored", () => {
+    expect(parseRates(stored)).toEqual(RATES);
+  });
+
+  it("fails on stored rates of the wrong shape", () => {
+    expect(() =>
+      parseRates({
+        ...stored,
+        providentFund: { ...stored.providentFund, wageCeiling: "15000" },
+      })
+    ).toThrow("PF wage ceiling");
+  });
+});
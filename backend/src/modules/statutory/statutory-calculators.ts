@@ -0,0 +1,461 @@
+import { BadRequestException } from "@nestjs/common";
+import { Prisma, StatutoryRateSet } from "@prisma/client";
+import { StatutoryCode, TaxRegime } from "@common/enums/statutory.enum";
+import {
+  Money,
+  ZERO,
+  roundRupees,
+  sumMoney,
+  toMoney,
+} from "@modules/payroll/money";
+import {
+  readArray,
+  readBoolean,
+  readNullableNumber,
+  readNumber,
+  readObject,
+  readOptionalNumber,
+  readString,
+} from "@common/utils/json";
+
+// Rates as stored on StatutoryRateSet. Percentages are 0-100; a slab with a
+// null upTo is the open-ended top slab
+export interface TaxSlab {
+  upTo: number | null;
+  rate: number;
+}
+
+export interface RegimeRates {
+  standardDeduction: number;
+  slabs: TaxSlab[];
+  rebateLimit: number; // Taxable income up to which the rebate applies
+  rebateMax: number;
+  cessPercentage: number;
+}
+
+export interface IncomeTaxRates {
+  oldRegime: RegimeRates;
+  newRegime: RegimeRates;
+}
+
+export interface ProvidentFundRates {
+  employeePercentage: number;
+  employerPercentage: number;
+  wageCeiling: number;
+  restrictToCeiling: boolean;
+  wageCodes: string[]; // Salary components that make up PF wages
+}
+
+export interface EmployeeStateInsuranceRates {
+  employeePercentage: number;
+  employerPercentage: number;
+  wageThreshold: number; // Employees earning more are not covered
+}
+
+export interface ProfessionalTaxSlab {
+  upTo: number | null;
+  amount: number;
+  februaryAmount?: number; // Some states collect the annual balance in February
+}
+
+export interface ProfessionalTaxState {
+  state: string;
+  slabs: ProfessionalTaxSlab[];
+}
+
+export interface StatutoryRates {
+  incomeTax: IncomeTaxRates;
+  providentFund: ProvidentFundRates;
+  employeeStateInsurance: EmployeeStateInsuranceRates;
+  professionalTax: ProfessionalTaxState[];
+}
+
+export interface StatutoryContext {
+  month: Date;
+  monthlyGross: Money; // Contractual gross for the month
+  grossEarned: Money; // Gross after loss of pay
+  earnedAmounts: Record<string, Money>; // Earnings by component code, after loss of pay
+  taxRegime: TaxRegime;
+  declaredDeductions: Money;
+  professionalTaxState: string | null;
+  providentFundEnabled: boolean;
+  taxableToDate: Money; // Earlier months of the financial year
+  taxDeductedToDate: Money;
+  currentTaxable: Money; // This month, including arrears
+  remainingMonths: number; // Months after this one in the financial year
+}
+
+export interface StatutoryResult {
+  code: StatutoryCode;
+  name: string;
+  employeeAmount: Money;
+  employerAmount: Money;
+  details: Record<string, unknown>;
+}
+
+export interface StatutoryCalculator {
+  code: StatutoryCode;
+  name: string;
+  calculate(
+    context: StatutoryContext,
+    rates: StatutoryRates
+  ): StatutoryResult | null;
+}
+
+function percentOf(amount: Money, percentage: number): Money {
+  return amount.times(percentage).dividedBy(100);
+}
+
+function findSlab<T extends { upTo: number | null }>(
+  slabs: T[],
+  amount: Money
+): T | undefined {
+  return slabs.find((slab) => slab.upTo === null || amount.lte(slab.upTo));
+}
+
+export function calculateSlabTax(income: Money, slabs: TaxSlab[]): Money {
+  let tax = ZERO;
+  let lower = ZERO;
+
+  for (const slab of slabs) {
+    if (income.gt(lower)) {
+      const upper = slab.upTo === null ? income : toMoney(slab.upTo);
+      tax = tax.plus(
+        percentOf(Prisma.Decimal.min(income, upper).minus(lower), slab.rate)
+      );
+    }
+    if (slab.upTo === null) {
+      break;
+    }
+    lower = toMoney(slab.upTo);
+  }
+
+  return tax;
+}
+
+// Annual tax on taxable income: slabs, then the rebate, then cess
+export function calculateAnnualTax(
+  taxableIncome: Money,
+  rates: RegimeRates
+): Money {
+  let tax = calculateSlabTax(taxableIncome, rates.slabs);
+
+  if (taxableIncome.lte(rates.rebateLimit)) {
+    tax = Prisma.Decimal.max(tax.minus(rates.rebateMax), ZERO);
+  }
+
+  return roundRupees(tax.plus(percentOf(tax, rates.cessPercentage)));
+}
+
+const providentFund: StatutoryCalculator = {
+  code: StatutoryCode.PROVIDENT_FUND,
+  name: "Provident Fund",
+  calculate(context, { providentFund: rates }) {
+    if (!context.providentFundEnabled) {
+      return null;
+    }
+
+    const earnedWages = sumMoney(
+      rates.wageCodes.map((code) => context.earnedAmounts[code])
+    );
+    const wages = rates.restrictToCeiling
+      ? Prisma.Decimal.min(earnedWages, rates.wageCeiling)
+      : earnedWages;
+
+    return {
+      code: this.code,
+      name: this.name,
+      employeeAmount: roundRupees(percentOf(wages, rates.employeePercentage)),
+      employerAmount: roundRupees(percentOf(wages, rates.employerPercentage)),
+      details: { wages, ...rates },
+    };
+  },
+};
+
+const employeeStateInsurance: StatutoryCalculator = {
+  code: StatutoryCode.EMPLOYEE_STATE_INSURANCE,
+  name: "Employee State Insurance",
+  calculate(context, { employeeStateInsurance: rates }) {
+    if (context.monthlyGross.gt(rates.wageThreshold)) {
+      return null;
+    }
+
+    // ESI contributions are rounded up to the next rupee
+    return {
+      code: this.code,
+      name: this.name,
+      employeeAmount: roundRupees(
+        percentOf(context.grossEarned, rates.employeePercentage),
+        Prisma.Decimal.ROUND_CEIL
+      ),
+      employerAmount: roundRupees(
+        percentOf(context.grossEarned, rates.employerPercentage),
+        Prisma.Decimal.ROUND_CEIL
+      ),
+      details: { wages: context.grossEarned, ...rates },
+    };
+  },
+};
+
+const professionalTax: StatutoryCalculator = {
+  code: StatutoryCode.PROFESSIONAL_TAX,
+  name: "Professional Tax",
+  calculate(context, { professionalTax: states }) {
+    const state = states.find(
+      (entry) => entry.state === context.professionalTaxState
+    );
+    const slab = state && findSlab(state.slabs, context.grossEarned);
+
+    if (!slab) {
+      return null;
+    }
+
+    const isFebruary = context.month.getMonth() === 1;
+
+    return {
+      code: this.code,
+      name: this.name,
+      employeeAmount: toMoney(
+        isFebruary && slab.februaryAmount !== undefined
+          ? slab.februaryAmount
+          : slab.amount
+      ),
+      employerAmount: ZERO,
+      details: { state: state.state, wages: context.grossEarned, slab },
+    };
+  },
+};
+
+// Projects annual income from the year so far plus the current monthly gross
+// for the rest of the year, and spreads the tax still owed evenly over the
+// remaining months
+const incomeTax: StatutoryCalculator = {
+  code: StatutoryCode.INCOME_TAX,
+  name: "Income Tax (TDS)",
+  calculate(context, { incomeTax: rates }) {
+    const regime =
+      context.taxRegime === TaxRegime.OLD ? rates.oldRegime : rates.newRegime;
+
+    const projectedIncome = context.taxableToDate
+      .plus(context.currentTaxable)
+      .plus(context.monthlyGross.times(context.remainingMonths));
+    const exemptions = toMoney(regime.standardDeduction).plus(
+      context.taxRegime === TaxRegime.OLD ? context.declaredDeductions : ZERO
+    );
+    const taxableIncome = Prisma.Decimal.max(
+      projectedIncome.minus(exemptions),
+      ZERO
+    );
+    const annualTax = calculateAnnualTax(taxableIncome, regime);
+    const monthlyTax = roundRupees(
+      Prisma.Decimal.max(
+        annualTax.minus(context.taxDeductedToDate),
+        ZERO
+      ).dividedBy(context.remainingMonths + 1)
+    );
+
+    return {
+      code: this.code,
+      name: this.name,
+      employeeAmount: monthlyTax,
+      employerAmount: ZERO,
+      details: {
+        regime: context.taxRegime,
+        projectedIncome,
+        exemptions,
+        taxableIncome,
+        annualTax,
+        taxDeductedToDate: context.taxDeductedToDate,
+        remainingMonths: context.remainingMonths,
+      },
+    };
+  },
+};
+
+// Applied in order; add a calculator here to add a statutory deduction
+export const STATUTORY_CALCULATORS: StatutoryCalculator[] = [
+  providentFund,
+  employeeStateInsurance,
+  professionalTax,
+  incomeTax,
+];
+
+function validateSlabs(label: string, slabs: { upTo: number | null }[]) {
+  slabs.forEach((slab, index) => {
+    const isLast = index === slabs.length - 1;
+
+    if (isLast !== (slab.upTo === null)) {
+      throw new BadRequestException(
+        `${label}: only the last slab may be open-ended, and it must be`
+      );
+    }
+
+    const previous = slabs[index - 1];
+    if (previous && slab.upTo !== null && slab.upTo <= (previous.upTo ?? 0)) {
+      throw new BadRequestException(
+        `${label}: slab limits must be in ascending order`
+      );
+    }
+  });
+}
+
+export function validateRates(rates: StatutoryRates) {
+  validateSlabs("Old regime tax slabs", rates.incomeTax.oldRegime.slabs);
+  validateSlabs("New regime tax slabs", rates.incomeTax.newRegime.slabs);
+
+  const states = new Set<string>();
+  for (const state of rates.professionalTax) {
+    if (states.has(state.state)) {
+      throw new BadRequestException(
+        `Professional tax for ${state.state} is listed more than once`
+      );
+    }
+    states.add(state.state);
+    validateSlabs(`${state.state} professional tax slabs`, state.slabs);
+  }
+}
+
+type StoredRates = Pick<
+  StatutoryRateSet,
+  "incomeTax" | "providentFund" | "employeeStateInsurance" | "professionalTax"
+>;
+
+function parseRegimeRates(value: Prisma.JsonValue | undefined, label: string) {
+  const regime = readObject(value, label);
+
+  return {
+    standardDeduction: readNumber(
+      regime.standardDeduction,
+      `${label} standard deduction`
+    ),
+    slabs: readArray(regime.slabs, `${label} slabs`).map((slab) => {
+      const { upTo, rate } = readObject(slab, `${label} slab`);
+      return {
+        upTo: readNullableNumber(upTo, `${label} slab limit`),
+        rate: readNumber(rate, `${label} slab rate`),
+      };
+    }),
+    rebateLimit: readNumber(regime.rebateLimit, `${label} rebate limit`),
+    rebateMax: readNumber(regime.rebateMax, `${label} rebate`),
+    cessPercentage: readNumber(regime.cessPercentage, `${label} cess`),
+  };
+}
+
+// Reads the rates a StatutoryRateSet stores as JSON
+export function parseRates(rateSet: StoredRates): StatutoryRates {
+  const incomeTax = readObject(rateSet.incomeTax, "income tax rates");
+  const providentFund = readObject(
+    rateSet.providentFund,
+    "provident fund rates"
+  );
+  const employeeStateInsurance = readObject(
+    rateSet.employeeStateInsurance,
+    "ESI rates"
+  );
+
+  return {
+    incomeTax: {
+      oldRegime: parseRegimeRates(incomeTax.oldRegime, "old regime"),
+      newRegime: parseRegimeRates(incomeTax.newRegime, "new regime"),
+    },
+    providentFund: {
+      employeePercentage: readNumber(
+        providentFund.employeePercentage,
+        "PF employee percentage"
+      ),
+      employerPercentage: readNumber(
+        providentFund.employerPercentage,
+        "PF employer percentage"
+      ),
+      wageCeiling: readNumber(providentFund.wageCeiling, "PF wage ceiling"),
+      restrictToCeiling: readBoolean(
+        providentFund.restrictToCeiling,
+        "PF ceiling restriction"
+      ),
+      wageCodes: readArray(providentFund.wageCodes, "PF wage codes").map(
+        (code) => readString(code, "PF wage code")
+      ),
+    },
+    employeeStateInsurance: {
+      employeePercentage: readNumber(
+        employeeStateInsurance.employeePercentage,
+        "ESI employee percentage"
+      ),
+      employerPercentage: readNumber(
+        employeeStateInsurance.employerPercentage,
+        "ESI employer percentage"
+      ),
+      wageThreshold: readNumber(
+        employeeStateInsurance.wageThreshold,
+        "ESI wage threshold"
+      ),
+    },
+    professionalTax: readArray(
+      rateSet.professionalTax,
+      "professional tax rates"
+    ).map((value) => {
+      const state = readObject(value, "professional tax state");
+      const label = readString(state.state, "professional tax state");
+
+      return {
+        state: label,
+        slabs: readArray(state.slabs, `${label} professional tax slabs`).map(
+          (slab) => {
+            const { upTo, amount, februaryAmount } = readObject(
+              slab,
+              `${label} professional tax slab`
+            );
+            return {
+              upTo: readNullableNumber(upTo, `${label} slab limit`),
+              amount: readNumber(amount, `${label} slab amount`),
+              februaryAmount: readOptionalNumber(
+                februaryAmount,
+                `${label} February amount`
+              ),
+            };
+          }
+        ),
+      };
+    }),
+  };
+}
+
+function serializeRegimeRates(regime: RegimeRates) {
+  return {
+    standardDeduction: regime.standardDeduction,
+    slabs: regime.slabs.map(({ upTo, rate }) => ({ upTo, rate })),
+    rebateLimit: regime.rebateLimit,
+    rebateMax: regime.rebateMax,
+    cessPercentage: regime.cessPercentage,
+  };
+}
+
+// The JSON columns of a StatutoryRateSet; only known fields are kept
+export function serializeRates(rates: StatutoryRates) {
+  return {
+    incomeTax: {
+      oldRegime: serializeRegimeRates(rates.incomeTax.oldRegime),
+      newRegime: serializeRegimeRates(rates.incomeTax.newRegime),
+    },
+    providentFund: {
+      employeePercentage: rates.providentFund.employeePercentage,
+      employerPercentage: rates.providentFund.employerPercentage,
+      wageCeiling: rates.providentFund.wageCeiling,
+      restrictToCeiling: rates.providentFund.restrictToCeiling,
+      wageCodes: [...rates.providentFund.wageCodes],
+    },
+    employeeStateInsurance: {
+      employeePercentage: rates.employeeStateInsurance.employeePercentage,
+      employerPercentage: rates.employeeStateInsurance.employerPercentage,
+      wageThreshold: rates.employeeStateInsurance.wageThreshold,
+    },
+    professionalTax: rates.professionalTax.map((state) => ({
+      state: state.state,
+      slabs: state.slabs.map(({ upTo, amount, februaryAmount }) => ({
+        upTo,
+        amount,
+        februaryAmount,
+      })),
+    })),
+  };
+}
@@ -0,0 +1,98 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Param,
+  Body,
+  UseGuards,
+  UseFilters,
+  UseInterceptors,
+} from "@nestjs/common";
+import { StatutoryService } from "./statutory.service";
+import {
+  UpdateMyStatutoryProfileDto,
+  UpdateStatutoryProfileDto,
+  UpsertStatutoryRatesDto,
+} from "./dto/statutory.dto";
+import { JwtGuard } from "@common/guards/jwt.guard";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
+import { User, RequestUser } from "@common/decorators/user.decorator";
+import { Permission } from "@common/enums/permission.enum";
+import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
+import { MoneyInterceptor } from "@common/interceptors/money.interceptor";
+
+@Controller("statutory")
+@UseFilters(AllExceptionsFilter)
+@UseInterceptors(MoneyInterceptor)
+export class StatutoryController {
+  constructor(private statutoryService: StatutoryService) {}
+
+  @Get("rates")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getRateSets() {
+    return this.statutoryService.getRateSets();
+  }
+
+  @Get("rates/:financialYear")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getRateSet(@Param("financialYear") financialYear: string) {
+    return this.statutoryService.getRateSet(financialYear);
+  }
+
+  @Put("rates/:financialYear")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async upsertRateSet(
+    @Param("financialYear") financialYear: string,
+    @Body() upsertDto: UpsertStatutoryRatesDto,
+    @User() user: RequestUser
+  ) {
+    return this.statutoryService.upsertRateSet(
+      financialYear,
+      upsertDto,
+      user.userId
+    );
+  }
+
+  @Get("me/profile")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_SELF)
+  async getMyProfile(@User() user: RequestUser) {
+    return this.statutoryService.getMyProfile(user.userId);
+  }
+
+  @Put("me/profile")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_SELF)
+  async updateMyProfile(
+    @User() user: RequestUser,
+    @Body() updateDto: UpdateMyStatutoryProfileDto
+  ) {
+    return this.statutoryService.updateMyProfile(user.userId, updateDto);
+  }
+
+  @Get("employees/:employeeId/profile")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_READ)
+  async getProfile(@Param("employeeId") employeeId: string) {
+    return this.statutoryService.getProfile(employeeId);
+  }
+
+  @Put("employees/:employeeId/profile")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PAYROLL_WRITE)
+  async updateProfile(
+    @Param("employeeId") employeeId: string,
+    @Body() updateDto: UpdateStatutoryProfileDto,
+    @User() user: RequestUser
+  ) {
+    return this.statutoryService.updateProfile(
+      employeeId,
+      updateDto,
+      user.userId
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from "@nestjs/common";
+import { StatutoryService } from "./statutory.service";
+import { StatutoryController } from "./statutory.controller";
+import { getPrismaClient } from "@config/database.config";
+
+@Module({
+  providers: [
+    StatutoryService,
+    {
+      provide: "PrismaClient",
+      useValue: getPrismaClient(),
+    },
+  ],
+  controllers: [StatutoryController],
+  exports: [StatutoryService],
+})
+export class StatutoryModule {}
@@ -0,0 +1,483 @@
+import {
+  Injectable,
+  NotFoundException,
+  Inject,
+  InternalServerErrorException,
+} from "@nestjs/common";
+import {
+  PrismaClient,
+  Prisma,
+  Employee,
+  Payroll,
+  StatutoryProfile,
+} from "@prisma/client";
+import {
+  UpdateMyStatutoryProfileDto,
+  UpdateStatutoryProfileDto,
+  UpsertStatutoryRatesDto,
+} from "./dto/statutory.dto";
+import { StatutoryCode, TaxRegime } from "@common/enums/statutory.enum";
+import {
+  NON_SALARY_CODES,
+  SalaryComponentType,
+} from "@common/enums/payroll.enum";
+import {
+  STATUTORY_CALCULATORS,
+  StatutoryResult,
+  calculateAnnualTax,
+  parseRates,
+  serializeRates,
+  validateRates,
+} from "./statutory-calculators";
+import {
+  getFinancialYear,
+  getRemainingMonths,
+  parseFinancialYear,
+} from "./financial-year";
+import {
+  Money,
+  ZERO,
+  calculateNetSalary,
+  roundMoney,
+  sumMoney,
+  toMoney,
+} from "@modules/payroll/money";
+import {
+  readAmount,
+  readArray,
+  readObject,
+  readString,
+} from "@common/utils/json";
+
+export interface StatutoryBreakdown {
+  financialYear: string;
+  statutoryDeductions: Money;
+  employerContributions: Money;
+  components: StatutoryResult[];
+}
+
+export interface AnnualTaxComputation {
+  taxRegime: TaxRegime;
+  standardDeduction: Money;
+  declaredDeductions: Money; // Only allowed under the old regime
+  taxableIncome: Money;
+  taxPayable: Money;
+}
+
+function isStatutoryCode(value: string): value is StatutoryCode {
+  return Object.values(StatutoryCode).includes(value as StatutoryCode);
+}
+
+// Reads the breakdown toPayrollData stores on a payroll record; null when the
+// record has none
+export function parseStatutoryBreakdown(
+  value: Prisma.JsonValue
+): StatutoryBreakdown | null {
+  if (value === null) {
+    return null;
+  }
+
+  const breakdown = readObject(value, "statutory breakdown");
+
+  return {
+    financialYear: readString(
+      breakdown.financialYear,
+      "statutory financial year"
+    ),
+    statutoryDeductions: toMoney(
+      readAmount(breakdown.statutoryDeductions, "statutory deductions")
+    ),
+    employerContributions: toMoney(
+      readAmount(breakdown.employerContributions, "employer contributions")
+    ),
+    components: readArray(breakdown.components, "statutory components").map(
+      (item) => {
+        const component = readObject(item, "statutory component");
+        const code = readString(component.code, "statutory component code");
+
+        if (!isStatutoryCode(code)) {
+          throw new InternalServerErrorException(
+            `Stored statutory component code ${code} is unknown`
+          );
+        }
+
+        return {
+          code,
+          name: readString(component.name, `${code} name`),
+          employeeAmount: toMoney(
+            readAmount(component.employeeAmount, `${code} employee amount`)
+          ),
+          employerAmount: toMoney(
+            readAmount(component.employerAmount, `${code} employer amount`)
+          ),
+          details: readObject(component.details, `${code} details`),
+        };
+      }
+    ),
+  };
+}
+
+// Line items that are not part of the month's earned salary
+const EXCLUDED_EARNING_CODES = ["ARREARS", ...NON_SALARY_CODES];
+
+@Injectable()
+export class StatutoryService {
+  constructor(@Inject("PrismaClient") private prisma: PrismaClient) {}
+
+  private async findEmployeeOrThrow(userId: string): Promise<Employee> {
+    const employee = await this.prisma.employee.findUnique({
+      where: { userId },
+    });
+
+    if (!employee) {
+      throw new NotFoundException("Employee not found");
+    }
+
+    return employee;
+  }
+
+  private getDefaultProfile(employeeId: string) {
+    return {
+      employeeId,
+      taxRegime: TaxRegime.NEW,
+      declaredDeductions: new Prisma.Decimal(0),
+      professionalTaxState: null,
+      providentFundEnabled: true,
+    };
+  }
+
+  // TDS deducted by a payroll record, read from its stored breakdown
+  getTaxDeducted(payroll: Pick<Payroll, "statutoryBreakdown">): Money {
+    return (
+      parseStatutoryBreakdown(payroll.statutoryBreakdown)?.components.find(
+        (component) => component.code === StatutoryCode.INCOME_TAX
+      )?.employeeAmount ?? ZERO
+    );
+  }
+
+  // Income a payroll record adds to the year's taxable salary
+  getTaxableIncome(
+    payroll: Pick<
+      Payroll,
+      | "baseSalary"
+      | "allowances"
+      | "arrears"
+      | "overtimePay"
+      | "lossOfPayAmount"
+    >
+  ): Money {
+    return payroll.baseSalary
+      .plus(payroll.allowances)
+      .plus(payroll.arrears)
+      .plus(payroll.overtimePay)
+      .minus(payroll.lossOfPayAmount);
+  }
+
+  // Tax on a year's salary the way TDS projects it, under the employee's
+  // current regime and declarations. Returns null when no rates have been
+  // set for the financial year
+  async getAnnualTaxComputation(
+    employeeId: string,
+    financialYear: string,
+    grossSalary: Money
+  ): Promise<AnnualTaxComputation | null> {
+    const rateSet = await this.prisma.statutoryRateSet.findUnique({
+      where: { financialYear },
+    });
+
+    if (!rateSet) {
+      return null;
+    }
+
+    const profile =
+      (await this.prisma.statutoryProfile.findUnique({
+        where: { employeeId },
+      })) ?? this.getDefaultProfile(employeeId);
+    const taxRegime = profile.taxRegime as TaxRegime;
+    const { incomeTax } = parseRates(rateSet);
+    const regime =
+      taxRegime === TaxRegime.OLD ? incomeTax.oldRegime : incomeTax.newRegime;
+
+    const standardDeduction = toMoney(regime.standardDeduction);
+    const declaredDeductions =
+      taxRegime === TaxRegime.OLD ? toMoney(profile.declaredDeductions) : ZERO;
+    const taxableIncome = Prisma.Decimal.max(
+      grossSalary.minus(standardDeduction).minus(declaredDeductions),
+      ZERO
+    );
+
+    return {
+      taxRegime,
+      standardDeduction,
+      declaredDeductions,
+      taxableIncome,
+      taxPayable: calculateAnnualTax(taxableIncome, regime),
+    };
+  }
+
+  // Runs every calculator the employee is subject to. Returns null when no
+  // rates have been set for the payroll's financial year
+  async calculate(
+    client: Prisma.TransactionClient,
+    payroll: Payroll
+  ): Promise<StatutoryBreakdown | null> {
+    const financialYear = getFinancialYear(payroll.month);
+    const rateSet = await client.statutoryRateSet.findUnique({
+      where: { financialYear: financialYear.label },
+    });
+
+    if (!rateSet) {
+      return null;
+    }
+
+    const profile =
+      (await client.statutoryProfile.findUnique({
+        where: { employeeId: payroll.employeeId },
+      })) ?? this.getDefaultProfile(payroll.employeeId);
+    const lineItems = await client.payrollLineItem.findMany({
+      where: { payrollId: payroll.id },
+    });
+    const earlierPayrolls = await client.payroll.findMany({
+      where: {
+        employeeId: payroll.employeeId,
+        month: { gte: financialYear.start, lt: payroll.month },
+      },
+    });
+
+    const monthlyGross = payroll.baseSalary.plus(payroll.allowances);
+    const grossEarned = monthlyGross.minus(payroll.lossOfPayAmount);
+
+    // Records without salary line items carry base salary as BASIC
+    const salaryEarnings = lineItems.filter(
+      (item) =>
+        item.type === SalaryComponentType.EARNING &&
+        !EXCLUDED_EARNING_CODES.includes(item.code)
+    );
+    const earnings = lineItems.some(
+      (item) => !NON_SALARY_CODES.includes(item.code)
+    )
+      ? salaryEarnings
+      : [{ code: "BASIC", amount: payroll.baseSalary }];
+    const earnedAmounts: Record<string, Money> = {};
+    for (const item of earnings) {
+      earnedAmounts[item.code] = monthlyGross.gt(0)
+        ? roundMoney(item.amount.times(grossEarned).dividedBy(monthlyGross))
+        : ZERO;
+    }
+
+    // Deductions the salary structure already makes itself
+    const structureCodes = lineItems
+      .filter((item) => item.type === SalaryComponentType.DEDUCTION)
+      .map((item) => item.code);
+
+    const context = {
+      month: payroll.month,
+      monthlyGross,
+      grossEarned,
+      earnedAmounts,
+      taxRegime: profile.taxRegime as TaxRegime,
+      declaredDeductions: toMoney(profile.declaredDeductions),
+      professionalTaxState: profile.professionalTaxState,
+      providentFundEnabled: profile.providentFundEnabled,
+      taxableToDate: sumMoney(
+        earlierPayrolls.map((record) => this.getTaxableIncome(record))
+      ),
+      taxDeductedToDate: sumMoney(
+        earlierPayrolls.map((record) => this.getTaxDeducted(record))
+      ),
+      currentTaxable: this.getTaxableIncome(payroll),
+      remainingMonths: getRemainingMonths(payroll.month),
+    };
+
+    const rates = parseRates(rateSet);
+    const components: StatutoryResult[] = [];
+
+    for (const calculator of STATUTORY_CALCULATORS) {
+      if (structureCodes.includes(calculator.code)) {
+        continue;
+      }
+
+      const result = calculator.calculate(context, rates);
+      if (result) {
+        components.push(result);
+      }
+    }
+
+    return {
+      financialYear: financialYear.label,
+      statutoryDeductions: sumMoney(
+        components.map((result) => result.employeeAmount)
+      ),
+      employerContributions: sumMoney(
+        components.map((result) => result.employerAmount)
+      ),
+      components,
+    };
+  }
+
+  toPayrollData(breakdown: StatutoryBreakdown | null) {
+    return {
+      statutoryDeductions: breakdown?.statutoryDeductions ?? ZERO,
+      employerContributions: breakdown?.employerContributions ?? ZERO,
+      // Decimals serialize to strings, so stored amounts keep their precision
+      statutoryBreakdown: breakdown
+        ? (JSON.parse(JSON.stringify(breakdown)) as Prisma.InputJsonValue)
+        : Prisma.DbNull,
+    };
+  }
+
+  // Recalculates statutory deductions for a record after its salary and loss
+  // of pay are final
+  async applyToPayroll(client: Prisma.TransactionClient, payroll: Payroll) {
+    const breakdown = await this.calculate(client, payroll);
+    const data = this.toPayrollData(breakdown);
+
+    return client.payroll.update({
+      where: { id: payroll.id },
+      data: {
+        ...data,
+        netSalary: calculateNetSalary({
+          ...payroll,
+          statutoryDeductions: data.statutoryDeductions,
+        }),
+      },
+    });
+  }
+
+  async getRateSets() {
+    return this.prisma.statutoryRateSet.findMany({
+      orderBy: { financialYear: "desc" },
+    });
+  }
+
+  async getRateSet(financialYear: string) {
+    parseFinancialYear(financialYear);
+
+    const rateSet = await this.prisma.statutoryRateSet.findUnique({
+      where: { financialYear },
+    });
+
+    if (!rateSet) {
+      throw new NotFoundException(
+        `No statutory rates set for financial year ${financialYear}`
+      );
+    }
+
+    return rateSet;
+  }
+
+  // Rates are replaced as a whole; payroll already generated for the year is
+  // recalculated the next time its run is regenerated
+  async upsertRateSet(
+    financialYear: string,
+    upsertDto: UpsertStatutoryRatesDto,
+    adminId: string
+  ) {
+    parseFinancialYear(financialYear);
+    validateRates(upsertDto);
+
+    const existing = await this.prisma.statutoryRateSet.findUnique({
+      where: { financialYear },
+    });
+    const data = { ...serializeRates(upsertDto), updatedBy: adminId };
+
+    return this.prisma.$transaction(async (tx) => {
+      const rateSet = await tx.statutoryRateSet.upsert({
+        where: { financialYear },
+        create: { ...data, financialYear },
+        update: data,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: existing ? "UPDATE" : "CREATE",
+          userId: adminId,
+          entityType: "StatutoryRateSet",
+          entityId: rateSet.id,
+          reason: `Statutory rates ${
+            existing ? "updated" : "created"
+          } for ${financialYear}`,
+          changes: JSON.stringify({
+            previous: existing && {
+              incomeTax: existing.incomeTax,
+              providentFund: existing.providentFund,
+              employeeStateInsurance: existing.employeeStateInsurance,
+              professionalTax: existing.professionalTax,
+            },
+            updated: upsertDto,
+          }),
+        },
+      });
+
+      return rateSet;
+    });
+  }
+
+  async getProfile(employeeId: string) {
+    const employee = await this.prisma.employee.findUnique({
+      where: { id: employeeId },
+      include: { statutoryProfile: true },
+    });
+
+    if (!employee) {
+      throw new NotFoundException("Employee not found");
+    }
+
+    return employee.statutoryProfile ?? this.getDefaultProfile(employeeId);
+  }
+
+  async updateProfile(
+    employeeId: string,
+    updateDto: UpdateStatutoryProfileDto,
+    userId: string
+  ): Promise<StatutoryProfile> {
+    const previous = await this.getProfile(employeeId);
+
+    return this.prisma.$transaction(async (tx) => {
+      const profile = await tx.statutoryProfile.upsert({
+        where: { employeeId },
+        create: { ...updateDto, employeeId, updatedBy: userId },
+        update: { ...updateDto, updatedBy: userId },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "UPDATE",
+          userId,
+          entityType: "StatutoryProfile",
+          entityId: profile.id,
+          reason: "Statutory profile updated",
+          changes: JSON.stringify({
+            employeeId,
+            previousTaxRegime: previous.taxRegime,
+            previousDeclaredDeductions: previous.declaredDeductions,
+            previousProfessionalTaxState: previous.professionalTaxState,
+            previousProvidentFundEnabled: previous.providentFundEnabled,
+            ...updateDto,
+          }),
+        },
+      });
+
+      return profile;
+    });
+  }
+
+  async getMyProfile(userId: string) {
+    const { id: employeeId } = await this.findEmployeeOrThrow(userId);
+    return this.getProfile(employeeId);
+  }
+
+  async updateMyProfile(
+    userId: string,
+    updateDto: UpdateMyStatutoryProfileDto
+  ) {
+    const { id: employeeId } = await this.findEmployeeOrThrow(userId);
+    const { taxRegime, declaredDeductions } = updateDto;
+
+    return this.updateProfile(
+      employeeId,
+      { taxRegime, declaredDeductions },
+      userId
+    );
+  }
+}
@@ -2,6 +2,7 @@ import {
   Controller,
   Post,
   Get,
+  Put,
   Body,
   Param,
   UseGuards,
@@ -9,34 +10,55 @@ import {
 } from "@nestjs/common";
 import { UsersService } from "./users.service";
 import { CreateUserDto } from "./dto/user.dto";
+import { RolesService } from "@modules/roles/roles.service";
+import { AssignUserRolesDto } from "@modules/roles/dto/role.dto";
 import { JwtGuard } from "@common/guards/jwt.guard";
-import { RolesGuard } from "@common/guards/roles.guard";
-import { Roles } from "@common/decorators/roles.decorator";
-import { Role } from "@common/enums/role.enum";
+import { PermissionsGuard } from "@common/guards/permissions.guard";
+import { RequirePermissions } from "@common/decorators/permissions.decorator";
+import { User, RequestUser } from "@common/decorators/user.decorator";
+import { Permission } from "@common/enums/permission.enum";
 import { AllExceptionsFilter } from "@common/filters/all-exceptions.filter";
 
 @Controller("users")
 @UseFilters(AllExceptionsFilter)
 export class UsersController {
-  constructor(private usersService: UsersService) {}
+  constructor(
+    private usersService: UsersService,
+    private rolesService: RolesService
+  ) {}
 
   @Post()
-  @UseGuards(JwtGuard, RolesGuard)
-  @Roles(Role.ADMIN)
-  async createUser(@Body() createUserDto: CreateUserDto) {
-    return this.usersService.createUser(createUserDto);
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.USERS_MANAGE)
+  async createUser(
+    @User() user: RequestUser,
+    @Body() createUserDto: CreateUserDto
+  ) {
+    return this.usersService.createUser(createUserDto, user);
   }
 
   @Get(":id")
-  @UseGuards(JwtGuard)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PROFILE_SELF)
   async getUserById(@Param("id") id: string) {
     return this.usersService.getUserById(id);
   }
 
   @Get()
-  @UseGuards(JwtGuard, RolesGuard)
-  @Roles(Role.ADMIN)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.USERS_MANAGE)
   async getAllUsers() {
     return this.usersService.getAllUsers();
   }
+
+  @Put(":id/roles")
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  async assignUserRoles(
+    @Param("id") id: string,
+    @User() user: RequestUser,
+    @Body() assignDto: AssignUserRolesDto
+  ) {
+    return this.rolesService.assignUserRoles(id, assignDto, user);
+  }
 }
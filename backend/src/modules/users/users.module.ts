@@ -1,9 +1,11 @@
 import { Module } from "@nestjs/common";
 import { UsersService } from "./users.service";
 import { UsersController } from "./users.controller";
+import { RolesModule } from "@modules/roles/roles.module";
 import { getPrismaClient } from "@config/database.config";
 
 @Module({
+  imports: [RolesModule],
   providers: [
     UsersService,
     {
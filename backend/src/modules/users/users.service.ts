@@ -7,12 +7,21 @@ import {
 import { PrismaClient } from "@prisma/client";
 import * as bcrypt from "bcryptjs";
 import { CreateUserDto, UpdateEmployeeProfileDto } from "./dto/user.dto";
+import { RolesService } from "@modules/roles/roles.service";
+import { RequestUser } from "@common/decorators/user.decorator";
+import { Role } from "@common/enums/role.enum";
 
 @Injectable()
 export class UsersService {
-  constructor(@Inject("PrismaClient") private prisma: PrismaClient) {}
+  constructor(
+    @Inject("PrismaClient") private prisma: PrismaClient,
+    private rolesService: RolesService
+  ) {}
+
+  async createUser(createUserDto: CreateUserDto, caller: RequestUser) {
+    const role = createUserDto.role ?? Role.EMPLOYEE;
+    this.rolesService.assertCanAssignRoles(caller, [role]);
 
-  async createUser(createUserDto: CreateUserDto) {
     const existingUser = await this.prisma.user.findUnique({
       where: { email: createUserDto.email },
     });
@@ -27,6 +36,7 @@ export class UsersService {
       data: {
         email: createUserDto.email,
         password: hashedPassword,
+        role,
         employee: {
           create: {
             firstName: createUserDto.firstName,
@@ -0,0 +1,124 @@
+/**
+ * Property-Based Test for Permission-Based Access Control
+ * **Feature: dayflow-hrms, Property: Permission-based access control**
+ * **Validates: ProtectedRoute and navigation read the backend permission set**
+ */
+
+import React from 'react'
+import * as fc from 'fast-check'
+import { render } from '@testing-library/react'
+import { ProtectedRoute } from '@/components/auth/protected-route'
+import { AuthProvider } from '@/contexts/auth-context'
+import { ToastProvider } from '@/components/ui/toast'
+import {
+  ALL_PERMISSIONS,
+  NAVIGATION_ITEMS,
+  getNavigationItems,
+  getUserPermissions,
+  hasPermissions,
+} from '@/lib/permissions'
+import { authService } from '@/services/auth.service'
+import { Permission, User } from '@/types'
+
+// Mock the auth service to control authentication state
+jest.mock('@/services/auth.service', () => ({
+  authService: {
+    getCurrentUser: jest.fn(),
+    login: jest.fn(),
+    logout: jest.fn(),
+    signup: jest.fn()
+  }
+}))
+
+const mockedAuthService = authService as jest.Mocked<typeof authService>
+
+// Generators for property-based testing
+const permissionSetArbitrary = fc.subarray(ALL_PERMISSIONS)
+
+const userArbitrary = fc.record({
+  id: fc.string({ minLength: 1 }),
+  email: fc.emailAddress(),
+  firstName: fc.string({ minLength: 1 }),
+  lastName: fc.string({ minLength: 1 }),
+  role: fc.constantFrom('EMPLOYEE' as const, 'HR' as const, 'PAYROLL_ADMIN' as const, 'MANAGER' as const, 'AUDITOR' as const),
+  permissions: permissionSetArbitrary,
+  createdAt: fc.date(),
+  updatedAt: fc.date()
+})
+
+const TestWrapper = ({ children }: { children: React.ReactNode }) => {
+  return React.createElement(ToastProvider, null,
+    React.createElement(AuthProvider, null, children)
+  )
+}
+
+const SensitiveContent = () => {
+  return React.createElement('div', { 'data-testid': 'sensitive-content' }, 'Sensitive content')
+}
+
+describe('Permission-Based Access Control Properties', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should only grant access when every required permission is held', () => {
+    fc.assert(fc.property(
+      userArbitrary,
+      permissionSetArbitrary,
+      (user, requiredPermissions) => {
+        mockedAuthService.getCurrentUser.mockReturnValue(user)
+
+        const { container, unmount } = render(
+          React.createElement(TestWrapper, null,
+            React.createElement(ProtectedRoute, { requiredPermissions },
+              React.createElement(SensitiveContent)
+            )
+          )
+        )
+
+        const allowed = requiredPermissions.every((permission) => user.permissions.includes(permission))
+        const sensitiveContent = container.querySelector('[data-testid="sensitive-content"]')
+
+        if (allowed) {
+          expect(sensitiveContent).not.toBeNull()
+        } else {
+          expect(sensitiveContent).toBeNull()
+          expect(container.textContent).toContain('Insufficient Permissions')
+        }
+
+        unmount()
+      }
+    ), { numRuns: 30 })
+  })
+
+  it('should only show navigation items backed by a held permission', () => {
+    fc.assert(fc.property(
+      userArbitrary,
+      (user) => {
+        const items = getNavigationItems(user as User)
+
+        NAVIGATION_ITEMS.forEach((item) => {
+          const visible = items.includes(item)
+          const permitted = item.anyOf.some((permission) => user.permissions.includes(permission))
+          expect(visible).toBe(permitted)
+        })
+      }
+    ), { numRuns: 50 })
+  })
+
+  it('should treat stored admin sessions without permissions as holding every permission', () => {
+    fc.assert(fc.property(
+      userArbitrary,
+      permissionSetArbitrary,
+      (user, requiredPermissions) => {
+        const legacyUser = { ...user, permissions: undefined }
+        const admin = { ...legacyUser, role: 'ADMIN' as const } as User
+        const employee = { ...legacyUser, role: 'EMPLOYEE' as const } as User
+
+        expect(getUserPermissions(admin)).toEqual(ALL_PERMISSIONS)
+        expect(hasPermissions(admin, requiredPermissions as Permission[])).toBe(true)
+        expect(hasPermissions(employee, requiredPermissions as Permission[])).toBe(requiredPermissions.length === 0)
+      }
+    ), { numRuns: 30 })
+  })
+})
@@ -1,5 +1,10 @@
 import { AdminDashboard } from '@/components/pages'
+import { ProtectedRoute } from '@/components/auth'
 
 export default function AdminPage() {
-  return <AdminDashboard />
+  return (
+    <ProtectedRoute requiredPermissions={['employees:read']}>
+      <AdminDashboard />
+    </ProtectedRoute>
+  )
 }
\ No newline at end of file
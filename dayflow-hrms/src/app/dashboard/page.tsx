@@ -4,6 +4,7 @@ import { useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/contexts/auth-context'
 import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { getDashboardRoute } from '@/lib/permissions'
 
 export default function DashboardPage() {
   const { user, loading } = useAuth()
@@ -11,11 +12,7 @@ export default function DashboardPage() {
 
   useEffect(() => {
     if (!loading && user) {
-      if (user.role === 'EMPLOYEE') {
-        router.replace('/dashboard/employee')
-      } else if (user.role === 'ADMIN') {
-        router.replace('/dashboard/admin')
-      }
+      router.replace(getDashboardRoute(user))
     }
   }, [user, loading, router])
 
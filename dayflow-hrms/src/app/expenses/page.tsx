@@ -0,0 +1,5 @@
+import { ExpensesPage } from '@/components/pages'
+
+export default function Expenses() {
+  return <ExpensesPage />
+}
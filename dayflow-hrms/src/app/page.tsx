@@ -4,6 +4,7 @@ import { useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/contexts/auth-context'
 import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { getDashboardRoute } from '@/lib/permissions'
 import { LoginPage } from '@/components/pages'
 
 export default function Home() {
@@ -12,12 +13,8 @@ export default function Home() {
 
   useEffect(() => {
     if (!loading && user) {
-      // Redirect to appropriate dashboard based on user role
-      if (user.role === 'ADMIN') {
-        router.push('/dashboard/admin')
-      } else {
-        router.push('/dashboard/employee')
-      }
+      // Redirect to appropriate dashboard based on user permissions
+      router.push(getDashboardRoute(user))
     }
   }, [loading, user, router])
 
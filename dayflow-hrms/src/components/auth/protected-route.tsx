@@ -3,11 +3,15 @@
 import { ReactNode } from 'react'
 import { useAuth } from '@/contexts/auth-context'
 import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { getUserPermissions } from '@/lib/permissions'
+import { Permission, Role } from '@/types'
 
 interface ProtectedRouteProps {
   children: ReactNode
-  allowedRoles?: ('EMPLOYEE' | 'ADMIN')[]
-  requiredRole?: 'EMPLOYEE' | 'ADMIN'
+  allowedRoles?: Role[]
+  requiredRole?: Role
+  // Checked against the permission set issued by the backend at login
+  requiredPermissions?: Permission[]
   fallback?: ReactNode
 }
 
@@ -15,6 +19,7 @@ export function ProtectedRoute({
   children, 
   allowedRoles,
   requiredRole, 
+  requiredPermissions,
   fallback 
 }: ProtectedRouteProps) {
   const { user, loading } = useAuth()
@@ -86,6 +91,29 @@ export function ProtectedRoute({
     }
   }
 
+  // Check permission-based access
+  const grantedPermissions = getUserPermissions(user)
+  const missingPermissions = (requiredPermissions || []).filter(
+    (permission) => !grantedPermissions.includes(permission)
+  )
+  if (missingPermissions.length > 0) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-foreground mb-4">
+            Insufficient Permissions
+          </h2>
+          <p className="text-muted-foreground">
+            You don&apos;t have permission to access this page.
+          </p>
+          <p className="text-sm text-muted-foreground mt-2">
+            Missing permission: {missingPermissions.join(', ')}
+          </p>
+        </div>
+      </div>
+    )
+  }
+
   // User is authenticated and has required permissions
   return <>{children}</>
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 'use client'
 
+import { usePathname, useRouter } from 'next/navigation'
 import { ErrorBoundary } from '@/components/ui/error-boundary'
 import { Sidebar } from './sidebar'
 import { Navbar } from './navbar'
@@ -8,6 +9,8 @@ import { LoadingSpinner } from '@/components/ui/loading-spinner'
 
 export function AppLayout({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth()
+  const pathname = usePathname()
+  const router = useRouter()
 
   if (loading) {
     return (
@@ -25,7 +28,7 @@ export function AppLayout({ children }: { children: React.ReactNode }) {
     <ErrorBoundary>
       <div className="min-h-screen bg-background">
         <div className="flex">
-          <Sidebar />
+          <Sidebar currentPath={pathname || undefined} onNavigate={(href) => router.push(href)} />
           <div className="flex-1 flex flex-col">
             <Navbar />
             <main className="flex-1 p-6">
@@ -1,4 +1,39 @@
-// Sidebar component - will be implemented in task 5
-export function Sidebar() {
-  return <div>Sidebar</div>
-}
\ No newline at end of file
+'use client'
+
+import { useAuth } from '@/contexts/auth-context'
+import { getNavigationItems } from '@/lib/permissions'
+import { cn } from '@/lib/utils'
+
+interface SidebarProps {
+  currentPath?: string
+  onNavigate?: (href: string) => void
+}
+
+// Navigation items are filtered by the permissions issued at login
+export function Sidebar({ currentPath, onNavigate }: SidebarProps) {
+  const { user } = useAuth()
+  const items = getNavigationItems(user)
+
+  return (
+    <aside className="w-64 min-h-screen border-r bg-card p-4">
+      <div className="mb-6 text-lg font-bold text-foreground">Dayflow HRMS</div>
+      <nav className="flex flex-col gap-1">
+        {items.map((item) => (
+          <button
+            key={item.href}
+            type="button"
+            onClick={() => onNavigate?.(item.href)}
+            className={cn(
+              'rounded-md px-3 py-2 text-left text-sm',
+              currentPath === item.href
+                ? 'bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:bg-muted'
+            )}
+          >
+            {item.label}
+          </button>
+        ))}
+      </nav>
+    </aside>
+  )
+}
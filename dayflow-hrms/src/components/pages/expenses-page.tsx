@@ -0,0 +1,202 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { AlertCircle, Paperclip, Wallet } from 'lucide-react'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { useToast } from '@/components/ui/toast'
+import { useAuth } from '@/contexts/auth-context'
+import { ExpenseCategoryLimit, ExpenseClaim, ExpenseClaimStatus } from '@/types'
+import { expenseService } from '@/services/data.service'
+
+const STATUS_COLORS: Record<ExpenseClaimStatus, string> = {
+  PENDING: 'text-yellow-600',
+  APPROVED: 'text-green-600',
+  REJECTED: 'text-red-600',
+  CANCELLED: 'text-muted-foreground',
+}
+
+export function ExpensesPage() {
+  const { user } = useAuth()
+  const { success, error: showError } = useToast()
+  const [claims, setClaims] = useState<ExpenseClaim[]>([])
+  const [limits, setLimits] = useState<ExpenseCategoryLimit[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [cancellingId, setCancellingId] = useState<string | null>(null)
+
+  const loadExpenseData = async () => {
+    const [claimList, limitList] = await Promise.all([
+      expenseService.getMyClaims(),
+      expenseService.getMyLimits(),
+    ])
+    setClaims(claimList)
+    setLimits(limitList)
+  }
+
+  useEffect(() => {
+    if (!user) return
+
+    setIsLoading(true)
+    setError(null)
+    loadExpenseData()
+      .catch((err) => {
+        setError('Failed to load expense claims. Please try again.')
+        console.error('Expense data loading error:', err)
+      })
+      .finally(() => setIsLoading(false))
+  }, [user])
+
+  const handleCancel = async (claim: ExpenseClaim) => {
+    setCancellingId(claim.id)
+    try {
+      await expenseService.cancelClaim(claim.id)
+      await loadExpenseData()
+      success('Claim Cancelled', `${claim.category.name} claim was cancelled`)
+    } catch (err) {
+      showError('Cancel Failed', err instanceof Error ? err.message : 'Failed to cancel the claim')
+    } finally {
+      setCancellingId(null)
+    }
+  }
+
+  // Approved claims show the payroll month they were, or will be, paid in
+  const getPayoutLabel = (claim: ExpenseClaim) => {
+    if (claim.status !== 'APPROVED') return '-'
+    if (!claim.payroll) return 'Next payroll'
+
+    const month = new Date(claim.payroll.month).toLocaleDateString('en-US', {
+      month: 'short',
+      year: 'numeric',
+    })
+    const isPaid = claim.payroll.run?.status === 'PAID'
+    return isPaid ? `Paid in ${month}` : `Payroll ${month}`
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <LoadingSpinner />
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[400px] space-y-4">
+        <AlertCircle className="h-12 w-12 text-destructive" />
+        <div className="text-center">
+          <h3 className="text-lg font-semibold text-foreground">Error Loading Expenses</h3>
+          <p className="text-muted-foreground">{error}</p>
+          <button
+            onClick={() => window.location.reload()}
+            className="mt-4 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Monthly Limits */}
+      <div className="bg-card border border-border rounded-lg p-6">
+        <h2 className="text-lg font-semibold text-card-foreground mb-4">Monthly Limits</h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {limits.map((limit) => (
+            <div key={limit.code} className="bg-white p-4 rounded-lg shadow border">
+              <div className="flex items-center">
+                <Wallet className="h-6 w-6 text-blue-600" />
+                <div className="ml-3">
+                  <p className="text-sm font-medium text-gray-600">{limit.name}</p>
+                  <p className="text-lg font-bold text-gray-900">
+                    {limit.remaining !== null ? `${limit.remaining} left` : 'No limit'}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {limit.used} claimed{limit.monthlyLimit !== null && ` of ${limit.monthlyLimit}`}
+                  </p>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Claims History */}
+      <div className="bg-card border border-border rounded-lg p-6">
+        <h2 className="text-lg font-semibold text-card-foreground mb-4">Claims History</h2>
+
+        <div className="bg-white rounded-lg shadow border overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Receipts</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payout</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {claims.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No expense claims yet
+                  </td>
+                </tr>
+              )}
+              {claims.map((claim) => (
+                <tr key={claim.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {new Date(claim.expenseDate).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {claim.category.name}
+                    {claim.description && (
+                      <p className="text-xs text-gray-400 truncate max-w-xs">{claim.description}</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {claim.currency} {claim.amount}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <span className="flex items-center">
+                      <Paperclip className="h-4 w-4 mr-1" />
+                      {claim.receipts.length}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span className={`capitalize ${STATUS_COLORS[claim.status]}`}>
+                      {claim.status.toLowerCase()}
+                    </span>
+                    {claim.rejectionReason && (
+                      <p className="text-xs text-gray-400">{claim.rejectionReason}</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {getPayoutLabel(claim)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    {claim.status === 'PENDING' && (
+                      <button
+                        onClick={() => handleCancel(claim)}
+                        disabled={cancellingId === claim.id}
+                        className="px-3 py-1 border border-gray-300 text-gray-700 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {cancellingId === claim.id ? 'Cancelling...' : 'Cancel'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -7,4 +7,5 @@ export * from './admin-dashboard'
 export * from './profile-page'
 export * from './attendance-page'
 export * from './leave-page'
-export * from './payroll-page'
\ No newline at end of file
+export * from './payroll-page'
+export * from './expenses-page'
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { Permission, User } from '@/types'
+
+export const ALL_PERMISSIONS: Permission[] = [
+  'profile:self',
+  'employees:read',
+  'employees:write',
+  'users:manage',
+  'roles:manage',
+  'attendance:self',
+  'attendance:team',
+  'attendance:read',
+  'attendance:override',
+  'attendance:manage',
+  'attendance:approve',
+  'leave:self',
+  'leave:team',
+  'leave:read',
+  'leave:approve',
+  'leave:manage',
+  'calendar:write',
+  'payroll:self',
+  'payroll:read',
+  'payroll:write',
+  'expense:self',
+  'expense:approve',
+  'scheduler:manage',
+]
+
+export interface NavigationItem {
+  label: string
+  href: string
+  // The item is shown when the user holds any of these
+  anyOf: Permission[]
+}
+
+export const NAVIGATION_ITEMS: NavigationItem[] = [
+  { label: 'Dashboard', href: '/dashboard', anyOf: ['profile:self'] },
+  { label: 'Profile', href: '/profile', anyOf: ['profile:self'] },
+  { label: 'Attendance', href: '/attendance', anyOf: ['attendance:self', 'attendance:read'] },
+  { label: 'Leave', href: '/leave', anyOf: ['leave:self', 'leave:approve'] },
+  { label: 'Payroll', href: '/payroll', anyOf: ['payroll:self', 'payroll:read'] },
+  { label: 'Expenses', href: '/expenses', anyOf: ['expense:self'] },
+  { label: 'Employees', href: '/employees', anyOf: ['employees:read'] },
+]
+
+// Sessions stored before permissions were issued only carry a role
+export function getUserPermissions(user: User | null): Permission[] {
+  if (!user) return []
+  if (user.permissions) return user.permissions
+  return user.role === 'ADMIN' ? ALL_PERMISSIONS : []
+}
+
+export function hasPermissions(user: User | null, required: Permission[]): boolean {
+  const granted = getUserPermissions(user)
+  return required.every((permission) => granted.includes(permission))
+}
+
+export function hasAnyPermission(user: User | null, candidates: Permission[]): boolean {
+  const granted = getUserPermissions(user)
+  return candidates.some((permission) => granted.includes(permission))
+}
+
+export function getNavigationItems(user: User | null): NavigationItem[] {
+  return NAVIGATION_ITEMS.filter((item) => hasAnyPermission(user, item.anyOf))
+}
+
+// Anyone who can manage or audit employees lands on the admin dashboard
+export function getDashboardRoute(user: User): string {
+  return hasPermissions(user, ['employees:read']) ? '/dashboard/admin' : '/dashboard/employee'
+}
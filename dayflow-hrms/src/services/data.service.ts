@@ -2,8 +2,12 @@ import {
   DataService,
   User,
   AttendanceRecord,
+  AttendanceStats,
+  AttendanceRegularization,
   LeaveRequest,
   PayrollData,
+  ExpenseClaim,
+  ExpenseCategoryLimit,
   LeaveService
 } from "@/types";
 import { apiService } from "./api.service";
@@ -55,6 +59,14 @@ export class BackendAttendanceService implements DataService<AttendanceRecord> {
     return apiService.post<AttendanceRecord>('/attendance/check-out');
   }
 
+  async startBreak(): Promise<AttendanceRecord> {
+    return apiService.post<AttendanceRecord>('/attendance/break/start');
+  }
+
+  async endBreak(): Promise<AttendanceRecord> {
+    return apiService.post<AttendanceRecord>('/attendance/break/end');
+  }
+
   async getTodayAttendance(): Promise<AttendanceRecord | null> {
     try {
       return await apiService.get<AttendanceRecord>('/attendance/today');
@@ -71,8 +83,30 @@ export class BackendAttendanceService implements DataService<AttendanceRecord> {
     return apiService.get<AttendanceRecord[]>(`/attendance/history?${params}`);
   }
 
-  async getAttendanceStats(month: string): Promise<any> {
-    return apiService.get(`/attendance/stats/${month}`);
+  async getAttendanceStats(month: string): Promise<AttendanceStats> {
+    return apiService.get<AttendanceStats>(`/attendance/stats/${month}`);
+  }
+
+  async requestRegularization(
+    date: string,
+    checkInTime: string,
+    checkOutTime: string,
+    reason: string
+  ): Promise<AttendanceRegularization> {
+    return apiService.post<AttendanceRegularization>('/regularizations/me', {
+      date,
+      checkInTime,
+      checkOutTime,
+      reason,
+    });
+  }
+
+  async getMyRegularizations(): Promise<AttendanceRegularization[]> {
+    return apiService.get<AttendanceRegularization[]>('/regularizations/me');
+  }
+
+  async cancelRegularization(id: string, reason?: string): Promise<AttendanceRegularization> {
+    return apiService.put<AttendanceRegularization>(`/regularizations/me/${id}/cancel`, { reason });
   }
 }
 
@@ -87,12 +121,26 @@ export class BackendPayrollService implements DataService<PayrollData> {
     return apiService.get<PayrollData>(`/payroll/${id}`);
   }
 
+  // Net salary, loss of pay and statutory amounts are calculated by the
+  // backend, so only the entered amounts are sent
   async create(item: Omit<PayrollData, 'id' | 'createdAt' | 'updatedAt'>): Promise<PayrollData> {
-    return apiService.post<PayrollData>(`/payroll/${item.employeeId}`, item);
+    const { baseSalary, allowances, deductions, effectiveDate } = item;
+    return apiService.post<PayrollData>(`/payroll/${item.employeeId}`, {
+      baseSalary,
+      allowances,
+      deductions,
+      effectiveDate,
+    });
   }
 
   async update(id: string, item: Partial<PayrollData>): Promise<PayrollData> {
-    return apiService.put<PayrollData>(`/payroll/${id}`, item);
+    const { baseSalary, allowances, deductions, effectiveDate } = item;
+    return apiService.put<PayrollData>(`/payroll/${id}`, {
+      baseSalary,
+      allowances,
+      deductions,
+      effectiveDate,
+    });
   }
 
   async delete(id: string): Promise<void> {
@@ -195,8 +243,26 @@ export class BackendLeaveService implements LeaveService {
   }
 }
 
+// Expense claims are submitted as multipart forms with their receipts, so
+// only the read and cancel endpoints go through here
+export class BackendExpenseService {
+  async getMyClaims(): Promise<ExpenseClaim[]> {
+    return apiService.get<ExpenseClaim[]>('/expenses/me');
+  }
+
+  async getMyLimits(month?: string): Promise<ExpenseCategoryLimit[]> {
+    const params = month ? `?month=${month}` : '';
+    return apiService.get<ExpenseCategoryLimit[]>(`/expenses/me/limits${params}`);
+  }
+
+  async cancelClaim(id: string, reason?: string): Promise<ExpenseClaim> {
+    return apiService.put<ExpenseClaim>(`/expenses/me/${id}/cancel`, { reason });
+  }
+}
+
 // Service instances - using backend services
 export const userService = new BackendUserService()
 export const attendanceService = new BackendAttendanceService()
 export const leaveService = new BackendLeaveService()
 export const payrollService = new BackendPayrollService()
+export const expenseService = new BackendExpenseService()
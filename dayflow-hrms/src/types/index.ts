@@ -1,11 +1,41 @@
 // Core type definitions for Dayflow HRMS
 
+export type Role = 'ADMIN' | 'EMPLOYEE' | 'HR' | 'PAYROLL_ADMIN' | 'MANAGER' | 'AUDITOR'
+
+// Mirrors the backend Permission enum
+export type Permission =
+  | 'profile:self'
+  | 'employees:read'
+  | 'employees:write'
+  | 'users:manage'
+  | 'roles:manage'
+  | 'attendance:self'
+  | 'attendance:team'
+  | 'attendance:read'
+  | 'attendance:override'
+  | 'attendance:manage'
+  | 'attendance:approve'
+  | 'leave:self'
+  | 'leave:team'
+  | 'leave:read'
+  | 'leave:approve'
+  | 'leave:manage'
+  | 'calendar:write'
+  | 'payroll:self'
+  | 'payroll:read'
+  | 'payroll:write'
+  | 'expense:self'
+  | 'expense:approve'
+  | 'scheduler:manage'
+
 export interface User {
   id: string
   email: string
   firstName: string
   lastName: string
-  role: 'ADMIN' | 'EMPLOYEE'
+  role: Role
+  roles?: Role[]
+  permissions?: Permission[]
   phone?: string
   address?: string
   profilePictureUrl?: string
@@ -22,6 +52,53 @@ export interface AttendanceRecord {
   checkOut?: Date
   status: 'PRESENT' | 'HALF_DAY' | 'ABSENT' | 'LEAVE'
   duration?: number
+  lateMinutes?: number
+  earlyLeaveMinutes?: number
+  overtimeMinutes?: number
+  overtimeStatus?: OvertimeStatus | null
+  approvedOvertimeMinutes?: number
+  punches?: AttendancePunch[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface AttendancePunch {
+  id: string
+  type: 'IN' | 'OUT' | 'BREAK_START' | 'BREAK_END'
+  punchedAt: string
+}
+
+export type OvertimeStatus = 'PENDING' | 'APPROVED' | 'REJECTED'
+
+export interface AttendanceStats {
+  present: number
+  absent: number
+  halfDay: number
+  leave: number
+  total: number
+  lateMarks: number
+  lateMinutes: number
+  lateMarkHalfDays: number
+  earlyLeaves: number
+  earlyLeaveMinutes: number
+  overtimeMinutes: number
+  pendingOvertimeMinutes: number
+  approvedOvertimeMinutes: number
+}
+
+export type RegularizationStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED'
+
+// A request to correct a past day's missed punches
+export interface AttendanceRegularization {
+  id: string
+  employeeId: string
+  date: string
+  checkInTime: string
+  checkOutTime: string
+  reason: string
+  currentStep: number
+  status: RegularizationStatus
+  rejectionReason?: string | null
   createdAt: Date
   updatedAt: Date
 }
@@ -39,16 +116,81 @@ export interface LeaveRequest {
   updatedAt: Date
 }
 
+// Amounts are decimal strings with 2 places (e.g. "77000.50") in the
+// record's currency; parse them only for display, never for arithmetic
+export type MoneyAmount = string
+
+export interface PayrollLineItem {
+  id: string
+  code: string
+  name: string
+  type: 'EARNING' | 'DEDUCTION'
+  amount: MoneyAmount
+  sortOrder: number
+}
+
 export interface PayrollData {
   id: string
   employeeId: string
-  salary: number
   month: string
-  year: number
+  currency: string
+  baseSalary: MoneyAmount
+  allowances: MoneyAmount
+  deductions: MoneyAmount
+  arrears: MoneyAmount
+  lossOfPayDays: string
+  lossOfPayAmount: MoneyAmount
+  statutoryDeductions: MoneyAmount
+  employerContributions: MoneyAmount
+  loanDeductions: MoneyAmount
+  reimbursements: MoneyAmount
+  overtimeMinutes: number
+  overtimePay: MoneyAmount
+  netSalary: MoneyAmount
+  effectiveDate: string
+  payableDays?: string | null
+  runId?: string | null
+  lineItems?: PayrollLineItem[]
   createdAt: Date
   updatedAt: Date
 }
 
+export type ExpenseClaimStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED'
+
+export interface ExpenseReceipt {
+  id: string
+  fileName: string
+  mimeType: string
+  size: number
+  createdAt: Date
+}
+
+export interface ExpenseClaim {
+  id: string
+  employeeId: string
+  category: { code: string; name: string }
+  amount: MoneyAmount
+  currency: string
+  expenseDate: string
+  description?: string | null
+  status: ExpenseClaimStatus
+  rejectionReason?: string | null
+  receipts: ExpenseReceipt[]
+  // Set once the claim is paid with a month's payroll
+  payroll?: { month: string; run: { status: string } | null } | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+// A null limit means the category is not capped
+export interface ExpenseCategoryLimit {
+  code: string
+  name: string
+  monthlyLimit: MoneyAmount | null
+  used: MoneyAmount
+  remaining: MoneyAmount | null
+}
+
 // Authentication types
 export interface LoginCredentials {
   email: string